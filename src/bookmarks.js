@@ -0,0 +1,716 @@
+// Bookmarks manager page script
+const folderTreeElement = document.getElementById('folder-tree');
+const bookmarksList = document.getElementById('bookmarks-list');
+const emptyState = document.getElementById('empty-state');
+const emptyTitle = document.getElementById('empty-title');
+const emptyDescription = document.getElementById('empty-description');
+const searchInput = document.getElementById('search-input');
+const newFolderBtn = document.getElementById('new-folder-btn');
+const importBtn = document.getElementById('import-btn');
+const exportBtn = document.getElementById('export-btn');
+const selectAllCheckbox = document.getElementById('select-all');
+const listTitle = document.getElementById('list-title');
+const deleteSelectedBtn = document.getElementById('delete-selected-btn');
+const statusMessage = document.getElementById('status-message');
+
+// Raiz: favoritos sem pasta, os mesmos da barra de favoritos
+const ROOT_NAME = 'Barra de favoritos';
+
+let folderTree = [];
+const foldersById = new Map();
+let selectedFolderId = null;
+const expandedFolderIds = new Set();
+let bookmarks = [];
+let searchQuery = '';
+// Favoritos marcados para excluir ou arrastar juntos
+const checkedIds = new Set();
+// Pasta com o nome em edição e favorito com título/URL em edição (a lista é redesenhada sem perder os campos)
+let renamingFolderId = null;
+let editingBookmarkId = null;
+// Favoritos sendo arrastados
+let draggedIds = [];
+let searchTimeout = null;
+
+const ICONS = {
+  folder: '<path d="M3 7a2 2 0 0 1 2-2h4l2 2h8a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z"/>',
+  star: '<path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z"/>',
+  globe: '<circle cx="12" cy="12" r="10"/><path d="M2 12h20M12 2a15 15 0 0 1 0 20M12 2a15 15 0 0 0 0 20"/>',
+  edit: '<path d="M12 20h9"/><path d="M16.5 3.5a2.1 2.1 0 0 1 3 3L7 19l-4 1 1-4z"/>',
+  trash: '<path d="M3 6h18M8 6V4h8v2M19 6l-1 14H6L5 6"/>',
+  add: '<path d="M12 5v14M5 12h14"/>'
+};
+
+// Mensagem do main process: "Error invoking remote method '...': Error: <mensagem>"
+function getErrorMessage(error) {
+  return error instanceof Error ? error.message.replace(/^.*Error: /, '') : String(error);
+}
+
+function showStatus(message, isError = false) {
+  statusMessage.textContent = message;
+  statusMessage.classList.toggle('error', isError);
+  statusMessage.classList.remove('hidden');
+}
+
+function hideStatus() {
+  statusMessage.classList.add('hidden');
+}
+
+function formatCount(count, singular, plural) {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+function createIcon(name, size = 16, className = '') {
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  svg.setAttribute('width', String(size));
+  svg.setAttribute('height', String(size));
+  svg.setAttribute('viewBox', '0 0 24 24');
+  svg.setAttribute('fill', 'none');
+  svg.setAttribute('stroke', 'currentColor');
+  svg.setAttribute('stroke-width', '2');
+  if (className) svg.setAttribute('class', className);
+  svg.innerHTML = ICONS[name];
+  return svg;
+}
+
+function createIconButton(icon, title, onClick, className = '') {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = `icon-btn ${className}`.trim();
+  button.title = title;
+  button.appendChild(createIcon(icon, 14));
+  button.addEventListener('click', (e) => {
+    e.stopPropagation();
+    onClick();
+  });
+  return button;
+}
+
+function createButton(label, className, onClick) {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = className;
+  button.textContent = label;
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+// ========================================
+// PASTAS
+// ========================================
+
+// Carrega a árvore nível a nível (ignora ciclos de parent_id, se houver)
+async function loadFolderLevel(parentId, visited) {
+  const folders = await window.heraAPI.getBookmarkFolders(parentId);
+  const nodes = [];
+  for (const folder of folders) {
+    if (visited.has(folder.id)) continue;
+    visited.add(folder.id);
+    nodes.push({ ...folder, children: await loadFolderLevel(folder.id, visited) });
+  }
+  return nodes;
+}
+
+async function loadFolders() {
+  try {
+    folderTree = await loadFolderLevel(undefined, new Set());
+  } catch (error) {
+    console.error('Erro ao carregar pastas:', error);
+    folderTree = [];
+  }
+
+  foldersById.clear();
+  const index = (nodes) => nodes.forEach((node) => {
+    foldersById.set(node.id, node);
+    index(node.children);
+  });
+  index(folderTree);
+
+  // Pasta selecionada removida (aqui ou em outra aba): volta para a raiz
+  if (selectedFolderId && !foldersById.has(selectedFolderId)) {
+    selectedFolderId = null;
+  }
+}
+
+function getFolderName(folderId) {
+  return folderId ? foldersById.get(folderId)?.name ?? ROOT_NAME : ROOT_NAME;
+}
+
+// Caminho da pasta para os resultados da busca (ex: "Trabalho / Projetos")
+function getFolderPath(folderId) {
+  const names = [];
+  let current = folderId ? foldersById.get(folderId) : null;
+  while (current && names.length < 20) {
+    names.unshift(current.name);
+    current = current.parent_id ? foldersById.get(current.parent_id) : null;
+  }
+  return names.length > 0 ? names.join(' / ') : ROOT_NAME;
+}
+
+function isInsideFolder(folderId, ancestorId) {
+  let current = folderId ? foldersById.get(folderId) : null;
+  while (current) {
+    if (current.id === ancestorId) return true;
+    current = current.parent_id ? foldersById.get(current.parent_id) : null;
+  }
+  return false;
+}
+
+function createFolderNameEditor(folder) {
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'inline-input';
+  input.value = folder.name;
+  input.maxLength = 100;
+
+  let finished = false;
+  const finish = async (save) => {
+    if (finished) return;
+    finished = true;
+    renamingFolderId = null;
+
+    const name = input.value.trim();
+    if (save && name && name !== folder.name) {
+      try {
+        await window.heraAPI.renameBookmarkFolder(folder.id, name);
+      } catch (error) {
+        showStatus(`Erro ao renomear pasta: ${getErrorMessage(error)}`, true);
+      }
+    }
+    await refresh();
+  };
+
+  input.addEventListener('click', (e) => e.stopPropagation());
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      finish(true);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      finish(false);
+    }
+  });
+  input.addEventListener('blur', () => finish(true));
+  return input;
+}
+
+// Pastas também recebem favoritos arrastados da lista
+function setupFolderDropTarget(row, folderId) {
+  row.addEventListener('dragover', (e) => {
+    if (draggedIds.length === 0) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    row.classList.add('drop-target');
+  });
+  row.addEventListener('dragleave', () => row.classList.remove('drop-target'));
+  row.addEventListener('drop', (e) => {
+    e.preventDefault();
+    row.classList.remove('drop-target');
+    moveToFolder(draggedIds, folderId);
+  });
+}
+
+function createFolderRow(folder, depth) {
+  const folderId = folder ? folder.id : null;
+  const row = document.createElement('div');
+  row.className = 'folder-row';
+  row.classList.toggle('selected', !searchQuery && folderId === selectedFolderId);
+
+  const hasChildren = folder ? folder.children.length > 0 : folderTree.length > 0;
+  const isExpanded = !folder || expandedFolderIds.has(folder.id);
+  const toggle = document.createElement('button');
+  toggle.type = 'button';
+  toggle.className = 'folder-toggle';
+  toggle.textContent = '▶';
+  toggle.classList.toggle('expanded', hasChildren && isExpanded);
+  toggle.classList.toggle('empty', !hasChildren || !folder);
+  toggle.addEventListener('click', (e) => {
+    e.stopPropagation();
+    if (!folder) return;
+    if (expandedFolderIds.has(folder.id)) {
+      expandedFolderIds.delete(folder.id);
+    } else {
+      expandedFolderIds.add(folder.id);
+    }
+    renderFolderTree();
+  });
+  row.appendChild(toggle);
+
+  row.appendChild(createIcon(folder ? 'folder' : 'star', 16, 'folder-icon'));
+
+  if (folder && folder.id === renamingFolderId) {
+    row.appendChild(createFolderNameEditor(folder));
+  } else {
+    // Nomes vêm do usuário ou de arquivos importados: sempre como texto, nunca como HTML
+    const name = document.createElement('span');
+    name.className = 'folder-name';
+    name.textContent = folder ? folder.name : ROOT_NAME;
+    row.appendChild(name);
+  }
+
+  const actions = document.createElement('div');
+  actions.className = 'folder-actions';
+  actions.appendChild(createIconButton('add', 'Nova subpasta', () => createFolder(folderId)));
+  if (folder) {
+    actions.appendChild(createIconButton('edit', 'Renomear pasta', () => startFolderRename(folder.id)));
+    actions.appendChild(createIconButton('trash', 'Excluir pasta', () => deleteFolder(folder), 'danger'));
+  }
+  row.appendChild(actions);
+
+  row.style.marginLeft = `${depth * 16}px`;
+  row.addEventListener('click', () => selectFolder(folderId));
+  if (folder) {
+    row.addEventListener('dblclick', () => startFolderRename(folder.id));
+  }
+  setupFolderDropTarget(row, folderId);
+  return row;
+}
+
+function renderFolderNodes(nodes, depth) {
+  nodes.forEach((folder) => {
+    folderTreeElement.appendChild(createFolderRow(folder, depth));
+    if (expandedFolderIds.has(folder.id)) {
+      renderFolderNodes(folder.children, depth + 1);
+    }
+  });
+}
+
+function renderFolderTree() {
+  folderTreeElement.innerHTML = '';
+  folderTreeElement.appendChild(createFolderRow(null, 0));
+  renderFolderNodes(folderTree, 1);
+  folderTreeElement.querySelector('.inline-input')?.focus();
+}
+
+async function selectFolder(folderId) {
+  selectedFolderId = folderId;
+  // Abrir uma pasta sai da busca e mostra o caminho até ela
+  searchQuery = '';
+  searchInput.value = '';
+  let current = folderId ? foldersById.get(folderId) : null;
+  while (current?.parent_id) {
+    expandedFolderIds.add(current.parent_id);
+    current = foldersById.get(current.parent_id);
+  }
+  checkedIds.clear();
+  editingBookmarkId = null;
+  await loadBookmarks();
+  render();
+}
+
+function startFolderRename(folderId) {
+  renamingFolderId = folderId;
+  renderFolderTree();
+  folderTreeElement.querySelector('.inline-input')?.select();
+}
+
+async function createFolder(parentId) {
+  try {
+    const folder = await window.heraAPI.createBookmarkFolder('Nova pasta', parentId ?? undefined);
+    if (parentId) {
+      expandedFolderIds.add(parentId);
+    }
+    await loadFolders();
+    startFolderRename(folder.id);
+  } catch (error) {
+    showStatus(`Erro ao criar pasta: ${getErrorMessage(error)}`, true);
+  }
+}
+
+async function deleteFolder(folder) {
+  const message = folder.children.length > 0
+    ? `Excluir a pasta "${folder.name}" com as subpastas e todos os favoritos dentro delas?`
+    : `Excluir a pasta "${folder.name}" e os favoritos dentro dela?`;
+  if (!confirm(message)) {
+    return;
+  }
+
+  try {
+    await window.heraAPI.deleteBookmarkFolder(folder.id);
+    if (selectedFolderId === folder.id || isInsideFolder(selectedFolderId, folder.id)) {
+      selectedFolderId = folder.parent_id ?? null;
+    }
+    hideStatus();
+    await refresh();
+  } catch (error) {
+    showStatus(`Erro ao excluir pasta: ${getErrorMessage(error)}`, true);
+  }
+}
+
+// ========================================
+// FAVORITOS
+// ========================================
+
+async function loadBookmarks() {
+  try {
+    bookmarks = searchQuery
+      ? await window.heraAPI.searchBookmarks(searchQuery)
+      : await window.heraAPI.getBookmarks(selectedFolderId ?? undefined);
+  } catch (error) {
+    console.error('Erro ao carregar favoritos:', error);
+    bookmarks = [];
+  }
+  // Separadores (sem URL) não aparecem no gerenciador
+  bookmarks = bookmarks.filter((bookmark) => bookmark.url);
+
+  const visibleIds = new Set(bookmarks.map((bookmark) => bookmark.id));
+  Array.from(checkedIds).forEach((id) => {
+    if (!visibleIds.has(id)) checkedIds.delete(id);
+  });
+}
+
+function createFavicon(bookmark) {
+  const placeholder = createIcon('globe', 16, 'bookmark-favicon-placeholder');
+  if (!bookmark.favicon) {
+    return placeholder;
+  }
+
+  const img = document.createElement('img');
+  img.className = 'bookmark-favicon';
+  img.alt = '';
+  img.src = bookmark.favicon;
+  img.onerror = () => img.replaceWith(placeholder);
+  return img;
+}
+
+function createBookmarkEditor(bookmark) {
+  const editor = document.createElement('form');
+  editor.className = 'bookmark-editor';
+
+  const titleInput = document.createElement('input');
+  titleInput.type = 'text';
+  titleInput.className = 'inline-input';
+  titleInput.value = bookmark.title;
+  titleInput.placeholder = 'Título';
+  titleInput.maxLength = 500;
+
+  const urlInput = document.createElement('input');
+  urlInput.type = 'text';
+  urlInput.className = 'inline-input';
+  urlInput.value = bookmark.url;
+  urlInput.placeholder = 'URL';
+  urlInput.maxLength = 2048;
+
+  const actions = document.createElement('div');
+  actions.className = 'bookmark-editor-actions';
+  const cancel = createButton('Cancelar', 'btn-secondary', () => {
+    editingBookmarkId = null;
+    renderBookmarks();
+  });
+  const save = document.createElement('button');
+  save.type = 'submit';
+  save.className = 'btn-primary';
+  save.textContent = 'Salvar';
+  actions.appendChild(save);
+  actions.appendChild(cancel);
+
+  editor.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    const changes = {};
+    const title = titleInput.value.trim();
+    const url = urlInput.value.trim();
+    if (title !== bookmark.title) changes.title = title;
+    if (url !== bookmark.url) changes.url = url;
+
+    if (Object.keys(changes).length > 0) {
+      try {
+        await window.heraAPI.updateBookmark(bookmark.id, changes);
+      } catch (error) {
+        showStatus(`Erro ao salvar favorito: ${getErrorMessage(error)}`, true);
+        return;
+      }
+    }
+    editingBookmarkId = null;
+    hideStatus();
+    await refresh();
+  });
+  editor.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      editingBookmarkId = null;
+      renderBookmarks();
+    }
+  });
+
+  editor.appendChild(titleInput);
+  editor.appendChild(urlInput);
+  editor.appendChild(actions);
+  return editor;
+}
+
+function clearDropIndicators() {
+  bookmarksList.querySelectorAll('.drop-before, .drop-after').forEach((item) => {
+    item.classList.remove('drop-before', 'drop-after');
+  });
+}
+
+// Antes ou depois do item, pela metade em que o cursor está
+function isDropAfter(item, e) {
+  const rect = item.getBoundingClientRect();
+  return e.clientY > rect.top + rect.height / 2;
+}
+
+function setupBookmarkDrag(item, bookmark) {
+  item.draggable = true;
+  item.addEventListener('dragstart', (e) => {
+    // Arrastar um favorito marcado leva todos os marcados, na ordem da lista
+    draggedIds = checkedIds.has(bookmark.id)
+      ? bookmarks.filter((other) => checkedIds.has(other.id)).map((other) => other.id)
+      : [bookmark.id];
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', bookmark.url);
+    item.classList.add('dragging');
+  });
+  item.addEventListener('dragend', () => {
+    draggedIds = [];
+    item.classList.remove('dragging');
+    clearDropIndicators();
+  });
+
+  // Na busca os resultados vêm de várias pastas: só dá para soltar nas pastas da árvore
+  if (searchQuery) return;
+
+  item.addEventListener('dragover', (e) => {
+    if (draggedIds.length === 0 || draggedIds.includes(bookmark.id)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    clearDropIndicators();
+    item.classList.add(isDropAfter(item, e) ? 'drop-after' : 'drop-before');
+  });
+  item.addEventListener('dragleave', () => item.classList.remove('drop-before', 'drop-after'));
+  item.addEventListener('drop', (e) => {
+    e.preventDefault();
+    const after = isDropAfter(item, e);
+    clearDropIndicators();
+    if (draggedIds.includes(bookmark.id)) return;
+
+    const remaining = bookmarks.filter((other) => !draggedIds.includes(other.id));
+    const position = remaining.findIndex((other) => other.id === bookmark.id) + (after ? 1 : 0);
+    moveBookmarks(draggedIds, selectedFolderId, position);
+  });
+}
+
+function createBookmarkItem(bookmark) {
+  const item = document.createElement('div');
+  item.className = 'bookmark-item';
+  item.classList.toggle('selected', checkedIds.has(bookmark.id));
+
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.title = 'Selecionar';
+  checkbox.checked = checkedIds.has(bookmark.id);
+  checkbox.addEventListener('change', () => {
+    if (checkbox.checked) {
+      checkedIds.add(bookmark.id);
+    } else {
+      checkedIds.delete(bookmark.id);
+    }
+    item.classList.toggle('selected', checkbox.checked);
+    updateBulkActions();
+  });
+  item.appendChild(checkbox);
+  item.appendChild(createFavicon(bookmark));
+
+  if (bookmark.id === editingBookmarkId) {
+    item.appendChild(createBookmarkEditor(bookmark));
+    return item;
+  }
+
+  // Títulos vêm das páginas favoritadas: sempre como texto, nunca como HTML
+  const info = document.createElement('div');
+  info.className = 'bookmark-info';
+  info.title = 'Abrir em nova aba';
+  const title = document.createElement('div');
+  title.className = 'bookmark-title';
+  title.textContent = bookmark.title || bookmark.url;
+  const url = document.createElement('div');
+  url.className = 'bookmark-url';
+  url.textContent = bookmark.url;
+  info.appendChild(title);
+  info.appendChild(url);
+  info.addEventListener('click', () => window.heraAPI.createNewTab(bookmark.url));
+  item.appendChild(info);
+
+  if (searchQuery) {
+    const badge = document.createElement('span');
+    badge.className = 'bookmark-folder-badge';
+    badge.textContent = getFolderPath(bookmark.folder_id);
+    item.appendChild(badge);
+  }
+
+  const actions = document.createElement('div');
+  actions.className = 'bookmark-actions';
+  actions.appendChild(createIconButton('edit', 'Editar', () => startBookmarkEdit(bookmark.id)));
+  actions.appendChild(createIconButton('trash', 'Excluir', () => deleteBookmarks([bookmark.id]), 'danger'));
+  item.appendChild(actions);
+
+  setupBookmarkDrag(item, bookmark);
+  return item;
+}
+
+function updateBulkActions() {
+  const checkedCount = bookmarks.filter((bookmark) => checkedIds.has(bookmark.id)).length;
+  selectAllCheckbox.disabled = bookmarks.length === 0;
+  selectAllCheckbox.checked = bookmarks.length > 0 && checkedCount === bookmarks.length;
+  selectAllCheckbox.indeterminate = checkedCount > 0 && checkedCount < bookmarks.length;
+
+  deleteSelectedBtn.disabled = checkedCount === 0;
+  deleteSelectedBtn.textContent = checkedCount > 0 ? `Excluir ${formatCount(checkedCount, 'selecionado', 'selecionados')}` : 'Excluir selecionados';
+}
+
+function renderBookmarks() {
+  bookmarksList.innerHTML = '';
+  listTitle.textContent = searchQuery
+    ? `${formatCount(bookmarks.length, 'resultado', 'resultados')} para "${searchQuery}"`
+    : getFolderName(selectedFolderId);
+
+  bookmarks.forEach((bookmark) => bookmarksList.appendChild(createBookmarkItem(bookmark)));
+
+  emptyState.classList.toggle('hidden', bookmarks.length > 0);
+  emptyTitle.textContent = searchQuery ? 'Nenhum favorito encontrado' : 'Nenhum favorito nesta pasta';
+  emptyDescription.textContent = searchQuery
+    ? 'Tente buscar por outra parte do título ou do endereço'
+    : 'Arraste favoritos para cá ou use a estrela na barra de endereços';
+  updateBulkActions();
+
+  bookmarksList.querySelector('.inline-input')?.focus();
+}
+
+function render() {
+  renderFolderTree();
+  renderBookmarks();
+}
+
+function startBookmarkEdit(id) {
+  editingBookmarkId = id;
+  renderBookmarks();
+}
+
+async function deleteBookmarks(ids) {
+  if (ids.length > 1 && !confirm(`Excluir ${formatCount(ids.length, 'favorito', 'favoritos')}?`)) {
+    return;
+  }
+
+  try {
+    await Promise.all(ids.map((id) => window.heraAPI.removeBookmark(id)));
+    ids.forEach((id) => checkedIds.delete(id));
+    hideStatus();
+  } catch (error) {
+    showStatus(`Erro ao excluir favoritos: ${getErrorMessage(error)}`, true);
+  }
+  await refresh();
+}
+
+// Um de cada vez, para cada favorito ocupar a posição seguinte ao anterior
+async function moveBookmarks(ids, folderId, position) {
+  let moved = false;
+  try {
+    for (let i = 0; i < ids.length; i++) {
+      await window.heraAPI.moveBookmark(ids[i], folderId, position + i);
+    }
+    hideStatus();
+    moved = true;
+  } catch (error) {
+    showStatus(`Erro ao mover favoritos: ${getErrorMessage(error)}`, true);
+  }
+  await refresh();
+  return moved;
+}
+
+// Soltos numa pasta da árvore: vão para o fim dela
+async function moveToFolder(ids, folderId) {
+  if (ids.length === 0) return;
+  try {
+    const target = await window.heraAPI.getBookmarks(folderId ?? undefined);
+    const position = target.filter((bookmark) => !ids.includes(bookmark.id)).length;
+    const moved = await moveBookmarks(ids, folderId, position);
+    if (moved && (folderId !== selectedFolderId || searchQuery)) {
+      showStatus(`${formatCount(ids.length, 'favorito movido', 'favoritos movidos')} para "${getFolderName(folderId)}"`);
+    }
+  } catch (error) {
+    showStatus(`Erro ao mover favoritos: ${getErrorMessage(error)}`, true);
+  }
+}
+
+function describeImport(result) {
+  const parts = [formatCount(result.bookmarks, 'favorito importado', 'favoritos importados')];
+  if (result.folders > 0) parts.push(formatCount(result.folders, 'pasta criada', 'pastas criadas'));
+  if (result.duplicates > 0) parts.push(formatCount(result.duplicates, 'repetido ignorado', 'repetidos ignorados'));
+  if (result.skipped > 0) parts.push(formatCount(result.skipped, 'endereço não suportado', 'endereços não suportados'));
+  return parts.join(' · ');
+}
+
+async function importBookmarks() {
+  importBtn.disabled = true;
+  try {
+    const result = await window.heraAPI.importBookmarksHtml();
+    if (result) {
+      showStatus(describeImport(result));
+    }
+  } catch (error) {
+    showStatus(`Erro ao importar favoritos: ${getErrorMessage(error)}`, true);
+  } finally {
+    importBtn.disabled = false;
+  }
+}
+
+async function exportBookmarks() {
+  try {
+    if (await window.heraAPI.exportBookmarksHtml()) {
+      showStatus('Favoritos exportados');
+    }
+  } catch (error) {
+    showStatus(`Erro ao exportar favoritos: ${getErrorMessage(error)}`, true);
+  }
+}
+
+async function refresh() {
+  await loadFolders();
+  await loadBookmarks();
+  render();
+}
+
+searchInput.addEventListener('input', () => {
+  clearTimeout(searchTimeout);
+  searchTimeout = setTimeout(async () => {
+    searchQuery = searchInput.value.trim();
+    editingBookmarkId = null;
+    await loadBookmarks();
+    render();
+  }, 200);
+});
+
+searchInput.addEventListener('keydown', (e) => {
+  if (e.key === 'Escape' && searchInput.value) {
+    e.preventDefault();
+    searchInput.value = '';
+    searchInput.dispatchEvent(new Event('input'));
+  }
+});
+
+newFolderBtn.addEventListener('click', () => createFolder(searchQuery ? null : selectedFolderId));
+importBtn.addEventListener('click', importBookmarks);
+exportBtn.addEventListener('click', exportBookmarks);
+
+selectAllCheckbox.addEventListener('change', () => {
+  bookmarks.forEach((bookmark) => {
+    if (selectAllCheckbox.checked) {
+      checkedIds.add(bookmark.id);
+    } else {
+      checkedIds.delete(bookmark.id);
+    }
+  });
+  renderBookmarks();
+});
+
+deleteSelectedBtn.addEventListener('click', () => {
+  deleteBookmarks(bookmarks.filter((bookmark) => checkedIds.has(bookmark.id)).map((bookmark) => bookmark.id));
+});
+
+// Favoritos alterados pela barra de favoritos, pela estrela ou em outra aba
+window.heraAPI.on('bookmarks-changed', () => {
+  if (!renamingFolderId && !editingBookmarkId && draggedIds.length === 0) {
+    refresh();
+  }
+});
+
+refresh();
@@ -3,6 +3,8 @@
  * Centraliza magic numbers e valores de configuração
  */
 
+import type { VisitTransition, TabGroupColor } from './types';
+
 // UI Heights (pixels)
 export const TAB_BAR_HEIGHT = 40;
 export const NAV_BAR_HEIGHT = 50;
@@ -11,6 +13,7 @@ export const FIND_BAR_HEIGHT = 50;
 
 // Timing (milliseconds)
 export const FIND_DEBOUNCE_MS = 150;
+export const HISTORY_SEARCH_DEBOUNCE_MS = 200;
 export const TAB_SWITCH_DELAY_MS = 50;
 export const DOWNLOAD_PANEL_AUTO_CLOSE_MS = 3000;
 export const DATABASE_RETRY_DELAY_MS = 1000;
@@ -19,8 +22,106 @@ export const FAVORITES_RETRY_DELAY_MS = 200;
 // Limits
 export const MAX_TAB_ID_LENGTH = 100;
 export const MAX_HISTORY_ENTRIES = 1000;
+export const HISTORY_SEARCH_PAGE_SIZE = 50;
+export const HISTORY_SEARCH_MAX_LIMIT = 500;
 export const MAX_DOWNLOAD_RETRIES = 2;
 export const MAX_FAVORITES_RETRIES = 2;
+export const OMNIBOX_MAX_SUGGESTIONS = 8;
+export const OMNIBOX_MAX_HEIGHT = 450;
+export const OMNIBOX_MAX_QUERY_LENGTH = 500;
+export const OMNIBOX_HISTORY_CANDIDATES = 200;
+export const TAB_SEARCH_MAX_RESULTS = 50;
+export const TAB_SEARCH_CLOSED_LIMIT = 10;
+export const TAB_SEARCH_MAX_QUERY_LENGTH = 200;
+export const TAB_SEARCH_WIDTH = 560;
+export const TAB_SEARCH_MAX_HEIGHT = 480;
+
+// Frecency (ranking do omnibox: quantidade de visitas ponderada pela recência)
+export const FRECENCY_VISIT_SAMPLE_SIZE = 10;
+export const FRECENCY_RECENCY_BUCKETS: ReadonlyArray<{ maxAgeDays: number; weight: number }> = [
+  { maxAgeDays: 4, weight: 100 },
+  { maxAgeDays: 14, weight: 70 },
+  { maxAgeDays: 31, weight: 50 },
+  { maxAgeDays: 90, weight: 30 },
+  { maxAgeDays: Infinity, weight: 10 }
+];
+export const FRECENCY_TRANSITION_BONUS: Readonly<Record<VisitTransition, number>> = {
+  typed: 2,
+  link: 1,
+  form_submit: 0.5,
+  restored: 0.5,
+  redirect: 0.25,
+  reload: 0
+};
+export const FRECENCY_BOOKMARK_SCORE = 140;
+
+// Abas fechadas recentemente
+export const CLOSED_TABS_MAX = 25;
+export const CLOSED_TAB_MAX_NAVIGATION_ENTRIES = 50;
+
+// Economia de memória (descarte de abas inativas)
+export const MEMORY_SAVER_CHECK_INTERVAL_MS = 60 * 1000;
+export const MEMORY_SAVER_DEFAULT_IDLE_MINUTES = 30;
+export const MEMORY_SAVER_DEFAULT_THRESHOLD_MB = 2048;
+
+// Grupos de abas (a ordem define a cor sugerida para cada novo grupo)
+export const TAB_GROUP_MAX_NAME_LENGTH = 50;
+export const TAB_GROUP_COLORS: Readonly<Record<TabGroupColor, { label: string; hex: string }>> = {
+  grey: { label: 'Cinza', hex: '#9aa0a6' },
+  blue: { label: 'Azul', hex: '#4d8dff' },
+  red: { label: 'Vermelho', hex: '#ff5c5c' },
+  yellow: { label: 'Amarelo', hex: '#f5c542' },
+  green: { label: 'Verde', hex: '#3ecf8e' },
+  pink: { label: 'Rosa', hex: '#ff6fb5' },
+  purple: { label: 'Roxo', hex: '#7b4dff' },
+  cyan: { label: 'Ciano', hex: '#2fd4e6' },
+  orange: { label: 'Laranja', hex: '#ff9447' }
+};
+
+// Navegação privada (partition sem o prefixo "persist:" fica só em memória)
+export const PRIVATE_PARTITION = 'private-web-content';
+
+// Contêineres: cada um tem sua partition persistente (prefixo + ID do contêiner)
+export const CONTAINER_PARTITION_PREFIX = 'persist:container-';
+
+// Sessões nomeadas (conjuntos de abas salvos, exportados e importados como JSON)
+export const SESSION_MAX_NAME_LENGTH = 100;
+export const SESSION_MAX_TABS = 2000;
+export const SESSION_EXPORT_FORMAT = 'hera-session';
+export const SESSION_EXPORT_VERSION = 1;
+export const SESSION_IMPORT_MAX_BYTES = 20 * 1024 * 1024;
+
+// Favoritos (gerenciados em hera://bookmarks)
+export const BOOKMARK_MAX_TITLE_LENGTH = 500;
+export const BOOKMARK_MAX_URL_LENGTH = 2048;
+export const BOOKMARK_FOLDER_MAX_NAME_LENGTH = 100;
+export const BOOKMARK_IMPORT_MAX_BYTES = 20 * 1024 * 1024;
+export const BOOKMARK_IMPORT_MAX_DEPTH = 50;
+export const BOOKMARK_MAX_ICON_LENGTH = 64 * 1024;
+
+// Importação de perfis do Chrome e do Firefox (hera://settings)
+export const BROWSER_IMPORT_CHUNK_SIZE = 1000;
+
+// Salvamento automático da sessão (espera as mudanças pararem antes de gravar)
+export const SESSION_AUTOSAVE_DELAY_MS = 2000;
+
+// Endereço antigo da página de aba travada (hoje carregada do disco); sessões salvas ainda podem trazê-lo
+export const SAD_TAB_URL = 'hera://sad-tab';
+
+// Permissões concedidas aos sites (contêineres podem conceder apenas parte delas)
+export const WEB_PERMISSIONS: readonly string[] = [
+  'media',
+  'mediaKeySystem',
+  'geolocation',
+  'notifications',
+  'midi',
+  'midiSysex',
+  'pointerLock',
+  'fullscreen',
+  'openExternal',
+  'clipboard-read',
+  'clipboard-sanitized-write'
+];
 
 // Regex Patterns
 export const TAB_ID_PATTERN = /^[a-zA-Z0-9-]+$/;
@@ -30,3 +131,15 @@ export const URL_PATTERN = /^https?:\/\/.+/;
 export const DEFAULT_SEARCH_ENGINE = 'google';
 export const DEFAULT_THEME = 'dark';
 export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
+
+// Tela dividida (fração da primeira aba limitada para nenhuma das duas sumir)
+export const SPLIT_VIEW_DIVIDER_SIZE = 6;
+export const SPLIT_VIEW_DEFAULT_RATIO = 0.5;
+export const SPLIT_VIEW_MIN_RATIO = 0.2;
+export const SPLIT_VIEW_MAX_RATIO = 0.8;
+
+// Abas na barra lateral (largura ajustável; a árvore de abas recua cada nível)
+export const VERTICAL_TABS_DEFAULT_WIDTH = 240;
+export const VERTICAL_TABS_MIN_WIDTH = 160;
+export const VERTICAL_TABS_MAX_WIDTH = 480;
+export const TAB_TREE_MAX_DEPTH = 8;
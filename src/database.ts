@@ -16,13 +16,391 @@ if (typeof __webpack_require__ !== 'undefined' && !__webpack_require__.ab) {
 import BetterSqlite3 from 'better-sqlite3';
 
 // Types
-import type { HistoryEntry, Bookmark, BookmarkFolder, TabState } from './types';
-import { validateBookmarks, validateHistoryEntries } from './types/guards';
-import type { TableColumnInfo, HistoryRow, BookmarkRow, DownloadRow, TabStateRow, BookmarkFolderRow } from './types/database-internal.types';
+import type { HistoryEntry, HistorySearchOptions, HistorySearchResult, VisitEntry, VisitTransition, InlineCompletion, SearchEngine, SearchEngineInput, TabNavigationEntry, ClosedTab, ClosedTabState, Bookmark, BookmarkFolder, BookmarkInput, BookmarkTreeNode, BookmarkImportResult, ImportedHistoryEntry, TabState, TabGroup, TabGroupColor, WindowState, Container, ContainerInput, SessionSnapshot, NamedSession, NamedSessionState } from './types';
+import { validateBookmarks, validateHistoryEntries, isSessionSnapshot } from './types/guards';
+import type { TableColumnInfo, HistoryRow, HistorySearchRow, VisitRow, SearchEngineRow, ClosedTabRow, BookmarkRow, DownloadRow, TabStateRow, TabGroupRow, WindowStateRow, ContainerRow, SessionRow, BookmarkFolderRow } from './types/database-internal.types';
+import {
+  HISTORY_SEARCH_PAGE_SIZE,
+  HISTORY_SEARCH_MAX_LIMIT,
+  OMNIBOX_MAX_SUGGESTIONS,
+  OMNIBOX_HISTORY_CANDIDATES,
+  FRECENCY_VISIT_SAMPLE_SIZE,
+  FRECENCY_RECENCY_BUCKETS,
+  FRECENCY_TRANSITION_BONUS,
+  DEFAULT_SEARCH_ENGINE,
+  CLOSED_TABS_MAX,
+  TAB_GROUP_COLORS
+} from './constants';
 import Database from 'better-sqlite3';
 
 let db: BetterSqlite3.Database | null = null;
 
+// ========================================
+// MIGRAÇÕES DE ESQUEMA
+// ========================================
+
+/**
+ * Passo de migração do esquema do banco
+ *
+ * A versão aplicada fica registrada em `PRAGMA user_version`.
+ * Migrações já publicadas nunca devem ser editadas: toda mudança de
+ * esquema entra como um novo passo no fim da lista.
+ */
+interface Migration {
+  /** Versão do esquema após aplicar o passo (sequencial, começando em 1) */
+  version: number;
+  /** Descrição curta usada nos logs e mensagens de erro */
+  description: string;
+  /** Aplica a mudança (executado dentro de uma transação) */
+  up: (database: BetterSqlite3.Database) => void;
+}
+
+/**
+ * Verifica se uma coluna existe em uma tabela
+ */
+const hasColumn = (database: BetterSqlite3.Database, table: string, column: string): boolean => {
+  const tableInfo = database.prepare(`PRAGMA table_info(${table})`).all() as TableColumnInfo[];
+  return tableInfo.some((col) => col.name === column);
+};
+
+/**
+ * Lista ordenada de migrações
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Esquema inicial',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          url TEXT NOT NULL,
+          title TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          visit_count INTEGER DEFAULT 1,
+          favicon TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_history_url ON history(url);
+        CREATE INDEX IF NOT EXISTS idx_history_timestamp ON history(timestamp DESC);
+
+        CREATE TABLE IF NOT EXISTS open_tabs (
+          id TEXT PRIMARY KEY,
+          url TEXT NOT NULL,
+          title TEXT NOT NULL,
+          favicon TEXT,
+          position INTEGER NOT NULL,
+          active INTEGER DEFAULT 0,
+          created_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+
+        CREATE TABLE IF NOT EXISTS bookmarks (
+          id TEXT PRIMARY KEY,
+          url TEXT,
+          title TEXT NOT NULL,
+          favicon TEXT,
+          folder_id TEXT,
+          position INTEGER DEFAULT 0,
+          created_at INTEGER DEFAULT (strftime('%s', 'now')),
+          updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+
+        CREATE TABLE IF NOT EXISTS bookmark_folders (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          parent_id TEXT,
+          position INTEGER DEFAULT 0,
+          created_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS downloads (
+          id TEXT PRIMARY KEY,
+          filename TEXT NOT NULL,
+          savePath TEXT,
+          totalBytes INTEGER,
+          receivedBytes INTEGER,
+          state TEXT DEFAULT 'downloading',
+          timestamp INTEGER
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_downloads_timestamp ON downloads(timestamp DESC);
+      `);
+
+      // Bancos criados antes do versionamento podem não ter a coluna favicon
+      if (!hasColumn(database, 'history', 'favicon')) {
+        database.exec('ALTER TABLE history ADD COLUMN favicon TEXT');
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Índice FTS5 do histórico (título e URL)',
+    up: (database) => {
+      // Tabela de conteúdo externo: o texto fica em history, o FTS guarda apenas o índice
+      database.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS history_fts USING fts5(
+          title,
+          url,
+          content='history',
+          content_rowid='id',
+          tokenize='unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS history_fts_ai AFTER INSERT ON history BEGIN
+          INSERT INTO history_fts(rowid, title, url) VALUES (new.id, new.title, new.url);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS history_fts_ad AFTER DELETE ON history BEGIN
+          INSERT INTO history_fts(history_fts, rowid, title, url) VALUES ('delete', old.id, old.title, old.url);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS history_fts_au AFTER UPDATE OF title, url ON history BEGIN
+          INSERT INTO history_fts(history_fts, rowid, title, url) VALUES ('delete', old.id, old.title, old.url);
+          INSERT INTO history_fts(rowid, title, url) VALUES (new.id, new.title, new.url);
+        END;
+
+        INSERT INTO history_fts(history_fts) VALUES ('rebuild');
+      `);
+    }
+  },
+  {
+    version: 3,
+    description: 'Tabela de visitas com tipo de transição',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS visits (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          history_id INTEGER NOT NULL REFERENCES history(id) ON DELETE CASCADE,
+          visit_time INTEGER NOT NULL,
+          transition TEXT NOT NULL DEFAULT 'link',
+          referrer_visit_id INTEGER REFERENCES visits(id) ON DELETE SET NULL,
+          duration_ms INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_visits_history_id ON visits(history_id);
+        CREATE INDEX IF NOT EXISTS idx_visits_visit_time ON visits(visit_time DESC);
+
+        -- foreign_keys fica desligado no SQLite por padrão, então a limpeza é feita por trigger
+        CREATE TRIGGER IF NOT EXISTS history_visits_ad AFTER DELETE ON history BEGIN
+          DELETE FROM visits WHERE history_id = old.id;
+        END;
+
+        -- Entradas antigas viram uma única visita na data da última navegação
+        INSERT INTO visits (history_id, visit_time, transition)
+        SELECT id, timestamp, 'link' FROM history;
+      `);
+    }
+  },
+  {
+    version: 4,
+    description: 'Registro de mecanismos de busca com palavras-chave',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS search_engines (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          url_template TEXT NOT NULL,
+          keyword TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          suggest_url TEXT,
+          position INTEGER DEFAULT 0,
+          created_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+      `);
+
+      // IDs fixos para os mecanismos antigos: a configuração searchEngine continua válida
+      const insert = database.prepare(`
+        INSERT OR IGNORE INTO search_engines (id, name, url_template, keyword, suggest_url, position)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      insert.run('google', 'Google', 'https://www.google.com/search?q=%s', 'g', 'https://www.google.com/complete/search?client=firefox&q=%s', 0);
+      insert.run('brave', 'Brave Search', 'https://search.brave.com/search?q=%s', 'b', 'https://search.brave.com/api/suggest?q=%s', 1);
+      insert.run('duckduckgo', 'DuckDuckGo', 'https://duckduckgo.com/?q=%s', 'd', 'https://duckduckgo.com/ac/?type=list&q=%s', 2);
+      insert.run('wikipedia', 'Wikipedia', 'https://pt.wikipedia.org/w/index.php?search=%s', 'w', 'https://pt.wikipedia.org/w/api.php?action=opensearch&search=%s', 3);
+    }
+  },
+  {
+    version: 5,
+    description: 'Abas fechadas recentemente',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS closed_tabs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          url TEXT NOT NULL,
+          title TEXT,
+          favicon TEXT,
+          position INTEGER DEFAULT 0,
+          navigation_entries TEXT NOT NULL DEFAULT '[]',
+          navigation_index INTEGER DEFAULT 0,
+          closed_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_closed_tabs_closed_at ON closed_tabs(closed_at DESC);
+      `);
+    }
+  },
+  {
+    version: 6,
+    description: 'Histórico de navegação, rolagem e zoom das abas abertas',
+    up: (database) => {
+      database.exec(`
+        ALTER TABLE open_tabs ADD COLUMN navigation_entries TEXT NOT NULL DEFAULT '[]';
+        ALTER TABLE open_tabs ADD COLUMN navigation_index INTEGER DEFAULT 0;
+        ALTER TABLE open_tabs ADD COLUMN scroll_x INTEGER DEFAULT 0;
+        ALTER TABLE open_tabs ADD COLUMN scroll_y INTEGER DEFAULT 0;
+        ALTER TABLE open_tabs ADD COLUMN zoom_level REAL DEFAULT 0;
+      `);
+    }
+  },
+  {
+    version: 7,
+    description: 'Abas fixadas',
+    up: (database) => {
+      database.exec(`
+        ALTER TABLE open_tabs ADD COLUMN pinned INTEGER DEFAULT 0;
+      `);
+    }
+  },
+  {
+    version: 8,
+    description: 'Grupos de abas',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS tab_groups (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL DEFAULT '',
+          color TEXT NOT NULL DEFAULT 'grey',
+          collapsed INTEGER DEFAULT 0,
+          position INTEGER DEFAULT 0
+        );
+
+        ALTER TABLE open_tabs ADD COLUMN group_id TEXT;
+      `);
+    }
+  },
+  {
+    version: 9,
+    description: 'Várias janelas (posição e tamanho de cada uma)',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS browser_windows (
+          id INTEGER PRIMARY KEY,
+          x INTEGER,
+          y INTEGER,
+          width INTEGER NOT NULL,
+          height INTEGER NOT NULL,
+          maximized INTEGER DEFAULT 0
+        );
+
+        ALTER TABLE open_tabs ADD COLUMN window_id INTEGER DEFAULT 0;
+      `);
+    }
+  },
+  {
+    version: 10,
+    description: 'Contêineres (cookies e armazenamento isolados por contêiner)',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS containers (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          color TEXT NOT NULL DEFAULT 'grey',
+          user_agent TEXT,
+          permissions TEXT,
+          position INTEGER DEFAULT 0,
+          created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+        );
+
+        ALTER TABLE open_tabs ADD COLUMN container_id TEXT;
+        ALTER TABLE closed_tabs ADD COLUMN container_id TEXT;
+      `);
+    }
+  },
+  {
+    version: 11,
+    description: 'Tela dividida (duas abas lado a lado na janela)',
+    up: (database) => {
+      database.exec(`
+        ALTER TABLE browser_windows ADD COLUMN split_first_tab INTEGER;
+        ALTER TABLE browser_windows ADD COLUMN split_second_tab INTEGER;
+        ALTER TABLE browser_windows ADD COLUMN split_orientation TEXT;
+        ALTER TABLE browser_windows ADD COLUMN split_ratio REAL;
+      `);
+    }
+  },
+  {
+    version: 12,
+    description: 'Árvore de abas (aba de origem de cada aba aberta)',
+    up: (database) => {
+      database.exec(`
+        ALTER TABLE open_tabs ADD COLUMN opener_id TEXT;
+      `);
+    }
+  },
+  {
+    version: 13,
+    description: 'Sessões nomeadas (conjuntos de abas salvos pelo usuário)',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          snapshot TEXT NOT NULL,
+          tab_count INTEGER NOT NULL DEFAULT 0,
+          window_count INTEGER NOT NULL DEFAULT 0,
+          created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000),
+          updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+        );
+      `);
+    }
+  }
+];
+
+/**
+ * Aplica as migrações pendentes, em ordem
+ *
+ * Cada passo roda em sua própria transação junto com a atualização de
+ * `user_version`. Se um passo falhar, a transação é revertida, o banco
+ * permanece na última versão válida e um erro descritivo é lançado.
+ */
+const runMigrations = (database: BetterSqlite3.Database): void => {
+  const currentVersion = database.pragma('user_version', { simple: true }) as number;
+  const latestVersion = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+  if (currentVersion > latestVersion) {
+    console.warn(`[Database] Esquema v${currentVersion} é mais novo que o suportado (v${latestVersion})`);
+    return;
+  }
+
+  const pending = MIGRATIONS.filter((migration) => migration.version > currentVersion);
+  if (pending.length === 0) {
+    console.log(`[Database] Esquema já está na versão v${currentVersion}`);
+    return;
+  }
+
+  for (const migration of pending) {
+    const apply = database.transaction(() => {
+      migration.up(database);
+      database.pragma(`user_version = ${migration.version}`);
+    });
+
+    try {
+      apply();
+      console.log(`[Database] ✅ Migração v${migration.version} aplicada: ${migration.description}`);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `[Database] Falha na migração v${migration.version} (${migration.description}): ${reason}. ` +
+        `Alterações revertidas; esquema permanece na v${database.pragma('user_version', { simple: true })}`
+      );
+    }
+  }
+};
+
 /**
  * Inicializa o banco de dados SQLite
  */
@@ -52,101 +430,15 @@ export const initDatabase = (): void => {
     console.log('[Database] ✅ Connection test passed');
     console.log('[Database] ✅ Banco de dados aberto com sucesso');
 
-    // Criar tabela de histórico
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS history (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        url TEXT NOT NULL,
-        title TEXT NOT NULL,
-        timestamp INTEGER NOT NULL,
-        visit_count INTEGER DEFAULT 1,
-        favicon TEXT
-      )
-    `);
-
-    // Migração: adicionar coluna favicon se não existir
-    try {
-      const tableInfo = db.prepare("PRAGMA table_info(history)").all() as TableColumnInfo[];
-      const hasFavicon = tableInfo.some((col) => col.name === 'favicon');
-      if (!hasFavicon) {
-        console.log('[Database] Adicionando coluna favicon à tabela history...');
-        db.exec('ALTER TABLE history ADD COLUMN favicon TEXT');
-        console.log('[Database] ✅ Coluna favicon adicionada');
-      }
-    } catch (error) {
-      console.error('[Database] Erro ao verificar/adicionar coluna favicon:', error);
-    }
-
-    // Criar índice para buscas rápidas
-    db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_history_url ON history(url);
-      CREATE INDEX IF NOT EXISTS idx_history_timestamp ON history(timestamp DESC);
-    `);
-
-    // Criar tabela de abas abertas
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS open_tabs (
-        id TEXT PRIMARY KEY,
-        url TEXT NOT NULL,
-        title TEXT NOT NULL,
-        favicon TEXT,
-        position INTEGER NOT NULL,
-        active INTEGER DEFAULT 0,
-        created_at INTEGER DEFAULT (strftime('%s', 'now'))
-      )
-    `);
-
-    // Criar tabela de favoritos
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS bookmarks (
-        id TEXT PRIMARY KEY,
-        url TEXT,
-        title TEXT NOT NULL,
-        favicon TEXT,
-        folder_id TEXT,
-        position INTEGER DEFAULT 0,
-        created_at INTEGER DEFAULT (strftime('%s', 'now')),
-        updated_at INTEGER DEFAULT (strftime('%s', 'now'))
-      )
-    `);
-
-    // Criar tabela de pastas de favoritos
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS bookmark_folders (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        parent_id TEXT,
-        position INTEGER DEFAULT 0,
-        created_at INTEGER DEFAULT (strftime('%s', 'now'))
-      )
-    `);
-
-    // Criar tabela de configurações
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS settings (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL
-      )
-    `);
-
-    // Criar tabela de downloads
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS downloads (
-        id TEXT PRIMARY KEY,
-        filename TEXT NOT NULL,
-        savePath TEXT,
-        totalBytes INTEGER,
-        receivedBytes INTEGER,
-        state TEXT DEFAULT 'downloading',
-        timestamp INTEGER
-      )
-    `);
+    // Write-ahead log: uma escrita interrompida (crash, kill -9) não corrompe o banco
+    // e as gravações frequentes da sessão não bloqueiam as leituras
+    const journalMode = db.pragma('journal_mode = WAL', { simple: true });
+    db.pragma('synchronous = NORMAL');
+    console.log('[Database] Journal mode:', journalMode);
 
-    db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_downloads_timestamp ON downloads(timestamp DESC);
-    `);
+    runMigrations(db);
 
-    console.log('[Database] ✅ Todas as tabelas criadas com sucesso');
+    console.log('[Database] ✅ Esquema do banco atualizado com sucesso');
   } catch (error) {
     console.error('[Database] ❌ Erro ao inicializar banco:', error);
 
@@ -155,17 +447,8 @@ export const initDatabase = (): void => {
       console.warn('[Database] Usando banco em memória (dev mode fallback)');
       try {
         db = new BetterSqlite3(':memory:');
-        // Recriar todas as tabelas no banco em memória
-        db.exec(`
-          CREATE TABLE IF NOT EXISTS history (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            url TEXT NOT NULL,
-            title TEXT NOT NULL,
-            timestamp INTEGER NOT NULL,
-            visit_count INTEGER DEFAULT 1,
-            favicon TEXT
-          )
-        `);
+        // Aplica as mesmas migrações do banco em disco
+        runMigrations(db);
         console.log('[Database] ✅ Banco em memória inicializado');
         return;
       } catch (memError) {
@@ -177,6 +460,48 @@ export const initDatabase = (): void => {
   }
 };
 
+/**
+ * Cria ou atualiza a entrada de histórico de uma URL e retorna seu ID
+ *
+ * Um título `null` mantém o título já salvo (ou usa a própria URL em entradas novas).
+ * Com `countVisit` desligado, uma entrada existente não ganha visita nem tem o horário atualizado.
+ */
+const upsertHistoryEntry = (
+  database: BetterSqlite3.Database,
+  url: string,
+  title: string | null,
+  timestamp: number,
+  favicon?: string,
+  countVisit = true
+): number => {
+  // Verifica se a URL já existe
+  const existing = database.prepare('SELECT id, visit_count FROM history WHERE url = ?').get(url) as { id: number; visit_count: number } | undefined;
+
+  if (existing && !countVisit) {
+    return existing.id;
+  }
+
+  if (existing) {
+    // Atualiza contador de visitas e timestamp
+    database.prepare(`
+      UPDATE history 
+      SET visit_count = visit_count + 1, 
+          timestamp = ?, 
+          title = COALESCE(?, title),
+          favicon = COALESCE(?, favicon)
+      WHERE id = ?
+    `).run(timestamp, title, favicon, existing.id);
+    return existing.id;
+  }
+
+  // Insere nova entrada
+  const result = database.prepare(`
+    INSERT INTO history (url, title, timestamp, favicon) 
+    VALUES (?, ?, ?, ?)
+  `).run(url, title ?? url, timestamp, favicon);
+  return Number(result.lastInsertRowid);
+};
+
 /**
  * Adiciona uma entrada ao histórico
  */
@@ -189,293 +514,1886 @@ export const addHistoryEntry = (url: string, title: string, favicon?: string): v
   }
 
   try {
-    // Verifica se a URL já existe
-    const existing = db.prepare('SELECT id, visit_count FROM history WHERE url = ?').get(url) as { id: number; visit_count: number } | undefined;
-
-    if (existing) {
-      // Atualiza contador de visitas e timestamp
-      db.prepare(`
-        UPDATE history 
-        SET visit_count = visit_count + 1, 
-            timestamp = ?, 
-            title = ?,
-            favicon = COALESCE(?, favicon)
-        WHERE id = ?
-      `).run(Date.now(), title, favicon, existing.id);
-    } else {
-      // Insere nova entrada
-      db.prepare(`
-        INSERT INTO history (url, title, timestamp, favicon) 
-        VALUES (?, ?, ?, ?)
-      `).run(url, title, Date.now(), favicon);
-    }
-  } catch (error) {
-    console.error('[Database] Erro ao adicionar ao histórico:', error);
+    upsertHistoryEntry(db, url, title, Date.now(), favicon);
+  } catch (error) {
+    console.error('[Database] Erro ao adicionar ao histórico:', error);
+  }
+};
+
+/**
+ * Registra uma visita e atualiza a entrada de histórico da URL
+ *
+ * Recarregamentos e abas restauradas ficam registrados como visitas, mas não contam
+ * no visit_count nem mudam o horário da última visita da entrada.
+ *
+ * @returns ID da visita criada, ou null para URLs internas e em caso de erro
+ */
+export const addVisit = (
+  url: string,
+  transition: VisitTransition,
+  referrerVisitId: number | null = null,
+  visitTime: number = Date.now()
+): number | null => {
+  if (!db) throw new Error('Database not initialized');
+
+  // Ignora URLs internas
+  if (url.startsWith('hera://')) {
+    return null;
+  }
+
+  try {
+    const database = db;
+    const insert = database.transaction(() => {
+      const countVisit = transition !== 'reload' && transition !== 'restored';
+      const historyId = upsertHistoryEntry(database, url, null, visitTime, undefined, countVisit);
+      const result = database.prepare(`
+        INSERT INTO visits (history_id, visit_time, transition, referrer_visit_id)
+        VALUES (?, ?, ?, ?)
+      `).run(historyId, visitTime, transition, referrerVisitId);
+      return Number(result.lastInsertRowid);
+    });
+    return insert();
+  } catch (error) {
+    console.error('[Database] Erro ao registrar visita:', error);
+    return null;
+  }
+};
+
+/**
+ * Encerra uma visita, gravando quanto tempo a página ficou aberta
+ */
+export const endVisit = (visitId: number, endTime: number = Date.now()): void => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    db.prepare(`
+      UPDATE visits
+      SET duration_ms = MAX(0, ? - visit_time)
+      WHERE id = ?
+    `).run(endTime, visitId);
+  } catch (error) {
+    console.error('[Database] Erro ao encerrar visita:', error);
+  }
+};
+
+/**
+ * Atualiza o título de uma entrada do histórico (o título chega depois da navegação)
+ */
+export const updateHistoryTitle = (url: string, title: string): void => {
+  if (!db) throw new Error('Database not initialized');
+
+  if (url.startsWith('hera://') || !title) {
+    return;
+  }
+
+  try {
+    db.prepare('UPDATE history SET title = ? WHERE url = ? AND title != ?').run(title, url, title);
+  } catch (error) {
+    console.error('[Database] Erro ao atualizar título do histórico:', error);
+  }
+};
+
+/**
+ * Obtém as visitas de uma URL (mais recentes primeiro)
+ */
+export const getVisitsForUrl = (url: string, limit = 100): VisitEntry[] => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = db.prepare(`
+      SELECT v.id, v.history_id, v.visit_time, v.transition, v.referrer_visit_id, v.duration_ms
+      FROM visits v
+      JOIN history h ON h.id = v.history_id
+      WHERE h.url = ?
+      ORDER BY v.visit_time DESC
+      LIMIT ?
+    `).all(url, limit) as VisitRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      history_id: row.history_id,
+      visit_time: row.visit_time,
+      transition: row.transition as VisitTransition,
+      referrer_visit_id: row.referrer_visit_id,
+      duration_ms: row.duration_ms
+    }));
+  } catch (error) {
+    console.error('[Database] Erro ao buscar visitas:', error);
+    return [];
+  }
+};
+
+/**
+ * Obtém todo o histórico
+ */
+export const getHistory = (): HistoryEntry[] => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = db.prepare(`
+      SELECT id, url, title, timestamp, visit_count, favicon 
+      FROM history 
+      ORDER BY timestamp DESC 
+      LIMIT 1000
+    `).all() as HistoryRow[];
+
+    const history: HistoryEntry[] = rows.map(row => ({
+      id: row.id,
+      url: row.url,
+      title: row.title,
+      timestamp: row.timestamp,
+      visit_count: row.visit_count,
+      favicon: row.favicon || undefined
+    }));
+
+    return validateHistoryEntries(history);
+  } catch (error) {
+    console.error('[Database] Erro ao buscar histórico:', error);
+    return [];
+  }
+};
+
+// Marcadores usados pelo snippet() do FTS5 (convertidos em <mark> após escapar o HTML)
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+/**
+ * Escapa o texto e converte os marcadores de destaque em <mark>
+ */
+const toHighlightedHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_END).join('</mark>');
+};
+
+/**
+ * Converte o texto digitado pelo usuário em uma query FTS5 segura
+ *
+ * Cada termo vira uma frase entre aspas com busca por prefixo, então
+ * operadores e caracteres especiais do FTS5 nunca são interpretados.
+ */
+const toFtsQuery = (query: string): string => {
+  return query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, '').trim())
+    .filter((term) => term.length > 0)
+    .map((term) => `"${term}"*`)
+    .join(' ');
+};
+
+/**
+ * Busca no histórico usando o índice FTS5
+ *
+ * Sem query, retorna as entradas mais recentes (respeitando o período).
+ * Com query, os resultados são ordenados por relevância (bm25, título com
+ * peso maior que a URL) e depois pela visita mais recente.
+ */
+export const searchHistory = (query: string, options: HistorySearchOptions = {}): HistorySearchResult[] => {
+  if (!db) throw new Error('Database not initialized');
+
+  const limit = Math.min(Math.max(options.limit ?? HISTORY_SEARCH_PAGE_SIZE, 1), HISTORY_SEARCH_MAX_LIMIT);
+  const offset = Math.max(options.offset ?? 0, 0);
+  const from = options.from ?? 0;
+  const to = options.to ?? Number.MAX_SAFE_INTEGER;
+  const ftsQuery = toFtsQuery(query);
+
+  try {
+    let rows: HistorySearchRow[];
+
+    if (!ftsQuery) {
+      rows = db.prepare(`
+        SELECT id, url, title, timestamp, visit_count, favicon,
+               title AS title_snippet, url AS url_snippet
+        FROM history
+        WHERE timestamp BETWEEN ? AND ?
+        ORDER BY timestamp DESC
+        LIMIT ? OFFSET ?
+      `).all(from, to, limit, offset) as HistorySearchRow[];
+    } else {
+      rows = db.prepare(`
+        SELECT h.id, h.url, h.title, h.timestamp, h.visit_count, h.favicon,
+               snippet(history_fts, 0, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', 16) AS title_snippet,
+               snippet(history_fts, 1, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', 16) AS url_snippet
+        FROM history_fts
+        JOIN history h ON h.id = history_fts.rowid
+        WHERE history_fts MATCH ?
+          AND h.timestamp BETWEEN ? AND ?
+        ORDER BY bm25(history_fts, 10.0, 1.0), h.timestamp DESC
+        LIMIT ? OFFSET ?
+      `).all(ftsQuery, from, to, limit, offset) as HistorySearchRow[];
+    }
+
+    return rows.map((row) => ({
+      id: row.id,
+      url: row.url,
+      title: row.title,
+      timestamp: row.timestamp,
+      visit_count: row.visit_count,
+      favicon: row.favicon || undefined,
+      title_snippet: toHighlightedHtml(row.title_snippet || ''),
+      url_snippet: toHighlightedHtml(row.url_snippet || '')
+    }));
+  } catch (error) {
+    console.error('[Database] Erro ao buscar no histórico:', error);
+    return [];
+  }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calcula a frecency de uma entrada a partir de uma amostra das visitas recentes
+ *
+ * Cada visita vale o peso da faixa de idade multiplicado pelo bônus da
+ * transição; a média da amostra é multiplicada pelo total de visitas.
+ */
+const computeFrecency = (visitCount: number, samples: { visit_time: number; transition: string }[], now: number): number => {
+  if (samples.length === 0) return 0;
+
+  const points = samples.reduce((total, sample) => {
+    const ageDays = (now - sample.visit_time) / DAY_MS;
+    const bucket = FRECENCY_RECENCY_BUCKETS.find((b) => ageDays <= b.maxAgeDays);
+    const bonus = FRECENCY_TRANSITION_BONUS[sample.transition as VisitTransition] ?? 1;
+    return total + (bucket ? bucket.weight : 0) * bonus;
+  }, 0);
+
+  return Math.round(Math.max(visitCount, samples.length) * (points / samples.length));
+};
+
+/**
+ * Busca entradas do histórico para o omnibox, ordenadas por frecency
+ *
+ * Os candidatos vêm do índice FTS (prefixo de palavras do título e da URL),
+ * limitados às entradas visitadas mais recentemente.
+ */
+export const getHistorySuggestions = (query: string, limit: number = OMNIBOX_MAX_SUGGESTIONS): Array<HistoryEntry & { favicon?: string; frecency: number }> => {
+  if (!db) throw new Error('Database not initialized');
+
+  const ftsQuery = toFtsQuery(query);
+  if (!ftsQuery) return [];
+
+  try {
+    const candidates = db.prepare(`
+      SELECT h.id, h.url, h.title, h.timestamp, h.visit_count, h.favicon
+      FROM history_fts
+      JOIN history h ON h.id = history_fts.rowid
+      WHERE history_fts MATCH ?
+      ORDER BY h.timestamp DESC
+      LIMIT ?
+    `).all(ftsQuery, OMNIBOX_HISTORY_CANDIDATES) as HistoryRow[];
+
+    if (candidates.length === 0) return [];
+
+    const samples = db.prepare(`
+      SELECT history_id, visit_time, transition
+      FROM (
+        SELECT history_id, visit_time, transition,
+               ROW_NUMBER() OVER (PARTITION BY history_id ORDER BY visit_time DESC) AS rn
+        FROM visits
+        WHERE history_id IN (SELECT value FROM json_each(?))
+      )
+      WHERE rn <= ?
+    `).all(JSON.stringify(candidates.map((row) => row.id)), FRECENCY_VISIT_SAMPLE_SIZE) as { history_id: number; visit_time: number; transition: string }[];
+
+    const samplesByEntry = new Map<number, { visit_time: number; transition: string }[]>();
+    for (const sample of samples) {
+      const list = samplesByEntry.get(sample.history_id) ?? [];
+      list.push(sample);
+      samplesByEntry.set(sample.history_id, list);
+    }
+
+    const now = Date.now();
+    return candidates
+      .map((row) => ({
+        id: row.id,
+        url: row.url,
+        title: row.title,
+        timestamp: row.timestamp,
+        visit_count: row.visit_count,
+        favicon: row.favicon || undefined,
+        // Entradas sem visitas registradas usam a última navegação como amostra
+        frecency: computeFrecency(
+          row.visit_count,
+          samplesByEntry.get(row.id) ?? [{ visit_time: row.timestamp, transition: 'link' }],
+          now
+        )
+      }))
+      .sort((a, b) => b.frecency - a.frecency || b.timestamp - a.timestamp)
+      .slice(0, limit);
+  } catch (error) {
+    console.error('[Database] Erro ao buscar sugestões do histórico:', error);
+    return [];
+  }
+};
+
+/**
+ * Escapa curingas do LIKE (usar com ESCAPE '\')
+ */
+const escapeLike = (text: string): string => text.replace(/[\\%_]/g, '\\$&');
+
+/**
+ * Sugere o autocompletar inline da barra de endereços
+ *
+ * Procura no histórico e nos favoritos URLs que começam com o texto digitado,
+ * ignorando o protocolo e o `www.` quando o usuário não os digitou. Enquanto o
+ * texto estiver no host, completa apenas o host; depois da primeira barra,
+ * completa a URL. A ordenação usa a quantidade de visitas digitadas.
+ *
+ * @example
+ * getInlineCompletion('git');  // { text: 'github.com', url: 'https://github.com/' }
+ */
+export const getInlineCompletion = (input: string): InlineCompletion | null => {
+  if (!db) throw new Error('Database not initialized');
+
+  const typed = input.toLowerCase();
+  if (!typed || /\s/.test(typed)) return null;
+
+  const hasScheme = /^https?:\/\//.test(typed);
+  const hasWww = !hasScheme && typed.startsWith('www.');
+
+  // Variações de prefixo em que o texto digitado pode aparecer na URL salva
+  const prefixes = hasScheme
+    ? ['']
+    : hasWww
+      ? ['http://', 'https://']
+      : ['http://', 'https://', 'http://www.', 'https://www.'];
+  const patterns = prefixes.map((prefix) => `${escapeLike(prefix + typed)}%`);
+  const where = (column: string) => patterns.map(() => `${column} LIKE ? ESCAPE '\\'`).join(' OR ');
+
+  try {
+    const rows = db.prepare(`
+      SELECT h.url, h.visit_count,
+             (SELECT COUNT(*) FROM visits v WHERE v.history_id = h.id AND v.transition = 'typed') AS typed_count,
+             0 AS bookmarked
+      FROM history h
+      WHERE ${where('h.url')}
+      UNION ALL
+      SELECT b.url, 0, 0, 1
+      FROM bookmarks b
+      WHERE ${where('b.url')}
+      LIMIT 500
+    `).all(...patterns, ...patterns) as { url: string; visit_count: number; typed_count: number; bookmarked: number }[];
+
+    const completions = new Map<string, InlineCompletion & { typed: number; bookmarked: number; visits: number }>();
+
+    for (const row of rows) {
+      const match = /^(https?:\/\/)(www\.)?/i.exec(row.url);
+      if (!match) continue;
+
+      // Forma da URL comparável ao que foi digitado
+      const shown = hasScheme ? row.url : hasWww ? row.url.slice(match[1].length) : row.url.slice(match[0].length);
+      if (!shown.toLowerCase().startsWith(typed)) continue;
+
+      const hostEnd = shown.indexOf('/', hasScheme ? match[1].length : 0);
+      const typingHost = hostEnd === -1 || typed.length <= hostEnd;
+      const text = typingHost && hostEnd !== -1 ? shown.slice(0, hostEnd) : shown.replace(/\/$/, '');
+      if (text.length <= typed.length) continue;
+
+      const url = typingHost ? `${row.url.slice(0, row.url.length - shown.length)}${text}/` : row.url;
+      const key = text.toLowerCase();
+      const current = completions.get(key);
+      if (current) {
+        current.typed += row.typed_count;
+        current.bookmarked = Math.max(current.bookmarked, row.bookmarked);
+        current.visits += row.visit_count;
+      } else {
+        completions.set(key, { text, url, typed: row.typed_count, bookmarked: row.bookmarked, visits: row.visit_count });
+      }
+    }
+
+    const best = Array.from(completions.values()).sort((a, b) =>
+      b.typed - a.typed ||
+      b.bookmarked - a.bookmarked ||
+      b.visits - a.visits ||
+      a.text.length - b.text.length
+    )[0];
+
+    return best ? { text: best.text, url: best.url } : null;
+  } catch (error) {
+    console.error('[Database] Erro ao buscar autocompletar:', error);
+    return null;
+  }
+};
+
+/**
+ * Limpa todo o histórico
+ */
+export const clearHistory = (): void => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    db.prepare('DELETE FROM history').run();
+    console.log('[Database] Histórico limpo com sucesso');
+  } catch (error) {
+    console.error('[Database] Erro ao limpar histórico:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove referências a visitas que não existem mais
+ */
+const clearDanglingReferrers = (database: BetterSqlite3.Database): void => {
+  database.prepare(`
+    UPDATE visits
+    SET referrer_visit_id = NULL
+    WHERE referrer_visit_id IS NOT NULL
+      AND referrer_visit_id NOT IN (SELECT id FROM visits)
+  `).run();
+};
+
+/**
+ * Remove entradas do histórico pelos IDs (as visitas e o índice FTS acompanham via trigger)
+ *
+ * @returns Quantidade de entradas removidas
+ */
+export const deleteHistoryEntries = (ids: number[]): number => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db;
+    const remove = database.transaction((entryIds: number[]) => {
+      const statement = database.prepare('DELETE FROM history WHERE id = ?');
+      let removed = 0;
+      for (const id of entryIds) {
+        removed += statement.run(id).changes;
+      }
+      clearDanglingReferrers(database);
+      return removed;
+    });
+
+    const removed = remove(ids);
+    console.log(`[Database] ${removed} entrada(s) removida(s) do histórico`);
+    return removed;
+  } catch (error) {
+    console.error('[Database] Erro ao remover entradas do histórico:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a entrada do histórico de uma URL exata
+ *
+ * @returns Quantidade de entradas removidas (0 ou 1)
+ */
+export const deleteHistoryByUrl = (url: string): number => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const row = db.prepare('SELECT id FROM history WHERE url = ?').get(url) as { id: number } | undefined;
+    return row ? deleteHistoryEntries([row.id]) : 0;
+  } catch (error) {
+    console.error('[Database] Erro ao remover URL do histórico:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove todas as entradas de um domínio, incluindo subdomínios
+ *
+ * @example
+ * deleteHistoryByDomain('github.com'); // remove github.com e gist.github.com
+ *
+ * @returns Quantidade de entradas removidas
+ */
+export const deleteHistoryByDomain = (domain: string): number => {
+  if (!db) throw new Error('Database not initialized');
+
+  const target = domain.toLowerCase();
+
+  try {
+    // O LIKE só pré-filtra; a comparação exata do hostname é feita abaixo
+    const rows = db.prepare(`SELECT id, url FROM history WHERE url LIKE ? ESCAPE '\\'`)
+      .all(`%${escapeLike(target)}%`) as { id: number; url: string }[];
+
+    const ids = rows
+      .filter((row) => {
+        try {
+          const hostname = new URL(row.url).hostname.toLowerCase();
+          return hostname === target || hostname.endsWith(`.${target}`);
+        } catch {
+          return false;
+        }
+      })
+      .map((row) => row.id);
+
+    return ids.length > 0 ? deleteHistoryEntries(ids) : 0;
+  } catch (error) {
+    console.error('[Database] Erro ao remover domínio do histórico:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove as visitas de um período (timestamps em ms, inclusivos)
+ *
+ * Entradas sem nenhuma visita restante são removidas; as demais têm o
+ * contador e a data da última visita recalculados.
+ *
+ * @returns Quantidade de entradas removidas por completo
+ */
+export const deleteHistoryRange = (from: number, to: number): number => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db;
+    const remove = database.transaction(() => {
+      // Recarregamentos e abas restauradas não contam no visit_count (ver addVisit)
+      const affected = database.prepare(`
+        SELECT history_id, SUM(transition NOT IN ('reload', 'restored')) AS removed
+        FROM visits
+        WHERE visit_time BETWEEN ? AND ?
+        GROUP BY history_id
+      `).all(from, to) as { history_id: number; removed: number }[];
+
+      database.prepare('DELETE FROM visits WHERE visit_time BETWEEN ? AND ?').run(from, to);
+
+      const remainingStatement = database.prepare(`
+        SELECT COUNT(*) AS count,
+               SUM(transition NOT IN ('reload', 'restored')) AS counted,
+               COALESCE(MAX(CASE WHEN transition NOT IN ('reload', 'restored') THEN visit_time END), MAX(visit_time)) AS last_visit
+        FROM visits
+        WHERE history_id = ?
+      `);
+      const deleteStatement = database.prepare('DELETE FROM history WHERE id = ?');
+      const updateStatement = database.prepare(`
+        UPDATE history
+        SET visit_count = MAX(?, visit_count - ?),
+            timestamp = ?
+        WHERE id = ?
+      `);
+
+      let removed = 0;
+      for (const { history_id, removed: removedVisits } of affected) {
+        const remaining = remainingStatement.get(history_id) as { count: number; counted: number; last_visit: number | null };
+        if (remaining.count === 0) {
+          removed += deleteStatement.run(history_id).changes;
+        } else {
+          updateStatement.run(Math.max(remaining.counted, 1), removedVisits, remaining.last_visit, history_id);
+        }
+      }
+
+      // Entradas sem visitas registradas usam apenas o timestamp da última navegação
+      removed += database.prepare(`
+        DELETE FROM history
+        WHERE timestamp BETWEEN ? AND ?
+          AND NOT EXISTS (SELECT 1 FROM visits WHERE visits.history_id = history.id)
+      `).run(from, to).changes;
+
+      clearDanglingReferrers(database);
+      return removed;
+    });
+
+    const removed = remove();
+    console.log(`[Database] Período removido do histórico: ${removed} entrada(s)`);
+    return removed;
+  } catch (error) {
+    console.error('[Database] Erro ao remover período do histórico:', error);
+    throw error;
+  }
+};
+
+/**
+ * Adiciona um favorito
+ */
+export const addBookmark = (id: string, url: string, title: string, favicon?: string, folderId?: string): Bookmark => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const position = db.prepare('SELECT COUNT(*) as count FROM bookmarks WHERE folder_id IS ?').get(folderId || null) as { count: number };
+
+    db.prepare(`
+      INSERT INTO bookmarks (id, url, title, favicon, folder_id, position) 
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(id, url, title, favicon, folderId, position.count);
+
+    return {
+      id,
+      url,
+      title,
+      favicon,
+      folder_id: folderId,
+      position: position.count,
+      created_at: Date.now(),
+      updated_at: Date.now()
+    };
+  } catch (error) {
+    console.error('[Database] Erro ao adicionar favorito:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove um favorito
+ */
+export const removeBookmark = (id: string): boolean => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const result = db.prepare('DELETE FROM bookmarks WHERE id = ?').run(id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error('[Database] Erro ao remover favorito:', error);
+    return false;
+  }
+};
+
+/**
+ * Obtém favoritos de uma pasta
+ */
+export const getBookmarks = (folderId?: string): Bookmark[] => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = db.prepare(`
+      SELECT id, url, title, favicon, folder_id, position, created_at, updated_at 
+      FROM bookmarks 
+      WHERE folder_id IS ? 
+      ORDER BY position ASC
+    `).all(folderId || null) as BookmarkRow[];
+
+    const bookmarks: Bookmark[] = rows.map(row => ({
+      id: row.id,
+      url: row.url,
+      title: row.title,
+      favicon: row.favicon || undefined,
+      folder_id: row.folder_id || undefined,
+      position: row.position,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    }));
+
+    return validateBookmarks(bookmarks);
+  } catch (error) {
+    console.error('[Database] Erro ao buscar favoritos:', error);
+    return [];
+  }
+};
+
+/**
+ * Busca favoritos por título ou URL
+ */
+export const searchBookmarks = (query: string): Bookmark[] => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = db.prepare(`
+      SELECT id, url, title, favicon, folder_id, position, created_at, updated_at 
+      FROM bookmarks 
+      WHERE title LIKE ? OR url LIKE ? 
+      ORDER BY position ASC
+    `).all(`%${query}%`, `%${query}%`) as BookmarkRow[];
+
+    const bookmarks: Bookmark[] = rows.map(row => ({
+      id: row.id,
+      url: row.url,
+      title: row.title,
+      favicon: row.favicon || undefined,
+      folder_id: row.folder_id || undefined,
+      position: row.position,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    }));
+
+    return validateBookmarks(bookmarks);
+  } catch (error) {
+    console.error('[Database] Erro ao buscar favoritos:', error);
+    return [];
+  }
+};
+
+/**
+ * Cria uma pasta de favoritos
+ */
+export const createBookmarkFolder = (id: string, name: string, parentId?: string): BookmarkFolder => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const position = db.prepare('SELECT COUNT(*) as count FROM bookmark_folders WHERE parent_id IS ?').get(parentId || null) as { count: number };
+
+    db.prepare(`
+      INSERT INTO bookmark_folders (id, name, parent_id, position) 
+      VALUES (?, ?, ?, ?)
+    `).run(id, name, parentId, position.count);
+
+    return {
+      id,
+      name,
+      parent_id: parentId,
+      position: position.count,
+      created_at: Date.now()
+    };
+  } catch (error) {
+    console.error('[Database] Erro ao criar pasta:', error);
+    throw error;
+  }
+};
+
+/**
+ * Obtém pastas de favoritos
+ */
+export const getBookmarkFolders = (parentId?: string): BookmarkFolder[] => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = db.prepare(`
+      SELECT id, name, parent_id, position, created_at 
+      FROM bookmark_folders 
+      WHERE parent_id IS ? 
+      ORDER BY position ASC
+    `).all(parentId || null) as BookmarkFolderRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      parent_id: row.parent_id || undefined,
+      position: row.position,
+      created_at: row.created_at
+    }));
+  } catch (error) {
+    console.error('[Database] Erro ao buscar pastas:', error);
+    return [];
+  }
+};
+
+/**
+ * Edita o título e/ou a URL de um favorito
+ */
+export const updateBookmark = (id: string, changes: BookmarkInput): boolean => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const result = db.prepare(`
+      UPDATE bookmarks
+      SET title = COALESCE(?, title),
+          url = COALESCE(?, url),
+          updated_at = strftime('%s', 'now')
+      WHERE id = ?
+    `).run(changes.title ?? null, changes.url ?? null, id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error('[Database] Erro ao atualizar favorito:', error);
+    throw error;
+  }
+};
+
+/**
+ * Move um favorito para uma posição de uma pasta (a mesma ou outra)
+ *
+ * As posições da pasta de destino são renumeradas a partir de zero.
+ * Sem folderId, o favorito vai para a raiz (barra de favoritos).
+ */
+export const moveBookmark = (id: string, folderId: string | undefined, position: number): boolean => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db;
+    const move = database.transaction(() => {
+      const exists = database.prepare('SELECT 1 FROM bookmarks WHERE id = ?').get(id);
+      if (!exists) return false;
+      if (folderId && !database.prepare('SELECT 1 FROM bookmark_folders WHERE id = ?').get(folderId)) {
+        throw new Error('Pasta de destino não encontrada');
+      }
+
+      const ids = (database.prepare(`
+        SELECT id FROM bookmarks
+        WHERE folder_id IS ? AND id != ?
+        ORDER BY position ASC
+      `).all(folderId || null, id) as { id: string }[]).map((row) => row.id);
+      ids.splice(Math.max(0, Math.min(position, ids.length)), 0, id);
+
+      const setPosition = database.prepare('UPDATE bookmarks SET folder_id = ?, position = ? WHERE id = ?');
+      ids.forEach((bookmarkId, index) => setPosition.run(folderId || null, index, bookmarkId));
+      database.prepare(`UPDATE bookmarks SET updated_at = strftime('%s', 'now') WHERE id = ?`).run(id);
+      return true;
+    });
+    return move();
+  } catch (error) {
+    console.error('[Database] Erro ao mover favorito:', error);
+    throw error;
+  }
+};
+
+/**
+ * Renomeia uma pasta de favoritos
+ */
+export const renameFolder = (id: string, name: string): boolean => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const result = db.prepare('UPDATE bookmark_folders SET name = ? WHERE id = ?').run(name, id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error('[Database] Erro ao renomear pasta:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove uma pasta de favoritos com todas as subpastas e os favoritos delas
+ */
+export const deleteFolder = (id: string): boolean => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db;
+    // UNION (e não UNION ALL) para não entrar em loop se houver um ciclo de parent_id
+    const subtree = `
+      WITH RECURSIVE subtree(id) AS (
+        SELECT id FROM bookmark_folders WHERE id = ?
+        UNION
+        SELECT f.id FROM bookmark_folders f JOIN subtree s ON f.parent_id = s.id
+      )
+    `;
+    const remove = database.transaction(() => {
+      const bookmarks = database.prepare(`${subtree} DELETE FROM bookmarks WHERE folder_id IN (SELECT id FROM subtree)`).run(id);
+      const folders = database.prepare(`${subtree} DELETE FROM bookmark_folders WHERE id IN (SELECT id FROM subtree)`).run(id);
+      console.log(`[Database] Pasta removida: ${folders.changes} pastas e ${bookmarks.changes} favoritos`);
+      return folders.changes > 0;
+    });
+    return remove();
+  } catch (error) {
+    console.error('[Database] Erro ao remover pasta:', error);
+    throw error;
+  }
+};
+
+/**
+ * Monta a árvore completa de favoritos a partir da raiz (pastas antes dos favoritos)
+ *
+ * Usada na exportação em HTML. created_at sai em segundos.
+ */
+export const getBookmarkTree = (): BookmarkTreeNode[] => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const folders = db.prepare(`
+      SELECT id, name, parent_id, position, created_at
+      FROM bookmark_folders
+      ORDER BY position ASC
+    `).all() as BookmarkFolderRow[];
+    const bookmarks = db.prepare(`
+      SELECT id, url, title, favicon, folder_id, position, created_at, updated_at
+      FROM bookmarks
+      WHERE url IS NOT NULL
+      ORDER BY position ASC
+    `).all() as BookmarkRow[];
+
+    // Registros antigos podem ter o timestamp em milissegundos
+    const toSeconds = (timestamp: number) => (timestamp > 1e11 ? Math.floor(timestamp / 1000) : timestamp);
+    const folderIds = new Set(folders.map((folder) => folder.id));
+    const childFolders = new Map<string | null, BookmarkFolderRow[]>();
+    folders.forEach((folder) => {
+      // Pastas com pai inexistente sobem para a raiz em vez de sumirem do arquivo
+      const parentId = folder.parent_id && folderIds.has(folder.parent_id) ? folder.parent_id : null;
+      if (!childFolders.has(parentId)) childFolders.set(parentId, []);
+      childFolders.get(parentId).push(folder);
+    });
+    const childBookmarks = new Map<string | null, BookmarkRow[]>();
+    bookmarks.forEach((bookmark) => {
+      const folderId = bookmark.folder_id && folderIds.has(bookmark.folder_id) ? bookmark.folder_id : null;
+      if (!childBookmarks.has(folderId)) childBookmarks.set(folderId, []);
+      childBookmarks.get(folderId).push(bookmark);
+    });
+
+    // visited evita loop infinito se houver um ciclo de parent_id
+    const visited = new Set<string>();
+    const build = (parentId: string | null): BookmarkTreeNode[] => {
+      const nodes: BookmarkTreeNode[] = [];
+      (childFolders.get(parentId) || []).forEach((folder) => {
+        if (visited.has(folder.id)) return;
+        visited.add(folder.id);
+        nodes.push({ type: 'folder', name: folder.name, created_at: toSeconds(folder.created_at), children: build(folder.id) });
+      });
+      (childBookmarks.get(parentId) || []).forEach((bookmark) => {
+        nodes.push({
+          type: 'bookmark',
+          title: bookmark.title,
+          url: bookmark.url,
+          favicon: bookmark.favicon || undefined,
+          created_at: toSeconds(bookmark.created_at)
+        });
+      });
+      return nodes;
+    };
+    return build(null);
+  } catch (error) {
+    console.error('[Database] Erro ao montar árvore de favoritos:', error);
+    throw error;
+  }
+};
+
+/**
+ * Importa uma árvore de favoritos (de um arquivo HTML) dentro de uma pasta, de uma vez só
+ *
+ * @remarks
+ * - Tudo roda numa transação: se algo falhar, nada é importado
+ * - Pastas com o mesmo nome no mesmo lugar são mescladas em vez de duplicadas
+ * - Favoritos com uma URL que já existe na mesma pasta são ignorados (duplicates)
+ * - generateId cria os IDs das novas pastas e favoritos
+ */
+export const importBookmarkTree = (nodes: BookmarkTreeNode[], generateId: () => string, parentId?: string): BookmarkImportResult => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db;
+    const findFolder = database.prepare('SELECT id FROM bookmark_folders WHERE parent_id IS ? AND name = ? ORDER BY position ASC LIMIT 1');
+    const countFolders = database.prepare('SELECT COUNT(*) as count FROM bookmark_folders WHERE parent_id IS ?');
+    const insertFolder = database.prepare('INSERT INTO bookmark_folders (id, name, parent_id, position, created_at) VALUES (?, ?, ?, ?, ?)');
+    const findBookmark = database.prepare('SELECT 1 FROM bookmarks WHERE folder_id IS ? AND url = ? LIMIT 1');
+    const countBookmarks = database.prepare('SELECT COUNT(*) as count FROM bookmarks WHERE folder_id IS ?');
+    const insertBookmark = database.prepare(`
+      INSERT INTO bookmarks (id, url, title, favicon, folder_id, position, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const now = Math.floor(Date.now() / 1000);
+    const result: BookmarkImportResult = { bookmarks: 0, folders: 0, duplicates: 0, skipped: 0 };
+
+    const importNodes = (children: BookmarkTreeNode[], folderId: string | null) => {
+      children.forEach((node) => {
+        if (node.type === 'folder') {
+          const existing = findFolder.get(folderId, node.name) as { id: string } | undefined;
+          let id = existing?.id;
+          if (!id) {
+            id = generateId();
+            const { count } = countFolders.get(folderId) as { count: number };
+            insertFolder.run(id, node.name, folderId, count, node.created_at || now);
+            result.folders++;
+          }
+          importNodes(node.children, id);
+        } else if (findBookmark.get(folderId, node.url)) {
+          result.duplicates++;
+        } else {
+          const { count } = countBookmarks.get(folderId) as { count: number };
+          const createdAt = node.created_at || now;
+          insertBookmark.run(generateId(), node.url, node.title, node.favicon || null, folderId, count, createdAt, createdAt);
+          result.bookmarks++;
+        }
+      });
+    };
+
+    const run = database.transaction(() => {
+      if (parentId && !database.prepare('SELECT 1 FROM bookmark_folders WHERE id = ?').get(parentId)) {
+        throw new Error('Pasta de destino não encontrada');
+      }
+      importNodes(nodes, parentId || null);
+    });
+    run();
+
+    console.log(`[Database] Favoritos importados: ${result.bookmarks} favoritos, ${result.folders} pastas, ${result.duplicates} duplicados`);
+    return result;
+  } catch (error) {
+    console.error('[Database] Erro ao importar favoritos:', error);
+    throw error;
+  }
+};
+
+// O Chromium conta microssegundos desde 1601; o Firefox, microssegundos desde 1970
+const CHROMIUM_EPOCH_OFFSET_MS = 11644473600000;
+const IMPORTABLE_HISTORY_URL = /^(https?|file):\/\/\S+$/i;
+
+// Tipo da visita no Chromium (byte baixo de visits.transition, mais os bits de redirecionamento)
+const chromiumTransition = (transition: number): VisitTransition | null => {
+  if ((transition & 0xc0000000) !== 0) return 'redirect';
+  switch (transition & 0xff) {
+    case 1: // TYPED
+    case 2: // AUTO_BOOKMARK
+    case 5: // GENERATED (busca pela barra de endereço)
+    case 9: // KEYWORD
+    case 10: // KEYWORD_GENERATED
+      return 'typed';
+    case 3: // AUTO_SUBFRAME
+    case 4: // MANUAL_SUBFRAME
+      return null;
+    case 7:
+      return 'form_submit';
+    case 8:
+      return 'reload';
+    default:
+      return 'link';
+  }
+};
+
+// moz_historyvisits.visit_type do Firefox
+const firefoxTransition = (visitType: number): VisitTransition | null => {
+  switch (visitType) {
+    case 2: // TYPED
+    case 3: // BOOKMARK
+      return 'typed';
+    case 4: // EMBED
+      return null;
+    case 5: // REDIRECT_PERMANENT
+    case 6: // REDIRECT_TEMPORARY
+      return 'redirect';
+    case 9:
+      return 'reload';
+    default:
+      return 'link';
+  }
+};
+
+/**
+ * Junta as URLs e as visitas lidas de outro navegador (já em milissegundos)
+ */
+const buildImportedHistory = (
+  places: { id: number; url: string; title: string | null; visit_count: number; last_visit: number }[],
+  visits: { place_id: number; time: number; type: number }[],
+  toTransition: (type: number) => VisitTransition | null
+): ImportedHistoryEntry[] => {
+  const visitsByPlace = new Map<number, ImportedHistoryEntry['visits']>();
+  visits.forEach((visit) => {
+    const transition = toTransition(visit.type);
+    if (!transition || visit.time <= 0) return;
+    if (!visitsByPlace.has(visit.place_id)) visitsByPlace.set(visit.place_id, []);
+    visitsByPlace.get(visit.place_id).push({ time: visit.time, transition });
+  });
+
+  return places
+    .filter((place) => place.last_visit > 0 && IMPORTABLE_HISTORY_URL.test(place.url))
+    .map((place) => ({
+      url: place.url,
+      title: place.title?.trim() || place.url,
+      visitCount: Math.max(1, place.visit_count),
+      lastVisit: place.last_visit,
+      visits: visitsByPlace.get(place.id) || []
+    }));
+};
+
+/**
+ * Lê o histórico de uma cópia do arquivo `History` de um perfil do Chromium (Chrome, Edge, Brave)
+ *
+ * @remarks
+ * Abra sempre uma cópia: o navegador em execução mantém o arquivo original travado.
+ * Só as visitas mais recentes de cada URL são lidas (FRECENCY_VISIT_SAMPLE_SIZE).
+ */
+export const readChromiumHistory = (filePath: string): ImportedHistoryEntry[] => {
+  const source = new BetterSqlite3(filePath, { fileMustExist: true });
+
+  try {
+    // A conversão é feita no SQL: microssegundos desde 1601 passam de 2^53
+    const places = source.prepare(`
+      SELECT id, url, title, visit_count, last_visit_time / 1000 - ${CHROMIUM_EPOCH_OFFSET_MS} AS last_visit
+      FROM urls
+      WHERE hidden = 0 AND last_visit_time > 0
+    `).all() as { id: number; url: string; title: string | null; visit_count: number; last_visit: number }[];
+    const visits = source.prepare(`
+      SELECT place_id, time, type FROM (
+        SELECT url AS place_id,
+               visit_time / 1000 - ${CHROMIUM_EPOCH_OFFSET_MS} AS time,
+               transition AS type,
+               ROW_NUMBER() OVER (PARTITION BY url ORDER BY visit_time DESC) AS rank
+        FROM visits
+      )
+      WHERE rank <= ?
+    `).all(FRECENCY_VISIT_SAMPLE_SIZE) as { place_id: number; time: number; type: number }[];
+
+    return buildImportedHistory(places, visits, chromiumTransition);
+  } finally {
+    source.close();
+  }
+};
+
+/**
+ * Lê o histórico e os favoritos de uma cópia do `places.sqlite` de um perfil do Firefox
+ *
+ * @remarks
+ * A barra de favoritos do Firefox vira a raiz do Hera; o menu de favoritos, os
+ * "Outros favoritos" e os favoritos do celular viram pastas. Tags são ignoradas.
+ */
+export const readFirefoxPlaces = (filePath: string): { history: ImportedHistoryEntry[]; bookmarks: BookmarkTreeNode[] } => {
+  const source = new BetterSqlite3(filePath, { fileMustExist: true });
+
+  try {
+    const places = source.prepare(`
+      SELECT id, url, title, visit_count, last_visit_date / 1000 AS last_visit
+      FROM moz_places
+      WHERE hidden = 0 AND visit_count > 0 AND last_visit_date IS NOT NULL
+    `).all() as { id: number; url: string; title: string | null; visit_count: number; last_visit: number }[];
+    const visits = source.prepare(`
+      SELECT place_id, time, type FROM (
+        SELECT place_id,
+               visit_date / 1000 AS time,
+               visit_type AS type,
+               ROW_NUMBER() OVER (PARTITION BY place_id ORDER BY visit_date DESC) AS rank
+        FROM moz_historyvisits
+      )
+      WHERE rank <= ?
+    `).all(FRECENCY_VISIT_SAMPLE_SIZE) as { place_id: number; time: number; type: number }[];
+
+    const items = source.prepare(`
+      SELECT b.id, b.type, b.parent, b.title, b.dateAdded / 1000000 AS created_at, b.guid, p.url
+      FROM moz_bookmarks b
+      LEFT JOIN moz_places p ON p.id = b.fk
+      ORDER BY b.parent, b.position
+    `).all() as { id: number; type: number; parent: number; title: string | null; created_at: number | null; guid: string; url: string | null }[];
+
+    const children = new Map<number, typeof items>();
+    items.forEach((item) => {
+      if (!children.has(item.parent)) children.set(item.parent, []);
+      children.get(item.parent).push(item);
+    });
+
+    // visited evita loop infinito se o arquivo tiver um ciclo de pastas
+    const visited = new Set<number>();
+    const build = (parentId: number): BookmarkTreeNode[] => {
+      const nodes: BookmarkTreeNode[] = [];
+      (children.get(parentId) || []).forEach((item) => {
+        if (visited.has(item.id)) return;
+        visited.add(item.id);
+        const createdAt = item.created_at > 0 ? item.created_at : undefined;
+        if (item.type === 2) {
+          nodes.push({ type: 'folder', name: item.title?.trim() || 'Pasta sem nome', created_at: createdAt, children: build(item.id) });
+        } else if (item.type === 1 && item.url) {
+          nodes.push({ type: 'bookmark', title: item.title?.trim() || item.url, url: item.url, created_at: createdAt });
+        }
+      });
+      return nodes;
+    };
+
+    const byGuid = new Map(items.map((item) => [item.guid, item] as const));
+    const rootNodes = (guid: string) => {
+      const root = byGuid.get(guid);
+      if (!root) return [];
+      visited.add(root.id);
+      return build(root.id);
+    };
+    const bookmarks = rootNodes('toolbar_____');
+    const specialFolders: [string, string][] = [
+      ['menu________', 'Menu de favoritos'],
+      ['unfiled_____', 'Outros favoritos'],
+      ['mobile______', 'Favoritos do celular']
+    ];
+    specialFolders.forEach(([guid, name]) => {
+      const nodes = rootNodes(guid);
+      if (nodes.length > 0) bookmarks.push({ type: 'folder', name, children: nodes });
+    });
+
+    return { history: buildImportedHistory(places, visits, firefoxTransition), bookmarks };
+  } finally {
+    source.close();
+  }
+};
+
+/**
+ * Grava no histórico entradas lidas de outro navegador, mantendo datas e contagens de visitas
+ *
+ * @remarks
+ * - Roda numa transação (chame em lotes para mostrar o progresso)
+ * - URLs já no histórico somam as visitas e ficam com a visita mais recente
+ * - Uma URL com alguma das visitas importadas já registrada foi importada antes e é ignorada (duplicates)
+ */
+export const importHistoryEntries = (entries: ImportedHistoryEntry[]): { imported: number; visits: number; duplicates: number } => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db;
+    const findEntry = database.prepare('SELECT id FROM history WHERE url = ?');
+    const hasVisit = database.prepare('SELECT 1 FROM visits WHERE history_id = ? AND visit_time = ? LIMIT 1');
+    const insertEntry = database.prepare('INSERT INTO history (url, title, timestamp, visit_count) VALUES (?, ?, ?, ?)');
+    const updateEntry = database.prepare(`
+      UPDATE history
+      SET visit_count = visit_count + ?,
+          timestamp = MAX(timestamp, ?),
+          title = CASE WHEN title = url THEN ? ELSE title END
+      WHERE id = ?
+    `);
+    const insertVisit = database.prepare('INSERT INTO visits (history_id, visit_time, transition) VALUES (?, ?, ?)');
+    const result = { imported: 0, visits: 0, duplicates: 0 };
+
+    const run = database.transaction(() => {
+      entries.forEach((entry) => {
+        // A última visita sempre entra, mesmo se o navegador de origem só a tiver na linha da URL
+        // (visitas de subframe e acima do limite por URL ficam fora das detalhadas)
+        const visits = entry.visits.some((visit) => visit.time === entry.lastVisit)
+          ? entry.visits
+          : [...entry.visits, { time: entry.lastVisit, transition: 'link' as VisitTransition }];
+
+        const existing = findEntry.get(entry.url) as { id: number } | undefined;
+        let historyId = existing?.id;
+        if (historyId !== undefined) {
+          // Qualquer visita já gravada indica que este perfil já foi importado
+          if (visits.some((visit) => hasVisit.get(historyId, visit.time))) {
+            result.duplicates++;
+            return;
+          }
+          updateEntry.run(entry.visitCount, entry.lastVisit, entry.title, historyId);
+        } else {
+          historyId = Number(insertEntry.run(entry.url, entry.title, entry.lastVisit, entry.visitCount).lastInsertRowid);
+        }
+
+        visits.forEach((visit) => insertVisit.run(historyId, visit.time, visit.transition));
+        result.visits += visits.length;
+        result.imported++;
+      });
+    });
+    run();
+
+    return result;
+  } catch (error) {
+    console.error('[Database] Erro ao importar histórico:', error);
+    throw error;
+  }
+};
+
+/**
+ * Salva o estado das abas abertas, dos seus grupos e das janelas
+ */
+export const saveTabsState = (tabs: TabState[], groups: TabGroup[], windows: WindowState[] = []): void => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const clearTabs = db.prepare('DELETE FROM open_tabs');
+    const clearGroups = db.prepare('DELETE FROM tab_groups');
+    const clearWindows = db.prepare('DELETE FROM browser_windows');
+
+    // Insere todas as abas
+    const insert = db.prepare(`
+      INSERT INTO open_tabs (
+        id, url, title, favicon, position, active,
+        navigation_entries, navigation_index, scroll_x, scroll_y, zoom_level, pinned, group_id, window_id, container_id, opener_id
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertGroup = db.prepare(`
+      INSERT INTO tab_groups (id, name, color, collapsed, position)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const insertWindow = db.prepare(`
+      INSERT INTO browser_windows (
+        id, x, y, width, height, maximized,
+        split_first_tab, split_second_tab, split_orientation, split_ratio
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    // Limpar e inserir na mesma transação: se o app morrer no meio, a sessão anterior continua inteira
+    const replaceAll = db.transaction((tabs: TabState[]) => {
+      clearTabs.run();
+      clearGroups.run();
+      clearWindows.run();
+
+      windows.forEach((window) => {
+        insertWindow.run(
+          window.id,
+          window.x ?? null,
+          window.y ?? null,
+          window.width,
+          window.height,
+          window.maximized ? 1 : 0,
+          window.split_tabs?.[0] ?? null,
+          window.split_tabs?.[1] ?? null,
+          window.split_tabs ? window.split_orientation ?? 'horizontal' : null,
+          window.split_tabs ? window.split_ratio ?? null : null
+        );
+      });
+
+      groups.forEach((group, index) => {
+        insertGroup.run(group.id, group.name, group.color, group.collapsed ? 1 : 0, index);
+      });
+
+      for (const tab of tabs) {
+        insert.run(
+          tab.id,
+          tab.url,
+          tab.title,
+          tab.favicon,
+          tab.position,
+          tab.active ? 1 : 0,
+          JSON.stringify(tab.navigation_entries ?? []),
+          tab.navigation_index ?? 0,
+          Math.round(tab.scroll_x ?? 0),
+          Math.round(tab.scroll_y ?? 0),
+          tab.zoom_level ?? 0,
+          tab.pinned ? 1 : 0,
+          tab.group_id ?? null,
+          tab.window_id ?? 0,
+          tab.container_id ?? null,
+          tab.opener_id ?? null
+        );
+      }
+    });
+
+    replaceAll(tabs);
+    console.log(`[Database] ${tabs.length} abas salvas com sucesso`);
+  } catch (error) {
+    console.error('[Database] Erro ao salvar abas:', error);
+    throw error;
+  }
+};
+
+/**
+ * Obtém o estado das abas salvas
+ */
+export const getTabsState = (): TabState[] => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = db.prepare(`
+      SELECT id, url, title, favicon, position, active,
+             navigation_entries, navigation_index, scroll_x, scroll_y, zoom_level, pinned, group_id, window_id, container_id, opener_id
+      FROM open_tabs 
+      ORDER BY window_id ASC, pinned DESC, position ASC
+    `).all() as TabStateRow[];
+
+    return rows.map((row) => {
+      const entries = parseNavigationEntries(row.navigation_entries);
+      return {
+        id: row.id,
+        url: row.url,
+        title: row.title,
+        favicon: row.favicon || undefined,
+        position: row.position,
+        active: row.active === 1,
+        navigation_entries: entries,
+        navigation_index: clampNavigationIndex(row.navigation_index, entries),
+        scroll_x: row.scroll_x,
+        scroll_y: row.scroll_y,
+        zoom_level: row.zoom_level,
+        pinned: row.pinned === 1,
+        group_id: row.group_id || undefined,
+        window_id: row.window_id ?? 0,
+        container_id: row.container_id || undefined,
+        opener_id: row.opener_id || undefined
+      };
+    });
+  } catch (error) {
+    console.error('[Database] Erro ao buscar abas:', error);
+    return [];
+  }
+};
+
+/**
+ * Obtém a posição e o tamanho das janelas salvas com a sessão
+ */
+export const getWindowsState = (): WindowState[] => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = db.prepare(`
+      SELECT id, x, y, width, height, maximized,
+             split_first_tab, split_second_tab, split_orientation, split_ratio
+      FROM browser_windows
+      ORDER BY id ASC
+    `).all() as WindowStateRow[];
+
+    return rows.map((row): WindowState => {
+      const hasSplit = row.split_first_tab !== null && row.split_second_tab !== null;
+      return {
+        id: row.id,
+        x: row.x ?? undefined,
+        y: row.y ?? undefined,
+        width: row.width,
+        height: row.height,
+        maximized: row.maximized === 1,
+        split_tabs: hasSplit ? [row.split_first_tab, row.split_second_tab] : undefined,
+        split_orientation: hasSplit ? (row.split_orientation === 'vertical' ? 'vertical' : 'horizontal') : undefined,
+        split_ratio: hasSplit ? row.split_ratio ?? undefined : undefined
+      };
+    });
+  } catch (error) {
+    console.error('[Database] Erro ao buscar janelas:', error);
+    return [];
+  }
+};
+
+/**
+ * Obtém os grupos de abas salvos com a sessão, na ordem da barra
+ */
+export const getTabGroups = (): TabGroup[] => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = db.prepare(`
+      SELECT id, name, color, collapsed, position
+      FROM tab_groups
+      ORDER BY position ASC
+    `).all() as TabGroupRow[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      // Cor desconhecida (ex: removida numa versão futura) volta para o cinza
+      color: row.color in TAB_GROUP_COLORS ? row.color as TabGroupColor : 'grey',
+      collapsed: row.collapsed === 1
+    }));
+  } catch (error) {
+    console.error('[Database] Erro ao buscar grupos de abas:', error);
+    return [];
+  }
+};
+
+// ========================================
+// SESSÕES NOMEADAS
+// ========================================
+
+const toNamedSession = (row: Omit<SessionRow, 'snapshot'>): NamedSession => ({
+  id: row.id,
+  name: row.name,
+  tab_count: row.tab_count,
+  window_count: row.window_count,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+/**
+ * Lê a sessão salva em JSON (null se estiver corrompida)
+ */
+const parseSessionSnapshot = (json: string): SessionSnapshot | null => {
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return isSessionSnapshot(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Janelas contadas pelas abas (uma sessão antiga pode não ter as janelas salvas)
+const countSessionWindows = (snapshot: SessionSnapshot): number =>
+  new Set(snapshot.tabs.map((tab) => tab.window_id ?? 0)).size;
+
+/**
+ * Obtém as sessões nomeadas, da salva mais recentemente para a mais antiga
+ */
+export const getSessions = (): NamedSession[] => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = db.prepare(`
+      SELECT id, name, tab_count, window_count, created_at, updated_at
+      FROM sessions
+      ORDER BY updated_at DESC
+    `).all() as Omit<SessionRow, 'snapshot'>[];
+    return rows.map(toNamedSession);
+  } catch (error) {
+    console.error('[Database] Erro ao buscar sessões:', error);
+    return [];
+  }
+};
+
+/**
+ * Obtém uma sessão nomeada com suas abas, grupos e janelas
+ */
+export const getSession = (id: string): NamedSessionState | null => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const row = db.prepare(`
+      SELECT id, name, snapshot, tab_count, window_count, created_at, updated_at
+      FROM sessions
+      WHERE id = ?
+    `).get(id) as SessionRow | undefined;
+    if (!row) return null;
+
+    const snapshot = parseSessionSnapshot(row.snapshot);
+    if (!snapshot) {
+      console.error(`[Database] Sessão ${id} corrompida, ignorando`);
+      return null;
+    }
+    return { ...toNamedSession(row), snapshot };
+  } catch (error) {
+    console.error('[Database] Erro ao buscar sessão:', error);
+    return null;
+  }
+};
+
+/**
+ * Salva uma nova sessão nomeada
+ */
+export const addSession = (id: string, name: string, snapshot: SessionSnapshot): NamedSession => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const now = Date.now();
+    const session: NamedSession = {
+      id,
+      name,
+      tab_count: snapshot.tabs.length,
+      window_count: countSessionWindows(snapshot),
+      created_at: now,
+      updated_at: now
+    };
+
+    db.prepare(`
+      INSERT INTO sessions (id, name, snapshot, tab_count, window_count, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(id, name, JSON.stringify(snapshot), session.tab_count, session.window_count, now, now);
+
+    console.log(`[Database] Sessão "${name}" salva com ${session.tab_count} abas`);
+    return session;
+  } catch (error) {
+    console.error('[Database] Erro ao salvar sessão:', error);
+    throw error;
+  }
+};
+
+/**
+ * Substitui as abas, grupos e janelas de uma sessão nomeada
+ */
+export const updateSessionSnapshot = (id: string, snapshot: SessionSnapshot): boolean => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const result = db.prepare(`
+      UPDATE sessions
+      SET snapshot = ?, tab_count = ?, window_count = ?, updated_at = ?
+      WHERE id = ?
+    `).run(JSON.stringify(snapshot), snapshot.tabs.length, countSessionWindows(snapshot), Date.now(), id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error('[Database] Erro ao atualizar sessão:', error);
+    throw error;
+  }
+};
+
+/**
+ * Renomeia uma sessão nomeada
+ */
+export const renameSession = (id: string, name: string): NamedSession | null => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const result = db.prepare('UPDATE sessions SET name = ? WHERE id = ?').run(name, id);
+    if (result.changes === 0) return null;
+
+    const row = db.prepare(`
+      SELECT id, name, tab_count, window_count, created_at, updated_at
+      FROM sessions
+      WHERE id = ?
+    `).get(id) as Omit<SessionRow, 'snapshot'>;
+    return toNamedSession(row);
+  } catch (error) {
+    console.error('[Database] Erro ao renomear sessão:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove uma sessão nomeada
+ */
+export const removeSession = (id: string): boolean => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    return db.prepare('DELETE FROM sessions WHERE id = ?').run(id).changes > 0;
+  } catch (error) {
+    console.error('[Database] Erro ao remover sessão:', error);
+    throw error;
+  }
+};
+
+// ========================================
+// CONTÊINERES
+// ========================================
+
+/**
+ * Lê as permissões salvas em JSON (null = padrão do navegador)
+ */
+const parsePermissions = (json: string | null): string[] | undefined => {
+  if (json === null) return undefined;
+  try {
+    const permissions: unknown = JSON.parse(json);
+    return Array.isArray(permissions)
+      ? permissions.filter((permission): permission is string => typeof permission === 'string')
+      : undefined;
+  } catch {
+    return undefined;
   }
 };
 
+const toContainer = (row: ContainerRow): Container => ({
+  id: row.id,
+  name: row.name,
+  // Cor desconhecida (ex: removida numa versão futura) volta para o cinza
+  color: row.color in TAB_GROUP_COLORS ? row.color as TabGroupColor : 'grey',
+  user_agent: row.user_agent || undefined,
+  permissions: parsePermissions(row.permissions),
+  position: row.position
+});
+
 /**
- * Obtém todo o histórico
+ * Obtém todos os contêineres, na ordem de exibição
  */
-export const getHistory = (): HistoryEntry[] => {
+export const getContainers = (): Container[] => {
   if (!db) throw new Error('Database not initialized');
 
   try {
     const rows = db.prepare(`
-      SELECT id, url, title, timestamp, visit_count, favicon 
-      FROM history 
-      ORDER BY timestamp DESC 
-      LIMIT 1000
-    `).all() as HistoryRow[];
-
-    const history: HistoryEntry[] = rows.map(row => ({
-      id: row.id,
-      url: row.url,
-      title: row.title,
-      timestamp: row.timestamp,
-      visit_count: row.visit_count,
-      favicon: row.favicon || undefined
-    }));
-
-    return validateHistoryEntries(history);
+      SELECT id, name, color, user_agent, permissions, position
+      FROM containers
+      ORDER BY position ASC, created_at ASC
+    `).all() as ContainerRow[];
+    return rows.map(toContainer);
   } catch (error) {
-    console.error('[Database] Erro ao buscar histórico:', error);
+    console.error('[Database] Erro ao buscar contêineres:', error);
     return [];
   }
 };
 
 /**
- * Limpa todo o histórico
+ * Obtém um contêiner pelo ID
  */
-export const clearHistory = (): void => {
+export const getContainer = (id: string): Container | null => {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    db.prepare('DELETE FROM history').run();
-    console.log('[Database] Histórico limpo com sucesso');
+    const row = db.prepare(`
+      SELECT id, name, color, user_agent, permissions, position
+      FROM containers
+      WHERE id = ?
+    `).get(id) as ContainerRow | undefined;
+    return row ? toContainer(row) : null;
   } catch (error) {
-    console.error('[Database] Erro ao limpar histórico:', error);
-    throw error;
+    console.error('[Database] Erro ao buscar contêiner:', error);
+    return null;
   }
 };
 
 /**
- * Adiciona um favorito
+ * Adiciona um contêiner no fim da lista
  */
-export const addBookmark = (id: string, url: string, title: string, favicon?: string, folderId?: string): Bookmark => {
+export const addContainer = (id: string, input: ContainerInput): Container => {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const position = db.prepare('SELECT COUNT(*) as count FROM bookmarks WHERE folder_id IS ?').get(folderId || null) as { count: number };
+    const position = db.prepare('SELECT COALESCE(MAX(position) + 1, 0) as next FROM containers').get() as { next: number };
 
     db.prepare(`
-      INSERT INTO bookmarks (id, url, title, favicon, folder_id, position) 
+      INSERT INTO containers (id, name, color, user_agent, permissions, position)
       VALUES (?, ?, ?, ?, ?, ?)
-    `).run(id, url, title, favicon, folderId, position.count);
+    `).run(
+      id,
+      input.name,
+      input.color,
+      input.user_agent || null,
+      input.permissions ? JSON.stringify(input.permissions) : null,
+      position.next
+    );
 
     return {
       id,
-      url,
-      title,
-      favicon,
-      folder_id: folderId,
-      position: position.count,
-      created_at: Date.now(),
-      updated_at: Date.now()
+      name: input.name,
+      color: input.color,
+      user_agent: input.user_agent || undefined,
+      permissions: input.permissions ?? undefined,
+      position: position.next
     };
   } catch (error) {
-    console.error('[Database] Erro ao adicionar favorito:', error);
+    console.error('[Database] Erro ao adicionar contêiner:', error);
     throw error;
   }
 };
 
 /**
- * Remove um favorito
+ * Atualiza um contêiner (apenas os campos informados)
  */
-export const removeBookmark = (id: string): boolean => {
+export const updateContainer = (id: string, changes: Partial<ContainerInput>): Container | null => {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const result = db.prepare('DELETE FROM bookmarks WHERE id = ?').run(id);
-    return result.changes > 0;
+    const result = db.prepare(`
+      UPDATE containers
+      SET name = COALESCE(?, name),
+          color = COALESCE(?, color),
+          user_agent = CASE WHEN ? THEN ? ELSE user_agent END,
+          permissions = CASE WHEN ? THEN ? ELSE permissions END
+      WHERE id = ?
+    `).run(
+      changes.name ?? null,
+      changes.color ?? null,
+      // user_agent vazio volta para o padrão do navegador
+      changes.user_agent !== undefined ? 1 : 0,
+      changes.user_agent || null,
+      // permissions null volta para o padrão do navegador
+      changes.permissions !== undefined ? 1 : 0,
+      changes.permissions ? JSON.stringify(changes.permissions) : null,
+      id
+    );
+
+    return result.changes > 0 ? getContainer(id) : null;
   } catch (error) {
-    console.error('[Database] Erro ao remover favorito:', error);
-    return false;
+    console.error('[Database] Erro ao atualizar contêiner:', error);
+    throw error;
   }
 };
 
 /**
- * Obtém favoritos de uma pasta
+ * Remove um contêiner
+ *
+ * Abas fechadas desse contêiner passam a reabrir sem contêiner.
  */
-export const getBookmarks = (folderId?: string): Bookmark[] => {
+export const removeContainer = (id: string): boolean => {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const rows = db.prepare(`
-      SELECT id, url, title, favicon, folder_id, position, created_at, updated_at 
-      FROM bookmarks 
-      WHERE folder_id IS ? 
-      ORDER BY position ASC
-    `).all(folderId || null) as BookmarkRow[];
-
-    const bookmarks: Bookmark[] = rows.map(row => ({
-      id: row.id,
-      url: row.url,
-      title: row.title,
-      favicon: row.favicon || undefined,
-      folder_id: row.folder_id || undefined,
-      position: row.position,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-    }));
-
-    return validateBookmarks(bookmarks);
+    const database = db;
+    const remove = database.transaction(() => {
+      database.prepare('UPDATE closed_tabs SET container_id = NULL WHERE container_id = ?').run(id);
+      return database.prepare('DELETE FROM containers WHERE id = ?').run(id).changes > 0;
+    });
+    return remove();
   } catch (error) {
-    console.error('[Database] Erro ao buscar favoritos:', error);
-    return [];
+    console.error('[Database] Erro ao remover contêiner:', error);
+    throw error;
   }
 };
 
+// ========================================
+// ABAS FECHADAS RECENTEMENTE
+// ========================================
+
 /**
- * Busca favoritos por título ou URL
+ * Lê o histórico de navegação salvo em JSON, ignorando entradas inválidas
  */
-export const searchBookmarks = (query: string): Bookmark[] => {
-  if (!db) throw new Error('Database not initialized');
-
+const parseNavigationEntries = (json: string): TabNavigationEntry[] => {
   try {
-    const rows = db.prepare(`
-      SELECT id, url, title, favicon, folder_id, position, created_at, updated_at 
-      FROM bookmarks 
-      WHERE title LIKE ? OR url LIKE ? 
-      ORDER BY position ASC
-    `).all(`%${query}%`, `%${query}%`) as BookmarkRow[];
-
-    const bookmarks: Bookmark[] = rows.map(row => ({
-      id: row.id,
-      url: row.url,
-      title: row.title,
-      favicon: row.favicon || undefined,
-      folder_id: row.folder_id || undefined,
-      position: row.position,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-    }));
-
-    return validateBookmarks(bookmarks);
-  } catch (error) {
-    console.error('[Database] Erro ao buscar favoritos:', error);
+    const parsed: unknown = JSON.parse(json);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((entry): entry is TabNavigationEntry =>
+      typeof entry === 'object' && entry !== null &&
+      typeof entry.url === 'string' && typeof entry.title === 'string'
+    );
+  } catch {
     return [];
   }
 };
 
 /**
- * Cria uma pasta de favoritos
+ * Mantém o índice da entrada ativa dentro do histórico lido do banco
  */
-export const createBookmarkFolder = (id: string, name: string, parentId?: string): BookmarkFolder => {
+const clampNavigationIndex = (index: number, entries: TabNavigationEntry[]): number =>
+  Math.min(Math.max(index, 0), Math.max(entries.length - 1, 0));
+
+/**
+ * Guarda uma aba fechada no topo da pilha
+ *
+ * Mantém apenas as CLOSED_TABS_MAX abas mais recentes.
+ *
+ * @returns ID da aba fechada
+ */
+export const addClosedTab = (tab: Omit<ClosedTabState, 'id'>): number => {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const position = db.prepare('SELECT COUNT(*) as count FROM bookmark_folders WHERE parent_id IS ?').get(parentId || null) as { count: number };
-
-    db.prepare(`
-      INSERT INTO bookmark_folders (id, name, parent_id, position) 
-      VALUES (?, ?, ?, ?)
-    `).run(id, name, parentId, position.count);
+    const database = db;
+    const insertClosedTab = database.transaction(() => {
+      const result = database.prepare(`
+        INSERT INTO closed_tabs (url, title, favicon, position, navigation_entries, navigation_index, closed_at, container_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        tab.url,
+        tab.title,
+        tab.favicon || null,
+        tab.position,
+        JSON.stringify(tab.navigation_entries),
+        tab.navigation_index,
+        tab.closed_at,
+        tab.container_id || null
+      );
+
+      database.prepare(`
+        DELETE FROM closed_tabs
+        WHERE id NOT IN (SELECT id FROM closed_tabs ORDER BY closed_at DESC, id DESC LIMIT ?)
+      `).run(CLOSED_TABS_MAX);
+
+      return Number(result.lastInsertRowid);
+    });
 
-    return {
-      id,
-      name,
-      parent_id: parentId,
-      position: position.count,
-      created_at: Date.now()
-    };
+    return insertClosedTab();
   } catch (error) {
-    console.error('[Database] Erro ao criar pasta:', error);
+    console.error('[Database] Erro ao salvar aba fechada:', error);
     throw error;
   }
 };
 
 /**
- * Obtém pastas de favoritos
+ * Obtém as abas fechadas recentemente, da mais recente para a mais antiga
  */
-export const getBookmarkFolders = (parentId?: string): BookmarkFolder[] => {
+export const getClosedTabs = (limit: number = CLOSED_TABS_MAX): ClosedTab[] => {
   if (!db) throw new Error('Database not initialized');
 
   try {
     const rows = db.prepare(`
-      SELECT id, name, parent_id, position, created_at 
-      FROM bookmark_folders 
-      WHERE parent_id IS ? 
-      ORDER BY position ASC
-    `).all(parentId || null) as BookmarkFolderRow[];
+      SELECT id, url, title, favicon, position, closed_at
+      FROM closed_tabs
+      ORDER BY closed_at DESC, id DESC
+      LIMIT ?
+    `).all(limit) as Omit<ClosedTabRow, 'navigation_entries' | 'navigation_index' | 'container_id'>[];
 
-    return rows.map(row => ({
+    return rows.map((row) => ({
       id: row.id,
-      name: row.name,
-      parent_id: row.parent_id || undefined,
+      url: row.url,
+      title: row.title || row.url,
+      favicon: row.favicon || undefined,
       position: row.position,
-      created_at: row.created_at
+      closed_at: row.closed_at
     }));
   } catch (error) {
-    console.error('[Database] Erro ao buscar pastas:', error);
+    console.error('[Database] Erro ao buscar abas fechadas:', error);
     return [];
   }
 };
 
 /**
- * Salva o estado das abas abertas
+ * Remove uma aba da pilha e retorna seu estado completo para reabrir
+ *
+ * @param id - ID da aba fechada (omitido = a mais recente)
+ * @returns Estado da aba, ou null se a pilha estiver vazia
  */
-export const saveTabsState = (tabs: TabState[]): void => {
+export const takeClosedTab = (id?: number): ClosedTabState | null => {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    // Limpa abas antigas
-    db.prepare('DELETE FROM open_tabs').run();
-
-    // Insere todas as abas
-    const insert = db.prepare(`
-      INSERT INTO open_tabs (id, url, title, favicon, position, active) 
-      VALUES (?, ?, ?, ?, ?, ?)
-    `);
-
-    const insertMany = db.transaction((tabs: TabState[]) => {
-      for (const tab of tabs) {
-        insert.run(tab.id, tab.url, tab.title, tab.favicon, tab.position, tab.active ? 1 : 0);
+    const database = db;
+    const take = database.transaction((): ClosedTabRow | undefined => {
+      const row = (id === undefined
+        ? database.prepare('SELECT * FROM closed_tabs ORDER BY closed_at DESC, id DESC LIMIT 1').get()
+        : database.prepare('SELECT * FROM closed_tabs WHERE id = ?').get(id)) as ClosedTabRow | undefined;
+
+      if (row) {
+        database.prepare('DELETE FROM closed_tabs WHERE id = ?').run(row.id);
       }
+      return row;
     });
 
-    insertMany(tabs);
-    console.log(`[Database] ${tabs.length} abas salvas com sucesso`);
+    const row = take();
+    if (!row) return null;
+
+    const entries = parseNavigationEntries(row.navigation_entries);
+    return {
+      id: row.id,
+      url: row.url,
+      title: row.title || row.url,
+      favicon: row.favicon || undefined,
+      position: row.position,
+      closed_at: row.closed_at,
+      navigation_entries: entries,
+      navigation_index: clampNavigationIndex(row.navigation_index, entries),
+      container_id: row.container_id || undefined
+    };
   } catch (error) {
-    console.error('[Database] Erro ao salvar abas:', error);
-    throw error;
+    console.error('[Database] Erro ao reabrir aba fechada:', error);
+    return null;
   }
 };
 
 /**
- * Obtém o estado das abas salvas
+ * Limpa a pilha de abas fechadas
  */
-export const getTabsState = (): TabState[] => {
+export const clearClosedTabs = (): void => {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const rows = db.prepare(`
-      SELECT id, url, title, favicon, position, active 
-      FROM open_tabs 
-      ORDER BY position ASC
-    `).all() as TabStateRow[];
-
-    return rows.map((row) => ({
-      id: row.id,
-      url: row.url,
-      title: row.title,
-      favicon: row.favicon || undefined,
-      position: row.position,
-      active: row.active === 1
-    }));
+    db.prepare('DELETE FROM closed_tabs').run();
+    console.log('[Database] Abas fechadas removidas');
   } catch (error) {
-    console.error('[Database] Erro ao buscar abas:', error);
-    return [];
+    console.error('[Database] Erro ao limpar abas fechadas:', error);
+    throw error;
   }
 };
 
@@ -532,6 +2450,181 @@ export const getAllSettings = (): Record<string, string> => {
   }
 };
 
+// ========================================
+// MECANISMOS DE BUSCA
+// ========================================
+
+const toSearchEngine = (row: SearchEngineRow): SearchEngine => ({
+  id: row.id,
+  name: row.name,
+  url_template: row.url_template,
+  keyword: row.keyword,
+  suggest_url: row.suggest_url || undefined,
+  position: row.position
+});
+
+/**
+ * Obtém todos os mecanismos de busca, na ordem de exibição
+ */
+export const getSearchEngines = (): SearchEngine[] => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = db.prepare(`
+      SELECT id, name, url_template, keyword, suggest_url, position
+      FROM search_engines
+      ORDER BY position ASC, created_at ASC
+    `).all() as SearchEngineRow[];
+    return rows.map(toSearchEngine);
+  } catch (error) {
+    console.error('[Database] Erro ao buscar mecanismos de busca:', error);
+    return [];
+  }
+};
+
+/**
+ * Obtém o mecanismo de busca de uma palavra-chave (sem diferenciar maiúsculas)
+ */
+export const getSearchEngineByKeyword = (keyword: string): SearchEngine | null => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const row = db.prepare(`
+      SELECT id, name, url_template, keyword, suggest_url, position
+      FROM search_engines
+      WHERE keyword = ?
+    `).get(keyword) as SearchEngineRow | undefined;
+    return row ? toSearchEngine(row) : null;
+  } catch (error) {
+    console.error('[Database] Erro ao buscar mecanismo por palavra-chave:', error);
+    return null;
+  }
+};
+
+/**
+ * Obtém o mecanismo de busca padrão (configuração searchEngine)
+ *
+ * Se o mecanismo configurado não existir mais, usa o primeiro da lista.
+ */
+export const getDefaultSearchEngine = (): SearchEngine | null => {
+  if (!db) throw new Error('Database not initialized');
+
+  const engines = getSearchEngines();
+  const defaultId = getSetting('searchEngine') || DEFAULT_SEARCH_ENGINE;
+  return engines.find((engine) => engine.id === defaultId) ?? engines[0] ?? null;
+};
+
+/**
+ * Verifica se a palavra-chave já pertence a outro mecanismo
+ */
+const isKeywordTaken = (database: BetterSqlite3.Database, keyword: string, exceptId?: string): boolean => {
+  const row = database.prepare('SELECT id FROM search_engines WHERE keyword = ?').get(keyword) as { id: string } | undefined;
+  return row !== undefined && row.id !== exceptId;
+};
+
+/**
+ * Adiciona um mecanismo de busca no fim da lista
+ */
+export const addSearchEngine = (id: string, input: SearchEngineInput): SearchEngine => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    if (isKeywordTaken(db, input.keyword)) {
+      throw new Error(`Palavra-chave "${input.keyword}" já está em uso`);
+    }
+
+    const position = db.prepare('SELECT COALESCE(MAX(position) + 1, 0) as next FROM search_engines').get() as { next: number };
+
+    db.prepare(`
+      INSERT INTO search_engines (id, name, url_template, keyword, suggest_url, position)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(id, input.name, input.url_template, input.keyword, input.suggest_url || null, position.next);
+
+    return {
+      id,
+      name: input.name,
+      url_template: input.url_template,
+      keyword: input.keyword,
+      suggest_url: input.suggest_url || undefined,
+      position: position.next
+    };
+  } catch (error) {
+    console.error('[Database] Erro ao adicionar mecanismo de busca:', error);
+    throw error;
+  }
+};
+
+/**
+ * Atualiza um mecanismo de busca (apenas os campos informados)
+ */
+export const updateSearchEngine = (id: string, changes: Partial<SearchEngineInput>): SearchEngine | null => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    if (changes.keyword !== undefined && isKeywordTaken(db, changes.keyword, id)) {
+      throw new Error(`Palavra-chave "${changes.keyword}" já está em uso`);
+    }
+
+    const result = db.prepare(`
+      UPDATE search_engines
+      SET name = COALESCE(?, name),
+          url_template = COALESCE(?, url_template),
+          keyword = COALESCE(?, keyword),
+          suggest_url = CASE WHEN ? THEN ? ELSE suggest_url END
+      WHERE id = ?
+    `).run(
+      changes.name ?? null,
+      changes.url_template ?? null,
+      changes.keyword ?? null,
+      // suggest_url vazio remove a URL de sugestões
+      changes.suggest_url !== undefined ? 1 : 0,
+      changes.suggest_url || null,
+      id
+    );
+
+    if (result.changes === 0) return null;
+
+    const row = db.prepare(`
+      SELECT id, name, url_template, keyword, suggest_url, position
+      FROM search_engines
+      WHERE id = ?
+    `).get(id) as SearchEngineRow;
+    return toSearchEngine(row);
+  } catch (error) {
+    console.error('[Database] Erro ao atualizar mecanismo de busca:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove um mecanismo de busca
+ *
+ * O último mecanismo não pode ser removido. Se o removido era o padrão,
+ * o primeiro restante passa a ser o padrão.
+ */
+export const removeSearchEngine = (id: string): boolean => {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const total = db.prepare('SELECT COUNT(*) as count FROM search_engines').get() as { count: number };
+    if (total.count <= 1) {
+      throw new Error('É necessário manter pelo menos um mecanismo de busca');
+    }
+
+    const wasDefault = getDefaultSearchEngine()?.id === id;
+    const result = db.prepare('DELETE FROM search_engines WHERE id = ?').run(id);
+
+    if (result.changes > 0 && wasDefault) {
+      const next = getSearchEngines()[0];
+      if (next) setSetting('searchEngine', next.id);
+    }
+    return result.changes > 0;
+  } catch (error) {
+    console.error('[Database] Erro ao remover mecanismo de busca:', error);
+    throw error;
+  }
+};
+
 /**
  * Adiciona um download ao banco
  */
@@ -4,9 +4,41 @@ const searchInput = document.getElementById('search-input');
 const clearAllBtn = document.getElementById('clear-all-btn');
 const emptyState = document.getElementById('empty-state');
 const noResults = document.getElementById('no-results');
+const loadMoreBtn = document.getElementById('load-more-btn');
+const rangeSelect = document.getElementById('range-select');
+const customRange = document.getElementById('custom-range');
+const rangeFromInput = document.getElementById('range-from');
+const rangeToInput = document.getElementById('range-to');
+const customRangeDeleteBtn = document.getElementById('custom-range-delete-btn');
+const customRangeCancelBtn = document.getElementById('custom-range-cancel-btn');
+const selectionBar = document.getElementById('selection-bar');
+const selectionCount = document.getElementById('selection-count');
+const selectAllBtn = document.getElementById('select-all-btn');
+const cancelSelectionBtn = document.getElementById('cancel-selection-btn');
+const deleteSelectedBtn = document.getElementById('delete-selected-btn');
+
+// Paginação da busca (resultados vêm do índice FTS no main process)
+const PAGE_SIZE = 100;
+const SEARCH_DEBOUNCE_MS = 200;
 
 let allHistory = [];
-let filteredHistory = [];
+let currentQuery = '';
+let hasMore = false;
+let isLoading = false;
+let searchTimer = null;
+
+// Seleção múltipla (IDs das entradas marcadas)
+const selectedIds = new Set();
+let lastSelectedIndex = null;
+// A API aceita no máximo 1000 IDs por chamada
+const DELETE_BATCH_SIZE = 1000;
+
+// Períodos pré-definidos para exclusão (em ms)
+const RANGE_PRESETS = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000
+};
 
 // Format date for grouping
 function formatDate(timestamp) {
@@ -38,6 +70,15 @@ function formatTime(timestamp) {
   });
 }
 
+// Get hostname (used to delete everything from a site)
+function getHostname(url) {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
+
 // Get favicon URL
 function getFaviconUrl(url) {
   try {
@@ -48,12 +89,25 @@ function getFaviconUrl(url) {
   }
 }
 
+// Format date and time (used in search results, which are not grouped by day)
+function formatDateTime(timestamp) {
+  const date = new Date(timestamp);
+  return date.toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
 // Group history by date
+// Search results are ranked by relevance, so they stay in a single group
 function groupHistoryByDate(history) {
   const groups = {};
   
   history.forEach(item => {
-    const dateKey = formatDate(item.timestamp);
+    const dateKey = currentQuery ? 'Resultados da busca' : formatDate(item.timestamp);
     if (!groups[dateKey]) {
       groups[dateKey] = [];
     }
@@ -67,9 +121,12 @@ function groupHistoryByDate(history) {
 function renderHistory(history) {
   historyList.innerHTML = '';
   
+  loadMoreBtn.classList.toggle('hidden', !hasMore);
+  updateSelectionBar();
+
   if (history.length === 0) {
     historyList.classList.add('hidden');
-    if (searchInput.value.trim()) {
+    if (currentQuery) {
       noResults.classList.remove('hidden');
       emptyState.classList.add('hidden');
     } else {
@@ -95,10 +152,22 @@ function renderHistory(history) {
     groupDiv.appendChild(dateHeader);
 
     items.forEach(item => {
+      const index = history.indexOf(item);
       const itemDiv = document.createElement('div');
       itemDiv.className = 'history-item';
+      itemDiv.classList.toggle('selected', selectedIds.has(item.id));
       itemDiv.title = item.url;
 
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.className = 'history-checkbox';
+      checkbox.checked = selectedIds.has(item.id);
+      checkbox.title = 'Selecionar';
+      checkbox.onclick = (e) => {
+        e.stopPropagation();
+        toggleSelection(index, checkbox.checked, e.shiftKey);
+      };
+
       const favicon = document.createElement('img');
       favicon.className = 'history-favicon';
       favicon.src = getFaviconUrl(item.url);
@@ -109,20 +178,21 @@ function renderHistory(history) {
       const infoDiv = document.createElement('div');
       infoDiv.className = 'history-info';
 
+      // Os snippets já vêm escapados do main process, com os termos em <mark>
       const title = document.createElement('div');
       title.className = 'history-title';
-      title.textContent = item.title || item.url;
+      title.innerHTML = item.title_snippet || item.url_snippet;
 
       const url = document.createElement('div');
       url.className = 'history-url';
-      url.textContent = item.url;
+      url.innerHTML = item.url_snippet;
 
       infoDiv.appendChild(title);
       infoDiv.appendChild(url);
 
       const time = document.createElement('div');
       time.className = 'history-time';
-      time.textContent = formatTime(item.timestamp);
+      time.textContent = currentQuery ? formatDateTime(item.timestamp) : formatTime(item.timestamp);
 
       const actionsDiv = document.createElement('div');
       actionsDiv.className = 'history-actions';
@@ -140,8 +210,27 @@ function renderHistory(history) {
         deleteHistoryItem(item.id);
       };
 
+      const hostname = getHostname(item.url);
+      if (hostname) {
+        const deleteSiteBtn = document.createElement('button');
+        deleteSiteBtn.className = 'btn-icon';
+        deleteSiteBtn.innerHTML = `
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <circle cx="12" cy="12" r="9"/>
+            <path d="M3 12h18M12 3a14 14 0 010 18M12 3a14 14 0 000 18M5 5l14 14"/>
+          </svg>
+        `;
+        deleteSiteBtn.title = `Remover todo o histórico de ${hostname}`;
+        deleteSiteBtn.onclick = (e) => {
+          e.stopPropagation();
+          deleteHistoryByDomain(hostname);
+        };
+        actionsDiv.appendChild(deleteSiteBtn);
+      }
+
       actionsDiv.appendChild(deleteBtn);
 
+      itemDiv.appendChild(checkbox);
       itemDiv.appendChild(favicon);
       itemDiv.appendChild(infoDiv);
       itemDiv.appendChild(time);
@@ -158,31 +247,81 @@ function renderHistory(history) {
   });
 }
 
-// Load history
-async function loadHistory() {
+// Load a page of history (reset = start over from the first page)
+async function loadHistory(reset = true) {
+  if (isLoading) return;
+  isLoading = true;
+
   try {
-    historyList.innerHTML = '<div class="loading">Carregando histórico</div>';
-    allHistory = await window.heraAPI.getHistory();
-    filteredHistory = allHistory;
-    renderHistory(filteredHistory);
+    if (reset) {
+      allHistory = [];
+      clearSelection();
+      historyList.classList.remove('hidden');
+      historyList.innerHTML = '<div class="loading">Carregando histórico</div>';
+    } else {
+      loadMoreBtn.disabled = true;
+    }
+
+    const page = await window.heraAPI.searchHistory(currentQuery, {
+      limit: PAGE_SIZE,
+      offset: allHistory.length
+    });
+
+    allHistory = allHistory.concat(page);
+    hasMore = page.length === PAGE_SIZE;
+    renderHistory(allHistory);
   } catch (error) {
     console.error('Erro ao carregar histórico:', error);
     historyList.innerHTML = '<div class="empty-state"><p>Erro ao carregar histórico</p></div>';
+  } finally {
+    isLoading = false;
+    loadMoreBtn.disabled = false;
   }
 }
 
 // Search history
 function searchHistory(query) {
-  if (!query.trim()) {
-    filteredHistory = allHistory;
-  } else {
-    const lowerQuery = query.toLowerCase();
-    filteredHistory = allHistory.filter(item => 
-      item.title.toLowerCase().includes(lowerQuery) ||
-      item.url.toLowerCase().includes(lowerQuery)
-    );
+  currentQuery = query.trim();
+  loadHistory(true);
+}
+
+// Toggle selection of an item (shift = select the whole range since the last click)
+function toggleSelection(index, checked, extendRange) {
+  const start = extendRange && lastSelectedIndex !== null ? Math.min(lastSelectedIndex, index) : index;
+  const end = extendRange && lastSelectedIndex !== null ? Math.max(lastSelectedIndex, index) : index;
+
+  for (let i = start; i <= end; i++) {
+    if (checked) {
+      selectedIds.add(allHistory[i].id);
+    } else {
+      selectedIds.delete(allHistory[i].id);
+    }
   }
-  renderHistory(filteredHistory);
+
+  lastSelectedIndex = index;
+  renderHistory(allHistory);
+}
+
+function clearSelection() {
+  selectedIds.clear();
+  lastSelectedIndex = null;
+  updateSelectionBar();
+}
+
+function updateSelectionBar() {
+  selectionBar.classList.toggle('hidden', selectedIds.size === 0);
+  selectionCount.textContent = selectedIds.size === 1
+    ? '1 item selecionado'
+    : `${selectedIds.size} itens selecionados`;
+}
+
+// Remove deleted entries from the loaded list without reloading the page
+function removeFromList(ids) {
+  const removed = new Set(ids);
+  allHistory = allHistory.filter(item => !removed.has(item.id));
+  ids.forEach(id => selectedIds.delete(id));
+  lastSelectedIndex = null;
+  renderHistory(allHistory);
 }
 
 // Delete single history item
@@ -192,19 +331,109 @@ async function deleteHistoryItem(id) {
   }
 
   try {
-    // TODO: Implementar API para remover item individual
-    // await window.heraAPI.deleteHistoryItem(id);
-    
-    // Por enquanto, remove localmente
-    allHistory = allHistory.filter(item => item.id !== id);
-    filteredHistory = filteredHistory.filter(item => item.id !== id);
-    renderHistory(filteredHistory);
+    await window.heraAPI.deleteHistoryItem(id);
+    removeFromList([id]);
   } catch (error) {
     console.error('Erro ao remover item:', error);
     alert('Erro ao remover item do histórico');
   }
 }
 
+// Delete selected items
+async function deleteSelectedItems() {
+  const ids = Array.from(selectedIds);
+  if (ids.length === 0) return;
+
+  const message = ids.length === 1
+    ? 'Remover o item selecionado do histórico?'
+    : `Remover ${ids.length} itens selecionados do histórico?`;
+  if (!confirm(message)) {
+    return;
+  }
+
+  try {
+    for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+      await window.heraAPI.deleteHistoryItems(ids.slice(i, i + DELETE_BATCH_SIZE));
+    }
+    removeFromList(ids);
+  } catch (error) {
+    console.error('Erro ao remover itens selecionados:', error);
+    alert('Erro ao remover itens do histórico');
+    loadHistory(true);
+  }
+}
+
+// Delete everything from a site (including subdomains)
+async function deleteHistoryByDomain(hostname) {
+  if (!confirm(`Remover todo o histórico de ${hostname}?`)) {
+    return;
+  }
+
+  try {
+    await window.heraAPI.deleteHistoryByDomain(hostname);
+    loadHistory(true);
+  } catch (error) {
+    console.error('Erro ao remover histórico do site:', error);
+    alert('Erro ao remover histórico do site');
+  }
+}
+
+// Delete a time range
+async function deleteHistoryRange(from, to, label) {
+  if (!confirm(`Remover o histórico de ${label}? Esta ação não pode ser desfeita.`)) {
+    return false;
+  }
+
+  try {
+    await window.heraAPI.deleteHistoryRange(from, to);
+    loadHistory(true);
+    return true;
+  } catch (error) {
+    console.error('Erro ao remover período do histórico:', error);
+    alert('Erro ao remover período do histórico');
+    return false;
+  }
+}
+
+// Handle the period dropdown
+async function handleRangeSelect() {
+  const value = rangeSelect.value;
+  rangeSelect.value = '';
+
+  if (value === 'custom') {
+    const now = new Date();
+    const toLocalInput = (date) => new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+    rangeToInput.value = toLocalInput(now);
+    rangeFromInput.value = toLocalInput(new Date(now.getTime() - RANGE_PRESETS.day));
+    customRange.classList.remove('hidden');
+    return;
+  }
+
+  if (RANGE_PRESETS[value]) {
+    const option = Array.from(rangeSelect.options).find(opt => opt.value === value);
+    const label = option ? option.textContent.toLowerCase() : value;
+    const to = Date.now();
+    await deleteHistoryRange(to - RANGE_PRESETS[value], to, label);
+  }
+}
+
+// Delete the custom range
+async function deleteCustomRange() {
+  const from = new Date(rangeFromInput.value).getTime();
+  const to = new Date(rangeToInput.value).getTime();
+
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from > to) {
+    alert('Período inválido: a data inicial deve ser anterior à final');
+    return;
+  }
+
+  // O campo "Até" tem precisão de minutos; inclui o minuto inteiro
+  const label = `${formatDateTime(from)} até ${formatDateTime(to)}`;
+  if (await deleteHistoryRange(from, to + 59999, label)) {
+    customRange.classList.add('hidden');
+  }
+}
+
 // Clear all history
 async function clearAllHistory() {
   if (!confirm('Tem certeza que deseja limpar todo o histórico? Esta ação não pode ser desfeita.')) {
@@ -214,8 +443,9 @@ async function clearAllHistory() {
   try {
     await window.heraAPI.clearHistory();
     allHistory = [];
-    filteredHistory = [];
-    renderHistory(filteredHistory);
+    hasMore = false;
+    clearSelection();
+    renderHistory(allHistory);
   } catch (error) {
     console.error('Erro ao limpar histórico:', error);
     alert('Erro ao limpar histórico');
@@ -224,10 +454,41 @@ async function clearAllHistory() {
 
 // Event listeners
 searchInput.addEventListener('input', (e) => {
-  searchHistory(e.target.value);
+  clearTimeout(searchTimer);
+  searchTimer = setTimeout(() => searchHistory(e.target.value), SEARCH_DEBOUNCE_MS);
 });
 
 clearAllBtn.addEventListener('click', clearAllHistory);
 
+loadMoreBtn.addEventListener('click', () => loadHistory(false));
+
+rangeSelect.addEventListener('change', handleRangeSelect);
+customRangeDeleteBtn.addEventListener('click', deleteCustomRange);
+customRangeCancelBtn.addEventListener('click', () => customRange.classList.add('hidden'));
+
+selectAllBtn.addEventListener('click', () => {
+  allHistory.forEach(item => selectedIds.add(item.id));
+  renderHistory(allHistory);
+});
+cancelSelectionBtn.addEventListener('click', () => {
+  clearSelection();
+  renderHistory(allHistory);
+});
+deleteSelectedBtn.addEventListener('click', deleteSelectedItems);
+
+document.addEventListener('keydown', (e) => {
+  if (e.key === 'Escape' && selectedIds.size > 0) {
+    clearSelection();
+    renderHistory(allHistory);
+  }
+});
+
+// Carrega a próxima página automaticamente ao chegar no fim da lista
+new IntersectionObserver((entries) => {
+  if (entries.some(entry => entry.isIntersecting) && hasMore) {
+    loadHistory(false);
+  }
+}).observe(loadMoreBtn);
+
 // Initialize
 loadHistory();
@@ -1,43 +1,101 @@
 // External dependencies
-import { app, BrowserWindow, BrowserView, ipcMain, shell, session, protocol } from 'electron';
+import { app, BrowserWindow, BrowserView, ipcMain, Menu, shell, session, protocol, clipboard, dialog } from 'electron';
 import path from 'path';
 import fs from 'fs';
+import { pathToFileURL } from 'url';
 import { v4 as uuidv4 } from 'uuid';
 
 // Internal modules
 import {
   initDatabase,
-  addHistoryEntry,
+  addVisit,
+  endVisit,
+  updateHistoryTitle,
+  getVisitsForUrl,
+  getHistorySuggestions,
+  getInlineCompletion,
   getHistory,
+  searchHistory,
   clearHistory,
+  deleteHistoryEntries,
+  deleteHistoryByUrl,
+  deleteHistoryByDomain,
+  deleteHistoryRange,
   closeDatabase,
   getSetting,
   setSetting,
   getAllSettings,
   saveTabsState as saveTabsToDatabase,
   getTabsState as getTabsFromDatabase,
+  getTabGroups as getTabGroupsFromDatabase,
+  getWindowsState as getWindowsFromDatabase,
   addBookmark,
   removeBookmark,
   getBookmarks,
   searchBookmarks,
   createBookmarkFolder,
   getBookmarkFolders,
+  updateBookmark,
+  moveBookmark,
+  renameFolder,
+  deleteFolder,
+  getBookmarkTree,
+  importBookmarkTree,
+  readChromiumHistory,
+  readFirefoxPlaces,
+  importHistoryEntries,
   addDownload,
   updateDownloadProgress,
   updateDownloadState,
   getDownloads,
   clearCompletedDownloads,
-  removeDownload
+  removeDownload,
+  addClosedTab,
+  getClosedTabs,
+  takeClosedTab,
+  getSearchEngines,
+  getSearchEngineByKeyword,
+  getDefaultSearchEngine,
+  addSearchEngine,
+  updateSearchEngine,
+  removeSearchEngine,
+  getContainers,
+  getContainer,
+  addContainer,
+  updateContainer,
+  getSessions,
+  getSession,
+  addSession,
+  updateSessionSnapshot,
+  renameSession,
+  removeSession,
+  removeContainer
 } from './database';
 
 // Types
-import type { Bookmark, BookmarkFolder, HistoryEntry, TabState } from './types';
+import type { Bookmark, BookmarkFolder, BookmarkInput, BookmarkTreeNode, BookmarkImportResult, ImportedHistoryEntry, BrowserProfile, BrowserImportOptions, BrowserImportProgress, BrowserImportResult, HistoryEntry, HistorySearchOptions, HistorySearchResult, TabState, WindowState, SplitViewOrientation, SplitViewLayout, TabLayout, VisitEntry, VisitTransition, SearchEngine, SearchEngineInput, TabNavigationEntry, ClosedTab, TabGroup, TabGroupColor, TabGroupInput, Container, ContainerInput, OmniboxSuggestion, OmniboxAnchor, InlineCompletion, TabSearchResult, SessionSnapshot, NamedSession, SessionExportFile } from './types';
 import { 
   validateBookmarks, 
   validateHistoryEntries,
   isValidTabId,
+  isValidTabIdList,
   isValidBookmarkId,
-  isValidSettingKey
+  isValidBookmarkInput,
+  isValidBookmarkFolderName,
+  isValidSettingKey,
+  isValidHistorySearchOptions,
+  isValidHistoryId,
+  isValidHistoryIdList,
+  isValidUrl,
+  isValidDomain,
+  isValidTimeRange,
+  isValidSearchEngineInput,
+  isValidTabGroupInput,
+  isValidContainerInput,
+  isValidSessionName,
+  isSessionExportFile,
+  isValidBrowserImportOptions,
+  isValidSplitViewChanges
 } from './types/guards';
 
 declare const MAIN_WINDOW_WEBPACK_ENTRY: string;
@@ -50,19 +108,59 @@ import {
   NAV_BAR_HEIGHT,
   FAVORITES_BAR_HEIGHT,
   FIND_BAR_HEIGHT,
-  DEFAULT_USER_AGENT
+  DEFAULT_USER_AGENT,
+  OMNIBOX_MAX_SUGGESTIONS,
+  OMNIBOX_MAX_HEIGHT,
+  OMNIBOX_MAX_QUERY_LENGTH,
+  TAB_SEARCH_MAX_RESULTS,
+  TAB_SEARCH_CLOSED_LIMIT,
+  TAB_SEARCH_MAX_QUERY_LENGTH,
+  TAB_SEARCH_WIDTH,
+  TAB_SEARCH_MAX_HEIGHT,
+  FRECENCY_BOOKMARK_SCORE,
+  CLOSED_TABS_MAX,
+  CLOSED_TAB_MAX_NAVIGATION_ENTRIES,
+  MEMORY_SAVER_CHECK_INTERVAL_MS,
+  MEMORY_SAVER_DEFAULT_IDLE_MINUTES,
+  MEMORY_SAVER_DEFAULT_THRESHOLD_MB,
+  TAB_GROUP_COLORS,
+  SESSION_EXPORT_FORMAT,
+  SESSION_EXPORT_VERSION,
+  SESSION_IMPORT_MAX_BYTES,
+  SESSION_AUTOSAVE_DELAY_MS,
+  BOOKMARK_MAX_TITLE_LENGTH,
+  BOOKMARK_MAX_URL_LENGTH,
+  BOOKMARK_FOLDER_MAX_NAME_LENGTH,
+  BOOKMARK_IMPORT_MAX_BYTES,
+  BOOKMARK_IMPORT_MAX_DEPTH,
+  BOOKMARK_MAX_ICON_LENGTH,
+  BROWSER_IMPORT_CHUNK_SIZE,
+  SAD_TAB_URL,
+  PRIVATE_PARTITION,
+  CONTAINER_PARTITION_PREFIX,
+  WEB_PERMISSIONS,
+  SPLIT_VIEW_DIVIDER_SIZE,
+  SPLIT_VIEW_DEFAULT_RATIO,
+  SPLIT_VIEW_MIN_RATIO,
+  SPLIT_VIEW_MAX_RATIO,
+  VERTICAL_TABS_DEFAULT_WIDTH,
+  VERTICAL_TABS_MIN_WIDTH,
+  VERTICAL_TABS_MAX_WIDTH
 } from './constants';
 
-// Estado da UI
-let isFavoritesBarHidden = true; // Barra de favoritos é global (aparece em todas as abas)
-
 // Estado da barra de busca por aba
 const tabFindBarStates = new Map<string, boolean>(); // tabId -> isVisible
 
-// Função para calcular altura da UI dinamicamente para a aba ativa
-function getUIHeight(): number {
-  const isFindBarVisible = activeTabId ? (tabFindBarStates.get(activeTabId) || false) : false;
-  return TAB_BAR_HEIGHT + NAV_BAR_HEIGHT + (isFavoritesBarHidden ? 0 : FAVORITES_BAR_HEIGHT) + (isFindBarVisible ? FIND_BAR_HEIGHT : 0);
+// Área da janela em que as páginas aparecem, calculada dinamicamente para a aba ativa:
+// abaixo das barras e, com as abas na barra lateral, à direita dela
+function getContentArea(win: BrowserWindowState): Electron.Rectangle {
+  const isFindBarVisible = win.activeTabId ? (tabFindBarStates.get(win.activeTabId) || false) : false;
+  const layout = getTabLayout();
+  const isVertical = layout.mode === 'vertical';
+  const x = isVertical ? layout.sidebarWidth : 0;
+  const y = (isVertical ? 0 : TAB_BAR_HEIGHT) + NAV_BAR_HEIGHT + (win.isFavoritesBarHidden ? 0 : FAVORITES_BAR_HEIGHT) + (isFindBarVisible ? FIND_BAR_HEIGHT : 0);
+  const [width, height] = win.window.getContentSize();
+  return { x, y, width: Math.max(0, width - x), height: Math.max(0, height - y) };
 }
 
 /**
@@ -89,14 +187,68 @@ const getPreloadForUrl = (url: string): string => {
   return PRELOAD_WEB_WEBPACK_ENTRY;
 };
 
-let mainWindow: BrowserWindow;
 const tabs = new Map<string, BrowserView>();
-const tabInfo = new Map<string, { url: string; title: string; favicon?: string }>(); // Armazena info das abas para persistência
-let activeTabId: string | null = null;
-let menuView: BrowserView;
-let isMenuVisible = false;
-let dynamicMenuHeight = 250; // Default or approximated height
-let omniboxView: BrowserView;
+const tabInfo = new Map<string, { url: string; title: string; favicon?: string; pinned?: boolean; groupId?: string; containerId?: string; openerId?: string }>(); // Armazena info das abas para persistência
+// Grupos de abas (as abas de um grupo ficam sempre vizinhas em `tabOrder`)
+const tabGroups = new Map<string, TabGroup>();
+
+// Estado de cada janela do navegador: suas abas, a aba ativa, o menu, o omnibox e a busca de abas
+type BrowserWindowState = {
+  window: BrowserWindow;
+  // Janela privada: abas na partition em memória, sem histórico, sessão salva ou downloads no banco
+  isPrivate: boolean;
+  // Ordem das abas na barra, incluindo as que ainda não têm BrowserView
+  tabOrder: string[];
+  activeTabId: string | null;
+  // Tela dividida: as duas abas aparecem juntas quando uma delas é a ativa (a ativa é a metade com foco)
+  split: { tabIds: [string, string]; orientation: SplitViewOrientation; ratio: number } | null;
+  isFavoritesBarHidden: boolean;
+  menuView: BrowserView;
+  isMenuVisible: boolean;
+  dynamicMenuHeight: number;
+  omniboxView: BrowserView;
+  isOmniboxVisible: boolean;
+  omniboxAnchor: OmniboxAnchor | null;
+  omniboxSuggestions: OmniboxSuggestion[];
+  omniboxSelectedIndex: number; // -1 = texto digitado pelo usuário
+  omniboxQuery: string;
+  tabSearchView: BrowserView;
+  isTabSearchVisible: boolean;
+  tabSearchQuery: string;
+  tabSearchResults: TabSearchResult[];
+};
+// Janelas abertas, na ordem em que foram criadas
+const browserWindows: BrowserWindowState[] = [];
+// Janela em que cada aba está
+const tabWindows = new Map<string, BrowserWindowState>();
+// Última janela focada (destino de ações que não vêm de uma janela, como a nova aba)
+let lastFocusedWindow: BrowserWindowState | null = null;
+// O app está encerrando (todas as janelas fecham juntas e a sessão é salva inteira)
+let isQuitting = false;
+
+// Visita em andamento de cada aba (usada para a duração e como visita de origem)
+const tabVisits = new Map<string, { visitId: number; url: string }>();
+// Transição da próxima navegação de cada aba, definida por quem a iniciou
+const pendingTransitions = new Map<string, { transition: VisitTransition; referrerVisitId?: number | null }>();
+// Histórico de voltar/avançar de cada aba na última navegação (para reconhecer voltar/avançar)
+const tabHistoryPositions = new Map<string, { index: number; urls: string[] }>();
+// Última posição de rolagem conhecida de cada aba (lida ao fechar a janela)
+const tabScrollPositions = new Map<string, { x: number; y: number }>();
+// Sessão capturada ao fechar a última janela, quando as páginas ainda existem
+let lastSessionSnapshot: SessionSnapshot | null = null;
+
+// Como carregar a página de uma aba: transição da visita e estado restaurado
+type TabLoadOptions = {
+  transition?: VisitTransition;
+  referrerVisitId?: number | null;
+  navigation?: { entries: TabNavigationEntry[]; index: number };
+  zoomLevel?: number;
+  scroll?: { x: number; y: number };
+};
+// Abas restauradas que ainda não foram ativadas ou descartadas pela economia de memória (sem BrowserView)
+const deferredTabs = new Map<string, TabLoadOptions & { url: string }>();
+// Último momento em que cada aba foi a ativa (usado pela economia de memória)
+const tabLastActive = new Map<string, number>();
 
 // --- Histórico ---
 // Agora usando SQLite através do módulo database.ts
@@ -115,54 +267,411 @@ if (require('electron-squirrel-startup')) {
   process.exit(0);
 }
 
+// --- Janelas ---
+// Janela de onde veio a mensagem: a UI principal, o menu, o omnibox ou uma das abas
+const getWindowFromSender = (sender: Electron.WebContents): BrowserWindowState | null => {
+  const owner = browserWindows.find((win) =>
+    win.window.webContents === sender ||
+    win.menuView.webContents === sender ||
+    win.omniboxView.webContents === sender ||
+    win.tabSearchView.webContents === sender
+  );
+  if (owner) return owner;
+
+  for (const [id, view] of tabs) {
+    if (view.webContents === sender) return tabWindows.get(id) ?? null;
+  }
+  return null;
+};
+
+// Envia a mensagem para a UI da janela em que a aba está
+const sendToTabWindow = (id: string, channel: string, ...args: unknown[]) => {
+  const win = tabWindows.get(id);
+  if (win && !win.window.isDestroyed()) {
+    win.window.webContents.send(channel, ...args);
+  }
+};
+
+// Envia a mensagem para a UI de todas as janelas (ex: grupos, downloads)
+const sendToAllWindows = (channel: string, ...args: unknown[]) => {
+  browserWindows.forEach((win) => {
+    if (!win.window.isDestroyed()) {
+      win.window.webContents.send(channel, ...args);
+    }
+  });
+};
+
+const isActiveTab = (id: string): boolean => tabWindows.get(id)?.activeTabId === id;
+
+// Abas visíveis na janela com `activeId` ativa: só ela ou as duas metades da tela dividida
+const getVisibleTabIds = (win: BrowserWindowState, activeId = win.activeTabId): string[] => {
+  if (!activeId) return [];
+  return win.split && win.split.tabIds.includes(activeId) ? win.split.tabIds.slice() : [activeId];
+};
+
+const isTabVisible = (id: string): boolean => {
+  const win = tabWindows.get(id);
+  return win ? getVisibleTabIds(win).includes(id) : false;
+};
+
+const isPrivateTab = (id: string): boolean => tabWindows.get(id)?.isPrivate ?? false;
+
+// Todas as abas, janela por janela, na ordem das barras
+const getAllTabIds = (): string[] =>
+  browserWindows.reduce<string[]>((ids, win) => ids.concat(win.tabOrder), []);
+// --- Fim das Janelas ---
+
 // --- Funções de Aba ---
-const resizeActiveTab = () => {
-  if (activeTabId && tabs.has(activeTabId)) {
-    const activeView = tabs.get(activeTabId);
-    if (!activeView) return;
-    const [width, height] = mainWindow.getContentSize();
-    const uiHeight = getUIHeight();
-    activeView.setBounds({ x: 0, y: uiHeight, width: width, height: height - uiHeight });
+// Posiciona as abas visíveis na área de conteúdo (na tela dividida, as duas metades e a divisória)
+const resizeActiveTab = (win: BrowserWindowState) => {
+  const area = getContentArea(win);
+  const visibleTabIds = getVisibleTabIds(win);
+
+  if (!win.split || visibleTabIds.length < 2) {
+    const activeView = tabs.get(win.activeTabId ?? '');
+    if (activeView) {
+      activeView.setBounds(area);
+    }
+    win.window.webContents.send('split-view:layout', null);
+    return;
+  }
+
+  const { tabIds, orientation, ratio } = win.split;
+  const isHorizontal = orientation === 'horizontal';
+  const total = (isHorizontal ? area.width : area.height) - SPLIT_VIEW_DIVIDER_SIZE;
+  const first = Math.round(total * ratio);
+  const second = Math.max(0, total - first);
+
+  const firstBounds = isHorizontal
+    ? { ...area, width: first }
+    : { ...area, height: first };
+  const divider = isHorizontal
+    ? { ...area, x: area.x + first, width: SPLIT_VIEW_DIVIDER_SIZE }
+    : { ...area, y: area.y + first, height: SPLIT_VIEW_DIVIDER_SIZE };
+  const secondBounds = isHorizontal
+    ? { ...area, x: divider.x + SPLIT_VIEW_DIVIDER_SIZE, width: second }
+    : { ...area, y: divider.y + SPLIT_VIEW_DIVIDER_SIZE, height: second };
+
+  tabs.get(tabIds[0])?.setBounds(firstBounds);
+  tabs.get(tabIds[1])?.setBounds(secondBounds);
+
+  const layout: SplitViewLayout = { tabIds: [tabIds[0], tabIds[1]], orientation, ratio, area, divider };
+  win.window.webContents.send('split-view:layout', layout);
+};
+
+// Primeira ativação de uma aba restaurada em segundo plano: carrega a página agora
+const loadDeferredTab = (id: string) => {
+  const deferred = deferredTabs.get(id);
+  if (!deferred) return;
+  deferredTabs.delete(id);
+  const { url, ...options } = deferred;
+  createTabView(id, url, options);
+  sendToTabWindow(id, 'tab-updated', id, { discarded: false });
+};
+
+// Coloca na janela as abas visíveis (a ativa e, na tela dividida, a outra metade)
+const attachVisibleTabs = (win: BrowserWindowState) => {
+  const views = getVisibleTabIds(win)
+    .map((id) => {
+      loadDeferredTab(id);
+      return tabs.get(id);
+    })
+    .filter((view): view is BrowserView => view !== undefined);
+  if (views.length === 0) return;
+
+  win.window.setBrowserView(views[0]);
+  views.slice(1).forEach((view) => win.window.addBrowserView(view));
+  // setBrowserView tira as outras views da janela: a busca de abas aberta volta por cima
+  if (win.isTabSearchVisible) {
+    win.window.addBrowserView(win.tabSearchView);
+    win.window.setTopBrowserView(win.tabSearchView);
   }
+  resizeActiveTab(win);
 };
 
 const switchToTab = (id: string) => {
+  const win = tabWindows.get(id);
+  if (!win) return;
+
+  loadDeferredTab(id);
   if (!tabs.has(id)) return;
-  if (activeTabId && tabs.has(activeTabId)) {
-    const oldView = tabs.get(activeTabId);
-    if (oldView) {
-      // Para a busca na aba anterior ao trocar
-      oldView.webContents.stopFindInPage('clearSelection');
-      mainWindow.removeBrowserView(oldView);
-    }
+
+  // Ativar uma aba de um grupo recolhido expande o grupo
+  const group = tabGroups.get(tabInfo.get(id)?.groupId ?? '');
+  if (group?.collapsed) {
+    updateTabGroup(group.id, { collapsed: false });
+  }
+
+  if (win.activeTabId) {
+    tabLastActive.set(win.activeTabId, Date.now());
   }
+  tabLastActive.set(id, Date.now());
+
+  // Trocar de metade na tela dividida mantém as duas abas na janela (e a busca de cada uma)
+  const previousTabIds = getVisibleTabIds(win);
+  const nextTabIds = getVisibleTabIds(win, id);
+  previousTabIds
+    .filter((previousId) => !nextTabIds.includes(previousId))
+    .forEach((previousId) => {
+      const oldView = tabs.get(previousId);
+      if (oldView) {
+        // Para a busca na aba anterior ao trocar
+        oldView.webContents.stopFindInPage('clearSelection');
+        win.window.removeBrowserView(oldView);
+      }
+    });
+
   const view = tabs.get(id);
   if (!view) return;
-  mainWindow.setBrowserView(view);
-  activeTabId = id;
-  resizeActiveTab();
+  win.activeTabId = id;
+  if (nextTabIds.every((nextId) => previousTabIds.includes(nextId))) {
+    resizeActiveTab(win);
+  } else {
+    attachVisibleTabs(win);
+  }
   
   // Envia tab-switched primeiro para atualizar activeTabId no renderer
-  mainWindow.webContents.send('tab-switched', id, view.webContents.getURL());
+  win.window.webContents.send('tab-switched', id, getTabDisplayUrl(id, view));
   
   // Depois restaura o estado da barra de busca (precisa do activeTabId atualizado)
   // Usa setImmediate para garantir que tab-switched foi processado
   setImmediate(() => {
-    mainWindow.webContents.send('find:restore-state');
+    if (!win.window.isDestroyed()) {
+      win.window.webContents.send('find:restore-state');
+    }
   });
+  scheduleSessionSave();
+};
+
+// --- Visitas ---
+// Encerra a visita em andamento da aba, gravando sua duração
+const endTabVisit = (id: string) => {
+  const current = tabVisits.get(id);
+  if (!current) return;
+  tabVisits.delete(id);
+  try {
+    endVisit(current.visitId);
+  } catch (err: unknown) {
+    console.error('Erro ao encerrar visita:', err);
+  }
+};
+
+// Voltar/avançar (botões, atalhos ou history.back() da página) só muda a entrada ativa, a pilha continua igual
+const isHistoryTraversal = (id: string): boolean => {
+  const view = tabs.get(id);
+  if (!view || view.webContents.isDestroyed()) return false;
+
+  const history = view.webContents.navigationHistory;
+  const index = history.getActiveIndex();
+  const urls = history.getAllEntries().map((entry) => entry.url);
+  const previous = tabHistoryPositions.get(id);
+  tabHistoryPositions.set(id, { index, urls });
+
+  return !!previous && previous.index !== index && previous.urls.length === urls.length &&
+    previous.urls.every((previousUrl, i) => previousUrl === urls[i]);
 };
 
+// Registra a navegação da aba como uma nova visita
+// `fallback` é usado quando ninguém marcou a transição antes da navegação (ex: clique em link)
+const recordTabVisit = (id: string, url: string, fallback: VisitTransition) => {
+  const previous = tabVisits.get(id);
+  const pending = pendingTransitions.get(id);
+  pendingTransitions.delete(id);
+  const traversal = isHistoryTraversal(id);
+
+  endTabVisit(id);
+
+  // Páginas internas e abas privadas não entram no histórico
+  if (!url || url.startsWith('hera://') || isPrivateTab(id)) return;
+  // Voltar/avançar reabre uma página já visitada: não é uma nova visita
+  if (traversal && !pending) return;
+
+  const transition = pending?.transition ?? (previous?.url === url ? 'reload' : fallback);
+  // URLs digitadas e abas restauradas não têm página de origem
+  const referrerVisitId = transition === 'typed' || transition === 'restored'
+    ? null
+    : pending?.referrerVisitId ?? previous?.visitId ?? null;
+
+  try {
+    const visitId = addVisit(url, transition, referrerVisitId);
+    if (visitId !== null) {
+      tabVisits.set(id, { visitId, url });
+    }
+  } catch (err: unknown) {
+    console.error('Erro ao registrar visita:', err);
+  }
+};
+// --- Fim das Visitas ---
+
 // --- MUDANÇA v2.2 ---
 // Agora 'url' pode ser undefined, e aí usamos o padrão
-const createNewTab = (url: string | undefined = undefined) => {
+// `options` indica como a aba foi aberta (registrado na visita da primeira navegação)
+// `position` e `navigation` são usados ao reabrir uma aba fechada
+// `pinned` e `groupId` são usados ao restaurar a sessão
+// `openerId` é a aba em que o link foi aberto: a nova aba entra na árvore dela, logo depois dos seus descendentes
+// Retorna o ID da nova aba
+const createNewTab = (
+  win: BrowserWindowState,
+  url: string | undefined = undefined,
+  options: TabLoadOptions & { position?: number; pinned?: boolean; groupId?: string; containerId?: string; openerId?: string } = {}
+) => {
   const finalUrl = url || 'hera://new-tab'; // Se a URL for nula, abre a new-tab
+  // Janelas privadas já isolam tudo: lá as abas não usam contêiner
+  const containerId = win.isPrivate ? undefined : options.containerId;
+  const openerId = options.openerId && tabWindows.get(options.openerId) === win ? options.openerId : undefined;
+
+  const id = uuidv4();
+  const defaultPosition = openerId ? getTabTreeEnd(win, openerId) + 1 : win.tabOrder.length;
+  const position = getAllowedPosition(win, options.position ?? defaultPosition, options.pinned ?? false);
+  win.tabOrder.splice(position, 0, id);
+  tabWindows.set(id, win);
+
+  // Determinar título e favicon inicial
+  let initialTitle = 'Nova Aba';
+  let initialFavicon: string | undefined;
 
+  if (finalUrl.startsWith('hera://')) {
+    initialTitle = finalUrl.includes('settings') ? 'Configurações' :
+      finalUrl.includes('new-tab') ? 'Nova Aba' :
+        finalUrl.includes('history') ? 'Histórico' :
+          finalUrl.includes('downloads') ? 'Downloads' :
+            finalUrl.includes('bookmarks') ? 'Favoritos' : 'Hera Browser';
+    // Usa o protocolo hera:// para servir o ícone
+    initialFavicon = 'hera://HeraBrowser256x256.png';
+  }
+
+  // Armazena informações da aba para persistência
+  tabInfo.set(id, { url: finalUrl, title: initialTitle, favicon: initialFavicon, pinned: options.pinned, groupId: options.groupId, containerId, openerId });
+
+  createTabView(id, finalUrl, options);
+  switchToTab(id);
+
+  win.window.webContents.send('tab-created', {
+    id,
+    title: initialTitle,
+    url: finalUrl,
+    favicon: initialFavicon,
+    position,
+    pinned: options.pinned,
+    groupId: options.groupId,
+    containerId,
+    openerId
+  });
+  scheduleSessionSave();
+  return id;
+};
+
+// Arquivos das páginas internas: em .webpack/main dentro do asar quando empacotado, em src no desenvolvimento
+const getPagesPath = (): string => app.isPackaged
+  ? path.join(app.getAppPath(), '.webpack', 'main')
+  : path.join(app.getAppPath(), 'src');
+
+// A página de aba travada é carregada do disco (file://): os sites não alcançam esse endereço,
+// e ela nunca entra no estado da aba (a aba continua com a URL da página que travou)
+const getSadTabFileUrl = (): string => pathToFileURL(path.join(getPagesPath(), 'sad-tab.html')).href;
+
+const isSadTabUrl = (url: string): boolean =>
+  url.startsWith(SAD_TAB_URL) || url.split(/[?#]/)[0] === getSadTabFileUrl();
+
+// URL exibida na barra de endereço: na página de aba travada, a da página que travou
+const getTabDisplayUrl = (id: string, view: BrowserView): string => {
+  const url = view.webContents.getURL();
+  return isSadTabUrl(url) ? tabInfo.get(id)?.url ?? '' : url;
+};
+
+// Histórico de voltar/avançar sem as entradas da página de aba travada (o índice acompanha a entrada ativa).
+// O preload e a sessão da aba restaurada são escolhidos pela entrada ativa, então só ficam as entradas
+// do mesmo tipo dela: páginas internas (hera://) ou sites, nunca os dois na mesma pilha
+const cleanNavigationEntries = (entries: TabNavigationEntry[], index: number): { entries: TabNavigationEntry[]; index: number } => {
+  const withoutSadTab: TabNavigationEntry[] = [];
+  let activeIndex = 0;
+  entries.forEach((entry, entryIndex) => {
+    if (isSadTabUrl(entry.url)) return;
+    if (entryIndex <= index) activeIndex = withoutSadTab.length;
+    withoutSadTab.push(entry);
+  });
+
+  const activeIsInternal = withoutSadTab[activeIndex]?.url.startsWith('hera://') ?? false;
+  const kept: TabNavigationEntry[] = [];
+  let keptIndex = 0;
+  withoutSadTab.forEach((entry, entryIndex) => {
+    if (entry.url.startsWith('hera://') !== activeIsInternal) return;
+    if (entryIndex === activeIndex) keptIndex = kept.length;
+    kept.push(entry);
+  });
+  return { entries: kept, index: keptIndex };
+};
+
+// Abas salvas antes desta correção podem ter ficado na página de aba travada: voltam para a página que travou
+const sanitizeSavedTab = (tab: TabState): TabState => {
+  const navigation = cleanNavigationEntries(tab.navigation_entries ?? [], tab.navigation_index ?? 0);
+  let url = tab.url;
+  if (isSadTabUrl(url)) {
+    let crashedUrl = '';
+    try {
+      crashedUrl = new URL(url).searchParams.get('url') ?? '';
+    } catch {
+      // URL salva inválida: usa o histórico da aba
+    }
+    url = navigation.entries[navigation.index]?.url
+      || (/^https?:\/\//i.test(crashedUrl) ? crashedUrl : 'hera://new-tab');
+  }
+  return {
+    ...tab,
+    url,
+    navigation_entries: tab.navigation_entries ? navigation.entries : undefined,
+    navigation_index: tab.navigation_entries ? navigation.index : tab.navigation_index
+  };
+};
+
+// Reconstrói o histórico de voltar/avançar, o zoom e a rolagem salvos de uma aba
+const getRestoreOptions = (tab: TabState): TabLoadOptions => ({
+  transition: 'restored',
+  navigation: tab.navigation_entries?.length
+    ? { entries: tab.navigation_entries, index: tab.navigation_index ?? 0 }
+    : undefined,
+  zoomLevel: tab.zoom_level,
+  scroll: { x: tab.scroll_x ?? 0, y: tab.scroll_y ?? 0 }
+});
+
+// Aba restaurada em segundo plano: aparece na barra com título e favicon salvos,
+// mas o BrowserView só é criado quando a aba for ativada pela primeira vez
+const createDeferredTab = (win: BrowserWindowState, savedTab: TabState): string => {
+  const tab = sanitizeSavedTab(savedTab);
   const id = uuidv4();
+  const position = getAllowedPosition(win, win.tabOrder.length, tab.pinned ?? false);
+  win.tabOrder.splice(position, 0, id);
+  tabWindows.set(id, win);
+  tabInfo.set(id, { url: tab.url, title: tab.title, favicon: tab.favicon, pinned: tab.pinned, groupId: tab.group_id, containerId: tab.container_id });
+  deferredTabs.set(id, { url: tab.url, ...getRestoreOptions(tab) });
+
+  win.window.webContents.send('tab-created', {
+    id,
+    title: tab.title || tab.url,
+    url: tab.url,
+    favicon: tab.favicon,
+    position,
+    background: true,
+    pinned: tab.pinned,
+    groupId: tab.group_id,
+    containerId: tab.container_id
+  });
+  win.window.webContents.send('tab-updated', id, { discarded: true });
+  return id;
+};
 
+// Cria o BrowserView da aba, registra os listeners e carrega a página
+const createTabView = (id: string, finalUrl: string, options: TabLoadOptions = {}): BrowserView => {
   // Determina a partition baseada na URL
   // URLs internas (hera://) não precisam de persistência (usa sessão padrão)
   // URLs externas usam partition compartilhada para manter sessões (WhatsApp, etc)
-  const partition = finalUrl.startsWith('hera://') ? undefined : 'persist:web-content';
+  // Abas privadas usam sempre a partition em memória, inclusive nas páginas internas
+  // Abas de contêiner usam sempre a partition do contêiner (cookies isolados)
+  const containerId = tabInfo.get(id)?.containerId;
+  const partition = isPrivateTab(id)
+    ? PRIVATE_PARTITION
+    : containerId ? getContainerPartition(containerId)
+      : finalUrl.startsWith('hera://') ? undefined : 'persist:web-content';
 
   const view = new BrowserView({
     webPreferences: {
@@ -176,37 +685,54 @@ const createNewTab = (url: string | undefined = undefined) => {
 
   tabs.set(id, view);
 
-  // Determinar título e favicon inicial
-  let initialTitle = 'Nova Aba';
-  let initialFavicon: string | undefined;
-
-  if (finalUrl.startsWith('hera://')) {
-    initialTitle = finalUrl.includes('settings') ? 'Configurações' :
-      finalUrl.includes('new-tab') ? 'Nova Aba' :
-        finalUrl.includes('history') ? 'Histórico' :
-          finalUrl.includes('downloads') ? 'Downloads' : 'Hera Browser';
-    // Usa o protocolo hera:// para servir o ícone
-    initialFavicon = 'hera://HeraBrowser256x256.png';
+  pendingTransitions.set(id, {
+    transition: options.transition ?? 'typed',
+    referrerVisitId: options.referrerVisitId ?? null
+  });
+  const activeEntry = options.navigation?.entries[options.navigation.index];
+  // O preload e a sessão desta view valem para o tipo de finalUrl: um histórico de outro tipo não é restaurado
+  if (activeEntry && activeEntry.url.startsWith('hera://') === finalUrl.startsWith('hera://')) {
+    // Reabre com o histórico de voltar/avançar da aba original
+    view.webContents.navigationHistory.restore({
+      entries: options.navigation.entries,
+      index: options.navigation.index
+    }).catch((err: unknown) => {
+      console.error('Erro ao restaurar histórico de navegação:', err);
+    });
+  } else {
+    view.webContents.loadURL(finalUrl);
   }
 
-  // Armazena informações da aba para persistência
-  tabInfo.set(id, { url: finalUrl, title: initialTitle, favicon: initialFavicon });
-
-  switchToTab(id);
-  view.webContents.loadURL(finalUrl);
-
-  mainWindow.webContents.send('tab-created', { id, title: initialTitle, url: finalUrl, favicon: initialFavicon });
+  // Zoom e rolagem da sessão anterior, aplicados quando a página restaurada termina de carregar
+  if (options.zoomLevel || options.scroll) {
+    view.webContents.once('did-finish-load', () => {
+      if (options.zoomLevel) {
+        view.webContents.setZoomLevel(options.zoomLevel);
+      }
+      if (options.scroll && (options.scroll.x > 0 || options.scroll.y > 0)) {
+        const { x, y } = options.scroll;
+        view.webContents.executeJavaScript(`window.scrollTo(${Math.round(x)}, ${Math.round(y)})`).catch(() => {
+          // Ignora páginas que não permitem scripts
+        });
+      }
+    });
+  }
 
-  // Handler para abrir links em nova janela/aba
+  // Handler para abrir links em nova janela/aba (na janela da própria aba)
   view.webContents.setWindowOpenHandler(({ url }) => {
     // Se for um link interno (hera://), abre em nova aba
     if (url.startsWith('hera://')) {
-      createNewTab(url);
+      createNewTab(tabWindows.get(id), url, { openerId: id });
       return { action: 'deny' };
     }
-    // Se for um link externo, abre em nova aba do navegador
+    // Se for um link externo, abre em nova aba do navegador (no mesmo contêiner, como filha desta aba)
     if (url.startsWith('http://') || url.startsWith('https://')) {
-      createNewTab(url);
+      createNewTab(tabWindows.get(id), url, {
+        transition: 'link',
+        referrerVisitId: tabVisits.get(id)?.visitId ?? null,
+        containerId: tabInfo.get(id)?.containerId,
+        openerId: id
+      });
       return { action: 'deny' };
     }
     // Para outros protocolos (mailto:, tel:, etc), abre no app padrão do sistema
@@ -219,7 +745,28 @@ const createNewTab = (url: string | undefined = undefined) => {
     return { action: 'deny' };
   });
 
+  // Menu de contexto de links: abrir em nova aba, no mesmo contêiner ou em outro
+  view.webContents.on('context-menu', (_event, params) => {
+    const win = tabWindows.get(id);
+    if (!win || !/^https?:\/\//.test(params.linkURL)) return;
 
+    const openLink = (containerId: string | undefined) => createNewTab(win, params.linkURL, {
+      transition: 'link',
+      referrerVisitId: tabVisits.get(id)?.visitId ?? null,
+      containerId,
+      openerId: id
+    });
+    Menu.buildFromTemplate([
+      { label: 'Abrir link em nova aba', click: () => openLink(tabInfo.get(id)?.containerId) },
+      {
+        label: 'Abrir link em contêiner',
+        visible: !win.isPrivate,
+        submenu: buildContainerMenuItems((containerId) => openLink(containerId ?? undefined), tabInfo.get(id)?.containerId)
+      },
+      { type: 'separator' },
+      { label: 'Copiar endereço do link', click: () => clipboard.writeText(params.linkURL) }
+    ]).popup({ window: win.window });
+  });
 
   // Captura erros de carregamento para páginas internas
   view.webContents.on('did-fail-load', (_event, errorCode, _errorDescription, validatedURL) => {
@@ -233,8 +780,26 @@ const createNewTab = (url: string | undefined = undefined) => {
     }
   });
 
+  // Processo da página travou ou foi encerrado: mostra a página de aba travada em vez da tela em branco
+  // (o título continua o da página e o botão de recarregar volta para ela)
+  view.webContents.on('render-process-gone', (_event, details) => {
+    if (details.reason === 'clean-exit' || tabs.get(id) !== view || view.webContents.isDestroyed()) return;
+
+    const crashedUrl = view.webContents.getURL() || tabInfo.get(id)?.url || '';
+    console.error(`Processo da aba encerrado (${details.reason}):`, crashedUrl);
+    // Se a própria página de aba travada cair, não entra em loop
+    if (isSadTabUrl(crashedUrl)) return;
+
+    sendToTabWindow(id, 'tab-loading', id, false);
+    view.webContents.loadFile(path.join(getPagesPath(), 'sad-tab.html'), {
+      query: { url: crashedUrl, title: tabInfo.get(id)?.title ?? '', reason: details.reason }
+    }).catch((err: unknown) => {
+      console.error('Erro ao abrir página de aba travada:', err);
+    });
+  });
+
   // DevTools - F12 para abrir/fechar (nas abas também - painel integrado)
-  view.webContents.on('before-input-event', (_event, input) => {
+  view.webContents.on('before-input-event', (event, input) => {
     if (input.key === 'F12' || (input.key === 'I' && input.control && input.shift)) {
       if (view.webContents.isDevToolsOpened()) {
         view.webContents.closeDevTools();
@@ -242,24 +807,41 @@ const createNewTab = (url: string | undefined = undefined) => {
         view.webContents.openDevTools({ mode: 'bottom' });
       }
     }
+    // Ctrl+Shift+T também funciona com o foco na página
+    if (input.type === 'keyDown' && input.key.toLowerCase() === 't' && (input.control || input.meta) && input.shift) {
+      event.preventDefault();
+      reopenClosedTab(tabWindows.get(id));
+    }
+    // Ctrl+Shift+A: busca de abas
+    if (input.type === 'keyDown' && input.key.toLowerCase() === 'a' && (input.control || input.meta) && input.shift) {
+      event.preventDefault();
+      toggleTabSearch(tabWindows.get(id));
+    }
+  });
+
+  // Clicar na outra metade da tela dividida a torna a aba ativa (barra de endereços e busca seguem o foco)
+  view.webContents.on('focus', () => {
+    if (!isActiveTab(id) && isTabVisible(id)) {
+      switchToTab(id);
+    }
   });
 
   // Listeners
   view.webContents.on('did-start-loading', () => {
-    mainWindow.webContents.send('tab-loading', id, true);
+    sendToTabWindow(id, 'tab-loading', id, true);
   });
   view.webContents.on('did-stop-loading', () => {
-    mainWindow.webContents.send('tab-loading', id, false);
+    sendToTabWindow(id, 'tab-loading', id, false);
     // Garante que a URL seja atualizada quando a página parar de carregar
-    const currentUrl = view.webContents.getURL();
+    const currentUrl = getTabDisplayUrl(id, view);
     if (currentUrl) {
       // Sempre atualiza URL para garantir sincronização
-      mainWindow.webContents.send('tab-updated', id, { url: currentUrl });
+      sendToTabWindow(id, 'tab-updated', id, { url: currentUrl });
 
       // Para páginas internas, garantir que o ícone do navegador seja mantido
       if (currentUrl.startsWith('hera://')) {
         const heraIconUrl = 'hera://HeraBrowser256x256.png';
-        mainWindow.webContents.send('tab-updated', id, { favicon: heraIconUrl });
+        sendToTabWindow(id, 'tab-updated', id, { favicon: heraIconUrl });
       }
     }
   });
@@ -306,16 +888,17 @@ const createNewTab = (url: string | undefined = undefined) => {
 
   view.webContents.on('did-finish-load', () => {
     const title = view.webContents.getTitle();
-    const url = view.webContents.getURL();
+    const url = getTabDisplayUrl(id, view);
 
     // SEMPRE envia a URL primeiro para garantir que seja atualizada na barra de endereço
-    mainWindow.webContents.send('tab-updated', id, { url });
+    sendToTabWindow(id, 'tab-updated', id, { url });
+    if (isSadTabUrl(view.webContents.getURL())) return;
 
     // Para páginas internas (hera://), usar ícone do navegador via protocolo hera://
     if (url.startsWith('hera://')) {
       // Usa o protocolo hera:// para servir o ícone (já está configurado no protocol handler)
       const heraIconUrl = 'hera://HeraBrowser256x256.png';
-      mainWindow.webContents.send('tab-updated', id, { favicon: heraIconUrl, title });
+      sendToTabWindow(id, 'tab-updated', id, { favicon: heraIconUrl, title });
       // Atualiza info da aba
       if (tabInfo.has(id)) {
         const info = tabInfo.get(id);
@@ -347,7 +930,7 @@ const createNewTab = (url: string | undefined = undefined) => {
         `).then((faviconUrl: string | null) => {
           if (faviconUrl) {
             const resolvedUrl = resolveFaviconUrl(faviconUrl, url);
-            mainWindow.webContents.send('tab-updated', id, { favicon: resolvedUrl });
+            sendToTabWindow(id, 'tab-updated', id, { favicon: resolvedUrl });
           }
         }).catch(() => {
           // Ignora erros ao tentar obter favicon via JavaScript
@@ -356,7 +939,7 @@ const createNewTab = (url: string | undefined = undefined) => {
 
       // Envia título também
       if (title) {
-        mainWindow.webContents.send('tab-updated', id, { title });
+        sendToTabWindow(id, 'tab-updated', id, { title });
         // Atualiza info da aba
         if (tabInfo.has(id)) {
           const info = tabInfo.get(id);
@@ -373,20 +956,30 @@ const createNewTab = (url: string | undefined = undefined) => {
         }
       }
 
-      // Adiciona ao histórico DEPOIS de garantir que temos URL e título
-      if (url && !url.startsWith('hera://')) {
-        const finalTitle = title || url;
+      // A visita já foi registrada em did-navigate; aqui só completamos o título
+      if (url && title && !isPrivateTab(id)) {
         try {
-          addHistoryEntry(url, finalTitle);
+          updateHistoryTitle(url, title);
         } catch (err: unknown) {
-          console.error('Erro ao adicionar ao histórico:', err);
+          console.error('Erro ao atualizar título no histórico:', err);
         }
       }
     }
   });
 
+  // Redirecionamentos mantêm a transição de quem iniciou a navegação (ex: URL digitada)
+  view.webContents.on('did-redirect-navigation', (details) => {
+    if (details.isMainFrame && !pendingTransitions.has(id)) {
+      pendingTransitions.set(id, { transition: 'redirect' });
+    }
+  });
+
   view.webContents.on('did-navigate', (_event, navigateUrl) => {
-    mainWindow.webContents.send('tab-updated', id, { url: navigateUrl });
+    // Página de aba travada: a aba continua com a URL (e o título) da página que travou
+    if (isSadTabUrl(navigateUrl)) return;
+
+    sendToTabWindow(id, 'tab-updated', id, { url: navigateUrl });
+    recordTabVisit(id, navigateUrl, 'link');
 
     // Atualiza info da aba
     if (tabInfo.has(id)) {
@@ -395,6 +988,7 @@ const createNewTab = (url: string | undefined = undefined) => {
         info.url = navigateUrl;
       }
     }
+    scheduleSessionSave();
 
     // Tenta buscar favicon imediatamente após navegação (apenas para sites externos)
     if (!navigateUrl.startsWith('hera://')) {
@@ -410,7 +1004,7 @@ const createNewTab = (url: string | undefined = undefined) => {
         `).then((faviconUrl: string | null) => {
           if (faviconUrl) {
             const resolvedUrl = resolveFaviconUrl(faviconUrl, navigateUrl);
-            mainWindow.webContents.send('tab-updated', id, { favicon: resolvedUrl });
+            sendToTabWindow(id, 'tab-updated', id, { favicon: resolvedUrl });
             // Atualiza info da aba
             if (tabInfo.has(id)) {
               const info = tabInfo.get(id);
@@ -424,7 +1018,7 @@ const createNewTab = (url: string | undefined = undefined) => {
             try {
               const urlObj = new URL(navigateUrl);
               const defaultFavicon = `${urlObj.protocol}//${urlObj.host}/favicon.ico`;
-              mainWindow.webContents.send('tab-updated', id, { favicon: defaultFavicon });
+              sendToTabWindow(id, 'tab-updated', id, { favicon: defaultFavicon });
               // Atualiza info da aba
               if (tabInfo.has(id)) {
                 const info = tabInfo.get(id);
@@ -442,7 +1036,7 @@ const createNewTab = (url: string | undefined = undefined) => {
           try {
             const urlObj = new URL(navigateUrl);
             const defaultFavicon = `${urlObj.protocol}//${urlObj.host}/favicon.ico`;
-            mainWindow.webContents.send('tab-updated', id, { favicon: defaultFavicon });
+            sendToTabWindow(id, 'tab-updated', id, { favicon: defaultFavicon });
             // Atualiza info da aba
             if (tabInfo.has(id)) {
               const info = tabInfo.get(id);
@@ -460,8 +1054,12 @@ const createNewTab = (url: string | undefined = undefined) => {
   });
 
   // Captura navegação dentro da mesma página (SPA/History API)
-  view.webContents.on('did-navigate-in-page', (_event, url) => {
-    mainWindow.webContents.send('tab-updated', id, { url });
+  view.webContents.on('did-navigate-in-page', (_event, url, isMainFrame) => {
+    sendToTabWindow(id, 'tab-updated', id, { url });
+    // replaceState sem mudar a URL não é uma nova visita
+    if (isMainFrame && tabVisits.get(id)?.url !== url) {
+      recordTabVisit(id, url, 'link');
+    }
     // Atualiza info da aba
     if (tabInfo.has(id)) {
       const info = tabInfo.get(id);
@@ -469,10 +1067,17 @@ const createNewTab = (url: string | undefined = undefined) => {
         info.url = url;
       }
     }
+    scheduleSessionSave();
   });
 
   view.webContents.on('page-title-updated', (_event, title) => {
-    mainWindow.webContents.send('tab-updated', id, { title });
+    if (isSadTabUrl(view.webContents.getURL())) return;
+    sendToTabWindow(id, 'tab-updated', id, { title });
+    // SPAs trocam o título sem recarregar a página
+    const visit = tabVisits.get(id);
+    if (visit) {
+      updateHistoryTitle(visit.url, title);
+    }
     // Atualiza info da aba
     if (tabInfo.has(id)) {
       const info = tabInfo.get(id);
@@ -480,6 +1085,7 @@ const createNewTab = (url: string | undefined = undefined) => {
         info.title = title;
       }
     }
+    scheduleSessionSave();
   });
 
   view.webContents.on('page-favicon-updated', (_event, favicons) => {
@@ -492,7 +1098,7 @@ const createNewTab = (url: string | undefined = undefined) => {
 
     if (favicons && favicons.length > 0) {
       const resolvedUrl = resolveFaviconUrl(favicons[0], currentUrl);
-      mainWindow.webContents.send('tab-updated', id, { favicon: resolvedUrl });
+      sendToTabWindow(id, 'tab-updated', id, { favicon: resolvedUrl });
       // Atualiza info da aba
       if (tabInfo.has(id)) {
         const info = tabInfo.get(id);
@@ -505,7 +1111,7 @@ const createNewTab = (url: string | undefined = undefined) => {
       try {
         const urlObj = new URL(currentUrl);
         const defaultFavicon = `${urlObj.protocol}//${urlObj.host}/favicon.ico`;
-        mainWindow.webContents.send('tab-updated', id, { favicon: defaultFavicon });
+        sendToTabWindow(id, 'tab-updated', id, { favicon: defaultFavicon });
       } catch (e) {
         // Ignora erros
       }
@@ -515,8 +1121,8 @@ const createNewTab = (url: string | undefined = undefined) => {
   // Find in page listener
   view.webContents.on('found-in-page', (_event, result) => {
     // Só envia resultado se esta aba for a ativa
-    if (activeTabId === id) {
-      mainWindow.webContents.send('find:result', {
+    if (isActiveTab(id)) {
+      sendToTabWindow(id, 'find:result', {
         activeMatchOrdinal: result.activeMatchOrdinal,
         matches: result.matches,
         finalUpdate: result.finalUpdate
@@ -524,730 +1130,3725 @@ const createNewTab = (url: string | undefined = undefined) => {
     }
   });
 
+  return view;
 };
 
-const closeTab = (id: string) => {
-  if (!tabs.has(id)) return;
-  const view = tabs.get(id);
-  
-  // Para qualquer busca ativa antes de fechar
-  if (view && view.webContents) {
-    view.webContents.stopFindInPage('clearSelection');
-  }
-  
-  mainWindow.removeBrowserView(view);
-  tabs.delete(id);
-  tabInfo.delete(id); // Remove info da aba também
-  tabFindBarStates.delete(id); // Remove estado da barra de busca
-  mainWindow.webContents.send('tab-closed', id);
+// --- Estado das Abas ---
+// Histórico de voltar/avançar da aba; históricos muito longos mantêm uma janela ao redor da entrada ativa
+const getTabNavigation = (view: BrowserView): { entries: TabNavigationEntry[]; index: number } => {
+  if (view.webContents.isDestroyed()) return { entries: [], index: 0 };
 
-  if (activeTabId === id) {
-    if (tabs.size > 0) {
-      const lastTabId = tabs.keys().next().value;
-      switchToTab(lastTabId);
-    } else {
-      createNewTab();
+  const history = view.webContents.navigationHistory;
+  const allEntries = history.getAllEntries();
+  const activeIndex = history.getActiveIndex();
+
+  const start = Math.max(0, Math.min(
+    activeIndex - Math.floor(CLOSED_TAB_MAX_NAVIGATION_ENTRIES / 2),
+    allEntries.length - CLOSED_TAB_MAX_NAVIGATION_ENTRIES
+  ));
+  const entries = allEntries
+    .slice(start, start + CLOSED_TAB_MAX_NAVIGATION_ENTRIES)
+    .map(({ url, title, pageState }) => ({ url, title, pageState }));
+
+  return cleanNavigationEntries(entries, Math.max(activeIndex - start, 0));
+};
+
+// Lê a rolagem atual de todas as abas (páginas travadas não atrasam o fechamento)
+const captureTabScrollPositions = async (): Promise<void> => {
+  const timeout = new Promise<null>((resolve) => setTimeout(() => resolve(null), 500));
+
+  await Promise.all(Array.from(tabs.entries()).map(async ([id, view]) => {
+    if (view.webContents.isDestroyed()) return;
+    try {
+      const position = await Promise.race([
+        view.webContents.executeJavaScript('({ x: window.scrollX, y: window.scrollY })') as Promise<{ x: number; y: number }>,
+        timeout
+      ]);
+      if (position) {
+        tabScrollPositions.set(id, position);
+      }
+    } catch {
+      // Ignora páginas que não permitem scripts
     }
-  }
+  }));
+};
 
-  // Salva estado das abas após fechar uma aba
-  try {
-    const tabsArray: TabState[] = Array.from(tabs.keys()).map((id, index) => {
-      const info = tabInfo.get(id);
+// Janelas que entram na sessão salva (as privadas não deixam rastro no banco)
+const getSessionWindows = (): BrowserWindowState[] => browserWindows.filter((win) => !win.isPrivate);
+
+// Monta o estado das abas para salvar no banco, janela por janela, na ordem da barra de abas
+const buildTabsState = (): TabState[] => {
+  return getSessionWindows().reduce<TabState[]>((state, win, windowId) => state.concat(win.tabOrder.map((id, index) => {
+    const info = tabInfo.get(id);
+    const base = {
+      id,
+      url: info?.url || '',
+      title: info?.title || '',
+      favicon: info?.favicon,
+      position: index,
+      active: id === win.activeTabId,
+      pinned: info?.pinned ?? false,
+      group_id: info?.groupId,
+      window_id: windowId,
+      container_id: info?.containerId,
+      opener_id: info?.openerId
+    };
+
+    // Aba nunca ativada: mantém o estado restaurado como estava
+    const deferred = deferredTabs.get(id);
+    const view = tabs.get(id);
+    if (deferred || !view) {
       return {
-        id,
-        url: info?.url || '',
-        title: info?.title || '',
-        favicon: info?.favicon,
-        position: index,
-        active: id === activeTabId
+        ...base,
+        navigation_entries: deferred?.navigation?.entries,
+        navigation_index: deferred?.navigation?.index,
+        scroll_x: deferred?.scroll?.x,
+        scroll_y: deferred?.scroll?.y,
+        zoom_level: deferred?.zoomLevel
       };
-    });
-    saveTabsToDatabase(tabsArray);
+    }
+
+    const navigation = getTabNavigation(view);
+    const scroll = tabScrollPositions.get(id);
+    return {
+      ...base,
+      navigation_entries: navigation.entries,
+      navigation_index: navigation.index,
+      scroll_x: scroll?.x ?? 0,
+      scroll_y: scroll?.y ?? 0,
+      zoom_level: view.webContents.isDestroyed() ? 0 : view.webContents.getZoomLevel()
+    };
+  })), []);
+};
+
+// Grupos com ao menos uma aba, na ordem em que aparecem nas barras
+const buildTabGroupsState = (): TabGroup[] => {
+  const groupIds = new Set<string>();
+  getSessionWindows().reduce<string[]>((ids, win) => ids.concat(win.tabOrder), []).forEach((id) => {
+    const groupId = tabInfo.get(id)?.groupId;
+    if (groupId) groupIds.add(groupId);
+  });
+  return Array.from(groupIds, (groupId) => tabGroups.get(groupId))
+    .filter((group): group is TabGroup => group !== undefined);
+};
+
+// Posição e tamanho das janelas (o índice liga cada janela às suas abas)
+const buildWindowsState = (): WindowState[] => {
+  return getSessionWindows().map((win, windowId) => {
+    // Janela maximizada guarda o tamanho de antes de maximizar
+    const bounds = win.window.getNormalBounds();
+    return {
+      id: windowId,
+      x: bounds.x,
+      y: bounds.y,
+      width: bounds.width,
+      height: bounds.height,
+      maximized: win.window.isMaximized(),
+      split_tabs: win.split ? [win.tabOrder.indexOf(win.split.tabIds[0]), win.tabOrder.indexOf(win.split.tabIds[1])] : undefined,
+      split_orientation: win.split?.orientation,
+      split_ratio: win.split?.ratio
+    };
+  });
+};
+
+const buildSessionState = (): SessionSnapshot => ({
+  tabs: buildTabsState(),
+  groups: buildTabGroupsState(),
+  windows: buildWindowsState()
+});
+
+// Salva abas, grupos e janelas no banco
+// Com só janelas privadas abertas, a sessão salva continua a da última janela normal
+const saveTabsSession = () => {
+  cancelSessionSave();
+  try {
+    const { tabs, groups, windows } = buildSessionState();
+    if (windows.length === 0) return;
+    saveTabsToDatabase(tabs, groups, windows);
   } catch (err: unknown) {
     console.error('Erro ao salvar estado das abas:', err);
   }
 };
 
-// --- Janela Principal ---
-const createWindow = (): void => {
-  const iconPath = path.join(app.getAppPath(), 'src', 'HeraBrowser512x512.png');
-
-  mainWindow = new BrowserWindow({
-    height: 800,
-    width: 1200,
-    frame: false,
-    autoHideMenuBar: true,
-    icon: iconPath,
-    backgroundColor: '#2b2b2b',
-    webPreferences: {
-      preload: MAIN_WINDOW_PRELOAD_WEBPACK_ENTRY,
-      contextIsolation: true,
-      nodeIntegration: false,
-    },
-  });
+// Salvamento automático: uma sequência de mudanças (abrir, navegar, reordenar) vira uma só gravação,
+// para que um crash perca no máximo os últimos segundos
+let sessionSaveTimer: ReturnType<typeof setTimeout> | null = null;
 
-  mainWindow.loadURL(MAIN_WINDOW_WEBPACK_ENTRY);
+const cancelSessionSave = () => {
+  if (sessionSaveTimer) {
+    clearTimeout(sessionSaveTimer);
+    sessionSaveTimer = null;
+  }
+};
 
-  // DevTools - F12 para abrir/fechar (painel integrado)
-  mainWindow.webContents.on('before-input-event', (_event, input) => {
-    if (input.key === 'F12' || (input.key === 'I' && input.control && input.shift)) {
-      if (mainWindow.webContents.isDevToolsOpened()) {
-        mainWindow.webContents.closeDevTools();
-      } else {
-        mainWindow.webContents.openDevTools({ mode: 'bottom' });
-      }
+const scheduleSessionSave = () => {
+  cancelSessionSave();
+  sessionSaveTimer = setTimeout(() => {
+    sessionSaveTimer = null;
+    // Com as janelas fechando, a sessão que vale é a capturada no fechamento
+    if (!lastSessionSnapshot) {
+      saveTabsSession();
     }
-  });
+  }, SESSION_AUTOSAVE_DELAY_MS);
+};
+// --- Fim do Estado das Abas ---
+
+// --- Abas Fixadas ---
+// Abas fixadas ocupam sempre o início de `tabOrder` da janela
+const getPinnedCount = (win: BrowserWindowState): number => win.tabOrder.filter((id) => tabInfo.get(id)?.pinned).length;
+
+// Limita a posição ao bloco de abas fixadas (ou ao bloco das demais), sem separar grupos
+const getAllowedPosition = (win: BrowserWindowState, position: number, pinned: boolean): number => {
+  const { tabOrder } = win;
+  const pinnedCount = getPinnedCount(win);
+  if (pinned) {
+    return Math.max(0, Math.min(position, pinnedCount));
+  }
 
-  // Listeners de Janela
-  mainWindow.on('enter-full-screen', () => {
-    mainWindow.setFullScreen(true);
-    mainWindow.webContents.send('set-ui-visibility', false);
-  });
-  mainWindow.on('leave-full-screen', () => {
-    mainWindow.setFullScreen(false);
-    mainWindow.webContents.send('set-ui-visibility', true);
-  });
-  mainWindow.on('maximize', () => {
-    mainWindow.webContents.send('window:maximized-status', true);
-  });
-  mainWindow.on('unmaximize', () => {
-    mainWindow.webContents.send('window:maximized-status', false);
-  });
+  const allowed = Math.max(pinnedCount, Math.min(position, tabOrder.length));
+  const groupId = tabInfo.get(tabOrder[allowed - 1])?.groupId;
+  const lastGroupTabId = groupId && tabInfo.get(tabOrder[allowed])?.groupId === groupId
+    ? getGroupTabIds(groupId).pop()
+    : undefined;
+  return lastGroupTabId ? tabOrder.indexOf(lastGroupTabId) + 1 : allowed;
+};
 
-  // Create menu view
-  menuView = new BrowserView({
-    webPreferences: {
-      preload: MAIN_WINDOW_PRELOAD_WEBPACK_ENTRY,
-      contextIsolation: true,
-      nodeIntegration: false,
-      transparent: true,
-    }
-  });
-  menuView.webContents.loadURL('hera://menu');
-  // menuView.webContents.openDevTools({ mode: 'detach' });
+// Move a aba para outra posição da barra e avisa a UI
+const moveTab = (id: string, position: number) => {
+  const win = tabWindows.get(id);
+  const currentIndex = win ? win.tabOrder.indexOf(id) : -1;
+  if (currentIndex === -1 || currentIndex === position) return;
 
-  // Get menu height after it loads
-  menuView.webContents.on('did-finish-load', async () => {
-    const height = await menuView.webContents.executeJavaScript(
-      'document.getElementById("main-menu").offsetHeight'
-    );
+  win.tabOrder.splice(currentIndex, 1);
+  win.tabOrder.splice(position, 0, id);
+  win.window.webContents.send('tab-moved', id, position);
+};
 
-    dynamicMenuHeight = height;
-  });
+// Fixa ou desafixa a aba, levando-a para o limite entre os dois blocos
+const setTabPinned = (id: string, pinned: boolean) => {
+  const info = tabInfo.get(id);
+  if (!info || (info.pinned ?? false) === pinned) return;
 
-  // Create omnibox view (similar to menu)
-  omniboxView = new BrowserView({
-    webPreferences: {
-      preload: MAIN_WINDOW_PRELOAD_WEBPACK_ENTRY,
-      contextIsolation: true,
-      nodeIntegration: false,
-      transparent: true,
-    }
-  });
-  omniboxView.webContents.loadURL('hera://omnibox');
-  omniboxView.setBackgroundColor('#00000000'); // Transparent
+  // Abas fixadas não ficam em grupos
+  if (pinned && info.groupId) {
+    setTabGroup(id, null);
+  }
+
+  // Contando sem a própria aba, o limite é o fim das fixadas e o início das demais
+  info.pinned = false;
+  const boundary = getPinnedCount(tabWindows.get(id));
+  info.pinned = pinned;
 
-  mainWindow.on('resize', resizeActiveTab);
+  moveTab(id, boundary);
+  sendToTabWindow(id, 'tab-updated', id, { pinned });
+
+  saveTabsSession();
 };
 
-// --- Funções de Histórico ---
-// Agora usando SQLite - funções movidas para database.ts
+// Fecha todas as abas exceto `id` e as fixadas
+const closeOtherTabs = (id: string) => {
+  const win = tabWindows.get(id);
+  if (!win) return;
 
-// --- O CORAÇÃO DA APLICAÇÃO ---
-app.whenReady().then(async () => {
-  // Inicializar banco de dados SQLite
-  try {
-    initDatabase(); // Agora é síncrono com better-sqlite3
-    console.log('Banco de dados SQLite inicializado');
-  } catch (error: unknown) {
-    console.error('❌ ERRO CRÍTICO ao inicializar banco de dados:', error);
-    if (error instanceof Error) {
-      console.error('Mensagem:', error.message);
-      console.error('Stack:', error.stack);
+  switchToTab(id);
+  win.tabOrder
+    .filter((otherId) => otherId !== id && !tabInfo.get(otherId)?.pinned)
+    .forEach((otherId) => closeTab(otherId));
+};
+// --- Fim das Abas Fixadas ---
+
+// --- Tela Dividida ---
+// Uma tela dividida por janela; dividir com outra aba substitui a anterior
+const clampSplitRatio = (ratio: number): number =>
+  Math.min(SPLIT_VIEW_MAX_RATIO, Math.max(SPLIT_VIEW_MIN_RATIO, ratio));
+
+// Troca a tela dividida da janela, avisa a UI e recoloca as abas visíveis
+const setSplitView = (win: BrowserWindowState, split: BrowserWindowState['split']) => {
+  win.split = split;
+  win.window.webContents.send('split-view:changed', split ? split.tabIds.slice() : null);
+  attachVisibleTabs(win);
+};
+
+// Divide a tela entre a aba ativa e `id` (sem `id`, uma nova aba aberta ao lado da ativa)
+// A aba que entra na tela dividida fica com o foco
+const openSplitView = (win: BrowserWindowState, id?: string) => {
+  const activeId = win.activeTabId;
+  if (!activeId || id === activeId) return;
+
+  const otherId = id ?? createNewTab(win, undefined, { position: win.tabOrder.indexOf(activeId) + 1 });
+  if (tabWindows.get(otherId) !== win) return;
+
+  setSplitView(win, {
+    tabIds: [activeId, otherId],
+    orientation: win.split?.orientation ?? 'horizontal',
+    ratio: SPLIT_VIEW_DEFAULT_RATIO
+  });
+  switchToTab(otherId);
+  saveTabsSession();
+};
+
+const closeSplitView = (win: BrowserWindowState) => {
+  if (!win.split) return;
+  setSplitView(win, null);
+  saveTabsSession();
+};
+
+// Muda a organização ou a proporção (ou troca as abas de lado) mantendo as mesmas abas
+const updateSplitView = (win: BrowserWindowState, changes: { orientation?: SplitViewOrientation; ratio?: number; swap?: boolean }) => {
+  if (!win.split) return;
+  const { tabIds, orientation, ratio } = win.split;
+  setSplitView(win, {
+    tabIds: changes.swap ? [tabIds[1], tabIds[0]] : tabIds,
+    orientation: changes.orientation ?? orientation,
+    ratio: changes.ratio !== undefined ? clampSplitRatio(changes.ratio) : ratio
+  });
+  saveTabsSession();
+};
+
+// A aba saiu da janela (fechada ou movida): a outra metade passa a ocupar a área toda
+const leaveSplitView = (win: BrowserWindowState, id: string) => {
+  if (!win.split?.tabIds.includes(id)) return;
+  win.split = null;
+  if (win.window.isDestroyed()) return;
+  win.window.webContents.send('split-view:changed', null);
+  if (win.activeTabId !== id) {
+    attachVisibleTabs(win);
+  }
+};
+
+// Itens da tela dividida no menu de contexto da aba `id`
+const buildSplitViewMenuItems = (id: string): Electron.MenuItemConstructorOptions[] => {
+  const win = tabWindows.get(id);
+  if (!win) return [];
+
+  if (win.split?.tabIds.includes(id)) {
+    const isHorizontal = win.split.orientation === 'horizontal';
+    return [
+      { label: isHorizontal ? 'Dividir uma em cima da outra' : 'Dividir lado a lado', click: () => updateSplitView(win, { orientation: isHorizontal ? 'vertical' : 'horizontal' }) },
+      { label: 'Trocar os lados', click: () => updateSplitView(win, { swap: true }) },
+      { label: 'Sair da tela dividida', click: () => closeSplitView(win) }
+    ];
+  }
+  return id === win.activeTabId
+    ? [{ label: 'Dividir tela com nova aba', click: () => openSplitView(win) }]
+    : [{ label: 'Dividir tela com a aba ativa', click: () => openSplitView(win, id) }];
+};
+// --- Fim da Tela Dividida ---
+
+// --- Árvore de Abas ---
+// Cada aba aberta a partir de outra (link em nova aba) guarda a aba de origem; a barra
+// lateral mostra essas abas recuadas abaixo da origem
+const isTabDescendant = (id: string, ancestorId: string): boolean => {
+  const visited = new Set<string>();
+  let openerId = tabInfo.get(id)?.openerId;
+  while (openerId && !visited.has(openerId)) {
+    if (openerId === ancestorId) return true;
+    visited.add(openerId);
+    openerId = tabInfo.get(openerId)?.openerId;
+  }
+  return false;
+};
+
+// Posição da última aba da árvore de `id` (ela mesma e os descendentes logo depois dela)
+const getTabTreeEnd = (win: BrowserWindowState, id: string): number => {
+  let end = win.tabOrder.indexOf(id);
+  while (end !== -1 && end + 1 < win.tabOrder.length && isTabDescendant(win.tabOrder[end + 1], id)) {
+    end++;
+  }
+  return end;
+};
+
+// Tira a aba da árvore (fechada ou movida para outra janela): as filhas sobem um nível
+const detachFromTabTree = (id: string) => {
+  const info = tabInfo.get(id);
+  if (!info) return;
+
+  const openerId = info.openerId;
+  info.openerId = undefined;
+  tabInfo.forEach((childInfo, childId) => {
+    if (childInfo.openerId !== id) return;
+    childInfo.openerId = openerId;
+    sendToTabWindow(childId, 'tab-updated', childId, { openerId: openerId ?? null });
+  });
+};
+// --- Fim da Árvore de Abas ---
+
+// --- Disposição das Abas ---
+// Abas no topo ou na barra lateral, iguais em todas as janelas
+// Lida das configurações uma vez (o layout é recalculado a cada redimensionamento) e relida quando elas mudam
+let tabLayout: TabLayout | null = null;
+
+const getTabLayout = (): TabLayout => {
+  if (!tabLayout) {
+    const width = Math.round(getNumberSetting('verticalTabsWidth', VERTICAL_TABS_DEFAULT_WIDTH));
+    tabLayout = {
+      mode: getSetting('tabLayout') === 'vertical' ? 'vertical' : 'horizontal',
+      sidebarWidth: Math.min(VERTICAL_TABS_MAX_WIDTH, Math.max(VERTICAL_TABS_MIN_WIDTH, width))
+    };
+  }
+  return tabLayout;
+};
+
+// As configurações da disposição mudaram: avisa as janelas e reposiciona as abas
+const applyTabLayout = () => {
+  tabLayout = null;
+  sendToAllWindows('tab-layout-changed', getTabLayout());
+  browserWindows.forEach((win) => resizeActiveTab(win));
+};
+// --- Fim da Disposição das Abas ---
+
+// --- Grupos de Abas ---
+// As abas de um grupo estão sempre na mesma janela
+const getGroupTabIds = (groupId: string): string[] =>
+  getAllTabIds().filter((id) => tabInfo.get(id)?.groupId === groupId);
+
+// Primeira cor ainda não usada por outro grupo (ou a seguinte na paleta)
+const getNextGroupColor = (): TabGroupColor => {
+  const colors = Object.keys(TAB_GROUP_COLORS) as TabGroupColor[];
+  const usedColors = new Set(Array.from(tabGroups.values(), (group) => group.color));
+  return colors.find((color) => !usedColors.has(color)) ?? colors[tabGroups.size % colors.length];
+};
+
+// Remove o grupo (já sem abas) e avisa a UI
+const deleteTabGroup = (groupId: string) => {
+  if (!tabGroups.delete(groupId)) return;
+  sendToAllWindows('tab-group-removed', groupId);
+};
+
+// Troca o grupo da aba sem movê-la, removendo o grupo anterior se ele ficou vazio
+const assignTabGroup = (id: string, groupId: string | undefined) => {
+  const info = tabInfo.get(id);
+  if (!info || info.groupId === groupId) return;
+
+  const previousGroupId = info.groupId;
+  info.groupId = groupId;
+  sendToTabWindow(id, 'tab-updated', id, { groupId: groupId ?? null });
+
+  if (previousGroupId && getGroupTabIds(previousGroupId).length === 0) {
+    deleteTabGroup(previousGroupId);
+  }
+};
+
+// Coloca a aba no grupo (ou tira de qualquer grupo, com `groupId` null)
+// A aba vai para o fim do grupo de destino; ao sair, para logo depois do grupo anterior
+const setTabGroup = (id: string, groupId: string | null) => {
+  const info = tabInfo.get(id);
+  if (!info || (info.groupId ?? null) === groupId) return;
+  if (groupId !== null && !tabGroups.has(groupId)) return;
+  // Grupos não atravessam janelas
+  const win = tabWindows.get(id);
+  if (groupId !== null && getGroupTabIds(groupId).some((tabId) => tabWindows.get(tabId) !== win)) return;
+
+  if (groupId !== null && info.pinned) {
+    setTabPinned(id, false);
+  }
+
+  // Sem abas no destino (grupo novo ou saindo do grupo), a referência é o grupo anterior
+  const anchor = (groupId !== null ? getGroupTabIds(groupId).pop() : undefined)
+    ?? (info.groupId ? getGroupTabIds(info.groupId).filter((tabId) => tabId !== id).pop() : undefined);
+  if (anchor) {
+    moveTab(id, win.tabOrder.filter((tabId) => tabId !== id).indexOf(anchor) + 1);
+  }
+
+  assignTabGroup(id, groupId ?? undefined);
+  saveTabsSession();
+};
+
+// Cria um grupo com as abas indicadas (o grupo se forma na posição da primeira delas)
+// Só entram as abas da mesma janela da primeira aba indicada
+const createTabGroup = (tabIds: string[], input: TabGroupInput = {}): string | null => {
+  const win = tabWindows.get(tabIds[0]);
+  const groupTabIds = win ? win.tabOrder.filter((id) => tabIds.includes(id)) : [];
+  if (groupTabIds.length === 0) return null;
+
+  const group: TabGroup = {
+    id: uuidv4(),
+    name: input.name?.trim() ?? '',
+    color: input.color ?? getNextGroupColor(),
+    collapsed: input.collapsed ?? false
+  };
+  tabGroups.set(group.id, group);
+  sendToAllWindows('tab-group-updated', group);
+
+  groupTabIds.forEach((id) => setTabGroup(id, group.id));
+  return group.id;
+};
+
+// Renomeia, muda a cor ou recolhe/expande o grupo
+const updateTabGroup = (groupId: string, changes: TabGroupInput): boolean => {
+  const group = tabGroups.get(groupId);
+  if (!group) return false;
+
+  if (changes.name !== undefined) group.name = changes.name.trim();
+  if (changes.color !== undefined) group.color = changes.color;
+  if (changes.collapsed !== undefined) group.collapsed = changes.collapsed;
+
+  sendToAllWindows('tab-group-updated', group);
+  saveTabsSession();
+  return true;
+};
+
+// Desfaz o grupo mantendo as abas abertas, no mesmo lugar
+const ungroupTabs = (groupId: string) => {
+  if (!tabGroups.has(groupId)) return;
+
+  getGroupTabIds(groupId).forEach((id) => {
+    const info = tabInfo.get(id);
+    if (info) info.groupId = undefined;
+    sendToTabWindow(id, 'tab-updated', id, { groupId: null });
+  });
+  deleteTabGroup(groupId);
+  saveTabsSession();
+};
+// --- Fim dos Grupos de Abas ---
+
+// --- Reordenação de Abas ---
+// Aba arrastada na barra: `index` é a posição final desejada. A posição respeita o
+// bloco de fixadas, e a aba entra no grupo onde foi solta (ou sai do seu grupo)
+const reorderTab = (id: string, index: number) => {
+  const info = tabInfo.get(id);
+  const win = tabWindows.get(id);
+  if (!info || !win) return;
+
+  const otherTabIds = win.tabOrder.filter((tabId) => tabId !== id);
+  const pinnedCount = otherTabIds.filter((tabId) => tabInfo.get(tabId)?.pinned).length;
+  const position = info.pinned
+    ? Math.max(0, Math.min(index, pinnedCount))
+    : Math.max(pinnedCount, Math.min(index, otherTabIds.length));
+
+  // Grupos das vizinhas depois de soltar
+  const groupBefore = tabInfo.get(otherTabIds[position - 1])?.groupId;
+  const groupAfter = tabInfo.get(otherTabIds[position])?.groupId;
+  const ownGroupId = info.groupId;
+  let groupId: string | undefined;
+  if (groupBefore && groupBefore === groupAfter) {
+    groupId = groupBefore;
+  } else if (ownGroupId && (groupBefore === ownGroupId || groupAfter === ownGroupId || getGroupTabIds(ownGroupId).length === 1)) {
+    // Continua no próprio grupo se ainda está encostada nele (ou se é a única aba dele)
+    groupId = ownGroupId;
+  }
+
+  moveTab(id, position);
+  assignTabGroup(id, groupId);
+  saveTabsSession();
+};
+// --- Fim da Reordenação de Abas ---
+
+// --- Abas entre Janelas ---
+// Leva a aba para a janela `target` na posição `index` (ou no fim), sem recarregar a página
+// A aba sai do seu grupo; a janela de origem fecha se ficar sem abas
+// Abas não passam entre janelas privadas e normais (a sessão da página não muda)
+const moveTabToWindow = (id: string, target: BrowserWindowState, index?: number) => {
+  const source = tabWindows.get(id);
+  const info = tabInfo.get(id);
+  if (!source || !info || source === target || source.isPrivate !== target.isPrivate) return;
+
+  // Grupos e árvores de abas não atravessam janelas
+  assignTabGroup(id, undefined);
+  detachFromTabTree(id);
+
+  const view = tabs.get(id);
+  if (view) {
+    view.webContents.stopFindInPage('clearSelection');
+    source.window.removeBrowserView(view);
+  }
+  source.tabOrder.splice(source.tabOrder.indexOf(id), 1);
+  tabFindBarStates.delete(id);
+  leaveSplitView(source, id);
+  source.window.webContents.send('tab-closed', id);
+  if (source.activeTabId === id) {
+    source.activeTabId = null;
+    if (source.tabOrder.length > 0) {
+      switchToTab(source.tabOrder[0]);
     }
-    // Tentar novamente após um delay
-    setTimeout(() => {
-      try {
-        console.log('Tentando inicializar banco novamente...');
-        initDatabase();
-        console.log('✅ Banco inicializado na segunda tentativa');
-      } catch (retryError) {
-        console.error('❌ Falha na segunda tentativa:', retryError);
+  }
+
+  const position = getAllowedPosition(target, index ?? target.tabOrder.length, info.pinned ?? false);
+  target.tabOrder.splice(position, 0, id);
+  tabWindows.set(id, target);
+  target.window.webContents.send('tab-created', {
+    id,
+    title: info.title || info.url,
+    url: info.url,
+    favicon: info.favicon,
+    position,
+    pinned: info.pinned,
+    containerId: info.containerId
+  });
+  if (!view) {
+    target.window.webContents.send('tab-updated', id, { discarded: true });
+  }
+  switchToTab(id);
+  target.window.focus();
+
+  if (source.tabOrder.length === 0) {
+    source.window.close();
+  }
+  saveTabsSession();
+};
+
+// Abre uma janela só com a aba, do mesmo tamanho da janela de origem
+// `point` é onde a aba foi solta na tela (ao arrastá-la para fora da janela)
+const moveTabToNewWindow = (id: string, point?: { x: number; y: number }) => {
+  const source = tabWindows.get(id);
+  if (!source) return;
+
+  const [width, height] = source.window.getSize();
+  const bounds = point ? { x: Math.round(point.x), y: Math.round(point.y), width, height } : { width, height };
+  const target = createWindow(bounds, source.isPrivate);
+  moveTabToWindow(id, target);
+};
+// --- Fim das Abas entre Janelas ---
+
+// --- Abas Fechadas ---
+// Guarda a aba na pilha de fechadas, com o histórico de voltar/avançar
+const rememberClosedTab = (id: string, view: BrowserView | undefined) => {
+  const info = tabInfo.get(id);
+  if (!info || isPrivateTab(id)) return;
+
+  const navigation = view
+    ? getTabNavigation(view)
+    : deferredTabs.get(id)?.navigation ?? { entries: [{ url: info.url, title: info.title }], index: 0 };
+
+  // Uma nova aba que nunca navegou não vale a pena reabrir
+  if (info.url === 'hera://new-tab' && navigation.entries.length <= 1) return;
+
+  try {
+    addClosedTab({
+      url: info.url,
+      title: info.title,
+      favicon: info.favicon,
+      position: tabWindows.get(id)?.tabOrder.indexOf(id) ?? 0,
+      navigation_entries: navigation.entries,
+      navigation_index: navigation.index,
+      closed_at: Date.now(),
+      container_id: info.containerId
+    });
+  } catch (err: unknown) {
+    console.error('Erro ao guardar aba fechada:', err);
+  }
+};
+
+// Reabre uma aba fechada na janela `win` (a mais recente se `closedTabId` for omitido).
+// Janelas privadas não veem as abas fechadas da navegação normal
+const reopenClosedTab = (win: BrowserWindowState, closedTabId?: number): boolean => {
+  if (!win || win.isPrivate) return false;
+  const closed = takeClosedTab(closedTabId);
+  if (!closed) return false;
+
+  const navigation = cleanNavigationEntries(closed.navigation_entries, closed.navigation_index);
+  const activeEntry = navigation.entries[navigation.index];
+  createNewTab(win, activeEntry?.url || (isSadTabUrl(closed.url) ? 'hera://new-tab' : closed.url), {
+    transition: 'restored',
+    position: closed.position,
+    navigation,
+    containerId: closed.container_id
+  });
+  return true;
+};
+// --- Fim das Abas Fechadas ---
+
+// --- Sessões ---
+// Recria os grupos da sessão antes das abas, para a UI já conhecer nome e cor de cada um
+// Um ID já em uso (a mesma sessão aberta de novo) ganha um novo ID; os grupos das abas ativas voltam expandidos
+const restoreSessionGroups = (snapshot: SessionSnapshot): Map<string, string> => {
+  const groupIds = new Map<string, string>();
+  snapshot.groups.forEach((group) => {
+    const id = tabGroups.has(group.id) ? uuidv4() : group.id;
+    const collapsed = group.collapsed && !snapshot.tabs.some((tab) => tab.active && tab.group_id === group.id);
+    groupIds.set(group.id, id);
+    tabGroups.set(id, { ...group, id, collapsed });
+    sendToAllWindows('tab-group-updated', tabGroups.get(id));
+  });
+  return groupIds;
+};
+
+// Árvore de abas: cada aba volta ligada à sua origem, se as duas ficaram na mesma janela
+// (`restoredIds` liga o ID salvo de cada aba ao ID da aba recriada)
+const linkRestoredOpeners = (savedTabs: TabState[], restoredIds: Map<string, string>) => {
+  savedTabs.forEach((tab) => {
+    const id = restoredIds.get(tab.id);
+    const openerId = restoredIds.get(tab.opener_id ?? '');
+    if (!id || !openerId || openerId === id || !tabInfo.has(id) || tabWindows.get(id) !== tabWindows.get(openerId)) return;
+    tabInfo.get(id).openerId = openerId;
+    sendToTabWindow(id, 'tab-updated', id, { openerId });
+  });
+};
+
+// Grupos recriados que ficaram sem abas
+const removeEmptyRestoredGroups = (groupIds: Map<string, string>) => {
+  Array.from(groupIds.values())
+    .filter((groupId) => tabGroups.has(groupId) && getGroupTabIds(groupId).length === 0)
+    .forEach(deleteTabGroup);
+};
+
+// Abre as janelas de uma sessão: só a aba ativa de cada janela carrega agora, as demais
+// carregam na primeira vez em que forem ativadas
+const restoreSessionWindows = (snapshot: SessionSnapshot): BrowserWindowState[] => {
+  const { tabs: savedTabs, windows: savedWindows } = snapshot;
+
+  // Uma janela para cada janela salva, com a posição e o tamanho que tinha
+  // (sessões anteriores ao suporte a várias janelas voltam todas na janela 0)
+  const windowIds = Array.from(new Set(savedTabs.map((tab) => tab.window_id ?? 0)));
+  const restoredWindows = new Map(windowIds.map((windowId): [number, BrowserWindowState] =>
+    [windowId, createWindow(savedWindows.find((saved) => saved.id === windowId))]
+  ));
+
+  // Abas de contêineres que não existem mais voltam sem contêiner
+  const containerIds = new Set(getContainers().map((container) => container.id));
+  const groupIds = restoreSessionGroups(snapshot);
+  const restoredIds = new Map<string, string>();
+
+  restoredWindows.forEach((win, windowId) => {
+    const windowTabs = savedTabs.filter((tab) => (tab.window_id ?? 0) === windowId);
+    const activeTabIndex = Math.max(windowTabs.findIndex((tab) => tab.active), 0);
+
+    windowTabs.forEach((tab, index) => {
+      const groupId = groupIds.get(tab.group_id ?? '');
+      const containerId = tab.container_id && containerIds.has(tab.container_id) ? tab.container_id : undefined;
+      if (index !== activeTabIndex) {
+        restoredIds.set(tab.id, createDeferredTab(win, { ...tab, group_id: groupId, container_id: containerId }));
+        return;
       }
-    }, 1000);
+      const activeTab = sanitizeSavedTab(tab);
+      restoredIds.set(tab.id, createNewTab(win, activeTab.url, { ...getRestoreOptions(activeTab), pinned: tab.pinned, groupId, containerId }));
+    });
+
+    // Tela dividida da janela (as abas estão em `tabOrder` na mesma ordem em que foram salvas)
+    const saved = savedWindows.find((savedWindow) => savedWindow.id === windowId);
+    const splitTabIds = (saved?.split_tabs ?? [])
+      .map((position) => win.tabOrder[windowTabs.findIndex((tab) => tab.position === position)])
+      .filter((id) => id !== undefined);
+    if (splitTabIds.length === 2 && splitTabIds[0] !== splitTabIds[1]) {
+      setSplitView(win, {
+        tabIds: [splitTabIds[0], splitTabIds[1]],
+        orientation: saved.split_orientation ?? 'horizontal',
+        ratio: clampSplitRatio(saved.split_ratio ?? SPLIT_VIEW_DEFAULT_RATIO)
+      });
+    }
+  });
+
+  linkRestoredOpeners(savedTabs, restoredIds);
+  removeEmptyRestoredGroups(groupIds);
+  return Array.from(restoredWindows.values());
+};
+
+// Sessão nomeada aberta por último: ao alternar para outra, ela guarda as abas abertas no momento
+const getActiveSessionId = (): string | null => getSetting('activeSessionId') || null;
+
+const setActiveSessionId = (id: string | null) => {
+  setSetting('activeSessionId', id ?? '');
+};
+
+// Avisa as páginas internas abertas (hera://sessions) que a lista de sessões mudou
+const broadcastSessions = () => {
+  tabs.forEach((view, id) => {
+    if (!view.webContents.isDestroyed() && tabInfo.get(id)?.url.startsWith('hera://')) {
+      view.webContents.send('sessions-changed');
+    }
+  });
+};
+
+// Salva as abas das janelas normais como uma nova sessão, que passa a ser a sessão atual
+const saveNamedSession = async (name: string): Promise<NamedSession> => {
+  await captureTabScrollPositions();
+  const snapshot = buildSessionState();
+  if (snapshot.tabs.length === 0) {
+    throw new Error('Não há abas para salvar (abas privadas não entram nas sessões)');
+  }
+
+  const session = addSession(uuidv4(), name, snapshot);
+  setActiveSessionId(session.id);
+  broadcastSessions();
+  return session;
+};
+
+// Troca as janelas normais pelas da sessão (as janelas privadas continuam abertas)
+// As abas de antes vão para a sessão atual ou, sem sessão atual, para as fechadas recentemente
+const switchToNamedSession = async (id: string): Promise<boolean> => {
+  const session = getSession(id);
+  if (!session) return false;
+
+  const previousWindows = getSessionWindows();
+  const activeId = getActiveSessionId();
+  if (id === activeId && previousWindows.length > 0) {
+    previousWindows[0].window.focus();
+    return true;
+  }
+
+  await captureTabScrollPositions();
+  const current = buildSessionState();
+  const savedToActive = current.tabs.length > 0 && activeId !== null && updateSessionSnapshot(activeId, current);
+  if (!savedToActive) {
+    previousWindows.forEach((win) => win.tabOrder.forEach((tabId) => rememberClosedTab(tabId, tabs.get(tabId))));
+  }
+  setActiveSessionId(id);
+
+  // As novas janelas abrem antes de as antigas fecharem, então o app nunca fica sem janelas
+  if (restoreSessionWindows(session.snapshot).length === 0) {
+    createNewTab(createWindow());
+  }
+  previousWindows.forEach((win) => {
+    [...win.tabOrder].forEach(destroyTab);
+    win.window.close();
+  });
+
+  saveTabsSession();
+  broadcastSessions();
+  return true;
+};
+
+// Junta as abas da sessão à janela, depois das que já estão abertas (todas em segundo plano)
+const mergeNamedSession = (win: BrowserWindowState, id: string): boolean => {
+  const session = getSession(id);
+  if (!session) return false;
+
+  const { snapshot } = session;
+  // Em janelas privadas as abas abrem sem contêiner
+  const containerIds = new Set(win.isPrivate ? [] : getContainers().map((container) => container.id));
+  const groupIds = restoreSessionGroups(snapshot);
+  const restoredIds = new Map<string, string>();
+
+  snapshot.tabs.forEach((tab) => {
+    restoredIds.set(tab.id, createDeferredTab(win, {
+      ...tab,
+      group_id: groupIds.get(tab.group_id ?? ''),
+      container_id: tab.container_id && containerIds.has(tab.container_id) ? tab.container_id : undefined
+    }));
+  });
+
+  linkRestoredOpeners(snapshot.tabs, restoredIds);
+  removeEmptyRestoredGroups(groupIds);
+  saveTabsSession();
+  return true;
+};
+
+// Pergunta se a sessão de um uso que terminou sem a saída normal deve voltar
+const confirmSessionRecovery = async (tabCount: number): Promise<boolean> => {
+  const { response } = await dialog.showMessageBox({
+    type: 'question',
+    buttons: ['Restaurar', 'Não restaurar'],
+    defaultId: 0,
+    cancelId: 1,
+    noLink: true,
+    title: 'Restaurar sessão',
+    message: 'O Hera Browser não foi fechado corretamente. Restaurar a sessão anterior?',
+    detail: `${tabCount} ${tabCount === 1 ? 'aba estava aberta' : 'abas estavam abertas'}. Se não restaurar, elas ficam guardadas em Sessões.`
+  });
+  return response === 0;
+};
+
+// Abre as janelas do último uso ao iniciar
+// Sem a saída normal registrada, o app travou ou foi encerrado à força: pergunta antes de restaurar,
+// já que uma das abas pode ter causado o problema. Recusada, a sessão vira uma sessão nomeada
+const restoreStartupSession = async () => {
+  const wasRunning = getSetting('sessionRunning') === 'true';
+  setSetting('sessionRunning', 'true');
+
+  const snapshot: SessionSnapshot = {
+    tabs: getTabsFromDatabase(),
+    groups: getTabGroupsFromDatabase(),
+    windows: getWindowsFromDatabase()
+  };
+  if (snapshot.tabs.length > 0) {
+    if (!wasRunning || await confirmSessionRecovery(snapshot.tabs.length)) {
+      restoreSessionWindows(snapshot);
+      return;
+    }
+    addSession(uuidv4(), `Sessão recuperada em ${new Date().toLocaleString('pt-BR')}`, snapshot);
+    setActiveSessionId(null);
+  }
+  // Sem abas salvas (ou sem restaurar), começa com uma nova aba padrão
+  createNewTab(createWindow());
+};
+// --- Fim das Sessões ---
+
+// --- Economia de Memória ---
+// Campos de formulário editados e ainda não enviados (descartar perderia o texto)
+const INSPECT_TAB_SCRIPT = `(() => {
+  const ignored = ['hidden', 'submit', 'button', 'reset', 'image', 'file'];
+  const hasUnsavedInput = Array.from(document.querySelectorAll('input, textarea, select')).some((el) => {
+    if (el.tagName === 'SELECT') return Array.from(el.options).some((o) => o.selected !== o.defaultSelected);
+    if (el.type === 'checkbox' || el.type === 'radio') return el.checked !== el.defaultChecked;
+    return !ignored.includes(el.type) && el.value !== el.defaultValue;
+  });
+  return { hasUnsavedInput, x: window.scrollX, y: window.scrollY };
+})()`;
+
+// Abas fixadas, tocando áudio ou com formulário preenchido não são descartadas
+// Páginas que não respondem a tempo também são mantidas, por segurança
+const isDiscardExempt = async (id: string, view: BrowserView): Promise<boolean> => {
+  if (view.webContents.isDestroyed()) return true;
+  if (tabInfo.get(id)?.pinned) return true;
+  if (view.webContents.isCurrentlyAudible()) return true;
+
+  const timeout = new Promise<null>((resolve) => setTimeout(() => resolve(null), 1000));
+  try {
+    const result = await Promise.race([
+      view.webContents.executeJavaScript(INSPECT_TAB_SCRIPT) as Promise<{ hasUnsavedInput: boolean; x: number; y: number }>,
+      timeout
+    ]);
+    if (!result) return true;
+    tabScrollPositions.set(id, { x: result.x, y: result.y });
+    return result.hasUnsavedInput;
+  } catch {
+    return true;
+  }
+};
+
+// Descarta a aba: destrói o webContents e guarda o estado para recarregar na próxima ativação
+const discardTab = (id: string): boolean => {
+  const view = tabs.get(id);
+  if (!view || isTabVisible(id)) return false;
+
+  const navigation = getTabNavigation(view);
+  deferredTabs.set(id, {
+    url: tabInfo.get(id)?.url || view.webContents.getURL(),
+    transition: 'restored',
+    navigation: navigation.entries.length > 0 ? navigation : undefined,
+    zoomLevel: view.webContents.getZoomLevel(),
+    scroll: tabScrollPositions.get(id)
+  });
+
+  endTabVisit(id);
+  pendingTransitions.delete(id);
+  tabHistoryPositions.delete(id);
+  tabs.delete(id);
+  view.webContents.close();
+  sendToTabWindow(id, 'tab-updated', id, { discarded: true });
+  return true;
+};
+
+// Lê um número das configurações (valor ausente ou inválido usa o padrão)
+const getNumberSetting = (key: string, fallback: number): number => {
+  const value = Number(getSetting(key) ?? fallback);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// Descarta abas em segundo plano ociosas há muito tempo ou, acima do limite de
+// memória, as usadas há mais tempo até voltar abaixo do limite
+const discardInactiveTabs = async () => {
+  const idleMs = getNumberSetting('memorySaverIdleMinutes', MEMORY_SAVER_DEFAULT_IDLE_MINUTES) * 60 * 1000;
+  const thresholdMb = getNumberSetting('memorySaverThresholdMb', MEMORY_SAVER_DEFAULT_THRESHOLD_MB);
+
+  // Memória por processo (abas do mesmo site podem dividir o processo: é uma estimativa)
+  const memoryByPid = new Map(app.getAppMetrics().map((metric) => [metric.pid, metric.memory.workingSetSize / 1024]));
+  const memoryOf = (view: BrowserView) =>
+    view.webContents.isDestroyed() ? 0 : memoryByPid.get(view.webContents.getOSProcessId()) ?? 0;
+  let totalMb = Array.from(tabs.values()).reduce((sum, view) => sum + memoryOf(view), 0);
+
+  const now = Date.now();
+  const candidates = Array.from(tabs.keys())
+    .filter((id) => !isTabVisible(id))
+    .sort((a, b) => (tabLastActive.get(a) ?? 0) - (tabLastActive.get(b) ?? 0));
+
+  for (const id of candidates) {
+    const view = tabs.get(id);
+    if (!view || isTabVisible(id)) continue;
+
+    const isIdle = idleMs > 0 && now - (tabLastActive.get(id) ?? now) >= idleMs;
+    const isOverThreshold = thresholdMb > 0 && totalMb > thresholdMb;
+    if (!isIdle && !isOverThreshold) continue;
+    if (await isDiscardExempt(id, view)) continue;
+
+    const freedMb = memoryOf(view);
+    if (discardTab(id)) {
+      totalMb -= freedMb;
+    }
+  }
+};
+
+// Execução periódica (uma por vez; desligada com memorySaverEnabled = 'false')
+let isMemorySaverRunning = false;
+const runMemorySaver = async () => {
+  if (isMemorySaverRunning || getSetting('memorySaverEnabled') === 'false') return;
+  isMemorySaverRunning = true;
+  try {
+    await discardInactiveTabs();
+  } finally {
+    isMemorySaverRunning = false;
+  }
+};
+// --- Fim da Economia de Memória ---
+
+// Libera tudo o que a aba usa (página, visita, estados) e a tira da janela
+const destroyTab = (id: string) => {
+  const view = tabs.get(id);
+  const win = tabWindows.get(id);
+
+  if (view) {
+    if (win && !win.window.isDestroyed()) {
+      win.window.removeBrowserView(view);
+    }
+    if (!view.webContents.isDestroyed()) {
+      view.webContents.close();
+    }
+  }
+  endTabVisit(id);
+  pendingTransitions.delete(id);
+  tabHistoryPositions.delete(id);
+  tabs.delete(id);
+  deferredTabs.delete(id);
+  tabWindows.delete(id);
+  if (win) {
+    win.tabOrder.splice(win.tabOrder.indexOf(id), 1);
+  }
+  const groupId = tabInfo.get(id)?.groupId;
+  detachFromTabTree(id);
+  tabInfo.delete(id); // Remove info da aba também
+  if (groupId && getGroupTabIds(groupId).length === 0) {
+    deleteTabGroup(groupId);
+  }
+  tabScrollPositions.delete(id);
+  tabLastActive.delete(id);
+  tabFindBarStates.delete(id); // Remove estado da barra de busca
+  if (win) {
+    leaveSplitView(win, id);
+  }
+};
+
+const closeTab = (id: string) => {
+  const win = tabWindows.get(id);
+  if (!win) return;
+  const view = tabs.get(id);
+  
+  // Para qualquer busca ativa antes de fechar
+  if (view && view.webContents) {
+    view.webContents.stopFindInPage('clearSelection');
+  }
+  rememberClosedTab(id, view);
+  destroyTab(id);
+  win.window.webContents.send('tab-closed', id);
+
+  if (win.activeTabId === id) {
+    if (win.tabOrder.length > 0) {
+      switchToTab(win.tabOrder[0]);
+    } else if (browserWindows.length > 1) {
+      // Com outras janelas abertas, fechar a última aba fecha a janela
+      win.window.close();
+    } else {
+      createNewTab(win);
+    }
+  }
+
+  // Salva estado das abas após fechar uma aba
+  saveTabsSession();
+};
+
+// --- Janela Principal ---
+// Cria uma janela do navegador (sem abas) com seu menu, seu omnibox e sua busca de abas
+// `bounds` vem da sessão salva ou da janela de origem de uma aba movida
+const createWindow = (bounds?: Partial<WindowState>, isPrivate = false): BrowserWindowState => {
+  const iconPath = path.join(app.getAppPath(), 'src', 'HeraBrowser512x512.png');
+
+  const window = new BrowserWindow({
+    x: bounds?.x,
+    y: bounds?.y,
+    height: bounds?.height ?? 800,
+    width: bounds?.width ?? 1200,
+    frame: false,
+    autoHideMenuBar: true,
+    icon: iconPath,
+    backgroundColor: isPrivate ? '#1e1a2b' : '#2b2b2b',
+    webPreferences: {
+      preload: MAIN_WINDOW_PRELOAD_WEBPACK_ENTRY,
+      contextIsolation: true,
+      nodeIntegration: false,
+    },
+  });
+  if (bounds?.maximized) {
+    window.maximize();
   }
 
-  // Configurar User Agent global para todas as sessões
-  session.defaultSession.setUserAgent(DEFAULT_USER_AGENT);
+  window.loadURL(MAIN_WINDOW_WEBPACK_ENTRY);
+
+  // Create menu view
+  const menuView = new BrowserView({
+    webPreferences: {
+      preload: MAIN_WINDOW_PRELOAD_WEBPACK_ENTRY,
+      contextIsolation: true,
+      nodeIntegration: false,
+      transparent: true,
+    }
+  });
+  menuView.webContents.loadURL('hera://menu');
+  // menuView.webContents.openDevTools({ mode: 'detach' });
+
+  // Create omnibox view (similar to menu)
+  const omniboxView = new BrowserView({
+    webPreferences: {
+      preload: MAIN_WINDOW_PRELOAD_WEBPACK_ENTRY,
+      contextIsolation: true,
+      nodeIntegration: false,
+      transparent: true,
+    }
+  });
+  omniboxView.webContents.loadURL('hera://omnibox');
+  omniboxView.setBackgroundColor('#00000000'); // Transparent
+
+  // Busca de abas (Ctrl+Shift+A), sobreposta ao conteúdo como o omnibox
+  const tabSearchView = new BrowserView({
+    webPreferences: {
+      preload: MAIN_WINDOW_PRELOAD_WEBPACK_ENTRY,
+      contextIsolation: true,
+      nodeIntegration: false,
+      transparent: true,
+    }
+  });
+  tabSearchView.webContents.loadURL('hera://tab-search');
+  tabSearchView.setBackgroundColor('#00000000');
+
+  const win: BrowserWindowState = {
+    window,
+    isPrivate,
+    tabOrder: [],
+    activeTabId: null,
+    split: null,
+    isFavoritesBarHidden: true, // A UI começa com a barra de favoritos oculta
+    menuView,
+    isMenuVisible: false,
+    dynamicMenuHeight: 250, // Default or approximated height
+    omniboxView,
+    isOmniboxVisible: false,
+    omniboxAnchor: null,
+    omniboxSuggestions: [],
+    omniboxSelectedIndex: -1,
+    omniboxQuery: '',
+    tabSearchView,
+    isTabSearchVisible: false,
+    tabSearchQuery: '',
+    tabSearchResults: []
+  };
+  browserWindows.push(win);
+  lastFocusedWindow = win;
+
+  // Get menu height after it loads
+  menuView.webContents.on('did-finish-load', async () => {
+    const height = await menuView.webContents.executeJavaScript(
+      'document.getElementById("main-menu").offsetHeight'
+    );
+
+    win.dynamicMenuHeight = height;
+  });
+
+  // DevTools - F12 para abrir/fechar (painel integrado)
+  window.webContents.on('before-input-event', (_event, input) => {
+    if (input.key === 'F12' || (input.key === 'I' && input.control && input.shift)) {
+      if (window.webContents.isDevToolsOpened()) {
+        window.webContents.closeDevTools();
+      } else {
+        window.webContents.openDevTools({ mode: 'bottom' });
+      }
+    }
+  });
+
+  window.on('focus', () => {
+    lastFocusedWindow = win;
+  });
+
+  // Fechar uma entre várias janelas guarda as abas dela entre as fechadas recentemente
+  // Ao fechar a última (ou ao sair), captura rolagem e histórico de todas as abas
+  // enquanto as páginas ainda existem
+  window.on('close', (event) => {
+    if (lastSessionSnapshot) return;
+    if (!isQuitting && browserWindows.length > 1) {
+      if (getSessionWindows().some((other) => other !== win)) {
+        win.tabOrder.forEach((id) => rememberClosedTab(id, tabs.get(id)));
+      } else {
+        // Última janela normal (só restam privadas): as abas dela continuam sendo a sessão salva
+        saveTabsSession();
+      }
+      return;
+    }
+    // Só restam janelas privadas: não há sessão para capturar (a da última janela normal já foi salva)
+    if (getSessionWindows().length === 0) return;
+
+    event.preventDefault();
+    captureTabScrollPositions()
+      .catch((err: unknown) => {
+        console.error('Erro ao capturar rolagem das abas:', err);
+      })
+      .finally(() => {
+        lastSessionSnapshot = buildSessionState();
+        if (isQuitting) {
+          app.quit();
+        } else if (!window.isDestroyed()) {
+          window.close();
+        }
+      });
+  });
+
+  // Janela fechada: libera as abas, o menu, o omnibox e a busca de abas dela
+  window.on('closed', () => {
+    browserWindows.splice(browserWindows.indexOf(win), 1);
+    if (lastFocusedWindow === win) {
+      lastFocusedWindow = browserWindows[browserWindows.length - 1] ?? null;
+    }
+
+    [...win.tabOrder].forEach(destroyTab);
+    [menuView, omniboxView, tabSearchView].forEach((view) => {
+      if (!view.webContents.isDestroyed()) {
+        view.webContents.close();
+      }
+    });
+
+    if (!lastSessionSnapshot) {
+      saveTabsSession();
+    }
+    // A última janela privada leva junto cookies, cache e armazenamento da navegação privada
+    if (isPrivate && !browserWindows.some((other) => other.isPrivate)) {
+      clearPrivateSession();
+    }
+  });
+
+  // Listeners de Janela
+  window.on('enter-full-screen', () => {
+    window.setFullScreen(true);
+    window.webContents.send('set-ui-visibility', false);
+  });
+  window.on('leave-full-screen', () => {
+    window.setFullScreen(false);
+    window.webContents.send('set-ui-visibility', true);
+  });
+  window.on('maximize', () => {
+    window.webContents.send('window:maximized-status', true);
+  });
+  window.on('unmaximize', () => {
+    window.webContents.send('window:maximized-status', false);
+  });
+
+  window.on('resize', () => {
+    resizeActiveTab(win);
+    hideOmnibox(win);
+  });
+
+  return win;
+};
+
+// Nova janela (normal ou privada) com uma nova aba
+const createNewWindow = (isPrivate = false): BrowserWindowState => {
+  const win = createWindow(undefined, isPrivate);
+  createNewTab(win);
+  saveTabsSession();
+  return win;
+};
+
+// --- Navegação Privada ---
+// Regras das janelas privadas:
+// - Abas usam PRIVATE_PARTITION (em memória) e não gravam histórico, sessão nem abas fechadas
+// - Downloads são salvos no disco, mas ficam só na memória (listados apenas nas janelas privadas)
+// - Favoritos criados numa janela privada são salvos normalmente (ação explícita do usuário)
+// Downloads desta sessão privada (somem junto com ela)
+const privateDownloads = new Map<string, {
+  id: string;
+  filename: string;
+  savePath: string;
+  totalBytes: number;
+  receivedBytes: number;
+  state: string;
+  timestamp: number;
+  progress: number;
+}>();
+
+// Apaga tudo o que a navegação privada guardou; a próxima janela privada começa do zero
+const clearPrivateSession = () => {
+  privateDownloads.clear();
+  const privateSession = session.fromPartition(PRIVATE_PARTITION);
+  Promise.all([
+    privateSession.clearStorageData(),
+    privateSession.clearCache(),
+    privateSession.clearAuthCache()
+  ]).then(() => {
+    console.log('[Private] Dados da navegação privada apagados');
+  }).catch((err: unknown) => {
+    console.error('Erro ao apagar dados da navegação privada:', err);
+  });
+};
+// --- Fim da Navegação Privada ---
+
+// --- Contêineres ---
+// Cada contêiner tem sua partition persistente: cookies, cache e armazenamento isolados
+const getContainerPartition = (containerId: string): string => `${CONTAINER_PARTITION_PREFIX}${containerId}`;
+
+// Permissões concedidas aos sites (um contêiner pode ter a sua própria lista)
+const isPermissionAllowed = (permission: string, containerId?: string): boolean => {
+  const permissions = (containerId && getContainer(containerId)?.permissions) || WEB_PERMISSIONS;
+  return permissions.includes(permission);
+};
+
+// Itens de menu para escolher o contêiner ("Sem contêiner" + contêineres cadastrados)
+const buildContainerMenuItems = (
+  onSelect: (containerId: string | null) => void,
+  currentContainerId?: string
+): Electron.MenuItemConstructorOptions[] => [
+  { label: 'Sem contêiner', type: 'checkbox', checked: !currentContainerId, click: () => onSelect(null) },
+  { type: 'separator' },
+  ...getContainers().map((container): Electron.MenuItemConstructorOptions => ({
+    label: `${container.name} (${TAB_GROUP_COLORS[container.color].label})`,
+    type: 'checkbox',
+    checked: container.id === currentContainerId,
+    click: () => onSelect(container.id)
+  }))
+];
+
+// Abre a página da aba em outro contêiner, numa nova aba ao lado (a original continua aberta)
+const reopenTabInContainer = (id: string, containerId: string | null) => {
+  const win = tabWindows.get(id);
+  const info = tabInfo.get(id);
+  if (!win || !info || (info.containerId ?? null) === containerId) return;
+
+  createNewTab(win, info.url, {
+    position: win.tabOrder.indexOf(id) + 1,
+    containerId: containerId ?? undefined
+  });
+};
+
+// Avisa as janelas (cores das abas) e as páginas internas (configurações) que a lista mudou
+const broadcastContainers = () => {
+  const containers = getContainers();
+  sendToAllWindows('containers-changed', containers);
+  tabs.forEach((view, id) => {
+    if (!view.webContents.isDestroyed() && tabInfo.get(id)?.url.startsWith('hera://')) {
+      view.webContents.send('containers-changed', containers);
+    }
+  });
+};
+// --- Fim dos Contêineres ---
+
+// --- Favoritos ---
+// Avisa as janelas (barra de favoritos e estrela) e as páginas internas (hera://bookmarks) que os favoritos mudaram
+const broadcastBookmarks = () => {
+  sendToAllWindows('bookmarks-changed');
+  tabs.forEach((view, id) => {
+    if (!view.webContents.isDestroyed() && tabInfo.get(id)?.url.startsWith('hera://')) {
+      view.webContents.send('bookmarks-changed');
+    }
+  });
+};
+
+// Arquivo HTML de favoritos (formato Netscape, usado por Chrome, Firefox, Edge e Safari)
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+const BOOKMARK_IMPORT_URL_PATTERN = /^(https?|hera|file):\/\/\S+$/i;
+
+const decodeHtmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const parseHtmlAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([a-z_:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+// ADD_DATE vem em segundos, mas alguns exportadores gravam milissegundos ou microssegundos
+const parseBookmarkDate = (value: string | undefined): number | undefined => {
+  let timestamp = parseInt(value ?? '', 10);
+  if (!Number.isFinite(timestamp) || timestamp <= 0) return undefined;
+  while (timestamp > 1e11) timestamp = Math.floor(timestamp / 1000);
+  return timestamp;
+};
+
+const parseBookmarkIcon = (attributes: Record<string, string>): string | undefined => {
+  const icon = attributes.icon;
+  if (icon && icon.length <= BOOKMARK_MAX_ICON_LENGTH && /^data:image\/[a-z0-9.+-]+;base64,/i.test(icon)) {
+    return icon;
+  }
+  const iconUri = attributes.icon_uri;
+  if (iconUri && iconUri.length <= BOOKMARK_MAX_URL_LENGTH && /^https?:\/\//i.test(iconUri)) {
+    return iconUri;
+  }
+  return undefined;
+};
+
+/**
+ * Lê um arquivo de favoritos no formato HTML do Netscape
+ *
+ * Pastas vêm de `<DT><H3>` seguidas de uma `<DL>` e favoritos de `<DT><A HREF>`.
+ * A pasta da barra de favoritos (PERSONAL_TOOLBAR_FOLDER) vira a raiz do Hera.
+ * Entradas com URL não suportada (javascript:, place:...) são contadas em skipped.
+ */
+const parseBookmarksHtml = (html: string): { nodes: BookmarkTreeNode[]; skipped: number } => {
+  const root: BookmarkTreeNode[] = [];
+  // Cada nível guarda onde os itens entram e a profundidade das pastas criadas nele
+  const stack: { children: BookmarkTreeNode[]; depth: number }[] = [{ children: root, depth: 0 }];
+  // Nível da última <H3>, que passa a valer quando a <DL> dela abrir
+  let pendingLevel: { children: BookmarkTreeNode[]; depth: number } | null = null;
+  let skipped = 0;
+
+  const readText = (from: number): string => {
+    const end = html.indexOf('<', from);
+    return decodeHtmlEntities(html.slice(from, end === -1 ? html.length : end)).replace(/\s+/g, ' ').trim();
+  };
+
+  const tagPattern = /<(\/?)(dl|h3|a)\b([^>]*)>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html)) !== null) {
+    const [, closing, rawTag, attributeSource] = match;
+    const tag = rawTag.toLowerCase();
+    const level = stack[stack.length - 1];
+    const current = level.children;
+
+    if (tag === 'dl') {
+      if (closing) {
+        if (stack.length > 1) stack.pop();
+      } else {
+        stack.push(pendingLevel ?? level);
+      }
+      pendingLevel = null;
+    } else if (closing) {
+      continue;
+    } else if (tag === 'h3') {
+      const attributes = parseHtmlAttributes(attributeSource);
+      if (attributes.personal_toolbar_folder === 'true') {
+        pendingLevel = { children: root, depth: 0 };
+        continue;
+      }
+      // Além da profundidade máxima, a pasta não é criada e o conteúdo dela vai para a pasta atual
+      if (level.depth >= BOOKMARK_IMPORT_MAX_DEPTH) {
+        pendingLevel = level;
+        continue;
+      }
+      const folder: BookmarkTreeNode = {
+        type: 'folder',
+        name: (readText(tagPattern.lastIndex) || 'Pasta sem nome').slice(0, BOOKMARK_FOLDER_MAX_NAME_LENGTH),
+        created_at: parseBookmarkDate(attributes.add_date),
+        children: []
+      };
+      current.push(folder);
+      pendingLevel = { children: folder.children, depth: level.depth + 1 };
+    } else {
+      const attributes = parseHtmlAttributes(attributeSource);
+      const url = (attributes.href ?? '').trim();
+      if (!BOOKMARK_IMPORT_URL_PATTERN.test(url) || url.length > BOOKMARK_MAX_URL_LENGTH) {
+        skipped++;
+        continue;
+      }
+      current.push({
+        type: 'bookmark',
+        title: (readText(tagPattern.lastIndex) || url).slice(0, BOOKMARK_MAX_TITLE_LENGTH),
+        url,
+        favicon: parseBookmarkIcon(attributes),
+        created_at: parseBookmarkDate(attributes.add_date)
+      });
+    }
+  }
+
+  return { nodes: root, skipped };
+};
+
+/**
+ * Gera o arquivo HTML de favoritos (formato Netscape) com a árvore inteira
+ *
+ * Tudo o que está na raiz vai para a pasta da barra de favoritos, para que
+ * os outros navegadores (e o próprio Hera) importem de volta no mesmo lugar.
+ */
+const serializeBookmarksHtml = (nodes: BookmarkTreeNode[]): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const lines = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+    `    <DT><H3 ADD_DATE="${now}" LAST_MODIFIED="${now}" PERSONAL_TOOLBAR_FOLDER="true">Barra de favoritos</H3>`,
+    '    <DL><p>'
+  ];
+
+  const write = (children: BookmarkTreeNode[], indent: string) => {
+    children.forEach((node) => {
+      const addDate = node.created_at ? ` ADD_DATE="${node.created_at}"` : '';
+      if (node.type === 'folder') {
+        lines.push(`${indent}<DT><H3${addDate}>${escapeHtml(node.name)}</H3>`, `${indent}<DL><p>`);
+        write(node.children, `${indent}    `);
+        lines.push(`${indent}</DL><p>`);
+      } else {
+        const icon = node.favicon?.startsWith('data:') ? ` ICON="${escapeHtml(node.favicon)}"` : node.favicon ? ` ICON_URI="${escapeHtml(node.favicon)}"` : '';
+        lines.push(`${indent}<DT><A HREF="${escapeHtml(node.url)}"${addDate}${icon}>${escapeHtml(node.title)}</A>`);
+      }
+    });
+  };
+  write(nodes, '        ');
+
+  lines.push('    </DL><p>', '</DL><p>');
+  return `${lines.join('\n')}\n`;
+};
+
+// Filtra as URLs que o Hera não abre e corta títulos e nomes longos (favoritos de outros navegadores)
+const sanitizeBookmarkTree = (nodes: BookmarkTreeNode[]): { nodes: BookmarkTreeNode[]; skipped: number } => {
+  let skipped = 0;
+  const sanitize = (children: BookmarkTreeNode[], depth: number): BookmarkTreeNode[] => {
+    const result: BookmarkTreeNode[] = [];
+    children.forEach((node) => {
+      if (node.type === 'folder') {
+        const sanitized = sanitize(node.children, depth + 1);
+        // Além da profundidade máxima, as subpastas são achatadas na pasta atual
+        if (depth >= BOOKMARK_IMPORT_MAX_DEPTH) {
+          result.push(...sanitized);
+        } else {
+          result.push({ ...node, name: node.name.slice(0, BOOKMARK_FOLDER_MAX_NAME_LENGTH), children: sanitized });
+        }
+      } else if (BOOKMARK_IMPORT_URL_PATTERN.test(node.url) && node.url.length <= BOOKMARK_MAX_URL_LENGTH) {
+        result.push({ ...node, title: node.title.slice(0, BOOKMARK_MAX_TITLE_LENGTH) });
+      } else {
+        skipped++;
+      }
+    });
+    return result;
+  };
+  return { nodes: sanitize(nodes, 0), skipped };
+};
+// --- Fim dos Favoritos ---
+
+// --- Importação de Outros Navegadores ---
+const CHROMIUM_EPOCH_OFFSET_SECONDS = 11644473600;
+// Perfis encontrados no disco ou escolhidos pelo usuário; a página só envia o ID
+const browserProfiles = new Map<string, BrowserProfile>();
+let browserImportRunning = false;
+
+// Pastas de dados (User Data) dos navegadores baseados no Chromium, por sistema
+const getChromiumDataDirs = (): { key: string; browser: string; dir: string }[] => {
+  const appData = app.getPath('appData');
+  const localAppData = process.env.LOCALAPPDATA || path.join(app.getPath('home'), 'AppData', 'Local');
+  const browsers: { key: string; browser: string; win32: string[]; darwin: string[]; linux: string[] }[] = [
+    { key: 'chrome', browser: 'Google Chrome', win32: ['Google', 'Chrome', 'User Data'], darwin: ['Google', 'Chrome'], linux: ['google-chrome'] },
+    { key: 'chromium', browser: 'Chromium', win32: ['Chromium', 'User Data'], darwin: ['Chromium'], linux: ['chromium'] },
+    { key: 'edge', browser: 'Microsoft Edge', win32: ['Microsoft', 'Edge', 'User Data'], darwin: ['Microsoft Edge'], linux: ['microsoft-edge'] },
+    { key: 'brave', browser: 'Brave', win32: ['BraveSoftware', 'Brave-Browser', 'User Data'], darwin: ['BraveSoftware', 'Brave-Browser'], linux: ['BraveSoftware', 'Brave-Browser'] }
+  ];
+  return browsers.map(({ key, browser, ...dirs }) => {
+    if (process.platform === 'win32') return { key, browser, dir: path.join(localAppData, ...dirs.win32) };
+    if (process.platform === 'darwin') return { key, browser, dir: path.join(appData, ...dirs.darwin) };
+    return { key, browser, dir: path.join(appData, ...dirs.linux) };
+  });
+};
+
+const getFirefoxProfileDirs = (): string[] => {
+  const home = app.getPath('home');
+  if (process.platform === 'win32') return [path.join(app.getPath('appData'), 'Mozilla', 'Firefox', 'Profiles')];
+  if (process.platform === 'darwin') return [path.join(app.getPath('appData'), 'Firefox', 'Profiles')];
+  return [path.join(home, '.mozilla', 'firefox'), path.join(home, 'snap', 'firefox', 'common', '.mozilla', 'firefox')];
+};
+
+const fileExists = async (filePath: string): Promise<boolean> => {
+  try {
+    return (await fs.promises.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+};
+
+const listDirectories = async (dir: string): Promise<string[]> => {
+  try {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Identifica um perfil pela pasta: `places.sqlite` é Firefox; `History` ou `Bookmarks` é Chromium
+ */
+const describeProfileDir = async (profilePath: string, browser?: string, name?: string): Promise<BrowserProfile | null> => {
+  if (await fileExists(path.join(profilePath, 'places.sqlite'))) {
+    return {
+      id: `firefox:${profilePath}`,
+      kind: 'firefox',
+      browser: browser || 'Firefox',
+      // Pastas do Firefox se chamam "<aleatório>.<nome do perfil>"
+      name: name || path.basename(profilePath).replace(/^[^.]*\./, ''),
+      path: profilePath,
+      hasHistory: true,
+      hasBookmarks: true
+    };
+  }
+
+  const [hasHistory, hasBookmarks] = await Promise.all([
+    fileExists(path.join(profilePath, 'History')),
+    fileExists(path.join(profilePath, 'Bookmarks'))
+  ]);
+  if (!hasHistory && !hasBookmarks) return null;
+  return {
+    id: `chromium:${profilePath}`,
+    kind: 'chromium',
+    browser: browser || 'Chromium',
+    name: name || path.basename(profilePath),
+    path: profilePath,
+    hasHistory,
+    hasBookmarks
+  };
+};
+
+/**
+ * Procura perfis do Chrome, Chromium, Edge, Brave e Firefox nos locais padrão do sistema
+ */
+const findBrowserProfiles = async (): Promise<BrowserProfile[]> => {
+  const found: BrowserProfile[] = [];
+
+  for (const { browser, dir } of getChromiumDataDirs()) {
+    // O arquivo "Local State" guarda os nomes que o usuário deu aos perfis
+    let names: Record<string, { name?: string }> = {};
+    try {
+      const localState = JSON.parse(await fs.promises.readFile(path.join(dir, 'Local State'), 'utf-8'));
+      names = localState?.profile?.info_cache ?? {};
+    } catch {
+      // Sem "Local State": usa o nome da pasta
+    }
+    for (const entry of await listDirectories(dir)) {
+      if (entry !== 'Default' && !entry.startsWith('Profile ')) continue;
+      const profile = await describeProfileDir(path.join(dir, entry), browser, names[entry]?.name);
+      if (profile) found.push(profile);
+    }
+  }
+
+  for (const dir of getFirefoxProfileDirs()) {
+    for (const entry of await listDirectories(dir)) {
+      const profile = await describeProfileDir(path.join(dir, entry));
+      if (profile?.kind === 'firefox') found.push(profile);
+    }
+  }
+
+  found.forEach((profile) => browserProfiles.set(profile.id, profile));
+  return found;
+};
+
+/**
+ * Copia um banco SQLite de outro navegador (com o journal) para uma pasta temporária
+ *
+ * O navegador em execução trava o arquivo original; a cópia pode ser aberta e apagada à vontade.
+ */
+const copyProfileDatabase = async (filePath: string, tempDir: string): Promise<string> => {
+  const target = path.join(tempDir, path.basename(filePath));
+  await fs.promises.copyFile(filePath, target);
+  for (const suffix of ['-wal', '-journal']) {
+    if (await fileExists(filePath + suffix)) {
+      await fs.promises.copyFile(filePath + suffix, target + suffix);
+    }
+  }
+  return target;
+};
+
+/**
+ * Converte o arquivo `Bookmarks` (JSON) de um perfil do Chromium na árvore de favoritos
+ *
+ * A barra de favoritos vira a raiz do Hera; "Outros favoritos" e os do celular viram pastas.
+ */
+const chromiumBookmarksToTree = (data: unknown): BookmarkTreeNode[] => {
+  type ChromiumNode = { type?: string; name?: string; url?: string; date_added?: string; children?: ChromiumNode[] };
+  const roots = (data as { roots?: Record<string, ChromiumNode> })?.roots;
+  if (!roots || typeof roots !== 'object') {
+    throw new Error('O arquivo de favoritos do perfil está corrompido');
+  }
+
+  // date_added: microssegundos desde 1601
+  const toSeconds = (value?: string): number | undefined => {
+    const microseconds = Number(value);
+    if (!Number.isFinite(microseconds) || microseconds <= 0) return undefined;
+    return Math.floor(microseconds / 1e6 - CHROMIUM_EPOCH_OFFSET_SECONDS);
+  };
+
+  const visited = new Set<ChromiumNode>();
+  const convert = (nodes: ChromiumNode[] | undefined): BookmarkTreeNode[] => {
+    const result: BookmarkTreeNode[] = [];
+    (Array.isArray(nodes) ? nodes : []).forEach((node) => {
+      if (!node || typeof node !== 'object' || visited.has(node)) return;
+      visited.add(node);
+      if (node.type === 'folder') {
+        result.push({ type: 'folder', name: String(node.name ?? '').trim() || 'Pasta sem nome', created_at: toSeconds(node.date_added), children: convert(node.children) });
+      } else if (node.type === 'url' && typeof node.url === 'string') {
+        result.push({ type: 'bookmark', title: String(node.name ?? '').trim() || node.url, url: node.url, created_at: toSeconds(node.date_added) });
+      }
+    });
+    return result;
+  };
+
+  const tree = convert(roots.bookmark_bar?.children);
+  const specialFolders: [string, string][] = [['other', 'Outros favoritos'], ['synced', 'Favoritos do celular']];
+  specialFolders.forEach(([key, name]) => {
+    const children = convert(roots[key]?.children);
+    if (children.length > 0) tree.push({ type: 'folder', name, children });
+  });
+  return tree;
+};
+
+// Cede a vez ao event loop entre os lotes, para a página receber o progresso
+const yieldToEventLoop = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+/**
+ * Importa o histórico e/ou os favoritos de um perfil, avisando o progresso a quem pediu
+ */
+const importBrowserProfile = async (
+  profile: BrowserProfile,
+  options: BrowserImportOptions,
+  reportProgress: (progress: BrowserImportProgress) => void
+): Promise<BrowserImportResult> => {
+  const result: BrowserImportResult = { history: 0, visits: 0, historyDuplicates: 0, bookmarks: null };
+  const tempDir = await fs.promises.mkdtemp(path.join(app.getPath('temp'), 'hera-import-'));
+
+  try {
+    reportProgress({ stage: 'reading', done: 0, total: 0 });
+    let history: ImportedHistoryEntry[] = [];
+    let bookmarks: BookmarkTreeNode[] | null = null;
+
+    if (profile.kind === 'firefox') {
+      const places = readFirefoxPlaces(await copyProfileDatabase(path.join(profile.path, 'places.sqlite'), tempDir));
+      history = places.history;
+      bookmarks = places.bookmarks;
+    } else {
+      if (options.history && profile.hasHistory) {
+        history = readChromiumHistory(await copyProfileDatabase(path.join(profile.path, 'History'), tempDir));
+      }
+      if (options.bookmarks && profile.hasBookmarks) {
+        const bookmarksFile = path.join(profile.path, 'Bookmarks');
+        const { size } = await fs.promises.stat(bookmarksFile);
+        if (size > BOOKMARK_IMPORT_MAX_BYTES) {
+          throw new Error('O arquivo de favoritos do perfil é grande demais');
+        }
+        let data: unknown;
+        try {
+          data = JSON.parse(await fs.promises.readFile(bookmarksFile, 'utf-8'));
+        } catch {
+          throw new Error('O arquivo de favoritos do perfil está corrompido');
+        }
+        bookmarks = chromiumBookmarksToTree(data);
+      }
+    }
+
+    if (options.history) {
+      for (let start = 0; start < history.length; start += BROWSER_IMPORT_CHUNK_SIZE) {
+        reportProgress({ stage: 'history', done: start, total: history.length });
+        await yieldToEventLoop();
+        const chunk = importHistoryEntries(history.slice(start, start + BROWSER_IMPORT_CHUNK_SIZE));
+        result.history += chunk.imported;
+        result.visits += chunk.visits;
+        result.historyDuplicates += chunk.duplicates;
+      }
+      reportProgress({ stage: 'history', done: history.length, total: history.length });
+    }
+
+    if (options.bookmarks && bookmarks) {
+      const sanitized = sanitizeBookmarkTree(bookmarks);
+      reportProgress({ stage: 'bookmarks', done: 0, total: 1 });
+      await yieldToEventLoop();
+      result.bookmarks = { ...importBookmarkTree(sanitized.nodes, uuidv4), skipped: sanitized.skipped };
+      reportProgress({ stage: 'bookmarks', done: 1, total: 1 });
+    }
+
+    console.log(`[Import] ${profile.browser} (${profile.name}): ${result.history} entradas de histórico, ${result.bookmarks?.bookmarks ?? 0} favoritos`);
+    return result;
+  } finally {
+    fs.promises.rm(tempDir, { recursive: true, force: true }).catch((error: unknown) => {
+      console.error('Erro ao apagar cópia temporária do perfil:', error);
+    });
+  }
+};
+// --- Fim da Importação de Outros Navegadores ---
+
+// --- Funções de Histórico ---
+// Agora usando SQLite - funções movidas para database.ts
+
+// --- Busca ---
+const FALLBACK_SEARCH_TEMPLATE = 'https://www.google.com/search?q=%s';
+const URL_LIKE_PATTERN = /^(https?:\/\/|localhost)|^([a-zA-Z0-9-]+\.)+[a-zA-Z]{2,}(\/|:|$)/;
+
+// Substitui %s pelos termos buscados
+const fillSearchTemplate = (template: string, query: string): string =>
+  template.replace(/%s/g, encodeURIComponent(query));
+
+// Interpreta o texto digitado na barra de endereço ou na nova aba:
+// "palavra-chave termos" usa o mecanismo da palavra-chave, URLs são abertas
+// e o resto vai para o mecanismo padrão
+const resolveAddressInput = (input: string): { url: string; query: string; engine: SearchEngine | null } => {
+  const text = input.trim();
+
+  const spaceIndex = text.indexOf(' ');
+  if (spaceIndex > 0) {
+    const query = text.slice(spaceIndex + 1).trim();
+    const engine = query ? getSearchEngineByKeyword(text.slice(0, spaceIndex)) : null;
+    if (engine) {
+      return { url: fillSearchTemplate(engine.url_template, query), query, engine };
+    }
+  } else {
+    try {
+      new URL(text);
+      return { url: text, query: text, engine: null };
+    } catch (_: unknown) {
+      if (URL_LIKE_PATTERN.test(text)) {
+        return { url: `https://${text}`, query: text, engine: null };
+      }
+    }
+  }
+
+  const engine = getDefaultSearchEngine();
+  return { url: fillSearchTemplate(engine?.url_template ?? FALLBACK_SEARCH_TEMPLATE, text), query: text, engine };
+};
+
+// --- Omnibox ---
+// Monta as sugestões: abas abertas (de todas as janelas), favoritos e histórico (por frecency), mais a busca
+const getOmniboxSuggestions = (win: BrowserWindowState, query: string): OmniboxSuggestion[] => {
+  const text = query.trim();
+  if (!text) return [];
+
+  const lowerText = text.toLowerCase();
+  const byUrl = new Map<string, OmniboxSuggestion>();
+
+  // Mantém uma sugestão por URL, com o tipo mais útil e a maior pontuação
+  const typePriority: Record<OmniboxSuggestion['type'], number> = { tab: 3, bookmark: 2, history: 1, search: 0 };
+  const addSuggestion = (suggestion: OmniboxSuggestion) => {
+    const existing = byUrl.get(suggestion.url);
+    if (!existing) {
+      byUrl.set(suggestion.url, suggestion);
+      return;
+    }
+    const preferred = typePriority[suggestion.type] > typePriority[existing.type] ? suggestion : existing;
+    byUrl.set(suggestion.url, {
+      ...preferred,
+      favicon: preferred.favicon || existing.favicon || suggestion.favicon,
+      score: Math.max(existing.score ?? 0, suggestion.score ?? 0)
+    });
+  };
+
+  try {
+    const history = getHistorySuggestions(text, OMNIBOX_MAX_SUGGESTIONS * 2);
+    history.forEach((entry) => addSuggestion({
+      type: 'history',
+      title: entry.title || entry.url,
+      url: entry.url,
+      favicon: entry.favicon,
+      score: entry.frecency
+    }));
+
+    searchBookmarks(text)
+      .filter((bookmark) => bookmark.url)
+      .slice(0, OMNIBOX_MAX_SUGGESTIONS)
+      .forEach((bookmark) => {
+        const visited = byUrl.get(bookmark.url);
+        addSuggestion({
+          type: 'bookmark',
+          title: bookmark.title,
+          url: bookmark.url,
+          favicon: bookmark.favicon,
+          score: (visited?.score ?? 0) + FRECENCY_BOOKMARK_SCORE
+        });
+      });
+  } catch (error: unknown) {
+    console.error('Erro ao buscar sugestões do omnibox:', error);
+  }
+
+  tabInfo.forEach((info, tabId) => {
+    // Abas privadas e normais não aparecem umas para as outras
+    if (tabId === win.activeTabId || info.url.startsWith('hera://') || isPrivateTab(tabId) !== win.isPrivate) return;
+    if (info.url.toLowerCase().includes(lowerText) || info.title.toLowerCase().includes(lowerText)) {
+      const visited = byUrl.get(info.url);
+      addSuggestion({
+        type: 'tab',
+        title: info.title || info.url,
+        url: info.url,
+        favicon: info.favicon,
+        tabId,
+        score: (visited?.score ?? 0) + FRECENCY_BOOKMARK_SCORE
+      });
+    }
+  });
+
+  const ranked = Array.from(byUrl.values())
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+    .slice(0, OMNIBOX_MAX_SUGGESTIONS - 1);
+
+  // Com palavra-chave ("w hera"), a busca no mecanismo escolhido vem primeiro
+  const resolved = resolveAddressInput(text);
+  const keywordEngine = resolved.engine && resolved.query !== text ? resolved.engine : null;
+  const searchEngine = keywordEngine ?? getDefaultSearchEngine();
+  const searchQuery = keywordEngine ? resolved.query : text;
+  const search: OmniboxSuggestion = {
+    type: 'search',
+    title: `Pesquisar "${searchQuery}" no ${searchEngine?.name ?? 'Google'}`,
+    url: fillSearchTemplate(searchEngine?.url_template ?? FALLBACK_SEARCH_TEMPLATE, searchQuery)
+  };
+
+  // Texto com cara de URL: a navegação direta é a ação principal, a busca fica por último
+  const isUrlLike = !keywordEngine && URL_LIKE_PATTERN.test(text);
+  return isUrlLike ? [...ranked, search] : [search, ...ranked];
+};
+
+const hideOmnibox = (win: BrowserWindowState) => {
+  if (!win.isOmniboxVisible) return;
+  win.window.removeBrowserView(win.omniboxView);
+  win.isOmniboxVisible = false;
+  win.omniboxSuggestions = [];
+  win.omniboxSelectedIndex = -1;
+  win.window.webContents.send('omnibox:visibility', false);
+};
+
+const setOmniboxBounds = (win: BrowserWindowState, height: number) => {
+  if (!win.omniboxAnchor) return;
+  win.omniboxView.setBounds({
+    x: Math.round(win.omniboxAnchor.x),
+    y: Math.round(win.omniboxAnchor.y),
+    width: Math.round(win.omniboxAnchor.width),
+    height: Math.min(Math.max(Math.round(height), 0), OMNIBOX_MAX_HEIGHT)
+  });
+};
+
+const showOmnibox = (win: BrowserWindowState) => {
+  if (!win.isOmniboxVisible) {
+    win.window.addBrowserView(win.omniboxView);
+    win.isOmniboxVisible = true;
+    win.window.webContents.send('omnibox:visibility', true);
+  }
+  // Altura estimada até o omnibox informar a altura real renderizada
+  setOmniboxBounds(win, win.omniboxSuggestions.length * 58 + 4);
+  win.window.setTopBrowserView(win.omniboxView);
+};
+
+// Executa a sugestão escolhida (índice -1 não faz nada: o renderer navega com o texto digitado)
+const activateOmniboxSuggestion = (win: BrowserWindowState, index: number) => {
+  const suggestion = win.omniboxSuggestions[index];
+  hideOmnibox(win);
+  if (!suggestion) return;
+
+  // A aba pode estar em outra janela: ela é ativada e a janela dela ganha o foco
+  const tabWindow = suggestion.type === 'tab' && suggestion.tabId ? tabWindows.get(suggestion.tabId) : undefined;
+  if (tabWindow) {
+    switchToTab(suggestion.tabId);
+    tabWindow.window.focus();
+    tabs.get(suggestion.tabId)?.webContents.focus();
+    return;
+  }
+
+  win.window.webContents.send('omnibox:navigate', suggestion.url);
+};
+// --- Fim do Omnibox ---
+
+// --- Busca de Abas ---
+// Busca aproximada: as letras da busca precisam aparecer em ordem no texto
+// Trechos contínuos e começos de palavra valem mais; null = não encontrou
+const fuzzyMatchScore = (query: string, text: string): number | null => {
+  const target = text.toLowerCase();
+  const directIndex = target.indexOf(query);
+  if (directIndex !== -1) {
+    // Trecho exato fica acima de qualquer correspondência espalhada, melhor ainda perto do início
+    return 1000 + query.length * 10 - Math.min(directIndex, 100);
+  }
+
+  let score = 0;
+  let lastIndex = -1;
+  for (const char of query) {
+    const index = target.indexOf(char, lastIndex + 1);
+    if (index === -1) return null;
+    if (index === lastIndex + 1) {
+      score += 5;
+    } else if (index === 0 || /[\s/.:?=&_-]/.test(target[index - 1])) {
+      score += 3;
+    }
+    score += 1;
+    lastIndex = index;
+  }
+  return score;
+};
+
+// Cada palavra da busca precisa aparecer no título ou na URL; o título pesa mais
+const scoreTabSearchMatch = (words: string[], title: string, url: string): number | null => {
+  let total = 0;
+  for (const word of words) {
+    const titleScore = fuzzyMatchScore(word, title);
+    const urlScore = fuzzyMatchScore(word, url);
+    if (titleScore === null && urlScore === null) return null;
+    total += Math.max((titleScore ?? 0) * 2, urlScore ?? 0);
+  }
+  return total;
+};
+
+// Monta os resultados a partir de `tabInfo`: abas da janela atual, das outras janelas e fechadas recentemente
+// Sem texto, a lista segue essa ordem; com texto, as melhores correspondências vêm primeiro
+const getTabSearchResults = (win: BrowserWindowState, query: string): TabSearchResult[] => {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const scored: { result: TabSearchResult; score: number; order: number }[] = [];
+  const addResult = (result: TabSearchResult) => {
+    const order = scored.length;
+    const score = words.length > 0 ? scoreTabSearchMatch(words, result.title, result.url) : 0;
+    if (score !== null) {
+      scored.push({ result, score, order });
+    }
+  };
+
+  // Abas privadas e normais não aparecem umas para as outras
+  const windows = [win, ...browserWindows.filter((other) => other !== win && other.isPrivate === win.isPrivate)];
+  windows.forEach((other) => {
+    const windowNumber = other === win ? undefined : browserWindows.indexOf(other) + 1;
+    other.tabOrder.forEach((tabId) => {
+      const info = tabInfo.get(tabId);
+      if (!info) return;
+      addResult({
+        type: 'open',
+        title: info.title || info.url,
+        url: info.url,
+        favicon: info.favicon,
+        tabId,
+        windowNumber,
+        active: tabId === win.activeTabId
+      });
+    });
+  });
+
+  // Abas fechadas não são guardadas na navegação privada
+  if (!win.isPrivate) {
+    try {
+      getClosedTabs(TAB_SEARCH_CLOSED_LIMIT).forEach((closed) => addResult({
+        type: 'closed',
+        title: closed.title || closed.url,
+        url: closed.url,
+        favicon: closed.favicon,
+        closedTabId: closed.id
+      }));
+    } catch (error: unknown) {
+      console.error('Erro ao buscar abas fechadas para a busca de abas:', error);
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, TAB_SEARCH_MAX_RESULTS)
+    .map(({ result }) => result);
+};
+
+const setTabSearchBounds = (win: BrowserWindowState, height: number) => {
+  const [windowWidth] = win.window.getContentSize();
+  const area = getContentArea(win);
+  const width = Math.max(Math.min(TAB_SEARCH_WIDTH, windowWidth - 20), 0);
+  win.tabSearchView.setBounds({
+    x: Math.round((windowWidth - width) / 2),
+    y: area.y + 8,
+    width,
+    height: Math.min(Math.max(Math.round(height), 0), TAB_SEARCH_MAX_HEIGHT, Math.max(area.height - 16, 0))
+  });
+};
+
+const updateTabSearchResults = (win: BrowserWindowState) => {
+  win.tabSearchResults = getTabSearchResults(win, win.tabSearchQuery);
+  win.tabSearchView.webContents.send('tab-search:results', win.tabSearchResults);
+};
+
+const showTabSearch = (win: BrowserWindowState) => {
+  if (win.isTabSearchVisible) return;
+
+  // Só um overlay por vez
+  hideOmnibox(win);
+  if (win.isMenuVisible) {
+    win.window.removeBrowserView(win.menuView);
+    win.isMenuVisible = false;
+  }
+
+  win.tabSearchQuery = '';
+  win.window.addBrowserView(win.tabSearchView);
+  win.isTabSearchVisible = true;
+  // Altura máxima até a busca informar a altura real renderizada
+  setTabSearchBounds(win, TAB_SEARCH_MAX_HEIGHT);
+  win.window.setTopBrowserView(win.tabSearchView);
+  win.tabSearchView.webContents.send('tab-search:opened');
+  updateTabSearchResults(win);
+  win.tabSearchView.webContents.focus();
+};
+
+const hideTabSearch = (win: BrowserWindowState) => {
+  if (!win.isTabSearchVisible) return;
+  // Fechada pelo teclado (Esc, Ctrl+Shift+A): o foco volta para a página
+  const hadFocus = win.tabSearchView.webContents.isFocused();
+  win.window.removeBrowserView(win.tabSearchView);
+  win.isTabSearchVisible = false;
+  win.tabSearchQuery = '';
+  win.tabSearchResults = [];
+  if (hadFocus && win.activeTabId) {
+    tabs.get(win.activeTabId)?.webContents.focus();
+  }
+};
+
+const toggleTabSearch = (win: BrowserWindowState | undefined) => {
+  if (!win) return;
+  if (win.isTabSearchVisible) {
+    hideTabSearch(win);
+  } else {
+    showTabSearch(win);
+  }
+};
+
+// Alterna para a aba escolhida (em qualquer janela) ou reabre a aba fechada na janela atual
+const activateTabSearchResult = (win: BrowserWindowState, index: number) => {
+  const result = win.tabSearchResults[index];
+  hideTabSearch(win);
+  if (!result) return;
+
+  if (result.type === 'closed') {
+    reopenClosedTab(win, result.closedTabId);
+    return;
+  }
+
+  const tabWindow = tabWindows.get(result.tabId);
+  if (!tabWindow) return;
+  switchToTab(result.tabId);
+  tabWindow.window.focus();
+  tabs.get(result.tabId)?.webContents.focus();
+};
+
+// Fecha várias abas de uma vez pela lista; a busca continua aberta com os resultados atualizados
+const closeTabsFromSearch = (win: BrowserWindowState, ids: string[]) => {
+  ids
+    .filter((id) => tabWindows.has(id) && isPrivateTab(id) === win.isPrivate)
+    .forEach(closeTab);
+
+  if (win.isTabSearchVisible && !win.tabSearchView.webContents.isDestroyed()) {
+    updateTabSearchResults(win);
+  }
+};
+// --- Fim da Busca de Abas ---
+
+// --- O CORAÇÃO DA APLICAÇÃO ---
+app.whenReady().then(async () => {
+  // Inicializar banco de dados SQLite
+  try {
+    initDatabase(); // Agora é síncrono com better-sqlite3
+    console.log('Banco de dados SQLite inicializado');
+  } catch (error: unknown) {
+    console.error('❌ ERRO CRÍTICO ao inicializar banco de dados:', error);
+    if (error instanceof Error) {
+      console.error('Mensagem:', error.message);
+      console.error('Stack:', error.stack);
+    }
+    // Tentar novamente após um delay
+    setTimeout(() => {
+      try {
+        console.log('Tentando inicializar banco novamente...');
+        initDatabase();
+        console.log('✅ Banco inicializado na segunda tentativa');
+      } catch (retryError) {
+        console.error('❌ Falha na segunda tentativa:', retryError);
+      }
+    }, 1000);
+  }
+
+  // Configurar User Agent global para todas as sessões
+  session.defaultSession.setUserAgent(DEFAULT_USER_AGENT);
+
+  // Configurar sessão persistente para sites externos
+  const webSession = session.fromPartition('persist:web-content');
+
+  // Sessão em memória das janelas privadas (nada vai para o disco)
+  const privateSession = session.fromPartition(PRIVATE_PARTITION);
+
+  // Permissões das páginas internas (as sessões dos sites são configuradas em setupWebContentSession)
+  session.defaultSession.setPermissionRequestHandler((_webContents, permission, callback) => {
+    callback(isPermissionAllowed(permission));
+  });
+
+  // --- Gerenciamento de Downloads ---
+  // Eventos de download vão para a UI das janelas e para as abas (ex: hera://downloads)
+  // Downloads privados só aparecem nas janelas privadas, e os normais só nas normais
+  const sendDownloadEvent = (channel: string, payload: object, isPrivate: boolean) => {
+    browserWindows.forEach((win) => {
+      if (win.isPrivate !== isPrivate || win.window.isDestroyed()) return;
+      win.window.webContents.send(channel, payload);
+      win.tabOrder.forEach((tabId) => {
+        const view = tabs.get(tabId);
+        if (view && !view.webContents.isDestroyed()) {
+          view.webContents.send(channel, payload);
+        }
+      });
+    });
+  };
+
+  const handleDownload = (item: Electron.DownloadItem, isPrivate: boolean) => {
+    const id = uuidv4(); // ✅ Gerar ID único para o download
+    const filename = item.getFilename();
+    const totalBytes = item.getTotalBytes();
+    const savePath = item.getSavePath();
+    
+    console.log('[Download] Iniciando download:', filename, 'ID:', id);
+    
+    // ✅ Salvar no banco de dados (downloads privados ficam só na memória)
+    if (isPrivate) {
+      privateDownloads.set(id, {
+        id,
+        filename,
+        savePath,
+        totalBytes,
+        receivedBytes: 0,
+        state: 'progressing',
+        timestamp: Date.now(),
+        progress: 0
+      });
+    } else {
+      try {
+        addDownload(id, filename, savePath, totalBytes);
+      } catch (error) {
+        console.error('[Download] Falha ao salvar no DB:', error);
+      }
+    }
+    
+    // Enviar evento de download iniciado
+    sendDownloadEvent('download-started', {
+      id,
+      filename,
+      savePath,
+      totalBytes
+    }, isPrivate);
+
+    // Atualizar progresso
+    item.on('updated', (_event, state) => {
+      if (state === 'progressing') {
+        const receivedBytes = item.getReceivedBytes();
+        
+        // ✅ Atualizar no banco de dados
+        const privateDownload = privateDownloads.get(id);
+        if (privateDownload) {
+          privateDownload.receivedBytes = receivedBytes;
+          privateDownload.progress = privateDownload.totalBytes > 0
+            ? Math.round((receivedBytes / privateDownload.totalBytes) * 100)
+            : 0;
+        } else if (!isPrivate) {
+          try {
+            updateDownloadProgress(id, receivedBytes);
+          } catch (error) {
+            console.error('[Download] Falha ao atualizar progresso no DB:', error);
+          }
+        }
+        
+        sendDownloadEvent('download-progress', {
+          id,
+          savePath: item.getSavePath(),
+          receivedBytes,
+          totalBytes: item.getTotalBytes()
+        }, isPrivate);
+      }
+    });
+
+    // Download concluído
+    item.once('done', (_event, state) => {
+      const finalPath = item.getSavePath();
+      const finalState = state === 'completed' ? 'completed' : 'failed';
+      
+      console.log('[Download] Concluído:', filename, 'Estado:', finalState, 'ID:', id);
+      
+      // ✅ Atualizar estado final no banco de dados
+      const privateDownload = privateDownloads.get(id);
+      if (privateDownload) {
+        privateDownload.state = finalState;
+        privateDownload.savePath = finalPath;
+        if (finalState === 'completed') {
+          privateDownload.receivedBytes = privateDownload.totalBytes;
+          privateDownload.progress = 100;
+        }
+      } else if (!isPrivate) {
+        try {
+          updateDownloadState(id, finalState, finalPath);
+        } catch (error) {
+          console.error('[Download] Falha ao finalizar no DB:', error);
+        }
+      }
+      
+      sendDownloadEvent('download-complete', {
+        id,
+        savePath: finalPath,
+        state: finalState
+      }, isPrivate);
+    });
+  };
+
+  // Download event listeners - Registra em TODAS as sessões
+  // defaultSession: para downloads de páginas internas (hera://)
+  // As sessões dos sites registram o seu em setupWebContentSession
+  session.defaultSession.on('will-download', (_event, item) => handleDownload(item, false));
+
+  // --- Handler do Protocolo (MUDANÇA v2.2) ---
+  const getMimeType = (filePath: string) => {
+    const ext = path.extname(filePath).toLowerCase();
+    if (ext === '.css') return 'text/css';
+    if (ext === '.js') return 'text/javascript';
+    if (ext === '.png') return 'image/png';
+    if (ext === '.jpg' || ext === '.jpeg') return 'image/jpeg';
+    if (ext === '.svg') return 'image/svg+xml';
+    if (ext === '.woff2') return 'font/woff2';
+    return 'text/html';
+  };
+
+  const handleHeraRequest: Parameters<typeof protocol.handle>[1] = (request) => {
+    try {
+      const url = new URL(request.url);
+      const host = url.hostname;
+      const pathname = url.pathname;
+      // Quando empacotado, os arquivos estão em .webpack/main dentro do asar
+      // Quando em desenvolvimento, estão em src
+      const appPath = app.isPackaged 
+        ? path.join(app.getAppPath(), '.webpack', 'main')
+        : path.join(app.getAppPath(), 'src');
+
+      if (host === 'navigate-from-newtab') {
+        const targetUrl = url.searchParams.get('url');
+        // A nova aba em que o usuário digitou é a aba ativa da janela em foco
+        const activeTabId = lastFocusedWindow?.activeTabId;
+        if (activeTabId && targetUrl) {
+          const activeView = tabs.get(activeTabId);
+          if (activeView) {
+            // URL direta, palavra-chave ou busca no mecanismo padrão
+            const { url: finalUrl } = resolveAddressInput(targetUrl);
+            pendingTransitions.set(activeTabId, { transition: 'typed' });
+            activeView.webContents.loadURL(finalUrl).catch((err: unknown) => {
+              console.error('Erro ao processar navegação:', err);
+            });
+          }
+        }
+        return new Response(null, { status: 204 });
+      }
+
+      // Rota para servir arquivos
+      let filePath = '';
+      if (host === 'new-tab') {
+        if (pathname === '/' || pathname === '') {
+          filePath = path.join(appPath, 'new-tab.html');
+        } else {
+          filePath = path.join(appPath, pathname);
+        }
+      }
+      // --- MUDANÇA v2.2: Adiciona a rota de settings --- 
+      else if (host === 'settings') {
+        if (pathname === '/' || pathname === '') {
+          filePath = path.join(appPath, 'settings.html');
+        } else {
+          // Para o settings.css, hera_logo.png, etc.
+          filePath = path.join(appPath, pathname);
+        }
+      } else if (host === 'menu') {
+        if (pathname === '/' || pathname === '') {
+          filePath = path.join(appPath, 'menu.html');
+        } else {
+          filePath = path.join(appPath, pathname);
+        }
+      } else if (host === 'history') {
+        if (pathname === '/' || pathname === '') {
+          filePath = path.join(appPath, 'history.html');
+        } else {
+          filePath = path.join(appPath, pathname);
+        }
+      } else if (host === 'downloads') {
+        if (pathname === '/' || pathname === '') {
+          filePath = path.join(appPath, 'downloads.html');
+        } else {
+          filePath = path.join(appPath, pathname);
+        }
+      } else if (host === 'omnibox') {
+        if (pathname === '/' || pathname === '') {
+          filePath = path.join(appPath, 'omnibox.html');
+        } else {
+          filePath = path.join(appPath, pathname);
+        }
+      } else if (host === 'sessions') {
+        if (pathname === '/' || pathname === '') {
+          filePath = path.join(appPath, 'sessions.html');
+        } else {
+          filePath = path.join(appPath, pathname);
+        }
+      } else if (host === 'tab-search') {
+        if (pathname === '/' || pathname === '') {
+          filePath = path.join(appPath, 'tab-search.html');
+        } else {
+          filePath = path.join(appPath, pathname);
+        }
+      } else if (host === 'bookmarks') {
+        if (pathname === '/' || pathname === '') {
+          filePath = path.join(appPath, 'bookmarks.html');
+        } else {
+          filePath = path.join(appPath, pathname);
+        }
+      }
+      // --- FIM DA MUDANÇA ---
+      // Caso especial para arquivos de imagem e outros recursos na raiz
+      else if (host.endsWith('.png') || host.endsWith('.jpg') || host.endsWith('.svg') || host.endsWith('.ico')) {
+        filePath = path.join(appPath, host);
+      }
+      else {
+        filePath = path.join(appPath, host, pathname);
+      }
+      filePath = path.normalize(filePath);
+      
+      console.log(`[Protocol Handler] Tentando carregar: ${filePath}`);
+      console.log(`[Protocol Handler] appPath: ${appPath}`);
+      console.log(`[Protocol Handler] host: ${host}`);
+      console.log(`[Protocol Handler] pathname: ${pathname}`);
+      
+      if (!filePath.startsWith(appPath)) {
+        console.error(`[Protocol Handler] Access Denied: ${filePath} não começa com ${appPath}`);
+        return new Response('Access Denied', { status: 403 });
+      }
+
+      // Tenta encontrar o arquivo (case-insensitive se não existir)
+      let finalFilePath = filePath;
+      if (!fs.existsSync(filePath)) {
+        // Tenta buscar o arquivo com case-insensitive
+        const dir = path.dirname(filePath);
+        const fileName = path.basename(filePath);
+        
+        if (fs.existsSync(dir)) {
+          const files = fs.readdirSync(dir);
+          const foundFile = files.find(f => f.toLowerCase() === fileName.toLowerCase());
+          if (foundFile) {
+            finalFilePath = path.join(dir, foundFile);
+            console.log(`[Protocol Handler] Arquivo encontrado com case-insensitive: ${finalFilePath}`);
+          }
+        }
+      }
+
+      if (fs.existsSync(finalFilePath)) {
+        console.log(`[Protocol Handler] Arquivo encontrado: ${finalFilePath}`);
+        const fileContent = fs.readFileSync(finalFilePath);
+        const mimeType = getMimeType(finalFilePath);
+        return new Response(fileContent, {
+          status: 200,
+          headers: { 'Content-Type': mimeType }
+        });
+      } else {
+        console.error(`[Protocol Handler] File not found: ${filePath}`);
+        return new Response('Not Found', { status: 404 });
+      }
+
+    } catch (error: unknown) {
+      console.error(`Falha ao lidar com o protocolo hera: ${error}`);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  };
+
+  protocol.handle('hera', handleHeraRequest);
+  // --- FIM ---
+
+  // --- Sessões dos Sites ---
+  // Configura uma sessão de abas (compartilhada, privada ou de contêiner): user agent,
+  // permissões, transição de formulários, downloads e páginas internas
+  // (abas privadas e de contêiner carregam hera:// na própria sessão; a compartilhada, só a aba travada)
+  const setupWebContentSession = (webContentSession: Electron.Session, options: { isPrivate?: boolean; container?: Container } = {}) => {
+    const containerId = options.container?.id;
+    webContentSession.setUserAgent(options.container?.user_agent || DEFAULT_USER_AGENT);
+    webContentSession.setPermissionRequestHandler((_webContents, permission, callback) => {
+      callback(isPermissionAllowed(permission, containerId));
+    });
+
+    // Navegações por POST no frame principal são envios de formulário
+    webContentSession.webRequest.onBeforeRequest({ urls: ['http://*/*', 'https://*/*'] }, (details, callback) => {
+      if (details.resourceType === 'mainFrame' && details.method === 'POST') {
+        for (const [tabId, view] of tabs) {
+          if (view.webContents.id === details.webContentsId) {
+            pendingTransitions.set(tabId, { transition: 'form_submit' });
+            break;
+          }
+        }
+      }
+      callback({});
+    });
+
+    webContentSession.on('will-download', (_event, item) => handleDownload(item, options.isPrivate ?? false));
+
+    if (options.isPrivate || containerId) {
+      webContentSession.protocol.handle('hera', handleHeraRequest);
+    }
+  };
+
+  setupWebContentSession(webSession);
+  setupWebContentSession(privateSession, { isPrivate: true });
+  getContainers().forEach((container) => {
+    setupWebContentSession(session.fromPartition(getContainerPartition(container.id)), { container });
+  });
+  // --- Fim das Sessões dos Sites ---
+
+  // --- Handlers de IPC (MUDANÇA v2.2) ---
+  // Agora 'createNewTab' recebe a URL (que pode ser undefined)
+  // Cada handler age na janela de onde veio a mensagem
+  ipcMain.handle('tab:new', (event, url?: string) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win) return;
+    // Validate input parameter
+    if (url !== undefined && typeof url !== 'string') {
+      console.error('URL inválida fornecida para tab:new');
+      return createNewTab(win);
+    }
+    return createNewTab(win, url);
+  });
+
+  ipcMain.handle('tab:switch', (_e, id: string) => {
+    // ✅ Validação robusta
+    if (!isValidTabId(id)) {
+      console.error('tab:switch foi chamado com ID inválido:', id);
+      return;
+    }
+    return switchToTab(id);
+  });
+
+  ipcMain.handle('tab:close', (_e, id: string) => {
+    // ✅ Validação robusta
+    if (!isValidTabId(id)) {
+      console.error('tab:close foi chamado com ID inválido:', id);
+      return;
+    }
+    return closeTab(id);
+  });
+
+  ipcMain.handle('tab:move', (_e, id: string, index: number) => {
+    // ✅ Validação robusta
+    if (!isValidTabId(id)) {
+      console.error('tab:move foi chamado com ID inválido:', id);
+      return;
+    }
+    if (!Number.isInteger(index) || index < 0) {
+      console.error('tab:move foi chamado com posição inválida:', index);
+      return;
+    }
+    return reorderTab(id, index);
+  });
+
+  ipcMain.handle('tab:pin', (_e, id: string) => {
+    // ✅ Validação robusta
+    if (!isValidTabId(id)) {
+      console.error('tab:pin foi chamado com ID inválido:', id);
+      return;
+    }
+    return setTabPinned(id, true);
+  });
+
+  ipcMain.handle('tab:unpin', (_e, id: string) => {
+    // ✅ Validação robusta
+    if (!isValidTabId(id)) {
+      console.error('tab:unpin foi chamado com ID inválido:', id);
+      return;
+    }
+    return setTabPinned(id, false);
+  });
+
+  ipcMain.handle('tab:close-others', (_e, id: string) => {
+    // ✅ Validação robusta
+    if (!isValidTabId(id)) {
+      console.error('tab:close-others foi chamado com ID inválido:', id);
+      return;
+    }
+    return closeOtherTabs(id);
+  });
+
+  // Traz uma aba de outra janela para esta (arrastada para a barra de abas)
+  ipcMain.handle('tab:move-to-window', (event, id: string, index: number) => {
+    // ✅ Validação robusta
+    if (!isValidTabId(id)) {
+      console.error('tab:move-to-window foi chamado com ID inválido:', id);
+      return;
+    }
+    if (!Number.isInteger(index) || index < 0) {
+      console.error('tab:move-to-window foi chamado com posição inválida:', index);
+      return;
+    }
+    const win = getWindowFromSender(event.sender);
+    if (!win) return;
+    return moveTabToWindow(id, win, index);
+  });
+
+  ipcMain.handle('tab:move-to-new-window', (_e, id: string, position?: { x: number; y: number }) => {
+    // ✅ Validação robusta
+    if (!isValidTabId(id)) {
+      console.error('tab:move-to-new-window foi chamado com ID inválido:', id);
+      return;
+    }
+    if (position !== undefined && (typeof position !== 'object' || position === null ||
+      ![position.x, position.y].every((n) => typeof n === 'number' && Number.isFinite(n)))) {
+      console.error('tab:move-to-new-window foi chamado com posição inválida:', position);
+      return;
+    }
+    return moveTabToNewWindow(id, position);
+  });
+
+  ipcMain.handle('window:new', () => {
+    createNewWindow();
+  });
+
+  ipcMain.handle('window:new-private', () => {
+    createNewWindow(true);
+  });
+
+  ipcMain.handle('window:is-private', (event): boolean => getWindowFromSender(event.sender)?.isPrivate ?? false);
+
+  // Tab group handlers
+  ipcMain.handle('tab-groups:get', (): TabGroup[] => buildTabGroupsState());
+
+  ipcMain.handle('tab-groups:create', (_e, tabIds: string[], input?: TabGroupInput): string | null => {
+    // ✅ Validação robusta
+    if (!Array.isArray(tabIds) || tabIds.length === 0 || !tabIds.every(isValidTabId)) {
+      throw new Error('IDs de abas inválidos');
+    }
+    if (input !== undefined && !isValidTabGroupInput(input)) {
+      throw new Error('Dados do grupo inválidos');
+    }
+
+    return createTabGroup(tabIds, input);
+  });
+
+  ipcMain.handle('tab-groups:update', (_e, groupId: string, changes: TabGroupInput): boolean => {
+    // ✅ Validação robusta
+    if (!isValidTabId(groupId)) {
+      throw new Error('ID de grupo inválido');
+    }
+    if (!isValidTabGroupInput(changes)) {
+      throw new Error('Dados do grupo inválidos');
+    }
+
+    return updateTabGroup(groupId, changes);
+  });
+
+  ipcMain.handle('tab-groups:ungroup', (_e, groupId: string) => {
+    // ✅ Validação robusta
+    if (!isValidTabId(groupId)) {
+      throw new Error('ID de grupo inválido');
+    }
+
+    return ungroupTabs(groupId);
+  });
+
+  ipcMain.handle('tab-groups:move-tab', (_e, tabId: string, groupId: string | null) => {
+    // ✅ Validação robusta
+    if (!isValidTabId(tabId) || (groupId !== null && !isValidTabId(groupId))) {
+      throw new Error('ID de aba ou de grupo inválido');
+    }
+
+    return setTabGroup(tabId, groupId);
+  });
+
+  // Menu de contexto da aba (botão direito na barra de abas)
+  ipcMain.on('tab:context-menu', (_e, id: string) => {
+    // ✅ Validação robusta
+    const win = isValidTabId(id) ? tabWindows.get(id) : undefined;
+    if (!win || !tabInfo.has(id)) {
+      console.error('tab:context-menu foi chamado com ID inválido:', id);
+      return;
+    }
+
+    const pinned = tabInfo.get(id)?.pinned ?? false;
+    const groupId = tabInfo.get(id)?.groupId;
+    const hasOtherTabs = win.tabOrder.some((otherId) => otherId !== id && !tabInfo.get(otherId)?.pinned);
+    // Só os grupos desta janela (grupos não atravessam janelas)
+    const otherGroups = buildTabGroupsState()
+      .filter((group) => group.id !== groupId && win.tabOrder.some((tabId) => tabInfo.get(tabId)?.groupId === group.id));
+    // Abas só passam para janelas do mesmo tipo (privada ou normal)
+    const otherWindows = browserWindows.filter((other) => other !== win && other.isPrivate === win.isPrivate);
+    const containerId = tabInfo.get(id)?.containerId;
+    Menu.buildFromTemplate([
+      { label: 'Nova aba', click: () => createNewTab(win) },
+      {
+        label: 'Reabrir aba em contêiner',
+        visible: !win.isPrivate,
+        submenu: buildContainerMenuItems((targetId) => reopenTabInContainer(id, targetId), containerId)
+      },
+      { type: 'separator' },
+      {
+        label: 'Adicionar aba a um novo grupo',
+        click: () => {
+          // Como no Chrome, o novo grupo já abre com o nome em edição
+          const newGroupId = createTabGroup([id]);
+          if (newGroupId) win.window.webContents.send('tab-groups:start-rename', newGroupId);
+        }
+      },
+      {
+        label: 'Adicionar aba ao grupo',
+        visible: otherGroups.length > 0,
+        submenu: otherGroups.map((group) => ({
+          label: group.name || TAB_GROUP_COLORS[group.color].label,
+          click: () => setTabGroup(id, group.id)
+        }))
+      },
+      { label: 'Remover do grupo', visible: groupId !== undefined, click: () => setTabGroup(id, null) },
+      { type: 'separator' },
+      ...buildSplitViewMenuItems(id),
+      { type: 'separator' },
+      { label: 'Mover aba para nova janela', enabled: win.tabOrder.length > 1, click: () => moveTabToNewWindow(id) },
+      {
+        label: 'Mover aba para outra janela',
+        visible: otherWindows.length > 0,
+        submenu: otherWindows.map((other, index) => ({
+          label: tabInfo.get(other.activeTabId)?.title || `Janela ${index + 1}`,
+          click: () => moveTabToWindow(id, other)
+        }))
+      },
+      { type: 'separator' },
+      { label: pinned ? 'Desafixar aba' : 'Fixar aba', click: () => setTabPinned(id, !pinned) },
+      {
+        label: getTabLayout().mode === 'vertical' ? 'Mostrar abas no topo' : 'Mostrar abas na lateral',
+        click: () => {
+          setSetting('tabLayout', getTabLayout().mode === 'vertical' ? 'horizontal' : 'vertical');
+          applyTabLayout();
+        }
+      },
+      { type: 'separator' },
+      { label: 'Fechar aba', accelerator: 'CmdOrCtrl+W', click: () => closeTab(id) },
+      { label: 'Fechar outras abas', enabled: hasOtherTabs, click: () => closeOtherTabs(id) },
+      { label: 'Reabrir aba fechada', accelerator: 'CmdOrCtrl+Shift+T', click: () => reopenClosedTab(win) }
+    ]).popup({ window: win.window });
+  });
+
+  // Menu de contexto do rótulo de um grupo (cor, desagrupar, fechar)
+  ipcMain.on('tab-groups:context-menu', (_e, groupId: string) => {
+    // ✅ Validação robusta
+    const group = isValidTabId(groupId) ? tabGroups.get(groupId) : undefined;
+    const win = group ? tabWindows.get(getGroupTabIds(groupId)[0]) : undefined;
+    if (!group || !win) {
+      console.error('tab-groups:context-menu foi chamado com ID inválido:', groupId);
+      return;
+    }
+
+    Menu.buildFromTemplate([
+      { label: 'Renomear grupo', click: () => win.window.webContents.send('tab-groups:start-rename', groupId) },
+      { type: 'separator' },
+      ...(Object.keys(TAB_GROUP_COLORS) as TabGroupColor[]).map((color) => ({
+        label: TAB_GROUP_COLORS[color].label,
+        type: 'radio' as const,
+        checked: group.color === color,
+        click: () => updateTabGroup(groupId, { color })
+      })),
+      { type: 'separator' },
+      {
+        label: 'Nova aba no grupo',
+        click: () => {
+          const lastGroupTabId = getGroupTabIds(groupId).pop();
+          createNewTab(win, undefined, { groupId, position: lastGroupTabId ? win.tabOrder.indexOf(lastGroupTabId) + 1 : undefined });
+          saveTabsSession();
+        }
+      },
+      { label: 'Desagrupar', click: () => ungroupTabs(groupId) },
+      { label: 'Fechar grupo', click: () => getGroupTabIds(groupId).forEach((id) => closeTab(id)) }
+    ]).popup({ window: win.window });
+  });
+
+  // Disposição das abas (topo ou barra lateral), lida pela UI ao abrir a janela
+  ipcMain.handle('tab-layout:get', (): TabLayout => getTabLayout());
+
+  // Esconde as páginas enquanto a UI precisa do mouse sobre elas (ex: arraste da borda da barra lateral)
+  ipcMain.on('ui:hide-content', (event) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win) return;
+    getVisibleTabIds(win).forEach((id) => {
+      const view = tabs.get(id);
+      if (view) win.window.removeBrowserView(view);
+    });
+  });
+
+  ipcMain.on('ui:show-content', (event) => {
+    const win = getWindowFromSender(event.sender);
+    if (win) attachVisibleTabs(win);
+  });
+
+  // Tela dividida: com `tabId`, divide a tela entre a aba ativa e ela; sem, com uma nova aba
+  ipcMain.handle('split-view:open', (event, tabId?: string) => {
+    // ✅ Validação robusta
+    if (tabId !== undefined && !isValidTabId(tabId)) {
+      throw new Error('ID de aba inválido');
+    }
+
+    const win = getWindowFromSender(event.sender);
+    if (!win || (tabId !== undefined && tabWindows.get(tabId) !== win)) return;
+    openSplitView(win, tabId);
+  });
+
+  ipcMain.handle('split-view:close', (event) => {
+    const win = getWindowFromSender(event.sender);
+    if (win) closeSplitView(win);
+  });
+
+  ipcMain.handle('split-view:update', (event, changes: unknown) => {
+    // ✅ Validação robusta
+    if (!isValidSplitViewChanges(changes)) {
+      throw new Error('Alterações da tela dividida inválidas');
+    }
+
+    const win = getWindowFromSender(event.sender);
+    if (win) updateSplitView(win, changes);
+  });
+
+  // Início do arraste da divisória: as abas saem da janela para a UI receber o mouse
+  // (o arraste termina com split-view:update, que recoloca as abas)
+  ipcMain.on('split-view:start-resize', (event) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win?.split || getVisibleTabIds(win).length < 2) return;
+
+    win.split.tabIds.forEach((id) => {
+      const view = tabs.get(id);
+      if (view) win.window.removeBrowserView(view);
+    });
+  });
+
+  // Menu de contexto da divisória (mesmos itens do menu da aba ativa)
+  ipcMain.on('split-view:context-menu', (event) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win?.split || !win.activeTabId) return;
+    Menu.buildFromTemplate(buildSplitViewMenuItems(win.activeTabId)).popup({ window: win.window });
+  });
+
+  ipcMain.handle('nav:back', (event) => {
+    const activeView = tabs.get(getWindowFromSender(event.sender)?.activeTabId);
+    if (activeView && activeView.webContents.navigationHistory.canGoBack()) {
+      activeView.webContents.goBack();
+    }
+  });
+  ipcMain.handle('nav:forward', (event) => {
+    const activeView = tabs.get(getWindowFromSender(event.sender)?.activeTabId);
+    if (activeView && activeView.webContents.navigationHistory.canGoForward()) {
+      activeView.webContents.goForward();
+    }
+  });
+  ipcMain.handle('nav:reload', (event) => {
+    const activeTabId = getWindowFromSender(event.sender)?.activeTabId;
+    const activeView = tabs.get(activeTabId);
+    if (activeView) {
+      pendingTransitions.set(activeTabId, { transition: 'reload' });
+      activeView.webContents.reload();
+    }
+  });
+  ipcMain.handle('nav:to', async (event, url: string) => {
+    if (typeof url !== 'string' || !url.trim()) {
+      console.error('URL inválida fornecida para nav:to');
+      return;
+    }
+
+    const activeTabId = getWindowFromSender(event.sender)?.activeTabId;
+    const tab = tabs.get(activeTabId);
+    if (!tab) {
+      console.error('Aba ativa não encontrada');
+      return;
+    }
+
+    try {
+      pendingTransitions.set(activeTabId, { transition: 'typed' });
+      await tab.webContents.loadURL(url);
+    } catch (error: unknown) {
+      // ERR_ABORTED (-3) é comum quando o usuário navega rapidamente
+      // Não é um erro crítico, apenas log para debug
+      if (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === 'ERR_ABORTED') {
+        console.log('Navegação cancelada (usuário navegou para outra página)');
+      } else {
+        console.error('Erro ao navegar:', error);
+        throw error;
+      }
+    }
+  });
+
+  ipcMain.handle('nav:get-state', (event) => {
+    const activeTabId = getWindowFromSender(event.sender)?.activeTabId;
+    if (!activeTabId || !tabs.has(activeTabId)) {
+      return { canGoBack: false, canGoForward: false };
+    }
+    const view = tabs.get(activeTabId);
+    return {
+      canGoBack: view.webContents.navigationHistory.canGoBack(),
+      canGoForward: view.webContents.navigationHistory.canGoForward()
+    };
+  });
+
+  // Find in page handlers
+  ipcMain.on('find:start', (event, args: { text: string }) => {
+    const activeTabId = getWindowFromSender(event.sender)?.activeTabId;
+    if (!activeTabId || !tabs.has(activeTabId)) {
+      console.error('Nenhuma aba ativa para busca');
+      return;
+    }
+
+    const view = tabs.get(activeTabId);
+    if (!view) return;
+
+    // Valida input
+    if (typeof args.text !== 'string' || args.text.trim().length === 0) {
+      console.error('Texto de busca inválido');
+      return;
+    }
+
+    // Inicia busca
+    view.webContents.findInPage(args.text, {
+      findNext: false,
+      forward: true
+    });
+  });
+
+  ipcMain.on('find:next', (event, args: { text: string; forward: boolean }) => {
+    const activeTabId = getWindowFromSender(event.sender)?.activeTabId;
+    if (!activeTabId || !tabs.has(activeTabId)) {
+      console.error('Nenhuma aba ativa para navegação');
+      return;
+    }
+
+    const view = tabs.get(activeTabId);
+    if (!view) return;
+
+    // Valida input
+    if (typeof args.text !== 'string' || args.text.trim().length === 0) {
+      console.error('Texto de busca inválido');
+      return;
+    }
+
+    if (typeof args.forward !== 'boolean') {
+      console.error('Direção de navegação inválida');
+      return;
+    }
+
+    // Navega para próximo/anterior
+    view.webContents.findInPage(args.text, {
+      findNext: true,
+      forward: args.forward
+    });
+  });
+
+  ipcMain.on('find:stop', (event) => {
+    const activeTabId = getWindowFromSender(event.sender)?.activeTabId;
+    if (!activeTabId || !tabs.has(activeTabId)) {
+      return;
+    }
+
+    const view = tabs.get(activeTabId);
+    if (!view) return;
+
+    // Para busca e limpa seleção
+    view.webContents.stopFindInPage('clearSelection');
+  });
+
+  // Omnibox: o renderer envia o texto digitado e a posição da barra de endereços
+  ipcMain.on('omnibox:show', (event, query: string, anchor: OmniboxAnchor) => {
+    if (typeof query !== 'string' || query.length > OMNIBOX_MAX_QUERY_LENGTH) {
+      console.error('Texto inválido fornecido para omnibox:show');
+      return;
+    }
+    if (!anchor || ![anchor.x, anchor.y, anchor.width].every((n) => typeof n === 'number' && Number.isFinite(n))) {
+      console.error('Posição inválida fornecida para omnibox:show');
+      return;
+    }
+    const win = getWindowFromSender(event.sender);
+    if (!win) return;
+
+    win.omniboxQuery = query;
+    win.omniboxAnchor = anchor;
+    win.omniboxSuggestions = getOmniboxSuggestions(win, query);
+    win.omniboxSelectedIndex = -1;
+
+    if (win.omniboxSuggestions.length === 0) {
+      hideOmnibox(win);
+      return;
+    }
+
+    win.omniboxView.webContents.send('omnibox:update-suggestions', win.omniboxSuggestions);
+    showOmnibox(win);
+  });
+
+  ipcMain.on('omnibox:hide', (event) => {
+    const win = getWindowFromSender(event.sender);
+    // O clique em uma sugestão tira o foco da barra de endereços; nesse caso o omnibox continua aberto
+    if (!win || win.omniboxView.webContents.isFocused()) return;
+    hideOmnibox(win);
+  });
+
+  // Altura real da lista, informada pelo omnibox após renderizar
+  ipcMain.on('omnibox:resize', (event, height: number) => {
+    const win = getWindowFromSender(event.sender);
+    if (win?.isOmniboxVisible && typeof height === 'number' && Number.isFinite(height)) {
+      setOmniboxBounds(win, height);
+    }
+  });
 
-  // Configurar sessão persistente para sites externos
-  const webSession = session.fromPartition('persist:web-content');
-  webSession.setUserAgent(DEFAULT_USER_AGENT);
-
-  // Configurar permissões para ambas as sessões
-  const allowedPermissions = [
-    'media',
-    'mediaKeySystem',
-    'geolocation',
-    'notifications',
-    'midi',
-    'midiSysex',
-    'pointerLock',
-    'fullscreen',
-    'openExternal',
-    'clipboard-read',
-    'clipboard-sanitized-write'
-  ];
+  ipcMain.on('omnibox:select', (event, index: number) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win || !Number.isInteger(index)) return;
+    activateOmniboxSuggestion(win, index);
+  });
 
-  session.defaultSession.setPermissionRequestHandler((_webContents, permission, callback) => {
-    callback(allowedPermissions.includes(permission));
+  // Setas do teclado: move a seleção (-1 volta para o texto digitado)
+  ipcMain.on('omnibox:update-selection', (event, delta: number) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win || !win.isOmniboxVisible || win.omniboxSuggestions.length === 0 || (delta !== 1 && delta !== -1)) return;
+
+    const total = win.omniboxSuggestions.length + 1;
+    win.omniboxSelectedIndex = ((win.omniboxSelectedIndex + 1 + delta + total) % total) - 1;
+
+    const suggestion = win.omniboxSuggestions[win.omniboxSelectedIndex];
+    const text = !suggestion ? win.omniboxQuery : suggestion.type === 'search' ? win.omniboxQuery.trim() : suggestion.url;
+    win.omniboxView.webContents.send('omnibox:select-index', win.omniboxSelectedIndex);
+    win.window.webContents.send('omnibox:selection-changed', win.omniboxSelectedIndex, text);
   });
 
-  webSession.setPermissionRequestHandler((_webContents, permission, callback) => {
-    callback(allowedPermissions.includes(permission));
+  ipcMain.on('omnibox:select-current', (event) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win) return;
+    activateOmniboxSuggestion(win, win.omniboxSelectedIndex);
   });
 
-  // --- Gerenciamento de Downloads ---
-  webSession.on('will-download', (_event, item) => {
-    const id = uuidv4(); // ✅ Gerar ID único para o download
-    const filename = item.getFilename();
-    const totalBytes = item.getTotalBytes();
-    const savePath = item.getSavePath();
-    
-    console.log('[Download] Iniciando download:', filename, 'ID:', id);
-    
-    // ✅ Salvar no banco de dados
-    try {
-      addDownload(id, filename, savePath, totalBytes);
-    } catch (error) {
-      console.error('[Download] Falha ao salvar no DB:', error);
-    }
-    
-    // Enviar evento de download iniciado
-    const mainWindow = BrowserWindow.getAllWindows()[0];
-    if (mainWindow) {
-      mainWindow.webContents.send('download-started', {
-        id,
-        filename,
-        savePath,
-        totalBytes
+  ipcMain.on('menu:toggle', (event) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win) return;
+
+    if (win.isMenuVisible) {
+      win.window.removeBrowserView(win.menuView);
+    } else {
+      // O menu lista as abas fechadas recentemente: atualiza a cada abertura
+      win.menuView.webContents.send('menu:opened');
+      win.window.addBrowserView(win.menuView);
+      const menuWidth = 280;
+      const [windowWidth] = win.window.getContentSize();
+      win.menuView.setBounds({
+        x: windowWidth - menuWidth - 10,
+        y: NAV_BAR_HEIGHT,
+        width: menuWidth,
+        height: win.dynamicMenuHeight
       });
+      win.window.setTopBrowserView(win.menuView);
+      win.menuView.webContents.focus();
     }
+    win.isMenuVisible = !win.isMenuVisible;
+  });
 
-    // Atualizar progresso
-    item.on('updated', (_event, state) => {
-      if (state === 'progressing') {
-        const receivedBytes = item.getReceivedBytes();
-        
-        // ✅ Atualizar no banco de dados
-        try {
-          updateDownloadProgress(id, receivedBytes);
-        } catch (error) {
-          console.error('[Download] Falha ao atualizar progresso no DB:', error);
-        }
-        
-        if (mainWindow) {
-          mainWindow.webContents.send('download-progress', {
-            id,
-            savePath: item.getSavePath(),
-            receivedBytes,
-            totalBytes: item.getTotalBytes()
-          });
-        }
-      }
-    });
+  // Busca de abas: Ctrl+Shift+A na UI, na página ou na própria busca
+  ipcMain.on('tab-search:toggle', (event) => {
+    toggleTabSearch(getWindowFromSender(event.sender));
+  });
 
-    // Download concluído
-    item.once('done', (_event, state) => {
-      const finalPath = item.getSavePath();
-      const finalState = state === 'completed' ? 'completed' : 'failed';
-      
-      console.log('[Download] Concluído:', filename, 'Estado:', finalState, 'ID:', id);
-      
-      // ✅ Atualizar estado final no banco de dados
-      try {
-        updateDownloadState(id, finalState, finalPath);
-      } catch (error) {
-        console.error('[Download] Falha ao finalizar no DB:', error);
-      }
-      
-      if (mainWindow) {
-        mainWindow.webContents.send('download-complete', {
-          id,
-          savePath: finalPath,
-          state: finalState
-        });
-      }
-    });
+  ipcMain.on('tab-search:hide', (event) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win) return;
+    hideTabSearch(win);
   });
 
-  // --- Handler do Protocolo (MUDANÇA v2.2) ---
-  const getMimeType = (filePath: string) => {
-    const ext = path.extname(filePath).toLowerCase();
-    if (ext === '.css') return 'text/css';
-    if (ext === '.js') return 'text/javascript';
-    if (ext === '.png') return 'image/png';
-    if (ext === '.jpg' || ext === '.jpeg') return 'image/jpeg';
-    if (ext === '.svg') return 'image/svg+xml';
-    if (ext === '.woff2') return 'font/woff2';
-    return 'text/html';
-  };
+  ipcMain.on('tab-search:query', (event, query: string) => {
+    // ✅ Validação robusta
+    if (typeof query !== 'string' || query.length > TAB_SEARCH_MAX_QUERY_LENGTH) {
+      console.error('Texto inválido fornecido para tab-search:query');
+      return;
+    }
+    const win = getWindowFromSender(event.sender);
+    if (!win?.isTabSearchVisible) return;
 
-  protocol.handle('hera', (request) => {
-    try {
-      const url = new URL(request.url);
-      const host = url.hostname;
-      const pathname = url.pathname;
-      // Quando empacotado, os arquivos estão em .webpack/main dentro do asar
-      // Quando em desenvolvimento, estão em src
-      const appPath = app.isPackaged 
-        ? path.join(app.getAppPath(), '.webpack', 'main')
-        : path.join(app.getAppPath(), 'src');
+    win.tabSearchQuery = query;
+    updateTabSearchResults(win);
+  });
 
-      if (host === 'navigate-from-newtab') {
-        const targetUrl = url.searchParams.get('url');
-        if (activeTabId && targetUrl) {
-          const activeView = tabs.get(activeTabId);
-          if (activeView) {
-            // Usa função assíncrona para buscar configuração do mecanismo de busca
-            (async () => {
-              let finalUrl = targetUrl;
-              const isUrl = /^(https?:\/\/)|(localhost)|([a-zA-Z0-9-]+\.)+[a-zA-Z]{2,}/.test(targetUrl);
-
-              if (isUrl) {
-                if (!targetUrl.startsWith('http://') && !targetUrl.startsWith('https://')) {
-                  finalUrl = `https://${targetUrl}`;
-                }
-              } else {
-                // Busca o mecanismo de busca configurado pelo usuário
-                const searchEngine = getSetting('searchEngine') || 'google';
-                const searchEngines: Record<string, string> = {
-                  google: `https://www.google.com/search?q=${encodeURIComponent(targetUrl)}`,
-                  brave: `https://search.brave.com/search?q=${encodeURIComponent(targetUrl)}`,
-                  duckduckgo: `https://duckduckgo.com/?q=${encodeURIComponent(targetUrl)}`
-                };
-                finalUrl = searchEngines[searchEngine] || searchEngines.google;
-              }
-              activeView.webContents.loadURL(finalUrl);
-            })().catch((err: unknown) => {
-              console.error('Erro ao processar navegação:', err);
-            });
-          }
-        }
-        return new Response(null, { status: 204 });
-      }
+  // Altura real da lista, informada pela busca após renderizar
+  ipcMain.on('tab-search:resize', (event, height: number) => {
+    const win = getWindowFromSender(event.sender);
+    if (win?.isTabSearchVisible && typeof height === 'number' && Number.isFinite(height)) {
+      setTabSearchBounds(win, height);
+    }
+  });
 
-      // Rota para servir arquivos
-      let filePath = '';
-      if (host === 'new-tab') {
-        if (pathname === '/' || pathname === '') {
-          filePath = path.join(appPath, 'new-tab.html');
-        } else {
-          filePath = path.join(appPath, pathname);
-        }
-      }
-      // --- MUDANÇA v2.2: Adiciona a rota de settings --- 
-      else if (host === 'settings') {
-        if (pathname === '/' || pathname === '') {
-          filePath = path.join(appPath, 'settings.html');
-        } else {
-          // Para o settings.css, hera_logo.png, etc.
-          filePath = path.join(appPath, pathname);
-        }
-      } else if (host === 'menu') {
-        if (pathname === '/' || pathname === '') {
-          filePath = path.join(appPath, 'menu.html');
-        } else {
-          filePath = path.join(appPath, pathname);
-        }
-      } else if (host === 'history') {
-        if (pathname === '/' || pathname === '') {
-          filePath = path.join(appPath, 'history.html');
-        } else {
-          filePath = path.join(appPath, pathname);
-        }
-      } else if (host === 'downloads') {
-        if (pathname === '/' || pathname === '') {
-          filePath = path.join(appPath, 'downloads.html');
-        } else {
-          filePath = path.join(appPath, pathname);
-        }
-      } else if (host === 'omnibox') {
-        if (pathname === '/' || pathname === '') {
-          filePath = path.join(appPath, 'omnibox.html');
-        } else {
-          filePath = path.join(appPath, pathname);
-        }
-      }
-      // --- FIM DA MUDANÇA ---
-      // Caso especial para arquivos de imagem e outros recursos na raiz
-      else if (host.endsWith('.png') || host.endsWith('.jpg') || host.endsWith('.svg') || host.endsWith('.ico')) {
-        filePath = path.join(appPath, host);
-      }
-      else {
-        filePath = path.join(appPath, host, pathname);
+  ipcMain.on('tab-search:select', (event, index: number) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win || !Number.isInteger(index)) return;
+    activateTabSearchResult(win, index);
+  });
+
+  ipcMain.on('tab-search:close-tabs', (event, ids: string[]) => {
+    // ✅ Validação robusta
+    if (!isValidTabIdList(ids)) {
+      console.error('Lista de IDs de abas inválida fornecida para tab-search:close-tabs');
+      return;
+    }
+    const win = getWindowFromSender(event.sender);
+    if (!win) return;
+    closeTabsFromSearch(win, ids);
+  });
+
+  // O menu informa a própria altura quando o conteúdo muda
+  ipcMain.on('menu:resize', (event, height: number) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win || typeof height !== 'number' || !Number.isFinite(height) || height <= 0) return;
+    win.dynamicMenuHeight = Math.ceil(height);
+    if (win.isMenuVisible) {
+      const bounds = win.menuView.getBounds();
+      win.menuView.setBounds({ ...bounds, height: win.dynamicMenuHeight });
+    }
+  });
+
+  ipcMain.on('menu:action', (event, action: string) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win) return;
+
+    // Hide the menu first
+    if (win.isMenuVisible) {
+      win.window.removeBrowserView(win.menuView);
+      win.isMenuVisible = false;
+    }
+
+    switch (action) {
+      case 'new-tab':
+        createNewTab(win);
+        break;
+      case 'new-window':
+        createNewWindow();
+        break;
+      case 'new-private-window':
+        createNewWindow(true);
+        break;
+      case 'reopen-closed-tab':
+        reopenClosedTab(win);
+        break;
+      case 'tab-search':
+        showTabSearch(win);
+        break;
+      case 'sessions':
+        createNewTab(win, 'hera://sessions');
+        break;
+      case 'bookmarks':
+        createNewTab(win, 'hera://bookmarks');
+        break;
+      case 'history':
+        createNewTab(win, 'hera://history');
+        break;
+      case 'downloads':
+        createNewTab(win, 'hera://downloads');
+        break;
+      case 'settings':
+        createNewTab(win, 'hera://settings');
+        break;
+      case 'exit':
+        // Sair fecha todas as janelas
+        app.quit();
+        break;
+    }
+  });
+
+  // ... (handlers de window, download, history sem mudanças) ...
+  ipcMain.handle('window:minimize', (event) => getWindowFromSender(event.sender)?.window.minimize());
+  ipcMain.handle('window:maximize', (event) => {
+    const window = getWindowFromSender(event.sender)?.window;
+    if (!window) return;
+    if (window.isMaximized()) {
+      window.unmaximize();
+    } else {
+      window.maximize();
+    }
+  });
+  ipcMain.handle('window:close', (event) => getWindowFromSender(event.sender)?.window.close());
+
+  ipcMain.handle('history:get', (): HistoryEntry[] => {
+    try {
+      const history = getHistory(); // Agora é síncrono
+      return validateHistoryEntries(history);
+    } catch (error: unknown) {
+      console.error('Erro ao obter histórico:', error);
+      return [];
+    }
+  });
+  ipcMain.handle('history:search', (_e, query: string, options?: HistorySearchOptions): HistorySearchResult[] => {
+    try {
+      // ✅ Validação robusta
+      if (typeof query !== 'string' || query.length > 500) {
+        throw new Error('Query de busca inválida');
       }
-      filePath = path.normalize(filePath);
-      
-      console.log(`[Protocol Handler] Tentando carregar: ${filePath}`);
-      console.log(`[Protocol Handler] appPath: ${appPath}`);
-      console.log(`[Protocol Handler] host: ${host}`);
-      console.log(`[Protocol Handler] pathname: ${pathname}`);
-      
-      if (!filePath.startsWith(appPath)) {
-        console.error(`[Protocol Handler] Access Denied: ${filePath} não começa com ${appPath}`);
-        return new Response('Access Denied', { status: 403 });
+      if (!isValidHistorySearchOptions(options)) {
+        throw new Error('Opções de busca inválidas');
       }
 
-      // Tenta encontrar o arquivo (case-insensitive se não existir)
-      let finalFilePath = filePath;
-      if (!fs.existsSync(filePath)) {
-        // Tenta buscar o arquivo com case-insensitive
-        const dir = path.dirname(filePath);
-        const fileName = path.basename(filePath);
-        
-        if (fs.existsSync(dir)) {
-          const files = fs.readdirSync(dir);
-          const foundFile = files.find(f => f.toLowerCase() === fileName.toLowerCase());
-          if (foundFile) {
-            finalFilePath = path.join(dir, foundFile);
-            console.log(`[Protocol Handler] Arquivo encontrado com case-insensitive: ${finalFilePath}`);
-          }
-        }
+      return searchHistory(query, options);
+    } catch (error: unknown) {
+      console.error('Erro ao buscar no histórico:', error);
+      return [];
+    }
+  });
+  ipcMain.handle('history:visits', (_e, url: string): VisitEntry[] => {
+    try {
+      // ✅ Validação robusta
+      if (typeof url !== 'string' || !url.trim()) {
+        throw new Error('URL inválida');
       }
 
-      if (fs.existsSync(finalFilePath)) {
-        console.log(`[Protocol Handler] Arquivo encontrado: ${finalFilePath}`);
-        const fileContent = fs.readFileSync(finalFilePath);
-        const mimeType = getMimeType(finalFilePath);
-        return new Response(fileContent, {
-          status: 200,
-          headers: { 'Content-Type': mimeType }
-        });
-      } else {
-        console.error(`[Protocol Handler] File not found: ${filePath}`);
-        return new Response('Not Found', { status: 404 });
+      return getVisitsForUrl(url);
+    } catch (error: unknown) {
+      console.error('Erro ao obter visitas:', error);
+      return [];
+    }
+  });
+  ipcMain.handle('history:inline-complete', (_e, text: string): InlineCompletion | null => {
+    try {
+      // ✅ Validação robusta
+      if (typeof text !== 'string' || text.length > OMNIBOX_MAX_QUERY_LENGTH) {
+        throw new Error('Texto inválido');
       }
 
+      return getInlineCompletion(text);
+    } catch (error: unknown) {
+      console.error('Erro ao obter autocompletar:', error);
+      return null;
+    }
+  });
+  ipcMain.handle('history:clear', (): void => {
+    try {
+      clearHistory();
     } catch (error: unknown) {
-      console.error(`Falha ao lidar com o protocolo hera: ${error}`);
-      return new Response('Internal Server Error', { status: 500 });
+      console.error('Erro ao limpar histórico:', error);
+      throw error;
     }
   });
-  // --- FIM ---
+  ipcMain.handle('history:delete-item', (_e, id: number): boolean => {
+    // ✅ Validação robusta
+    if (!isValidHistoryId(id)) {
+      throw new Error('ID de histórico inválido');
+    }
 
-  // --- Handlers de IPC (MUDANÇA v2.2) ---
-  // Agora 'createNewTab' recebe a URL (que pode ser undefined)
-  ipcMain.handle('tab:new', (_e, url?: string) => {
-    // Validate input parameter
-    if (url !== undefined && typeof url !== 'string') {
-      console.error('URL inválida fornecida para tab:new');
-      return createNewTab();
+    try {
+      return deleteHistoryEntries([id]) > 0;
+    } catch (error: unknown) {
+      console.error('Erro ao remover item do histórico:', error);
+      throw error;
     }
-    return createNewTab(url);
   });
-
-  ipcMain.handle('tab:switch', (_e, id: string) => {
+  ipcMain.handle('history:delete-items', (_e, ids: number[]): number => {
     // ✅ Validação robusta
-    if (!isValidTabId(id)) {
-      console.error('tab:switch foi chamado com ID inválido:', id);
-      return;
+    if (!isValidHistoryIdList(ids)) {
+      throw new Error('Lista de IDs de histórico inválida');
     }
-    return switchToTab(id);
-  });
 
-  ipcMain.handle('tab:close', (_e, id: string) => {
-    // ✅ Validação robusta
-    if (!isValidTabId(id)) {
-      console.error('tab:close foi chamado com ID inválido:', id);
-      return;
+    try {
+      return deleteHistoryEntries(ids);
+    } catch (error: unknown) {
+      console.error('Erro ao remover itens do histórico:', error);
+      throw error;
     }
-    return closeTab(id);
   });
+  ipcMain.handle('history:delete-url', (_e, url: string): number => {
+    // ✅ Validação robusta
+    if (!isValidUrl(url)) {
+      throw new Error('URL inválida');
+    }
 
-  ipcMain.handle('nav:back', () => {
-    const activeView = tabs.get(activeTabId);
-    if (activeView && activeView.webContents.navigationHistory.canGoBack()) {
-      activeView.webContents.goBack();
+    try {
+      return deleteHistoryByUrl(url);
+    } catch (error: unknown) {
+      console.error('Erro ao remover URL do histórico:', error);
+      throw error;
     }
   });
-  ipcMain.handle('nav:forward', () => {
-    const activeView = tabs.get(activeTabId);
-    if (activeView && activeView.webContents.navigationHistory.canGoForward()) {
-      activeView.webContents.goForward();
+  ipcMain.handle('history:delete-domain', (_e, domain: string): number => {
+    // ✅ Validação robusta
+    if (!isValidDomain(domain)) {
+      throw new Error('Domínio inválido');
+    }
+
+    try {
+      return deleteHistoryByDomain(domain);
+    } catch (error: unknown) {
+      console.error('Erro ao remover domínio do histórico:', error);
+      throw error;
     }
   });
-  ipcMain.handle('nav:reload', () => tabs.get(activeTabId)?.webContents.reload());
-  ipcMain.handle('nav:to', async (_e, url: string) => {
-    if (typeof url !== 'string' || !url.trim()) {
-      console.error('URL inválida fornecida para nav:to');
-      return;
+  ipcMain.handle('history:delete-range', (_e, from: number, to: number): number => {
+    // ✅ Validação robusta
+    if (!isValidTimeRange(from, to)) {
+      throw new Error('Período inválido');
     }
 
-    const tab = tabs.get(activeTabId);
-    if (!tab) {
-      console.error('Aba ativa não encontrada');
-      return;
+    try {
+      return deleteHistoryRange(from, to);
+    } catch (error: unknown) {
+      console.error('Erro ao remover período do histórico:', error);
+      throw error;
     }
+  });
 
+  // Downloads handlers
+  // Nas janelas privadas, a lista é a dos downloads privados em memória
+  ipcMain.handle('downloads:get', (event) => {
     try {
-      await tab.webContents.loadURL(url);
-    } catch (error: unknown) {
-      // ERR_ABORTED (-3) é comum quando o usuário navega rapidamente
-      // Não é um erro crítico, apenas log para debug
-      if (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === 'ERR_ABORTED') {
-        console.log('Navegação cancelada (usuário navegou para outra página)');
-      } else {
-        console.error('Erro ao navegar:', error);
-        throw error;
+      if (getWindowFromSender(event.sender)?.isPrivate) {
+        return Array.from(privateDownloads.values()).sort((a, b) => b.timestamp - a.timestamp);
       }
+      return getDownloads();
+    } catch (error: unknown) {
+      console.error('Erro ao buscar downloads:', error);
+      return [];
     }
   });
 
-  ipcMain.handle('nav:get-state', () => {
-    if (!activeTabId || !tabs.has(activeTabId)) {
-      return { canGoBack: false, canGoForward: false };
+  ipcMain.handle('downloads:clear-completed', (event) => {
+    try {
+      if (getWindowFromSender(event.sender)?.isPrivate) {
+        privateDownloads.forEach((download, id) => {
+          if (download.state === 'completed') privateDownloads.delete(id);
+        });
+        return;
+      }
+      clearCompletedDownloads();
+    } catch (error: unknown) {
+      console.error('Erro ao limpar downloads:', error);
+      throw error;
     }
-    const view = tabs.get(activeTabId);
-    return {
-      canGoBack: view.webContents.navigationHistory.canGoBack(),
-      canGoForward: view.webContents.navigationHistory.canGoForward()
-    };
   });
 
-  // Find in page handlers
-  ipcMain.on('find:start', (_event, args: { text: string }) => {
-    if (!activeTabId || !tabs.has(activeTabId)) {
-      console.error('Nenhuma aba ativa para busca');
-      return;
+  ipcMain.handle('downloads:remove', (event, id: string) => {
+    try {
+      if (typeof id !== 'string' || !id) {
+        throw new Error('ID de download inválido');
+      }
+      if (getWindowFromSender(event.sender)?.isPrivate) {
+        return privateDownloads.delete(id);
+      }
+      return removeDownload(id);
+    } catch (error: unknown) {
+      console.error('Erro ao remover download:', error);
+      return false;
     }
+  });
 
-    const view = tabs.get(activeTabId);
-    if (!view) return;
+  // Settings handlers
+  ipcMain.handle('settings:get', async (_e, key: string): Promise<string | null> => {
+    try {
+      // ✅ Validação robusta
+      if (!isValidSettingKey(key)) {
+        throw new Error('Chave de configuração inválida');
+      }
 
-    // Valida input
-    if (typeof args.text !== 'string' || args.text.trim().length === 0) {
-      console.error('Texto de busca inválido');
-      return;
+      return getSetting(key);
+    } catch (error: unknown) {
+      console.error('Erro ao obter configuração:', error);
+      return null;
     }
+  });
 
-    // Inicia busca
-    view.webContents.findInPage(args.text, {
-      findNext: false,
-      forward: true
-    });
+  ipcMain.handle('settings:set', async (_e, key: string, value: string): Promise<boolean> => {
+    try {
+      // ✅ Validação robusta
+      if (!isValidSettingKey(key)) {
+        throw new Error('Chave de configuração inválida');
+      }
+      if (typeof value !== 'string') {
+        throw new Error('Valor de configuração inválido');
+      }
+
+      setSetting(key, value);
+      if (key === 'tabLayout' || key === 'verticalTabsWidth') {
+        applyTabLayout();
+      }
+      return true;
+    } catch (error: unknown) {
+      console.error('Erro ao salvar configuração:', error);
+      throw error;
+    }
   });
 
-  ipcMain.on('find:next', (_event, args: { text: string; forward: boolean }) => {
-    if (!activeTabId || !tabs.has(activeTabId)) {
-      console.error('Nenhuma aba ativa para navegação');
-      return;
+  ipcMain.handle('settings:getAll', (): Record<string, string> => {
+    try {
+      return getAllSettings();
+    } catch (error: unknown) {
+      console.error('Erro ao obter todas as configurações:', error);
+      return {};
     }
+  });
 
-    const view = tabs.get(activeTabId);
-    if (!view) return;
+  // Closed tabs handlers
+  ipcMain.handle('tabs:closed-list', (event, limit?: number): ClosedTab[] => {
+    try {
+      // ✅ Validação robusta
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > CLOSED_TABS_MAX)) {
+        throw new Error('Limite de abas fechadas inválido');
+      }
 
-    // Valida input
-    if (typeof args.text !== 'string' || args.text.trim().length === 0) {
-      console.error('Texto de busca inválido');
-      return;
-    }
+      // Abas fechadas da navegação normal não aparecem em janelas privadas
+      const win = getWindowFromSender(event.sender);
+      if (!win || win.isPrivate) return [];
 
-    if (typeof args.forward !== 'boolean') {
-      console.error('Direção de navegação inválida');
-      return;
+      return getClosedTabs(limit);
+    } catch (error: unknown) {
+      console.error('Erro ao buscar abas fechadas:', error);
+      return [];
     }
-
-    // Navega para próximo/anterior
-    view.webContents.findInPage(args.text, {
-      findNext: true,
-      forward: args.forward
-    });
   });
 
-  ipcMain.on('find:stop', () => {
-    if (!activeTabId || !tabs.has(activeTabId)) {
-      return;
+  ipcMain.handle('tabs:reopen-closed', (event, id?: number): boolean => {
+    // ✅ Validação robusta
+    if (id !== undefined && (!Number.isSafeInteger(id) || id < 1)) {
+      throw new Error('ID de aba fechada inválido');
     }
 
-    const view = tabs.get(activeTabId);
-    if (!view) return;
+    const win = getWindowFromSender(event.sender);
+    if (!win) return false;
 
-    // Para busca e limpa seleção
-    view.webContents.stopFindInPage('clearSelection');
+    // Reabrir pelo menu também fecha o menu
+    if (win.isMenuVisible && event.sender === win.menuView.webContents) {
+      win.window.removeBrowserView(win.menuView);
+      win.isMenuVisible = false;
+    }
+
+    try {
+      return reopenClosedTab(win, id);
+    } catch (error: unknown) {
+      console.error('Erro ao reabrir aba fechada:', error);
+      throw error;
+    }
   });
 
-  // Handlers temporariamente desabilitados - voltando para solução simples
-  ipcMain.on('omnibox:show', () => {
-    // Não faz nada por enquanto
+  // Search engine handlers
+  ipcMain.handle('search-engines:get', (): SearchEngine[] => {
+    try {
+      return getSearchEngines();
+    } catch (error: unknown) {
+      console.error('Erro ao buscar mecanismos de busca:', error);
+      return [];
+    }
   });
 
-  ipcMain.on('omnibox:hide', () => {
-    // Não faz nada por enquanto
+  ipcMain.handle('search-engines:add', (_e, input: SearchEngineInput): SearchEngine => {
+    // ✅ Validação robusta
+    if (!isValidSearchEngineInput(input)) {
+      throw new Error('Mecanismo de busca inválido');
+    }
+
+    try {
+      return addSearchEngine(uuidv4(), {
+        name: input.name.trim(),
+        url_template: input.url_template,
+        keyword: input.keyword,
+        suggest_url: input.suggest_url
+      });
+    } catch (error: unknown) {
+      console.error('Erro ao adicionar mecanismo de busca:', error);
+      throw error;
+    }
   });
 
-  ipcMain.on('omnibox:select', () => {
-    // Não faz nada por enquanto
+  ipcMain.handle('search-engines:update', (_e, id: string, changes: Partial<SearchEngineInput>): SearchEngine | null => {
+    // ✅ Validação robusta
+    if (typeof id !== 'string' || !id) {
+      throw new Error('ID de mecanismo de busca inválido');
+    }
+    if (!isValidSearchEngineInput(changes, true)) {
+      throw new Error('Mecanismo de busca inválido');
+    }
+
+    try {
+      return updateSearchEngine(id, {
+        name: changes.name?.trim(),
+        url_template: changes.url_template,
+        keyword: changes.keyword,
+        suggest_url: changes.suggest_url
+      });
+    } catch (error: unknown) {
+      console.error('Erro ao atualizar mecanismo de busca:', error);
+      throw error;
+    }
   });
 
-  ipcMain.on('omnibox:update-selection', () => {
-    // Não faz nada por enquanto
+  ipcMain.handle('search-engines:remove', (_e, id: string): boolean => {
+    // ✅ Validação robusta
+    if (typeof id !== 'string' || !id) {
+      throw new Error('ID de mecanismo de busca inválido');
+    }
+
+    try {
+      return removeSearchEngine(id);
+    } catch (error: unknown) {
+      console.error('Erro ao remover mecanismo de busca:', error);
+      throw error;
+    }
   });
 
-  ipcMain.on('omnibox:select-current', () => {
-    // Não faz nada por enquanto
+  // Container handlers
+  ipcMain.handle('containers:get', (): Container[] => {
+    try {
+      return getContainers();
+    } catch (error: unknown) {
+      console.error('Erro ao buscar contêineres:', error);
+      return [];
+    }
   });
 
-  ipcMain.on('menu:toggle', () => {
-    if (isMenuVisible) {
-      mainWindow.removeBrowserView(menuView);
-    } else {
-      mainWindow.addBrowserView(menuView);
-      const menuWidth = 280;
-      const [windowWidth] = mainWindow.getContentSize();
-      menuView.setBounds({
-        x: windowWidth - menuWidth - 10,
-        y: NAV_BAR_HEIGHT,
-        width: menuWidth,
-        height: dynamicMenuHeight
+  ipcMain.handle('containers:add', (_e, input: ContainerInput): Container => {
+    // ✅ Validação robusta
+    if (!isValidContainerInput(input)) {
+      throw new Error('Contêiner inválido');
+    }
+
+    try {
+      const container = addContainer(uuidv4(), {
+        name: input.name.trim(),
+        color: input.color,
+        user_agent: input.user_agent?.trim(),
+        permissions: input.permissions
       });
-      mainWindow.setTopBrowserView(menuView);
-      menuView.webContents.focus();
+      setupWebContentSession(session.fromPartition(getContainerPartition(container.id)), { container });
+      broadcastContainers();
+      return container;
+    } catch (error: unknown) {
+      console.error('Erro ao adicionar contêiner:', error);
+      throw error;
     }
-    isMenuVisible = !isMenuVisible;
   });
 
-  ipcMain.on('menu:action', (_event, action: string) => {
-    // Hide the menu first
-    if (isMenuVisible) {
-      mainWindow.removeBrowserView(menuView);
-      isMenuVisible = false;
+  ipcMain.handle('containers:update', (_e, id: string, changes: Partial<ContainerInput>): Container | null => {
+    // ✅ Validação robusta
+    if (typeof id !== 'string' || !id) {
+      throw new Error('ID de contêiner inválido');
+    }
+    if (!isValidContainerInput(changes, true)) {
+      throw new Error('Contêiner inválido');
     }
 
-    switch (action) {
-      case 'new-tab':
-        createNewTab();
-        break;
-      case 'history':
-        createNewTab('hera://history');
-        break;
-      case 'downloads':
-        createNewTab('hera://downloads');
-        break;
-      case 'settings':
-        createNewTab('hera://settings');
-        break;
-      case 'exit':
-        mainWindow.close();
-        break;
+    try {
+      const container = updateContainer(id, {
+        name: changes.name?.trim(),
+        color: changes.color,
+        user_agent: changes.user_agent?.trim(),
+        permissions: changes.permissions
+      });
+      if (container) {
+        // As permissões são lidas a cada pedido; o user agent vale para as próximas requisições
+        session.fromPartition(getContainerPartition(id)).setUserAgent(container.user_agent || DEFAULT_USER_AGENT);
+        broadcastContainers();
+      }
+      return container;
+    } catch (error: unknown) {
+      console.error('Erro ao atualizar contêiner:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('containers:remove', async (_e, id: string): Promise<boolean> => {
+    // ✅ Validação robusta
+    if (typeof id !== 'string' || !id) {
+      throw new Error('ID de contêiner inválido');
+    }
+    if (getAllTabIds().some((tabId) => tabInfo.get(tabId)?.containerId === id)) {
+      throw new Error('Feche as abas do contêiner antes de removê-lo');
+    }
+
+    try {
+      const removed = removeContainer(id);
+      if (removed) {
+        // Os dados do contêiner não têm mais como ser usados
+        await session.fromPartition(getContainerPartition(id)).clearStorageData();
+        broadcastContainers();
+      }
+      return removed;
+    } catch (error: unknown) {
+      console.error('Erro ao remover contêiner:', error);
+      throw error;
     }
   });
 
-  // ... (handlers de window, download, history sem mudanças) ...
-  ipcMain.handle('window:minimize', () => mainWindow.minimize());
-  ipcMain.handle('window:maximize', () => {
-    if (mainWindow.isMaximized()) {
-      mainWindow.unmaximize();
-    } else {
-      mainWindow.maximize();
+  ipcMain.handle('containers:open-tab', (event, containerId: string | null, url?: string) => {
+    // ✅ Validação robusta
+    if (containerId !== null && (typeof containerId !== 'string' || !getContainer(containerId))) {
+      throw new Error('Contêiner inválido');
     }
+    if (url !== undefined && (typeof url !== 'string' || !isValidUrl(url))) {
+      throw new Error('URL inválida');
+    }
+    const win = getWindowFromSender(event.sender) ?? lastFocusedWindow;
+    if (!win) return;
+    createNewTab(win, url, { containerId: containerId ?? undefined });
   });
-  ipcMain.handle('window:close', () => mainWindow.close());
 
-  ipcMain.handle('history:get', (): HistoryEntry[] => {
+  // Named session handlers
+  ipcMain.handle('sessions:get', (): NamedSession[] => {
     try {
-      const history = getHistory(); // Agora é síncrono
-      return validateHistoryEntries(history);
+      return getSessions();
     } catch (error: unknown) {
-      console.error('Erro ao obter histórico:', error);
+      console.error('Erro ao buscar sessões:', error);
       return [];
     }
   });
-  ipcMain.handle('history:clear', (): void => {
+
+  ipcMain.handle('sessions:get-active', (): string | null => getActiveSessionId());
+
+  ipcMain.handle('sessions:save', async (_e, name: string): Promise<NamedSession> => {
+    // ✅ Validação robusta
+    if (!isValidSessionName(name)) {
+      throw new Error('Nome de sessão inválido');
+    }
+
     try {
-      clearHistory();
+      return await saveNamedSession(name.trim());
     } catch (error: unknown) {
-      console.error('Erro ao limpar histórico:', error);
+      console.error('Erro ao salvar sessão:', error);
       throw error;
     }
   });
 
-  // Downloads handlers
-  ipcMain.handle('downloads:get', () => {
+  ipcMain.handle('sessions:open', async (_e, id: string): Promise<boolean> => {
+    // ✅ Validação robusta
+    if (typeof id !== 'string' || !id) {
+      throw new Error('ID de sessão inválido');
+    }
+
     try {
-      return getDownloads();
+      return await switchToNamedSession(id);
     } catch (error: unknown) {
-      console.error('Erro ao buscar downloads:', error);
-      return [];
+      console.error('Erro ao abrir sessão:', error);
+      throw error;
     }
   });
 
-  ipcMain.handle('downloads:clear-completed', () => {
+  ipcMain.handle('sessions:merge', (event, id: string): boolean => {
+    // ✅ Validação robusta
+    if (typeof id !== 'string' || !id) {
+      throw new Error('ID de sessão inválido');
+    }
+    const win = getWindowFromSender(event.sender) ?? lastFocusedWindow;
+    if (!win) return false;
+
     try {
-      clearCompletedDownloads();
+      return mergeNamedSession(win, id);
     } catch (error: unknown) {
-      console.error('Erro ao limpar downloads:', error);
+      console.error('Erro ao juntar sessão à janela:', error);
       throw error;
     }
   });
 
-  ipcMain.handle('downloads:remove', (_e, id: string) => {
+  ipcMain.handle('sessions:rename', (_e, id: string, name: string): NamedSession | null => {
+    // ✅ Validação robusta
+    if (typeof id !== 'string' || !id) {
+      throw new Error('ID de sessão inválido');
+    }
+    if (!isValidSessionName(name)) {
+      throw new Error('Nome de sessão inválido');
+    }
+
     try {
-      if (typeof id !== 'string' || !id) {
-        throw new Error('ID de download inválido');
-      }
-      return removeDownload(id);
+      const session = renameSession(id, name.trim());
+      if (session) broadcastSessions();
+      return session;
     } catch (error: unknown) {
-      console.error('Erro ao remover download:', error);
-      return false;
+      console.error('Erro ao renomear sessão:', error);
+      throw error;
     }
   });
 
-  // Settings handlers
-  ipcMain.handle('settings:get', async (_e, key: string): Promise<string | null> => {
+  ipcMain.handle('sessions:remove', (_e, id: string): boolean => {
+    // ✅ Validação robusta
+    if (typeof id !== 'string' || !id) {
+      throw new Error('ID de sessão inválido');
+    }
+
     try {
-      // ✅ Validação robusta
-      if (!isValidSettingKey(key)) {
-        throw new Error('Chave de configuração inválida');
+      const removed = removeSession(id);
+      if (removed) {
+        // As abas abertas continuam, mas não estão mais ligadas a uma sessão
+        if (getActiveSessionId() === id) setActiveSessionId(null);
+        broadcastSessions();
       }
+      return removed;
+    } catch (error: unknown) {
+      console.error('Erro ao remover sessão:', error);
+      throw error;
+    }
+  });
 
-      return getSetting(key);
+  // Exporta a sessão como JSON no arquivo escolhido pelo usuário (false = cancelado)
+  ipcMain.handle('sessions:export', async (event, id: string): Promise<boolean> => {
+    // ✅ Validação robusta
+    if (typeof id !== 'string' || !id) {
+      throw new Error('ID de sessão inválido');
+    }
+    const session = getSession(id);
+    if (!session) {
+      throw new Error('Sessão não encontrada');
+    }
+
+    const owner = getWindowFromSender(event.sender)?.window;
+    const fileName = `${session.name.replace(/[\\/:*?"<>|]/g, '-')}.json`;
+    const options: Electron.SaveDialogOptions = {
+      title: 'Exportar sessão',
+      defaultPath: path.join(app.getPath('documents'), fileName),
+      filters: [{ name: 'Sessão do Hera', extensions: ['json'] }]
+    };
+    const { canceled, filePath } = owner ? await dialog.showSaveDialog(owner, options) : await dialog.showSaveDialog(options);
+    if (canceled || !filePath) return false;
+
+    const file: SessionExportFile = {
+      format: SESSION_EXPORT_FORMAT,
+      version: SESSION_EXPORT_VERSION,
+      name: session.name,
+      exported_at: Date.now(),
+      snapshot: session.snapshot
+    };
+    try {
+      await fs.promises.writeFile(filePath, JSON.stringify(file, null, 2), 'utf-8');
+      return true;
     } catch (error: unknown) {
-      console.error('Erro ao obter configuração:', error);
-      return null;
+      console.error('Erro ao exportar sessão:', error);
+      throw new Error('Não foi possível salvar o arquivo da sessão');
     }
   });
 
-  ipcMain.handle('settings:set', async (_e, key: string, value: string): Promise<boolean> => {
+  // Importa uma sessão exportada (null = cancelado)
+  ipcMain.handle('sessions:import', async (event): Promise<NamedSession | null> => {
+    const owner = getWindowFromSender(event.sender)?.window;
+    const options: Electron.OpenDialogOptions = {
+      title: 'Importar sessão',
+      filters: [{ name: 'Sessão do Hera', extensions: ['json'] }],
+      properties: ['openFile']
+    };
+    const { canceled, filePaths } = owner ? await dialog.showOpenDialog(owner, options) : await dialog.showOpenDialog(options);
+    if (canceled || filePaths.length === 0) return null;
+
+    let data: unknown;
     try {
-      // ✅ Validação robusta
-      if (!isValidSettingKey(key)) {
-        throw new Error('Chave de configuração inválida');
-      }
-      if (typeof value !== 'string') {
-        throw new Error('Valor de configuração inválido');
+      const { size } = await fs.promises.stat(filePaths[0]);
+      if (size > SESSION_IMPORT_MAX_BYTES) {
+        throw new Error('Arquivo grande demais');
       }
+      data = JSON.parse(await fs.promises.readFile(filePaths[0], 'utf-8'));
+    } catch (error: unknown) {
+      console.error('Erro ao ler sessão importada:', error);
+      throw new Error('Não foi possível ler o arquivo da sessão');
+    }
 
-      setSetting(key, value);
-      return true;
+    // ✅ Validação robusta
+    if (!isSessionExportFile(data)) {
+      throw new Error('O arquivo não é uma sessão exportada pelo Hera');
+    }
+
+    try {
+      const session = addSession(uuidv4(), data.name.trim(), data.snapshot);
+      broadcastSessions();
+      return session;
     } catch (error: unknown) {
-      console.error('Erro ao salvar configuração:', error);
+      console.error('Erro ao importar sessão:', error);
       throw error;
     }
   });
 
-  ipcMain.handle('settings:getAll', (): Record<string, string> => {
-    try {
-      return getAllSettings();
-    } catch (error: unknown) {
-      console.error('Erro ao obter todas as configurações:', error);
-      return {};
+  // Menu do botão de nova aba (botão direito): escolher o contêiner da nova aba
+  ipcMain.on('tab:new-tab-menu', (event) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win || win.isPrivate) return;
+
+    const containers = getContainers();
+    Menu.buildFromTemplate([
+      { label: 'Nova aba', click: () => createNewTab(win) },
+      { type: 'separator', visible: containers.length > 0 },
+      ...containers.map((container): Electron.MenuItemConstructorOptions => ({
+        label: `Nova aba em ${container.name}`,
+        click: () => createNewTab(win, undefined, { containerId: container.id })
+      })),
+      { type: 'separator' },
+      { label: 'Gerenciar contêineres', click: () => createNewTab(win, 'hera://settings#containers') }
+    ]).popup({ window: win.window });
+  });
+
+  ipcMain.handle('search:resolve', (_e, text: string): string => {
+    if (typeof text !== 'string' || !text.trim() || text.length > OMNIBOX_MAX_QUERY_LENGTH) {
+      throw new Error('Texto de busca inválido');
     }
+
+    return resolveAddressInput(text).url;
   });
 
   // Bookmark handlers
+  // Favoritos adicionados em janelas privadas também são salvos: é uma ação explícita do usuário
   ipcMain.handle('bookmark:add', async (_e, url: string, title: string, favicon?: string, folderId?: string): Promise<Bookmark> => {
     try {
       // Validate input parameters
@@ -1260,11 +4861,13 @@ app.whenReady().then(async () => {
       if (favicon !== undefined && typeof favicon !== 'string') {
         throw new Error('Favicon inválido');
       }
-      if (folderId !== undefined && typeof folderId !== 'string') {
+      if (folderId !== undefined && folderId !== null && !isValidBookmarkId(folderId)) {
         throw new Error('ID da pasta inválido');
       }
 
-      return addBookmark(url, title, favicon, folderId);
+      const bookmark = addBookmark(uuidv4(), url, title, favicon, folderId ?? undefined);
+      broadcastBookmarks();
+      return bookmark;
     } catch (error: unknown) {
       console.error('Erro ao adicionar favorito:', error);
       throw error;
@@ -1279,6 +4882,7 @@ app.whenReady().then(async () => {
       }
 
       removeBookmark(id);
+      broadcastBookmarks();
       return true;
     } catch (error: unknown) {
       console.error('Erro ao remover favorito:', error);
@@ -1319,14 +4923,16 @@ app.whenReady().then(async () => {
   ipcMain.handle('bookmark:create-folder', async (_e, name: string, parentId?: string): Promise<BookmarkFolder> => {
     try {
       // Validate input parameters
-      if (typeof name !== 'string' || !name.trim()) {
+      if (!isValidBookmarkFolderName(name)) {
         throw new Error('Nome da pasta inválido');
       }
-      if (parentId !== undefined && typeof parentId !== 'string') {
+      if (parentId !== undefined && parentId !== null && !isValidBookmarkId(parentId)) {
         throw new Error('ID da pasta pai inválido');
       }
 
-      return createBookmarkFolder(name, parentId);
+      const folder = createBookmarkFolder(uuidv4(), name.trim(), parentId ?? undefined);
+      broadcastBookmarks();
+      return folder;
     } catch (error: unknown) {
       console.error('Erro ao criar pasta de favoritos:', error);
       throw error;
@@ -1347,6 +4953,220 @@ app.whenReady().then(async () => {
     }
   });
 
+  ipcMain.handle('bookmark:update', async (_e, id: string, changes: BookmarkInput): Promise<boolean> => {
+    try {
+      // ✅ Validação robusta
+      if (!isValidBookmarkId(id)) {
+        throw new Error('ID de bookmark inválido');
+      }
+      if (!isValidBookmarkInput(changes)) {
+        throw new Error('Título ou URL do favorito inválidos');
+      }
+
+      const updated = updateBookmark(id, { title: changes.title?.trim(), url: changes.url });
+      if (updated) {
+        broadcastBookmarks();
+      }
+      return updated;
+    } catch (error: unknown) {
+      console.error('Erro ao atualizar favorito:', error);
+      throw error;
+    }
+  });
+
+  // Reordena na mesma pasta ou move para outra (folderId null = raiz)
+  ipcMain.handle('bookmark:move', async (_e, id: string, folderId: string | null, position: number): Promise<boolean> => {
+    try {
+      // ✅ Validação robusta
+      if (!isValidBookmarkId(id)) {
+        throw new Error('ID de bookmark inválido');
+      }
+      if (folderId !== null && !isValidBookmarkId(folderId)) {
+        throw new Error('ID da pasta inválido');
+      }
+      if (!Number.isInteger(position) || position < 0) {
+        throw new Error('Posição inválida');
+      }
+
+      const moved = moveBookmark(id, folderId ?? undefined, position);
+      if (moved) {
+        broadcastBookmarks();
+      }
+      return moved;
+    } catch (error: unknown) {
+      console.error('Erro ao mover favorito:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('bookmark:rename-folder', async (_e, id: string, name: string): Promise<boolean> => {
+    try {
+      // ✅ Validação robusta
+      if (!isValidBookmarkId(id)) {
+        throw new Error('ID da pasta inválido');
+      }
+      if (!isValidBookmarkFolderName(name)) {
+        throw new Error('Nome da pasta inválido');
+      }
+
+      const renamed = renameFolder(id, name.trim());
+      if (renamed) {
+        broadcastBookmarks();
+      }
+      return renamed;
+    } catch (error: unknown) {
+      console.error('Erro ao renomear pasta de favoritos:', error);
+      throw error;
+    }
+  });
+
+  // Remove a pasta com as subpastas e os favoritos delas
+  ipcMain.handle('bookmark:delete-folder', async (_e, id: string): Promise<boolean> => {
+    try {
+      // ✅ Validação robusta
+      if (!isValidBookmarkId(id)) {
+        throw new Error('ID da pasta inválido');
+      }
+
+      const deleted = deleteFolder(id);
+      if (deleted) {
+        broadcastBookmarks();
+      }
+      return deleted;
+    } catch (error: unknown) {
+      console.error('Erro ao remover pasta de favoritos:', error);
+      throw error;
+    }
+  });
+
+  // Importa um arquivo HTML de favoritos de outro navegador (null = cancelado)
+  ipcMain.handle('bookmark:import-html', async (event): Promise<BookmarkImportResult | null> => {
+    const owner = getWindowFromSender(event.sender)?.window;
+    const options: Electron.OpenDialogOptions = {
+      title: 'Importar favoritos',
+      filters: [{ name: 'Favoritos em HTML', extensions: ['html', 'htm'] }],
+      properties: ['openFile']
+    };
+    const { canceled, filePaths } = owner ? await dialog.showOpenDialog(owner, options) : await dialog.showOpenDialog(options);
+    if (canceled || filePaths.length === 0) return null;
+
+    let html: string;
+    try {
+      const { size } = await fs.promises.stat(filePaths[0]);
+      if (size > BOOKMARK_IMPORT_MAX_BYTES) {
+        throw new Error('Arquivo grande demais');
+      }
+      html = await fs.promises.readFile(filePaths[0], 'utf-8');
+    } catch (error: unknown) {
+      console.error('Erro ao ler favoritos importados:', error);
+      throw new Error('Não foi possível ler o arquivo de favoritos');
+    }
+
+    // ✅ Validação robusta
+    if (!/<!DOCTYPE\s+NETSCAPE-Bookmark-file-1>/i.test(html) && !/<DL>/i.test(html)) {
+      throw new Error('O arquivo não é um arquivo de favoritos em HTML');
+    }
+
+    try {
+      const { nodes, skipped } = parseBookmarksHtml(html);
+      const result = importBookmarkTree(nodes, uuidv4);
+      if (result.bookmarks > 0 || result.folders > 0) {
+        broadcastBookmarks();
+      }
+      return { ...result, skipped };
+    } catch (error: unknown) {
+      console.error('Erro ao importar favoritos:', error);
+      throw error;
+    }
+  });
+
+  // Exporta todos os favoritos como HTML (false = cancelado)
+  ipcMain.handle('bookmark:export-html', async (event): Promise<boolean> => {
+    const owner = getWindowFromSender(event.sender)?.window;
+    const date = new Date().toISOString().slice(0, 10);
+    const options: Electron.SaveDialogOptions = {
+      title: 'Exportar favoritos',
+      defaultPath: path.join(app.getPath('documents'), `favoritos-hera-${date}.html`),
+      filters: [{ name: 'Favoritos em HTML', extensions: ['html'] }]
+    };
+    const { canceled, filePath } = owner ? await dialog.showSaveDialog(owner, options) : await dialog.showSaveDialog(options);
+    if (canceled || !filePath) return false;
+
+    try {
+      await fs.promises.writeFile(filePath, serializeBookmarksHtml(getBookmarkTree()), 'utf-8');
+      return true;
+    } catch (error: unknown) {
+      console.error('Erro ao exportar favoritos:', error);
+      throw new Error('Não foi possível salvar o arquivo de favoritos');
+    }
+  });
+
+  // Perfis do Chrome, Edge, Brave e Firefox encontrados nos locais padrão
+  ipcMain.handle('browser-import:get-profiles', async (): Promise<BrowserProfile[]> => {
+    try {
+      return await findBrowserProfiles();
+    } catch (error: unknown) {
+      console.error('Erro ao procurar perfis de outros navegadores:', error);
+      return [];
+    }
+  });
+
+  // Pasta de perfil escolhida pelo usuário (null = cancelado)
+  ipcMain.handle('browser-import:choose-profile', async (event): Promise<BrowserProfile | null> => {
+    const owner = getWindowFromSender(event.sender)?.window;
+    const options: Electron.OpenDialogOptions = {
+      title: 'Escolher pasta do perfil',
+      properties: ['openDirectory']
+    };
+    const { canceled, filePaths } = owner ? await dialog.showOpenDialog(owner, options) : await dialog.showOpenDialog(options);
+    if (canceled || filePaths.length === 0) return null;
+
+    const profile = await describeProfileDir(filePaths[0]);
+    if (!profile) {
+      throw new Error('A pasta escolhida não é um perfil do Chrome nem do Firefox');
+    }
+    browserProfiles.set(profile.id, profile);
+    return profile;
+  });
+
+  // Importa o perfil; o progresso vai para a página pelo evento browser-import:progress
+  ipcMain.handle('browser-import:import', async (event, id: string, options: BrowserImportOptions): Promise<BrowserImportResult> => {
+    // ✅ Validação robusta
+    const profile = typeof id === 'string' ? browserProfiles.get(id) : undefined;
+    if (!profile) {
+      throw new Error('Perfil não encontrado');
+    }
+    if (!isValidBrowserImportOptions(options)) {
+      throw new Error('Escolha o que importar');
+    }
+    if (browserImportRunning) {
+      throw new Error('Já existe uma importação em andamento');
+    }
+
+    browserImportRunning = true;
+    try {
+      const result = await importBrowserProfile(profile, options, (progress) => {
+        if (!event.sender.isDestroyed()) {
+          event.sender.send('browser-import:progress', progress);
+        }
+      });
+      if (result.bookmarks && (result.bookmarks.bookmarks > 0 || result.bookmarks.folders > 0)) {
+        broadcastBookmarks();
+      }
+      return result;
+    } catch (error: unknown) {
+      console.error('Erro ao importar perfil:', error);
+      // Arquivo travado pelo outro navegador ou em formato desconhecido: mensagem legível
+      const code = (error as NodeJS.ErrnoException)?.code;
+      if (code && (code.startsWith('SQLITE_') || ['EBUSY', 'EPERM', 'EACCES'].includes(code))) {
+        throw new Error('Não foi possível ler o perfil. Feche o outro navegador e tente de novo');
+      }
+      throw error;
+    } finally {
+      browserImportRunning = false;
+    }
+  });
+
   // Download handlers
   ipcMain.handle('download:show-in-folder', (_e, filePath: string): void => {
     // Validate input parameter
@@ -1371,122 +5191,46 @@ app.whenReady().then(async () => {
     shell.openPath(downloadsPath);
   });
 
-  // Favorites bar visibility handler
-  ipcMain.on('favorites-bar-hidden', (_e, hidden: boolean) => {
-    isFavoritesBarHidden = hidden;
-    resizeActiveTab();
+  // Favorites bar visibility handler (cada janela mostra ou esconde a sua)
+  ipcMain.on('favorites-bar-hidden', (event, hidden: boolean) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win) return;
+    win.isFavoritesBarHidden = hidden;
+    resizeActiveTab(win);
   });
 
   // Find bar visibility handler
-  ipcMain.on('find-bar-visibility', (_e, visible: boolean) => {
-    if (activeTabId) {
-      tabFindBarStates.set(activeTabId, visible);
-      resizeActiveTab();
+  ipcMain.on('find-bar-visibility', (event, visible: boolean) => {
+    const win = getWindowFromSender(event.sender);
+    if (win?.activeTabId) {
+      tabFindBarStates.set(win.activeTabId, visible);
+      resizeActiveTab(win);
     }
   });
 
   // Favorites bar visibility handler
-  ipcMain.on('favorites-bar-visibility', (_e, hidden: boolean) => {
-    isFavoritesBarHidden = hidden;
-    resizeActiveTab();
+  ipcMain.on('favorites-bar-visibility', (event, hidden: boolean) => {
+    const win = getWindowFromSender(event.sender);
+    if (!win) return;
+    win.isFavoritesBarHidden = hidden;
+    resizeActiveTab(win);
   });
 
-  createWindow();
-
   // Tenta restaurar abas salvas
   try {
-    const savedTabs = getTabsFromDatabase();
-    if (savedTabs.length > 0) {
-      // Restaura as abas salvas
-      let activeTabIndex = 0;
-      for (let i = 0; i < savedTabs.length; i++) {
-        const tab = savedTabs[i];
-        createNewTab(tab.url);
-        if (tab.active) {
-          activeTabIndex = i;
-        }
-      }
-      // Aguarda um pouco para garantir que as abas foram criadas e depois ativa a aba correta
-      setTimeout(() => {
-        const tabIds = Array.from(tabs.keys());
-        if (tabIds.length > 0 && activeTabIndex < tabIds.length) {
-          switchToTab(tabIds[activeTabIndex]);
-        }
-      }, 200);
-    } else {
-      // Se não houver abas salvas, cria uma nova aba padrão
-      createNewTab();
-    }
+    await restoreStartupSession();
   } catch (error: unknown) {
     console.error('Erro ao restaurar abas salvas:', error);
     // Em caso de erro, cria uma nova aba padrão
-    createNewTab();
-  }
-
-  // Registrar listener de resize DEPOIS de criar a janela
-  if (mainWindow) {
-    mainWindow.on('resize', resizeActiveTab);
+    createNewTab(browserWindows[0] ?? createWindow());
   }
 
-  // Função auxiliar para lidar com downloads (usada em ambas as sessões)
-  const handleDownload = (_event: Electron.Event, item: Electron.DownloadItem) => {
-    const id = uuidv4();
-    const filename = item.getFilename();
-    const totalBytes = item.getTotalBytes();
-    const savePath = item.getSavePath();
-
-    // Envia evento para mainWindow (UI principal)
-    if (mainWindow && mainWindow.webContents && !mainWindow.webContents.isDestroyed()) {
-      mainWindow.webContents.send('download-started', { id, filename, totalBytes, savePath });
-    }
-
-    // Envia evento para todas as abas (BrowserViews) - especialmente para hera://downloads
-    tabs.forEach((view) => {
-      if (view.webContents && !view.webContents.isDestroyed()) {
-        view.webContents.send('download-started', { id, filename, totalBytes, savePath });
-      }
-    });
-
-    item.on('updated', (_event, state) => {
-      if (state === 'progressing') {
-        const receivedBytes = item.getReceivedBytes();
-        
-        // Envia para mainWindow
-        if (mainWindow && mainWindow.webContents && !mainWindow.webContents.isDestroyed()) {
-          mainWindow.webContents.send('download-progress', { id, receivedBytes, totalBytes, savePath });
-        }
-
-        // Envia para todas as abas
-        tabs.forEach((view) => {
-          if (view.webContents && !view.webContents.isDestroyed()) {
-            view.webContents.send('download-progress', { id, receivedBytes, totalBytes, savePath });
-          }
-        });
-      }
-    });
-
-    item.on('done', (_event, state) => {
-      const path = item.getSavePath();
-      
-      // Envia para mainWindow
-      if (mainWindow && mainWindow.webContents && !mainWindow.webContents.isDestroyed()) {
-        mainWindow.webContents.send('download-complete', { id, state, savePath: path });
-      }
-
-      // Envia para todas as abas
-      tabs.forEach((view) => {
-        if (view.webContents && !view.webContents.isDestroyed()) {
-          view.webContents.send('download-complete', { id, state, savePath: path });
-        }
-      });
+  // Economia de memória: verifica periodicamente as abas em segundo plano
+  setInterval(() => {
+    runMemorySaver().catch((err: unknown) => {
+      console.error('Erro na economia de memória:', err);
     });
-  };
-
-  // Download event listeners - Registra em AMBAS as sessões
-  // defaultSession: para downloads de páginas internas (hera://)
-  // webSession: para downloads de sites externos (https://)
-  session.defaultSession.on('will-download', handleDownload);
-  webSession.on('will-download', handleDownload);
+  }, MEMORY_SAVER_CHECK_INTERVAL_MS);
 }).catch((error: unknown) => {
   console.error('Erro ao inicializar aplicação:', error);
 });
@@ -1518,18 +5262,22 @@ app.whenReady().then(async () => {
 //   }
 // };
 
+// Sair (menu, Cmd+Q ou fechando a última janela): as janelas fecham juntas
+app.on('before-quit', () => {
+  isQuitting = true;
+});
+
 app.on('will-quit', () => {
-  saveTabsToDatabase(Array.from(tabs.keys()).map((id, index) => {
-    const info = tabInfo.get(id);
-    return {
-      id,
-      url: info?.url || '',
-      title: info?.title || '',
-      favicon: info?.favicon,
-      position: index,
-      active: id === activeTabId
-    };
-  }));
+  cancelSessionSave();
+  Array.from(tabVisits.keys()).forEach(endTabVisit);
+  // Com as janelas já fechadas, as páginas podem não existir mais: usa o estado capturado no fechamento
+  const { tabs, groups, windows } = lastSessionSnapshot ?? buildSessionState();
+  // Sem janelas normais (ex: a última a fechar foi privada), mantém a sessão já salva
+  if (windows.length > 0) {
+    saveTabsToDatabase(tabs, groups, windows);
+  }
+  // Saída normal: o próximo início não pergunta se deve restaurar a sessão
+  setSetting('sessionRunning', 'false');
   closeDatabase();
 });
 
@@ -1543,7 +5291,9 @@ app.on('window-all-closed', () => {
 });
 
 app.on('activate', () => {
-  if (BrowserWindow.getAllWindows().length === 0) {
-    createWindow();
+  if (browserWindows.length === 0) {
+    // Nova sessão a partir daqui: a capturada ao fechar a última janela deixa de valer
+    lastSessionSnapshot = null;
+    createNewWindow();
   }
-});
\ No newline at end of file
+});
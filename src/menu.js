@@ -1,17 +1,98 @@
+// Quantidade de abas fechadas listadas no menu
+const MAX_CLOSED_TABS = 5;
+
+// Informa a altura real ao main process para ajustar o BrowserView
+function reportHeight() {
+    requestAnimationFrame(() => {
+        window.heraAPI.send('menu:resize', document.getElementById('main-menu').offsetHeight);
+    });
+}
+
+async function renderClosedTabs() {
+    const list = document.getElementById('menu-closed-tabs');
+    const sectionParts = [
+        document.getElementById('menu-closed-tabs-title'),
+        list,
+        document.getElementById('menu-closed-tabs-separator')
+    ];
+
+    let closedTabs = [];
+    try {
+        closedTabs = await window.heraAPI.getRecentlyClosedTabs(MAX_CLOSED_TABS);
+    } catch (error) {
+        console.error('Erro ao carregar abas fechadas:', error);
+    }
+
+    list.innerHTML = '';
+    closedTabs.forEach((tab) => {
+        const item = document.createElement('div');
+        item.className = 'closed-tab-item';
+        item.title = tab.url;
+
+        const favicon = document.createElement('img');
+        favicon.className = 'closed-tab-favicon';
+        favicon.alt = '';
+        if (tab.favicon) {
+            favicon.src = tab.favicon;
+            favicon.onerror = () => favicon.style.visibility = 'hidden';
+        } else {
+            favicon.style.visibility = 'hidden';
+        }
+
+        // Títulos vêm das páginas: sempre como texto
+        const title = document.createElement('span');
+        title.className = 'closed-tab-title';
+        title.textContent = tab.title || tab.url;
+
+        item.append(favicon, title);
+        item.addEventListener('click', () => {
+            window.heraAPI.reopenClosedTab(tab.id);
+        });
+        list.appendChild(item);
+    });
+
+    sectionParts.forEach((part) => part.classList.toggle('hidden', closedTabs.length === 0));
+    document.getElementById('menu-reopen-tab').classList.toggle('disabled', closedTabs.length === 0);
+    reportHeight();
+}
+
 window.addEventListener('DOMContentLoaded', () => {
     document.getElementById('menu-new-tab').addEventListener('click', () => {
         window.heraAPI.menuAction('new-tab');
     });
+    document.getElementById('menu-new-window').addEventListener('click', () => {
+        window.heraAPI.menuAction('new-window');
+    });
+    document.getElementById('menu-new-private-window').addEventListener('click', () => {
+        window.heraAPI.menuAction('new-private-window');
+    });
+    document.getElementById('menu-reopen-tab').addEventListener('click', (e) => {
+        if (e.currentTarget.classList.contains('disabled')) return;
+        window.heraAPI.menuAction('reopen-closed-tab');
+    });
+    document.getElementById('menu-tab-search').addEventListener('click', () => {
+        window.heraAPI.menuAction('tab-search');
+    });
     document.getElementById('menu-history').addEventListener('click', () => {
         window.heraAPI.menuAction('history');
     });
+    document.getElementById('menu-sessions').addEventListener('click', () => {
+        window.heraAPI.menuAction('sessions');
+    });
     document.getElementById('menu-downloads').addEventListener('click', () => {
         window.heraAPI.menuAction('downloads');
     });
+    document.getElementById('menu-bookmarks').addEventListener('click', () => {
+        window.heraAPI.menuAction('bookmarks');
+    });
     document.getElementById('menu-settings').addEventListener('click', () => {
         window.heraAPI.menuAction('settings');
     });
     document.getElementById('menu-exit').addEventListener('click', () => {
         window.heraAPI.menuAction('exit');
     });
+
+    // A lista muda a cada aba fechada: atualiza sempre que o menu abre
+    window.heraAPI.on('menu:opened', renderClosedTabs);
+    renderClosedTabs();
 });
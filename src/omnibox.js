@@ -1,13 +1,65 @@
 // Omnibox suggestions view
+// As sugestões chegam prontas (e ordenadas) do main process; aqui só renderizamos
+const container = document.getElementById('omnibox-container');
 const suggestionsList = document.getElementById('omnibox-suggestions-list');
 let selectedIndex = -1;
 
+const ICONS = {
+    star: '<polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2"></polygon>',
+    clock: '<circle cx="12" cy="12" r="10"></circle><polyline points="12 6 12 12 16 14"></polyline>',
+    search: '<circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line>',
+    tab: '<rect x="3" y="4" width="18" height="16" rx="2"></rect><path d="M3 9h18"></path>'
+};
+
+const TYPE_LABELS = {
+    bookmark: 'Favorito',
+    history: 'Histórico',
+    tab: 'Alternar para a aba',
+    search: 'Buscar'
+};
+
+function createIcon(suggestion) {
+    const iconType = suggestion.type === 'bookmark' ? 'star'
+        : suggestion.type === 'history' ? 'clock'
+            : suggestion.type === 'tab' ? 'tab' : 'search';
+
+    const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    svg.setAttribute('class', 'omnibox-suggestion-icon');
+    svg.setAttribute('width', '16');
+    svg.setAttribute('height', '16');
+    svg.setAttribute('viewBox', '0 0 24 24');
+    svg.setAttribute('fill', 'none');
+    svg.setAttribute('stroke', 'currentColor');
+    svg.setAttribute('stroke-width', '2');
+    svg.innerHTML = ICONS[iconType];
+
+    if (!suggestion.favicon || suggestion.type === 'search') {
+        return svg;
+    }
+
+    // Favicon com fallback para o ícone do tipo
+    const img = document.createElement('img');
+    img.className = 'omnibox-suggestion-favicon';
+    img.alt = '';
+    img.src = suggestion.favicon;
+    img.onerror = () => img.replaceWith(svg);
+    return img;
+}
+
+// Informa a altura real ao main process para ajustar o BrowserView
+function reportHeight() {
+    requestAnimationFrame(() => {
+        window.heraAPI.send('omnibox:resize', container.offsetHeight);
+    });
+}
+
 // Render suggestions
 function renderSuggestions(suggestions) {
     suggestionsList.innerHTML = '';
     selectedIndex = -1;
 
     if (!suggestions || suggestions.length === 0) {
+        reportHeight();
         return;
     }
 
@@ -17,32 +69,38 @@ function renderSuggestions(suggestions) {
         item.dataset.index = index;
         item.dataset.url = suggestion.url;
 
-        const iconType = suggestion.type === 'bookmark' ? 'star' : suggestion.type === 'history' ? 'clock' : 'search';
-        const iconSvg = suggestion.favicon 
-            ? `<img src="${suggestion.favicon}" class="omnibox-suggestion-favicon" alt="" onerror="this.style.display='none'">`
-            : `<svg class="omnibox-suggestion-icon" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-                ${iconType === 'star' ? '<polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2"></polygon>' : ''}
-                ${iconType === 'clock' ? '<circle cx="12" cy="12" r="10"></circle><polyline points="12 6 12 12 16 14"></polyline>' : ''}
-                ${iconType === 'search' ? '<circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line>' : ''}
-              </svg>`;
-
-        const typeLabel = suggestion.type === 'bookmark' ? 'Favorito' : suggestion.type === 'history' ? 'Histórico' : 'Buscar';
-
-        item.innerHTML = `
-            ${iconSvg}
-            <div class="omnibox-suggestion-content">
-                <div class="omnibox-suggestion-title">${suggestion.title}</div>
-                <div class="omnibox-suggestion-url">${suggestion.url}</div>
-            </div>
-            <span class="omnibox-suggestion-type">${typeLabel}</span>
-        `;
+        // Títulos vêm das páginas visitadas: sempre como texto, nunca como HTML
+        const content = document.createElement('div');
+        content.className = 'omnibox-suggestion-content';
+
+        const title = document.createElement('div');
+        title.className = 'omnibox-suggestion-title';
+        title.textContent = suggestion.title;
+        content.appendChild(title);
+
+        if (suggestion.type !== 'search') {
+            const url = document.createElement('div');
+            url.className = 'omnibox-suggestion-url';
+            url.textContent = suggestion.url;
+            content.appendChild(url);
+        }
+
+        const typeLabel = document.createElement('span');
+        typeLabel.className = 'omnibox-suggestion-type';
+        typeLabel.textContent = TYPE_LABELS[suggestion.type] || '';
+
+        item.appendChild(createIcon(suggestion));
+        item.appendChild(content);
+        item.appendChild(typeLabel);
 
         item.addEventListener('click', () => {
-            window.heraAPI.send('omnibox:select', suggestion.url);
+            window.heraAPI.send('omnibox:select', index);
         });
 
         suggestionsList.appendChild(item);
     });
+
+    reportHeight();
 }
 
 // Listen for suggestions from main window
@@ -61,4 +119,9 @@ if (window.heraAPI) {
             items[index].scrollIntoView({ block: 'nearest' });
         }
     });
+
+    // Clicou fora depois de focar o omnibox (ex: na barra de rolagem)
+    window.addEventListener('blur', () => {
+        window.heraAPI.send('omnibox:hide');
+    });
 }
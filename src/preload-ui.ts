@@ -16,13 +16,35 @@ import type {
   HeraAPI,
   Bookmark,
   BookmarkFolder,
+  BookmarkInput,
+  BookmarkImportResult,
   HistoryEntry,
+  HistorySearchOptions,
+  HistorySearchResult,
+  VisitEntry,
+  SearchEngine,
+  SearchEngineInput,
+  ClosedTab,
+  TabGroup,
+  TabGroupInput,
+  Container,
+  ContainerInput,
+  NamedSession,
   NavigationState,
+  InlineCompletion,
+  SplitViewChanges,
+  TabLayout,
+  BrowserProfile,
+  BrowserImportOptions,
+  BrowserImportResult,
   TabCreatedCallback,
   TabSwitchedCallback,
   TabUpdatedCallback,
   TabClosedCallback,
   TabLoadingCallback,
+  TabMovedCallback,
+  TabGroupUpdatedCallback,
+  TabGroupRemovedCallback,
   UIVisibilityCallback,
   WindowMaximizedCallback,
   GenericCallback,
@@ -36,6 +58,31 @@ const heraAPI: HeraAPI = {
   createNewTab: (url?: string): Promise<void> => ipcRenderer.invoke('tab:new', url),
   switchToTab: (id: string): Promise<void> => ipcRenderer.invoke('tab:switch', id),
   closeTab: (id: string): Promise<void> => ipcRenderer.invoke('tab:close', id),
+  getRecentlyClosedTabs: (limit?: number): Promise<ClosedTab[]> => ipcRenderer.invoke('tabs:closed-list', limit),
+  reopenClosedTab: (id?: number): Promise<boolean> => ipcRenderer.invoke('tabs:reopen-closed', id),
+  moveTab: (id: string, index: number): Promise<void> => ipcRenderer.invoke('tab:move', id, index),
+  pinTab: (id: string): Promise<void> => ipcRenderer.invoke('tab:pin', id),
+  unpinTab: (id: string): Promise<void> => ipcRenderer.invoke('tab:unpin', id),
+  closeOtherTabs: (id: string): Promise<void> => ipcRenderer.invoke('tab:close-others', id),
+  moveTabToWindow: (id: string, index: number): Promise<void> => ipcRenderer.invoke('tab:move-to-window', id, index),
+  moveTabToNewWindow: (id: string, position?: { x: number; y: number }): Promise<void> => ipcRenderer.invoke('tab:move-to-new-window', id, position),
+
+  // Tab Groups
+  getTabGroups: (): Promise<TabGroup[]> => ipcRenderer.invoke('tab-groups:get'),
+  createTabGroup: (tabIds: string[], input?: TabGroupInput): Promise<string | null> => ipcRenderer.invoke('tab-groups:create', tabIds, input),
+  updateTabGroup: (groupId: string, changes: TabGroupInput): Promise<boolean> => ipcRenderer.invoke('tab-groups:update', groupId, changes),
+  ungroupTabs: (groupId: string): Promise<void> => ipcRenderer.invoke('tab-groups:ungroup', groupId),
+  moveTabToGroup: (tabId: string, groupId: string | null): Promise<void> => ipcRenderer.invoke('tab-groups:move-tab', tabId, groupId),
+
+  // Tab Layout
+  getTabLayout: (): Promise<TabLayout> => ipcRenderer.invoke('tab-layout:get'),
+
+  // Split View
+  openSplitView: (tabId?: string): Promise<void> => ipcRenderer.invoke('split-view:open', tabId),
+  closeSplitView: (): Promise<void> => ipcRenderer.invoke('split-view:close'),
+  updateSplitView: (changes: SplitViewChanges): Promise<void> => ipcRenderer.invoke('split-view:update', changes),
+  startSplitViewResize: () => ipcRenderer.send('split-view:start-resize'),
+  showSplitViewMenu: () => ipcRenderer.send('split-view:context-menu'),
 
   // Navigation Actions
   navigateTo: (url: string): Promise<void> => ipcRenderer.invoke('nav:to', url),
@@ -48,10 +95,21 @@ const heraAPI: HeraAPI = {
   windowMinimize: (): Promise<void> => ipcRenderer.invoke('window:minimize'),
   windowMaximize: (): Promise<void> => ipcRenderer.invoke('window:maximize'),
   windowClose: (): Promise<void> => ipcRenderer.invoke('window:close'),
+  newWindow: (): Promise<void> => ipcRenderer.invoke('window:new'),
+  newPrivateWindow: (): Promise<void> => ipcRenderer.invoke('window:new-private'),
+  isPrivateWindow: (): Promise<boolean> => ipcRenderer.invoke('window:is-private'),
 
   // History Actions
   getHistory: (): Promise<HistoryEntry[]> => ipcRenderer.invoke('history:get'),
+  searchHistory: (query: string, options?: HistorySearchOptions): Promise<HistorySearchResult[]> => ipcRenderer.invoke('history:search', query, options),
+  getHistoryVisits: (url: string): Promise<VisitEntry[]> => ipcRenderer.invoke('history:visits', url),
+  getInlineCompletion: (text: string): Promise<InlineCompletion | null> => ipcRenderer.invoke('history:inline-complete', text),
   clearHistory: (): Promise<void> => ipcRenderer.invoke('history:clear'),
+  deleteHistoryItem: (id: number): Promise<boolean> => ipcRenderer.invoke('history:delete-item', id),
+  deleteHistoryItems: (ids: number[]): Promise<number> => ipcRenderer.invoke('history:delete-items', ids),
+  deleteHistoryByUrl: (url: string): Promise<number> => ipcRenderer.invoke('history:delete-url', url),
+  deleteHistoryByDomain: (domain: string): Promise<number> => ipcRenderer.invoke('history:delete-domain', domain),
+  deleteHistoryRange: (from: number, to: number): Promise<number> => ipcRenderer.invoke('history:delete-range', from, to),
 
   // Bookmark Actions
   addBookmark: (url: string, title: string, favicon?: string, folderId?: string): Promise<Bookmark> => ipcRenderer.invoke('bookmark:add', url, title, favicon, folderId),
@@ -60,12 +118,48 @@ const heraAPI: HeraAPI = {
   searchBookmarks: (query: string): Promise<Bookmark[]> => ipcRenderer.invoke('bookmark:search', query),
   createBookmarkFolder: (name: string, parentId?: string): Promise<BookmarkFolder> => ipcRenderer.invoke('bookmark:create-folder', name, parentId),
   getBookmarkFolders: (parentId?: string): Promise<BookmarkFolder[]> => ipcRenderer.invoke('bookmark:get-folders', parentId),
+  updateBookmark: (id: string, changes: BookmarkInput): Promise<boolean> => ipcRenderer.invoke('bookmark:update', id, changes),
+  moveBookmark: (id: string, folderId: string | null, position: number): Promise<boolean> => ipcRenderer.invoke('bookmark:move', id, folderId, position),
+  renameBookmarkFolder: (id: string, name: string): Promise<boolean> => ipcRenderer.invoke('bookmark:rename-folder', id, name),
+  deleteBookmarkFolder: (id: string): Promise<boolean> => ipcRenderer.invoke('bookmark:delete-folder', id),
+  importBookmarksHtml: (): Promise<BookmarkImportResult | null> => ipcRenderer.invoke('bookmark:import-html'),
+  exportBookmarksHtml: (): Promise<boolean> => ipcRenderer.invoke('bookmark:export-html'),
+
+  // Browser Import Actions
+  getBrowserProfiles: (): Promise<BrowserProfile[]> => ipcRenderer.invoke('browser-import:get-profiles'),
+  chooseBrowserProfile: (): Promise<BrowserProfile | null> => ipcRenderer.invoke('browser-import:choose-profile'),
+  importBrowserProfile: (id: string, options: BrowserImportOptions): Promise<BrowserImportResult> => ipcRenderer.invoke('browser-import:import', id, options),
 
   // Settings Actions
   getSetting: (key: string): Promise<string | null> => ipcRenderer.invoke('settings:get', key),
   setSetting: (key: string, value: string): Promise<boolean> => ipcRenderer.invoke('settings:set', key, value),
   getAllSettings: (): Promise<Record<string, string>> => ipcRenderer.invoke('settings:getAll'),
 
+  // Search Engine Actions
+  getSearchEngines: (): Promise<SearchEngine[]> => ipcRenderer.invoke('search-engines:get'),
+  addSearchEngine: (engine: SearchEngineInput): Promise<SearchEngine> => ipcRenderer.invoke('search-engines:add', engine),
+  updateSearchEngine: (id: string, changes: Partial<SearchEngineInput>): Promise<SearchEngine | null> => ipcRenderer.invoke('search-engines:update', id, changes),
+  removeSearchEngine: (id: string): Promise<boolean> => ipcRenderer.invoke('search-engines:remove', id),
+  resolveAddressInput: (text: string): Promise<string> => ipcRenderer.invoke('search:resolve', text),
+
+  // Container Actions
+  getContainers: (): Promise<Container[]> => ipcRenderer.invoke('containers:get'),
+  addContainer: (container: ContainerInput): Promise<Container> => ipcRenderer.invoke('containers:add', container),
+  updateContainer: (id: string, changes: Partial<ContainerInput>): Promise<Container | null> => ipcRenderer.invoke('containers:update', id, changes),
+  removeContainer: (id: string): Promise<boolean> => ipcRenderer.invoke('containers:remove', id),
+  openTabInContainer: (containerId: string | null, url?: string): Promise<void> => ipcRenderer.invoke('containers:open-tab', containerId, url),
+
+  // Named Sessions
+  getSessions: (): Promise<NamedSession[]> => ipcRenderer.invoke('sessions:get'),
+  getActiveSessionId: (): Promise<string | null> => ipcRenderer.invoke('sessions:get-active'),
+  saveSession: (name: string): Promise<NamedSession> => ipcRenderer.invoke('sessions:save', name),
+  openSession: (id: string): Promise<boolean> => ipcRenderer.invoke('sessions:open', id),
+  mergeSession: (id: string): Promise<boolean> => ipcRenderer.invoke('sessions:merge', id),
+  renameSession: (id: string, name: string): Promise<NamedSession | null> => ipcRenderer.invoke('sessions:rename', id, name),
+  deleteSession: (id: string): Promise<boolean> => ipcRenderer.invoke('sessions:remove', id),
+  exportSession: (id: string): Promise<boolean> => ipcRenderer.invoke('sessions:export', id),
+  importSession: (): Promise<NamedSession | null> => ipcRenderer.invoke('sessions:import'),
+
   // Download Actions
   showItemInFolder: (path: string): Promise<void> => ipcRenderer.invoke('download:show-in-folder', path),
   openFile: (path: string): Promise<void> => ipcRenderer.invoke('download:open-file', path),
@@ -74,7 +168,11 @@ const heraAPI: HeraAPI = {
   toggleMenu: () => {
     ipcRenderer.send('menu:toggle');
   },
+  toggleTabSearch: () => ipcRenderer.send('tab-search:toggle'),
   menuAction: (action: string) => ipcRenderer.send('menu:action', action),
+  showTabContextMenu: (id: string) => ipcRenderer.send('tab:context-menu', id),
+  showTabGroupContextMenu: (groupId: string) => ipcRenderer.send('tab-groups:context-menu', groupId),
+  showNewTabMenu: () => ipcRenderer.send('tab:new-tab-menu'),
 
   // Listeners from Main Process
   onTabCreated: (callback: TabCreatedCallback) => {
@@ -92,6 +190,15 @@ const heraAPI: HeraAPI = {
   onTabLoading: (callback: TabLoadingCallback) => {
     ipcRenderer.on('tab-loading', (_, id, isLoading) => callback(id, isLoading));
   },
+  onTabMoved: (callback: TabMovedCallback) => {
+    ipcRenderer.on('tab-moved', (_, id, position) => callback(id, position));
+  },
+  onTabGroupUpdated: (callback: TabGroupUpdatedCallback) => {
+    ipcRenderer.on('tab-group-updated', (_, group) => callback(group));
+  },
+  onTabGroupRemoved: (callback: TabGroupRemovedCallback) => {
+    ipcRenderer.on('tab-group-removed', (_, groupId) => callback(groupId));
+  },
   onSetUIVisibility: (callback: UIVisibilityCallback) => {
     ipcRenderer.on('set-ui-visibility', (_, visible) => callback(visible));
   },
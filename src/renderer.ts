@@ -6,7 +6,12 @@ import './index.css';
 import type {
   HeraAPI,
   Bookmark,
-  HistoryEntry,
+  Container,
+  HistorySearchResult,
+  InlineCompletion,
+  SplitViewLayout,
+  TabGroup,
+  TabLayout,
   TabUpdateInfo
 } from './types';
 
@@ -16,6 +21,21 @@ import {
   validateHistoryEntries
 } from './types';
 
+import {
+  HISTORY_SEARCH_PAGE_SIZE,
+  HISTORY_SEARCH_DEBOUNCE_MS,
+  TAB_GROUP_COLORS,
+  TAB_GROUP_MAX_NAME_LENGTH,
+  SPLIT_VIEW_DIVIDER_SIZE,
+  SPLIT_VIEW_DEFAULT_RATIO,
+  SPLIT_VIEW_MIN_RATIO,
+  SPLIT_VIEW_MAX_RATIO,
+  VERTICAL_TABS_DEFAULT_WIDTH,
+  VERTICAL_TABS_MIN_WIDTH,
+  VERTICAL_TABS_MAX_WIDTH,
+  TAB_TREE_MAX_DEPTH
+} from './constants';
+
 // ========================================
 // DECLARAÇÃO GLOBAL DA API
 // ========================================
@@ -101,9 +121,28 @@ window.addEventListener('DOMContentLoaded', () => {
   const findNextBtn = document.getElementById('find-next')!;
   const findCloseBtn = document.getElementById('find-close')!;
 
+  // Vertical Tabs
+  const tabSidebarResizer = document.getElementById('tab-sidebar-resizer')!;
+
+  // Split View
+  const splitDivider = document.getElementById('split-divider')!;
+  const splitResizePreview = document.getElementById('split-resize-preview')!;
+
   // ========================================// ESTADO DA APLICAÇÃO// ========================================
   let activeTabId: string | null = null;
   const tabsOrder: string[] = [];
+  // Abas fixadas ficam sempre no início de tabsOrder
+  const pinnedTabs = new Set<string>();
+  // Grupos de abas (dados vindos do main process) e o grupo de cada aba
+  const tabGroups = new Map<string, TabGroup>();
+  const tabGroupIds = new Map<string, string>();
+  // Contêineres (cor das abas) e o contêiner de cada aba
+  const containers = new Map<string, Container>();
+  const tabContainerIds = new Map<string, string>();
+  // Aba de origem de cada aba aberta a partir de outra (árvore da barra lateral)
+  const tabOpenerIds = new Map<string, string>();
+  // Abas no topo ou na barra lateral (vem do main process, igual em todas as janelas)
+  let tabLayout: TabLayout = { mode: 'horizontal', sidebarWidth: VERTICAL_TABS_DEFAULT_WIDTH };
   
   // Find in Page state - agora por aba
   interface TabFindState {
@@ -112,6 +151,11 @@ window.addEventListener('DOMContentLoaded', () => {
   }
   const tabFindStates = new Map<string, TabFindState>();
 
+  // Tela dividida da janela (abas e posição da divisória vêm do main process)
+  let splitTabIds: string[] = [];
+  let splitLayout: SplitViewLayout | null = null;
+  let splitResizeRatio: number | null = null; // Proporção durante o arraste da divisória
+
   // ========================================
   // BARRA DE FAVORITOS
   // ========================================
@@ -201,7 +245,209 @@ window.addEventListener('DOMContentLoaded', () => {
   }
 
   // ========================================// FUNÇÕES DE GERENCIAMENTO DE ABAS// ========================================
-  const addTabToUI = (id: string, title: string, favicon?: string) => {
+  // Abas fixadas não saem do bloco inicial, e as demais não entram nele
+  const getAllowedTabPosition = (position: number, pinned: boolean): number => {
+    return pinned
+      ? Math.max(0, Math.min(position, pinnedTabs.size))
+      : Math.max(pinnedTabs.size, Math.min(position, tabsOrder.length));
+  };
+
+  const insertTabAt = (tabElement: HTMLElement, id: string, position: number) => {
+    const nextTab = document.getElementById(`tab-${tabsOrder[position]}`);
+    tabBar.insertBefore(tabElement, nextTab ?? addTabBtn);
+    tabsOrder.splice(position, 0, id);
+  };
+
+  // Abas fixadas mostram só o ícone: o título aparece no tooltip
+  const updateTabTooltip = (tabElement: HTMLElement) => {
+    if (tabElement.classList.contains('discarded')) {
+      tabElement.title = 'Aba descarregada para economizar memória';
+    } else if (tabElement.classList.contains('pinned')) {
+      tabElement.title = tabElement.querySelector('.tab-title')?.textContent ?? '';
+    } else {
+      tabElement.title = '';
+    }
+  };
+
+  // Rótulo do grupo: clique recolhe/expande, botão direito abre o menu do grupo
+  const createTabGroupLabel = (group: TabGroup): HTMLElement => {
+    const label = document.createElement('div');
+    label.className = 'tab-group-label';
+    label.classList.toggle('collapsed', group.collapsed);
+    label.classList.toggle('unnamed', !group.name);
+    label.dataset.groupId = group.id;
+    label.style.setProperty('--group-color', TAB_GROUP_COLORS[group.color].hex);
+    label.textContent = group.name;
+    label.title = group.collapsed ? 'Expandir grupo' : 'Recolher grupo';
+
+    label.addEventListener('click', () => {
+      window.heraAPI.updateTabGroup(group.id, { collapsed: !group.collapsed });
+    });
+    label.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      window.heraAPI.showTabGroupContextMenu(group.id);
+    });
+    return label;
+  };
+
+  // Redesenha os rótulos (antes da primeira aba de cada grupo) e marca as abas agrupadas
+  const renderTabGroups = () => {
+    tabBar.querySelectorAll('.tab-group-label').forEach((label) => label.remove());
+
+    let previousGroupId: string | undefined;
+    tabsOrder.forEach((id) => {
+      const tabElement = document.getElementById(`tab-${id}`);
+      if (!tabElement) return;
+
+      const group = tabGroups.get(tabGroupIds.get(id) ?? '');
+      tabElement.classList.toggle('grouped', group !== undefined);
+      tabElement.classList.toggle('group-collapsed', group?.collapsed ?? false);
+      if (group) {
+        tabElement.style.setProperty('--group-color', TAB_GROUP_COLORS[group.color].hex);
+        if (group.id !== previousGroupId) {
+          tabBar.insertBefore(createTabGroupLabel(group), tabElement);
+        }
+      } else {
+        tabElement.style.removeProperty('--group-color');
+      }
+      previousGroupId = group?.id;
+    });
+  };
+
+  // Marca as abas de contêiner com a cor do contêiner (faixa no topo da aba)
+  const renderTabContainers = () => {
+    tabContainerIds.forEach((containerId, id) => {
+      const tabElement = document.getElementById(`tab-${id}`);
+      const container = containers.get(containerId);
+      if (!tabElement) return;
+
+      tabElement.classList.toggle('in-container', container !== undefined);
+      if (container) {
+        tabElement.style.setProperty('--container-color', TAB_GROUP_COLORS[container.color].hex);
+      } else {
+        tabElement.style.removeProperty('--container-color');
+      }
+    });
+  };
+
+  const loadContainers = (list: Container[]) => {
+    containers.clear();
+    list.forEach((container) => containers.set(container.id, container));
+    renderTabContainers();
+  };
+
+  // Árvore de abas: a aba fica um nível abaixo da origem quando vem logo depois dela (ou
+  // de outros descendentes dela); fora de sequência, volta ao primeiro nível
+  const renderTabTree = () => {
+    const ancestors: string[] = [];
+    tabsOrder.forEach((id) => {
+      const openerId = tabOpenerIds.get(id);
+      ancestors.splice(openerId ? ancestors.lastIndexOf(openerId) + 1 : 0);
+      document.getElementById(`tab-${id}`)?.style.setProperty('--tab-depth', String(Math.min(ancestors.length, TAB_TREE_MAX_DEPTH)));
+      ancestors.push(id);
+    });
+  };
+
+  // Troca o rótulo do grupo por um campo de texto (Enter salva, Esc cancela)
+  const startTabGroupRename = (groupId: string) => {
+    const group = tabGroups.get(groupId);
+    const label = tabBar.querySelector<HTMLElement>(`.tab-group-label[data-group-id="${groupId}"]`);
+    if (!group || !label) return;
+
+    const input = document.createElement('input');
+    input.className = 'tab-group-name-input';
+    input.value = group.name;
+    input.maxLength = TAB_GROUP_MAX_NAME_LENGTH;
+    input.placeholder = 'Nome do grupo';
+
+    let finished = false;
+    const finish = (save: boolean) => {
+      if (finished) return;
+      finished = true;
+      if (save && input.value.trim() !== group.name) {
+        window.heraAPI.updateTabGroup(groupId, { name: input.value });
+      } else {
+        renderTabGroups();
+      }
+    };
+
+    input.addEventListener('click', (e) => e.stopPropagation());
+    input.addEventListener('keydown', (e) => {
+      e.stopPropagation();
+      if (e.key === 'Enter') finish(true);
+      if (e.key === 'Escape') finish(false);
+    });
+    input.addEventListener('blur', () => finish(true));
+
+    label.classList.remove('unnamed');
+    label.replaceChildren(input);
+    input.focus();
+    input.select();
+  };
+
+  // Arrastar e soltar: a UI só pede a nova posição, o main process decide e avisa com onTabMoved
+  // O ID da aba vai num tipo próprio, para a aba poder ser solta na barra de outra janela
+  const TAB_DRAG_TYPE = 'application/x-hera-tab';
+  let draggedTabId: string | null = null;
+
+  const isTabDrag = (e: DragEvent): boolean => e.dataTransfer?.types.includes(TAB_DRAG_TYPE) ?? false;
+
+  // Aba solta na posição `index` desta barra: vinda desta janela é reordenada, de outra é trazida para cá
+  const dropTabAt = (id: string, index: number) => {
+    if (tabsOrder.includes(id)) {
+      window.heraAPI.moveTab(id, tabsOrder.indexOf(id) < index ? index - 1 : index);
+    } else {
+      window.heraAPI.moveTabToWindow(id, index);
+    }
+  };
+
+  // Soltar fora de qualquer janela abre a aba numa janela nova, onde foi solta
+  const isOutsideWindow = (e: DragEvent): boolean =>
+    e.screenX < window.screenX || e.screenX > window.screenX + window.outerWidth ||
+    e.screenY < window.screenY || e.screenY > window.screenY + window.outerHeight;
+
+  const clearTabDropIndicator = () => {
+    tabBar.querySelectorAll('.drop-before, .drop-after').forEach((tab) => tab.classList.remove('drop-before', 'drop-after'));
+  };
+
+  // Soltar na metade esquerda de uma aba insere antes dela; na metade direita, depois
+  // (na barra lateral, na metade de cima ou na de baixo)
+  const isDropAfter = (e: DragEvent, tabElement: HTMLElement): boolean => {
+    const rect = tabElement.getBoundingClientRect();
+    return tabLayout.mode === 'vertical'
+      ? e.clientY > rect.top + rect.height / 2
+      : e.clientX > rect.left + rect.width / 2;
+  };
+
+  const handleTabDragOver = (e: DragEvent, targetId: string) => {
+    if (!isTabDrag(e) || draggedTabId === targetId) return;
+    e.preventDefault();
+    const tabElement = e.currentTarget as HTMLElement;
+    clearTabDropIndicator();
+    tabElement.classList.add(isDropAfter(e, tabElement) ? 'drop-after' : 'drop-before');
+  };
+
+  const handleTabDrop = (e: DragEvent, targetId: string) => {
+    const id = isTabDrag(e) ? e.dataTransfer.getData(TAB_DRAG_TYPE) : '';
+    if (!id || id === targetId) return;
+    e.preventDefault();
+    clearTabDropIndicator();
+
+    dropTabAt(id, tabsOrder.indexOf(targetId) + (isDropAfter(e, e.currentTarget as HTMLElement) ? 1 : 0));
+  };
+
+  // Soltar no espaço vazio da barra leva a aba para o fim
+  tabBar.addEventListener('dragover', (e) => {
+    if (isTabDrag(e)) e.preventDefault();
+  });
+  tabBar.addEventListener('drop', (e) => {
+    const id = isTabDrag(e) ? e.dataTransfer.getData(TAB_DRAG_TYPE) : '';
+    if (!id || e.defaultPrevented) return;
+    e.preventDefault();
+    dropTabAt(id, tabsOrder.length);
+  });
+
+  const addTabToUI = (id: string, title: string, favicon?: string, position?: number, pinned = false) => {
     const tabButton = document.createElement('button');
     tabButton.id = `tab-${id}`;
     tabButton.className = 'tab-item';
@@ -263,10 +509,56 @@ window.addEventListener('DOMContentLoaded', () => {
     });
 
     tabButton.addEventListener('click', () => window.heraAPI.switchToTab(id));
+    tabButton.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      window.heraAPI.showTabContextMenu(id);
+    });
+
+    tabButton.draggable = true;
+    tabButton.addEventListener('dragstart', (e) => {
+      draggedTabId = id;
+      if (e.dataTransfer) {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData(TAB_DRAG_TYPE, id);
+        e.dataTransfer.setData('text/plain', id);
+      }
+      tabButton.classList.add('dragging');
+    });
+    tabButton.addEventListener('dragend', (e) => {
+      draggedTabId = null;
+      tabButton.classList.remove('dragging');
+      clearTabDropIndicator();
+      if (e.dataTransfer?.dropEffect === 'none' && isOutsideWindow(e)) {
+        window.heraAPI.moveTabToNewWindow(id, { x: e.screenX, y: e.screenY });
+      }
+    });
+    tabButton.addEventListener('dragover', (e) => handleTabDragOver(e, id));
+    tabButton.addEventListener('dragleave', () => tabButton.classList.remove('drop-before', 'drop-after'));
+    tabButton.addEventListener('drop', (e) => handleTabDrop(e, id));
 
     tabButton.append(faviconImg, tabTitle, closeBtn);
-    tabBar.insertBefore(tabButton, addTabBtn);
-    tabsOrder.push(id);
+
+    if (pinned) {
+      pinnedTabs.add(id);
+      tabButton.classList.add('pinned');
+      updateTabTooltip(tabButton);
+    }
+
+    // Abas reabertas voltam para a posição original (respeitando o bloco de fixadas)
+    insertTabAt(tabButton, id, getAllowedTabPosition(position ?? tabsOrder.length, pinned));
+    renderTabGroups();
+    renderTabTree();
+  };
+
+  const moveTabInUI = (id: string, position: number) => {
+    const tabElement = document.getElementById(`tab-${id}`);
+    const index = tabsOrder.indexOf(id);
+    if (!tabElement || index === -1) return;
+
+    tabsOrder.splice(index, 1);
+    insertTabAt(tabElement, id, Math.max(0, Math.min(position, tabsOrder.length)));
+    renderTabGroups();
+    renderTabTree();
   };
 
   const setActiveTab = (id: string) => {
@@ -285,6 +577,12 @@ window.addEventListener('DOMContentLoaded', () => {
     if (index > -1) {
       tabsOrder.splice(index, 1);
     }
+    pinnedTabs.delete(id);
+    tabGroupIds.delete(id);
+    tabContainerIds.delete(id);
+    tabOpenerIds.delete(id);
+    renderTabGroups();
+    renderTabTree();
     // Limpa o estado de busca da aba fechada
     tabFindStates.delete(id);
   };
@@ -296,6 +594,7 @@ window.addEventListener('DOMContentLoaded', () => {
     if (info.title) {
       const titleElement = tabElement.querySelector('.tab-title');
       if (titleElement) titleElement.textContent = info.title;
+      updateTabTooltip(tabElement);
     }
 
     if (info.favicon) {
@@ -340,6 +639,39 @@ window.addEventListener('DOMContentLoaded', () => {
       }
     }
 
+    if (info.discarded !== undefined) {
+      tabElement.classList.toggle('discarded', info.discarded);
+      updateTabTooltip(tabElement);
+    }
+
+    if (info.pinned !== undefined) {
+      if (info.pinned) {
+        pinnedTabs.add(id);
+      } else {
+        pinnedTabs.delete(id);
+      }
+      tabElement.classList.toggle('pinned', info.pinned);
+      updateTabTooltip(tabElement);
+    }
+
+    if (info.groupId !== undefined) {
+      if (info.groupId) {
+        tabGroupIds.set(id, info.groupId);
+      } else {
+        tabGroupIds.delete(id);
+      }
+      renderTabGroups();
+    }
+
+    if (info.openerId !== undefined) {
+      if (info.openerId) {
+        tabOpenerIds.set(id, info.openerId);
+      } else {
+        tabOpenerIds.delete(id);
+      }
+      renderTabTree();
+    }
+
     if (info.loading !== undefined) {
       tabElement.classList.toggle('loading', info.loading);
     }
@@ -402,122 +734,60 @@ window.addEventListener('DOMContentLoaded', () => {
     }
   };
 
-  // Função para obter URL de busca baseada na configuração
-  // ========================================// OMNIBOX INTELIGENTE (v2.0.0)// ========================================
-  // const omniboxSuggestions: Array<{ type: 'history' | 'bookmark' | 'search'; title: string; url: string; favicon?: string }> = [];
-  // let selectedSuggestionIndex = -1;
-
-  // Função para buscar sugestões baseadas no texto digitado
-  // const getOmniboxSuggestions = async (query: string): Promise<Array<{ type: 'history' | 'bookmark' | 'search'; title: string; url: string; favicon?: string }>> => {
-  //   const suggestions: Array<{ type: 'history' | 'bookmark' | 'search'; title: string; url: string; favicon?: string }> = [];
-    
-    // if (!query || query.length < 2) return suggestions;
-// 
-    // try {
-      // Buscar no histórico
-      // const historyRaw = await window.heraAPI.getHistory();
-      // const history = validateHistoryEntries(historyRaw);
-      // const historyMatches = history
-        // .filter((item: HistoryEntry) => 
-          // item.title.toLowerCase().includes(query.toLowerCase()) || 
-          // item.url.toLowerCase().includes(query.toLowerCase())
-        // )
-        // .slice(0, 5)
-        // .map((item: HistoryEntry) => ({
-          // type: 'history' as const,
-          // title: item.title,
-          // url: item.url,
-          // favicon: undefined
-        // }));
-      // 
-      // suggestions.push(...historyMatches);
-// 
-      // Buscar nos favoritos
-      // const bookmarksRaw = await window.heraAPI.searchBookmarks(query);
-      // const bookmarks = validateBookmarks(bookmarksRaw);
-      // const bookmarkMatches = bookmarks
-        // .slice(0, 3)
-        // .map((bookmark: Bookmark) => ({
-          // type: 'bookmark' as const,
-          // title: bookmark.title,
-          // url: bookmark.url || '',
-          // favicon: bookmark.favicon
-        // }));
-      // 
-      // suggestions.push(...bookmarkMatches);
-    // } catch (error: unknown) {
-      // if (error instanceof Error) {
-        // console.error('Erro ao buscar sugestões:', error.message);
-      // } else {
-        // console.error('Erro ao buscar sugestões:', error);
-      // }
-    // }
-// 
-    // return suggestions.slice(0, 8); // Máximo 8 sugestões
-  // };
-// 
-  const getSearchUrl = async (query: string): Promise<string> => {
-    try {
-      const searchEngine = await window.heraAPI.getSetting('searchEngine') || 'google';
-      
-      const searchEngines: Record<string, string> = {
-        google: `https://www.google.com/search?q=${encodeURIComponent(query)}`,
-        brave: `https://search.brave.com/search?q=${encodeURIComponent(query)}`,
-        duckduckgo: `https://duckduckgo.com/?q=${encodeURIComponent(query)}`
-      };
-
-      return searchEngines[searchEngine] || searchEngines.google;
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        console.error('Erro ao obter mecanismo de busca:', error.message);
-      } else {
-        console.error('Erro ao obter mecanismo de busca:', error);
-      }
-      return `https://www.google.com/search?q=${encodeURIComponent(query)}`;
-    }
-  };
+  // Autocompletar inline ativo na barra de endereços (null = nenhum)
+  let inlineCompletion: InlineCompletion | null = null;
 
   const handleUrlSubmit = async () => {
     const text = urlInput.value.trim();
     if (!text) return;
 
+    // Autocompletar aceito: usa a URL do histórico (com o protocolo correto)
+    if (inlineCompletion && text.toLowerCase() === inlineCompletion.text.toLowerCase()) {
+      window.heraAPI.navigateTo(inlineCompletion.url);
+      inlineCompletion = null;
+      urlInput.blur();
+      return;
+    }
+
     try {
-      new URL(text);
-      window.heraAPI.navigateTo(text);
-    } catch (_: unknown) {
-      const isUrlLike = /^(localhost)|([a-zA-Z0-9-]+\.)+[a-zA-Z]{2,}/.test(text);
-      if (isUrlLike && !text.startsWith('http')) {
-        window.heraAPI.navigateTo('https://' + text);
+      // URL direta, palavra-chave de mecanismo de busca ou busca padrão
+      const url = await window.heraAPI.resolveAddressInput(text);
+      window.heraAPI.navigateTo(url);
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        console.error('Erro ao interpretar endereço:', error.message);
       } else {
-        const searchUrl = await getSearchUrl(text);
-        window.heraAPI.navigateTo(searchUrl);
+        console.error('Erro ao interpretar endereço:', error);
       }
     }
     urlInput.blur();
   };
 
   // ========================================// PÁGINA DE HISTÓRICO// ========================================
-  const showHistoryPage = async () => {
+  const showHistoryPage = async (query = '') => {
     historyPage.classList.remove('hidden');
     historyList.innerHTML = '<div style="text-align: center; padding: 40px; color: #888;">Carregando...</div>';
 
     try {
-      const historyRaw = await window.heraAPI.getHistory();
-      const history = validateHistoryEntries(historyRaw);
+      // Busca no índice full-text (sem query retorna as visitas mais recentes)
+      const results = await window.heraAPI.searchHistory(query, { limit: HISTORY_SEARCH_PAGE_SIZE });
+      const history = validateHistoryEntries(results) as HistorySearchResult[];
       historyList.innerHTML = '';
 
       const historyEmpty = document.getElementById('history-empty')!;
       if (!history || history.length === 0) {
         historyList.innerHTML = '';
         historyEmpty.classList.remove('hidden');
+        const p = historyEmpty.querySelector('p');
+        if (p) p.textContent = query ? 'Nenhum resultado encontrado' : 'Nenhum histórico';
+        const span = historyEmpty.querySelector('span');
+        if (span) span.textContent = query ? 'Tente uma busca diferente' : '';
         return;
       } else {
         historyEmpty.classList.add('hidden');
       }
 
-
-
-      history.forEach((item: HistoryEntry) => {
+      history.forEach((item: HistorySearchResult) => {
         const el = document.createElement('div');
         el.className = 'history-item';
         el.title = `${item.url}\n${new Date(item.timestamp).toLocaleString()}`;
@@ -535,8 +805,8 @@ window.addEventListener('DOMContentLoaded', () => {
         el.innerHTML = `
           ${faviconHtml}
           <div class="history-item-content">
-            <span class="history-item-title">${item.title || 'Sem título'}</span>
-            <span class="history-item-url">${item.url}</span>
+            <span class="history-item-title">${item.title_snippet || 'Sem título'}</span>
+            <span class="history-item-url">${item.url_snippet}</span>
           </div>
           <span class="history-item-timestamp">${new Date(item.timestamp).toLocaleTimeString()}</span>
         `;
@@ -733,7 +1003,35 @@ window.addEventListener('DOMContentLoaded', () => {
       switch (e.key.toLowerCase()) {
         case 't': 
           e.preventDefault(); 
-          window.heraAPI.createNewTab(); 
+          // Ctrl+Shift+T: reabre a última aba fechada
+          if (shift) {
+            window.heraAPI.reopenClosedTab();
+          } else {
+            window.heraAPI.createNewTab();
+          }
+          break;
+        case 'a':
+          // Ctrl+Shift+A: busca de abas (Ctrl+A continua selecionando o texto)
+          if (shift) {
+            e.preventDefault();
+            window.heraAPI.toggleTabSearch();
+          }
+          break;
+        case 'o':
+          // Ctrl+Shift+O: gerenciador de favoritos
+          if (shift) {
+            e.preventDefault();
+            window.heraAPI.createNewTab('hera://bookmarks');
+          }
+          break;
+        case 'n':
+          // Ctrl+N: nova janela / Ctrl+Shift+N: nova janela privada
+          e.preventDefault();
+          if (shift) {
+            window.heraAPI.newPrivateWindow();
+          } else {
+            window.heraAPI.newWindow();
+          }
           break;
         case 'w': 
           e.preventDefault(); 
@@ -843,8 +1141,129 @@ window.addEventListener('DOMContentLoaded', () => {
     }
   });
 
+  // ========================================// ABAS NA BARRA LATERAL// ========================================
+  const applyTabLayout = (layout: TabLayout) => {
+    tabLayout = layout;
+    document.body.classList.toggle('vertical-tabs', layout.mode === 'vertical');
+    document.body.style.setProperty('--vertical-tabs-width', `${layout.sidebarWidth}px`);
+  };
+
+  // Arrastar a borda da barra lateral muda a largura; as páginas saem da janela durante o
+  // arraste (elas capturam o mouse) e voltam depois que o main process salva a nova largura
+  let sidebarResizeWidth: number | null = null;
+
+  tabSidebarResizer.addEventListener('pointerdown', (e) => {
+    if (tabLayout.mode !== 'vertical' || e.button !== 0) return;
+    e.preventDefault();
+    tabSidebarResizer.setPointerCapture(e.pointerId);
+    sidebarResizeWidth = tabLayout.sidebarWidth;
+    window.heraAPI.hideContent();
+  });
+
+  tabSidebarResizer.addEventListener('pointermove', (e) => {
+    if (sidebarResizeWidth === null) return;
+    sidebarResizeWidth = Math.min(VERTICAL_TABS_MAX_WIDTH, Math.max(VERTICAL_TABS_MIN_WIDTH, Math.round(e.clientX)));
+    document.body.style.setProperty('--vertical-tabs-width', `${sidebarResizeWidth}px`);
+  });
+
+  tabSidebarResizer.addEventListener('lostpointercapture', () => {
+    if (sidebarResizeWidth === null) return;
+    const width = sidebarResizeWidth;
+    sidebarResizeWidth = null;
+    window.heraAPI.setSetting('verticalTabsWidth', String(width))
+      .catch((err: unknown) => console.error('Erro ao salvar largura da barra lateral:', err))
+      .finally(() => window.heraAPI.showContent());
+  });
+
+  window.heraAPI.on('tab-layout-changed', (layout: TabLayout) => applyTabLayout(layout));
+
+  // ========================================// TELA DIVIDIDA// ========================================
+  // As páginas capturam o mouse: durante o arraste elas saem da janela e a UI desenha a prévia
+  const placeSplitElement = (element: HTMLElement, rect: SplitViewLayout['area']) => {
+    element.style.left = `${rect.x}px`;
+    element.style.top = `${rect.y}px`;
+    element.style.width = `${rect.width}px`;
+    element.style.height = `${rect.height}px`;
+  };
+
+  // Marca as abas da tela dividida (e a metade visível sem foco) na barra de abas
+  const renderSplitTabs = () => {
+    document.querySelectorAll('.tab-item.in-split').forEach((tab: Element) => tab.classList.remove('in-split', 'split-visible'));
+    splitTabIds.forEach((id) => {
+      const tabElement = document.getElementById(`tab-${id}`);
+      tabElement?.classList.add('in-split');
+      tabElement?.classList.toggle('split-visible', splitLayout !== null);
+    });
+  };
+
+  // Divisória e prévia na proporção `ratio` (a da tela dividida, fora do arraste)
+  const renderSplitDivider = (ratio: number) => {
+    splitDivider.classList.toggle('hidden', splitLayout === null);
+    splitResizePreview.classList.toggle('hidden', splitLayout === null || splitResizeRatio === null);
+    if (!splitLayout) return;
+
+    const { area, orientation } = splitLayout;
+    const isHorizontal = orientation === 'horizontal';
+    const first = Math.round(((isHorizontal ? area.width : area.height) - SPLIT_VIEW_DIVIDER_SIZE) * ratio);
+    splitDivider.classList.toggle('vertical', !isHorizontal);
+    placeSplitElement(splitDivider, isHorizontal
+      ? { ...area, x: area.x + first, width: SPLIT_VIEW_DIVIDER_SIZE }
+      : { ...area, y: area.y + first, height: SPLIT_VIEW_DIVIDER_SIZE });
+
+    splitResizePreview.classList.toggle('vertical', !isHorizontal);
+    splitResizePreview.style.setProperty('--split-first-size', `${first}px`);
+    placeSplitElement(splitResizePreview, area);
+  };
+
+  // Proporção da primeira aba para o ponteiro em (x, y)
+  const getSplitRatioAt = (x: number, y: number): number => {
+    const { area, orientation } = splitLayout;
+    const ratio = orientation === 'horizontal'
+      ? (x - area.x - SPLIT_VIEW_DIVIDER_SIZE / 2) / (area.width - SPLIT_VIEW_DIVIDER_SIZE)
+      : (y - area.y - SPLIT_VIEW_DIVIDER_SIZE / 2) / (area.height - SPLIT_VIEW_DIVIDER_SIZE);
+    return Math.min(SPLIT_VIEW_MAX_RATIO, Math.max(SPLIT_VIEW_MIN_RATIO, ratio));
+  };
+
+  splitDivider.addEventListener('pointerdown', (e) => {
+    if (!splitLayout || e.button !== 0) return;
+    e.preventDefault();
+    splitDivider.setPointerCapture(e.pointerId);
+    splitResizeRatio = splitLayout.ratio;
+    window.heraAPI.startSplitViewResize();
+    renderSplitDivider(splitResizeRatio);
+  });
+
+  splitDivider.addEventListener('pointermove', (e) => {
+    if (splitResizeRatio === null || !splitLayout) return;
+    splitResizeRatio = getSplitRatioAt(e.clientX, e.clientY);
+    renderSplitDivider(splitResizeRatio);
+  });
+
+  // Soltar o botão (ou perder o ponteiro) aplica a nova proporção e recoloca as abas
+  splitDivider.addEventListener('lostpointercapture', () => {
+    if (splitResizeRatio === null) return;
+    const ratio = splitResizeRatio;
+    splitResizeRatio = null;
+    window.heraAPI.updateSplitView({ ratio });
+  });
+
+  // Duplo clique volta às duas metades iguais
+  splitDivider.addEventListener('dblclick', () => {
+    window.heraAPI.updateSplitView({ ratio: SPLIT_VIEW_DEFAULT_RATIO });
+  });
+
+  splitDivider.addEventListener('contextmenu', (e) => {
+    e.preventDefault();
+    window.heraAPI.showSplitViewMenu();
+  });
+
   // ========================================// EVENT LISTENERS DA UI (BOTÕES, ETC)// ========================================
   addTabBtn.addEventListener('click', () => window.heraAPI.createNewTab());
+  // Botão direito: nova aba em um contêiner
+  addTabBtn.addEventListener('contextmenu', (e) => {
+    e.preventDefault();
+    window.heraAPI.showNewTabMenu();
+  });
   backBtn.addEventListener('click', () => window.heraAPI.navigateBack());
   forwardBtn.addEventListener('click', () => window.heraAPI.navigateForward());
   reloadBtn.addEventListener('click', () => window.heraAPI.navigateReload());
@@ -858,29 +1277,114 @@ window.addEventListener('DOMContentLoaded', () => {
     window.heraAPI.send('favorites-bar-visibility', true); // true = hidden
   });
 
-  // Omnibox agora é um BrowserView separado - não precisa mais de renderSuggestions aqui
+  // ========================================// OMNIBOX// ========================================
+  // As sugestões são montadas no main process e exibidas em um BrowserView sobre a página
+  let isOmniboxOpen = false;
+  let omniboxSelectedIndex = -1;
+  let omniboxTypedText = '';
+
+  const requestOmniboxSuggestions = () => {
+    omniboxTypedText = urlInput.value;
+    omniboxSelectedIndex = -1;
+    if (!omniboxTypedText.trim()) {
+      window.heraAPI.send('omnibox:hide');
+      return;
+    }
+    const rect = (urlBarWrapper || urlInput).getBoundingClientRect();
+    window.heraAPI.send('omnibox:show', omniboxTypedText, { x: rect.left, y: rect.bottom + 4, width: rect.width });
+  };
+
+  // Completa inline o host/URL mais digitado, como texto selecionado após o cursor
+  const requestInlineCompletion = async (typed: string) => {
+    inlineCompletion = null;
+    const completion = await window.heraAPI.getInlineCompletion(typed);
+
+    // Ignora respostas antigas ou quando o cursor não está no fim do texto
+    const caretAtEnd = urlInput.selectionStart === typed.length && urlInput.selectionEnd === typed.length;
+    if (!completion || urlInput.value !== typed || !caretAtEnd || document.activeElement !== urlInput) {
+      return;
+    }
+
+    inlineCompletion = completion;
+    urlInput.value = typed + completion.text.slice(typed.length);
+    urlInput.setSelectionRange(typed.length, urlInput.value.length);
+  };
+
+  // Aceita o autocompletar: o texto completado passa a ser o texto digitado
+  const acceptInlineCompletion = (): boolean => {
+    const hasCompletion = inlineCompletion !== null &&
+      urlInput.selectionStart === omniboxTypedText.length &&
+      urlInput.selectionEnd === urlInput.value.length &&
+      urlInput.value.length > omniboxTypedText.length;
+    if (!hasCompletion) return false;
+
+    urlInput.setSelectionRange(urlInput.value.length, urlInput.value.length);
+    requestOmniboxSuggestions();
+    return true;
+  };
+
+  urlInput.addEventListener('input', (e) => {
+    requestOmniboxSuggestions();
 
-  // Omnibox temporariamente desabilitado
-  urlInput.addEventListener('input', async () => {
-    // const query = (e.target as HTMLInputElement).value.trim();
-    // TODO: Re-implementar omnibox
+    // Backspace/Delete apenas removem o texto completado, sem completar de novo
+    const inputType = (e as InputEvent).inputType || '';
+    if (inputType.startsWith('delete')) {
+      inlineCompletion = null;
+      return;
+    }
+    requestInlineCompletion(urlInput.value);
   });
 
   urlInput.addEventListener('keydown', async (e) => {
+    if ((e.key === 'Tab' || e.key === 'ArrowRight') && !e.shiftKey && acceptInlineCompletion()) {
+      e.preventDefault();
+      return;
+    }
+
     if (e.key === 'Enter') {
       e.preventDefault();
-      handleUrlSubmit();
+      if (isOmniboxOpen && omniboxSelectedIndex >= 0) {
+        window.heraAPI.send('omnibox:select-current');
+      } else {
+        window.heraAPI.send('omnibox:hide');
+        handleUrlSubmit();
+      }
       urlInput.blur();
       return;
     }
+
+    if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && isOmniboxOpen) {
+      e.preventDefault();
+      window.heraAPI.send('omnibox:update-selection', e.key === 'ArrowDown' ? 1 : -1);
+      return;
+    }
     
-    if (e.key === 'Escape') {
-      // selectedSuggestionIndex = -1;
+    if (e.key === 'Escape' && isOmniboxOpen) {
+      e.preventDefault();
+      inlineCompletion = null;
+      urlInput.value = omniboxTypedText;
+      omniboxSelectedIndex = -1;
+      window.heraAPI.send('omnibox:hide');
       return;
     }
   });
 
-  // Omnibox desabilitado temporariamente
+  // Espera um pouco antes de fechar: o clique em uma sugestão também tira o foco do input
+  urlInput.addEventListener('blur', () => {
+    setTimeout(() => window.heraAPI.send('omnibox:hide'), 100);
+  });
+
+  window.heraAPI.on('omnibox:visibility', (visible: boolean) => {
+    isOmniboxOpen = visible;
+    if (!visible) omniboxSelectedIndex = -1;
+  });
+
+  // Mostra na barra de endereços a sugestão selecionada pelo teclado
+  window.heraAPI.on('omnibox:selection-changed', (index: number, text: string) => {
+    omniboxSelectedIndex = index;
+    inlineCompletion = null;
+    urlInput.value = text;
+  });
 
   urlInput.addEventListener('focus', () => {
     urlInput.select();
@@ -916,39 +1420,26 @@ window.addEventListener('DOMContentLoaded', () => {
 
   // Página de Histórico
   const historySearchInput = document.getElementById('history-search-input') as HTMLInputElement;
-  const historyEmpty = document.getElementById('history-empty')!;
   
   closeHistoryPageBtn.addEventListener('click', hideHistoryPage);
   clearHistoryBtn.addEventListener('click', async () => {
     if (confirm('Tem certeza que deseja limpar todo o histórico?')) {
       await window.heraAPI.clearHistory();
-      await showHistoryPage();
+      await showHistoryPage(historySearchInput.value.trim());
     }
   });
   
-  // Busca no histórico
+  // Busca no histórico (consulta o índice FTS no main process, com debounce)
+  let historySearchTimer: NodeJS.Timeout | null = null;
   historySearchInput.addEventListener('input', (e) => {
-    const query = (e.target as HTMLInputElement).value.toLowerCase();
-    const items = historyList.querySelectorAll('.history-item');
-    let visibleCount = 0;
-    
-    items.forEach((item: Element) => {
-      const title = item.querySelector('.history-item-title')?.textContent?.toLowerCase() || '';
-      const url = item.querySelector('.history-item-url')?.textContent?.toLowerCase() || '';
-      const matches = title.includes(query) || url.includes(query);
-      (item as HTMLElement).style.display = matches ? 'grid' : 'none';
-      if (matches) visibleCount++;
-    });
-    
-    if (visibleCount === 0 && query.length > 0) {
-      historyEmpty.classList.remove('hidden');
-      const p = historyEmpty.querySelector('p');
-      if (p) p.textContent = 'Nenhum resultado encontrado';
-      const span = historyEmpty.querySelector('span');
-      if (span) span.textContent = 'Tente uma busca diferente';
-    } else {
-      historyEmpty.classList.add('hidden');
+    const query = (e.target as HTMLInputElement).value.trim();
+    if (historySearchTimer) {
+      clearTimeout(historySearchTimer);
     }
+    historySearchTimer = setTimeout(() => {
+      historySearchTimer = null;
+      showHistoryPage(query);
+    }, HISTORY_SEARCH_DEBOUNCE_MS);
   });
   
   // Botão de Favorito (v2.0.0)
@@ -1045,7 +1536,19 @@ window.addEventListener('DOMContentLoaded', () => {
 
   // ========================================// LISTENERS DO MAIN PROCESS (IPC)// ========================================
   window.heraAPI.onTabCreated((tabInfo) => {
-    addTabToUI(tabInfo.id, tabInfo.title, tabInfo.favicon);
+    if (tabInfo.groupId) {
+      tabGroupIds.set(tabInfo.id, tabInfo.groupId);
+    }
+    if (tabInfo.openerId) {
+      tabOpenerIds.set(tabInfo.id, tabInfo.openerId);
+    }
+    addTabToUI(tabInfo.id, tabInfo.title, tabInfo.favicon, tabInfo.position, tabInfo.pinned);
+    if (tabInfo.containerId) {
+      tabContainerIds.set(tabInfo.id, tabInfo.containerId);
+      renderTabContainers();
+    }
+    // Abas restauradas em segundo plano só carregam quando ativadas
+    if (tabInfo.background) return;
     setActiveTab(tabInfo.id);
     urlInput.value = tabInfo.url;
     updateSecureIcon(tabInfo.url);
@@ -1065,6 +1568,42 @@ window.addEventListener('DOMContentLoaded', () => {
 
   window.heraAPI.onTabLoading((id, isLoading) => updateTabInfo(id, { loading: isLoading }));
 
+  window.heraAPI.onTabMoved((id, position) => moveTabInUI(id, position));
+
+  window.heraAPI.onTabGroupUpdated((group) => {
+    tabGroups.set(group.id, group);
+    renderTabGroups();
+  });
+
+  window.heraAPI.onTabGroupRemoved((groupId) => {
+    tabGroups.delete(groupId);
+    renderTabGroups();
+  });
+
+  window.heraAPI.on('tab-groups:start-rename', (groupId: string) => startTabGroupRename(groupId));
+
+  window.heraAPI.on('containers-changed', (list: Container[]) => loadContainers(list));
+
+  // Favoritos editados em hera://bookmarks (ou em outra janela)
+  window.heraAPI.on('bookmarks-changed', () => {
+    renderFavoritesBar();
+    updateBookmarkButton();
+  });
+
+  window.heraAPI.on('split-view:changed', (tabIds: string[] | null) => {
+    splitTabIds = tabIds ?? [];
+    renderSplitTabs();
+  });
+
+  // Enviado sempre que as abas são reposicionadas (null = sem tela dividida visível)
+  window.heraAPI.on('split-view:layout', (layout: SplitViewLayout | null) => {
+    splitLayout = layout;
+    if (splitResizeRatio !== null && layout) return; // O arraste em andamento controla a divisória
+    splitResizeRatio = null;
+    renderSplitDivider(layout?.ratio ?? SPLIT_VIEW_DEFAULT_RATIO);
+    renderSplitTabs();
+  });
+
   // Listen for omnibox navigation
   window.heraAPI.on('omnibox:navigate', (url: string) => {
     window.heraAPI.navigateTo(url);
@@ -1291,6 +1830,23 @@ window.addEventListener('DOMContentLoaded', () => {
 
   // ========================================// INICIALIZAÇÃO// ========================================
   
+  // Contêineres: as abas restauradas já podem ter chegado antes da lista
+  window.heraAPI.getContainers().then(loadContainers).catch(err => {
+    console.error('[Init] Erro ao carregar contêineres:', err);
+  });
+
+  // Abas no topo ou na barra lateral
+  window.heraAPI.getTabLayout().then(applyTabLayout).catch(err => {
+    console.error('[Init] Erro ao carregar disposição das abas:', err);
+  });
+
+  // Janelas privadas usam um tema próprio
+  window.heraAPI.isPrivateWindow().then((isPrivate) => {
+    document.body.classList.toggle('private-window', isPrivate);
+  }).catch(err => {
+    console.error('[Init] Erro ao verificar janela privada:', err);
+  });
+
   // Inicializa a barra de favoritos (começa oculta, como o find bar)
   console.log('[Init] Inicializando barra de favoritos...');
   favoritesBarWrapper.classList.add('hidden'); // Começa oculta
@@ -0,0 +1,48 @@
+// Página mostrada no lugar de uma aba cujo processo travou ou foi encerrado
+// O main process passa a URL, o título e o motivo na query string
+const params = new URLSearchParams(window.location.search);
+const messageElement = document.getElementById('sad-tab-message');
+const urlElement = document.getElementById('sad-tab-url');
+const reloadBtn = document.getElementById('reload-btn');
+
+const REASON_MESSAGES = {
+  oom: 'A página ficou sem memória.',
+  'memory-eviction': 'A página foi encerrada para liberar memória.',
+  killed: 'O processo da página foi encerrado.',
+  'launch-failed': 'Não foi possível iniciar o processo da página.',
+  'integrity-failure': 'O processo da página falhou na verificação de integridade.'
+};
+
+// Qualquer página pode abrir esta com uma query inventada: só volta para endereços navegáveis
+function getCrashedUrl() {
+  try {
+    const url = new URL(params.get('url') || '');
+    const allowed = ['http:', 'https:', 'hera:'].includes(url.protocol);
+    return allowed && url.hostname !== 'sad-tab' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+const crashedUrl = getCrashedUrl();
+const title = params.get('title');
+
+// A aba continua com o título da página que travou
+if (title) {
+  document.title = title;
+}
+messageElement.textContent = REASON_MESSAGES[params.get('reason')] || 'Algo deu errado ao exibir esta página.';
+
+if (crashedUrl) {
+  urlElement.textContent = crashedUrl;
+  urlElement.classList.remove('hidden');
+} else {
+  reloadBtn.disabled = true;
+}
+
+reloadBtn.addEventListener('click', () => {
+  // Substitui esta página no histórico: voltar não passa de novo pela aba travada
+  window.location.replace(crashedUrl);
+});
+
+reloadBtn.focus();
@@ -0,0 +1,263 @@
+// Sessions page script
+const sessionsList = document.getElementById('sessions-list');
+const emptyState = document.getElementById('empty-state');
+const saveForm = document.getElementById('save-form');
+const nameInput = document.getElementById('session-name-input');
+const saveBtn = document.getElementById('save-btn');
+const importBtn = document.getElementById('import-btn');
+const statusMessage = document.getElementById('status-message');
+
+let sessions = [];
+let activeSessionId = null;
+// Sessão com o nome em edição (a lista é redesenhada sem perder o campo)
+let renamingId = null;
+
+// Mensagem do main process: "Error invoking remote method '...': Error: <mensagem>"
+function getErrorMessage(error) {
+  return error instanceof Error ? error.message.replace(/^.*Error: /, '') : String(error);
+}
+
+function showStatus(message, isError = false) {
+  statusMessage.textContent = message;
+  statusMessage.classList.toggle('error', isError);
+  statusMessage.classList.remove('hidden');
+}
+
+function hideStatus() {
+  statusMessage.classList.add('hidden');
+}
+
+function formatDateTime(timestamp) {
+  return new Date(timestamp).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+function formatCount(count, singular, plural) {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+async function loadSessions() {
+  try {
+    [sessions, activeSessionId] = await Promise.all([
+      window.heraAPI.getSessions(),
+      window.heraAPI.getActiveSessionId()
+    ]);
+  } catch (error) {
+    console.error('Erro ao carregar sessões:', error);
+    sessions = [];
+  }
+  renderSessions();
+}
+
+function createButton(label, className, onClick) {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = className;
+  button.textContent = label;
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+function createNameEditor(session) {
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'session-name-input';
+  input.value = session.name;
+  input.maxLength = 100;
+
+  let finished = false;
+  const finish = async (save) => {
+    if (finished) return;
+    finished = true;
+    renamingId = null;
+
+    const name = input.value.trim();
+    if (save && name && name !== session.name) {
+      try {
+        await window.heraAPI.renameSession(session.id, name);
+      } catch (error) {
+        showStatus(`Erro ao renomear sessão: ${getErrorMessage(error)}`, true);
+      }
+    }
+    await loadSessions();
+  };
+
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      finish(true);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      finish(false);
+    }
+  });
+  input.addEventListener('blur', () => finish(true));
+  return input;
+}
+
+function renderSessions() {
+  sessionsList.innerHTML = '';
+  emptyState.classList.toggle('hidden', sessions.length > 0);
+
+  sessions.forEach((session) => {
+    const isActive = session.id === activeSessionId;
+    const item = document.createElement('div');
+    item.className = 'session-item';
+    item.classList.toggle('active', isActive);
+
+    const info = document.createElement('div');
+    info.className = 'session-info';
+
+    const nameRow = document.createElement('div');
+    nameRow.className = 'session-name-row';
+    if (session.id === renamingId) {
+      nameRow.appendChild(createNameEditor(session));
+    } else {
+      // Nomes vêm do usuário ou de arquivos importados: sempre como texto, nunca como HTML
+      const name = document.createElement('span');
+      name.className = 'session-name';
+      name.textContent = session.name;
+      name.title = 'Clique duas vezes para renomear';
+      name.addEventListener('dblclick', () => startRename(session.id));
+      nameRow.appendChild(name);
+    }
+    if (isActive) {
+      const badge = document.createElement('span');
+      badge.className = 'session-badge';
+      badge.textContent = 'Atual';
+      nameRow.appendChild(badge);
+    }
+
+    const meta = document.createElement('div');
+    meta.className = 'session-meta';
+    meta.textContent = [
+      formatCount(session.tab_count, 'aba', 'abas'),
+      formatCount(session.window_count, 'janela', 'janelas'),
+      `salva em ${formatDateTime(session.updated_at)}`
+    ].join(' · ');
+
+    info.appendChild(nameRow);
+    info.appendChild(meta);
+
+    const actions = document.createElement('div');
+    actions.className = 'session-actions';
+    actions.appendChild(createButton('Abrir', 'btn-primary', () => openSession(session)));
+    actions.appendChild(createButton('Adicionar à janela', 'btn-secondary', () => mergeSession(session)));
+    actions.appendChild(createButton('Renomear', 'btn-secondary', () => startRename(session.id)));
+    actions.appendChild(createButton('Exportar', 'btn-secondary', () => exportSession(session)));
+    actions.appendChild(createButton('Excluir', 'btn-danger', () => deleteSession(session)));
+
+    item.appendChild(info);
+    item.appendChild(actions);
+    sessionsList.appendChild(item);
+  });
+
+  sessionsList.querySelector('.session-name-input')?.focus();
+}
+
+function startRename(id) {
+  renamingId = id;
+  renderSessions();
+  sessionsList.querySelector('.session-name-input')?.select();
+}
+
+async function saveSession(e) {
+  e.preventDefault();
+  const name = nameInput.value.trim();
+  if (!name) {
+    showStatus('Dê um nome para a sessão', true);
+    nameInput.focus();
+    return;
+  }
+
+  saveBtn.disabled = true;
+  try {
+    const session = await window.heraAPI.saveSession(name);
+    nameInput.value = '';
+    showStatus(`Sessão "${session.name}" salva com ${formatCount(session.tab_count, 'aba', 'abas')}`);
+    await loadSessions();
+  } catch (error) {
+    showStatus(`Erro ao salvar sessão: ${getErrorMessage(error)}`, true);
+  } finally {
+    saveBtn.disabled = false;
+  }
+}
+
+async function openSession(session) {
+  const message = activeSessionId
+    ? `Abrir "${session.name}"? As abas abertas ficam guardadas na sessão atual.`
+    : `Abrir "${session.name}"? As abas abertas vão para as fechadas recentemente.`;
+  if (!confirm(message)) {
+    return;
+  }
+
+  try {
+    // Esta página fecha junto com a janela dela quando a sessão abre
+    await window.heraAPI.openSession(session.id);
+  } catch (error) {
+    showStatus(`Erro ao abrir sessão: ${getErrorMessage(error)}`, true);
+  }
+}
+
+async function mergeSession(session) {
+  try {
+    if (await window.heraAPI.mergeSession(session.id)) {
+      showStatus(`${formatCount(session.tab_count, 'aba adicionada', 'abas adicionadas')} à janela`);
+    }
+  } catch (error) {
+    showStatus(`Erro ao adicionar sessão: ${getErrorMessage(error)}`, true);
+  }
+}
+
+async function exportSession(session) {
+  try {
+    if (await window.heraAPI.exportSession(session.id)) {
+      showStatus(`Sessão "${session.name}" exportada`);
+    }
+  } catch (error) {
+    showStatus(`Erro ao exportar sessão: ${getErrorMessage(error)}`, true);
+  }
+}
+
+async function importSession() {
+  try {
+    const session = await window.heraAPI.importSession();
+    if (session) {
+      showStatus(`Sessão "${session.name}" importada com ${formatCount(session.tab_count, 'aba', 'abas')}`);
+      await loadSessions();
+    }
+  } catch (error) {
+    showStatus(`Erro ao importar sessão: ${getErrorMessage(error)}`, true);
+  }
+}
+
+async function deleteSession(session) {
+  if (!confirm(`Excluir a sessão "${session.name}"? As abas abertas não são fechadas.`)) {
+    return;
+  }
+
+  try {
+    await window.heraAPI.deleteSession(session.id);
+    hideStatus();
+    await loadSessions();
+  } catch (error) {
+    showStatus(`Erro ao excluir sessão: ${getErrorMessage(error)}`, true);
+  }
+}
+
+saveForm.addEventListener('submit', saveSession);
+importBtn.addEventListener('click', importSession);
+
+// Sessões salvas, renomeadas ou removidas em outra aba
+window.heraAPI.on('sessions-changed', () => {
+  if (!renamingId) {
+    loadSessions();
+  }
+});
+
+loadSessions();
@@ -3,29 +3,364 @@ window.addEventListener('DOMContentLoaded', async () => {
     const sidebarItems = document.querySelectorAll('.settings-sidebar li[data-page]');
     const pages = document.querySelectorAll('.settings-page');
 
+    const showPage = (targetPage) => {
+        const item = document.querySelector(`.settings-sidebar li[data-page="${targetPage}"]`);
+        const page = document.getElementById(targetPage);
+        if (!item || !page) return;
+
+        // Remove active de todos os itens e páginas
+        sidebarItems.forEach(i => i.classList.remove('active'));
+        pages.forEach(p => p.classList.remove('active'));
+
+        // Adiciona active ao item clicado e à página correspondente
+        item.classList.add('active');
+        page.classList.add('active');
+    };
+
     sidebarItems.forEach(item => {
-        item.addEventListener('click', () => {
-            const targetPage = item.getAttribute('data-page');
-
-            // Remove active de todos os itens e páginas
-            sidebarItems.forEach(i => i.classList.remove('active'));
-            pages.forEach(p => p.classList.remove('active'));
-
-            // Adiciona active ao item clicado e à página correspondente
-            item.classList.add('active');
-            const page = document.getElementById(targetPage);
-            if (page) {
-                page.classList.add('active');
-            }
-        });
+        item.addEventListener('click', () => showPage(item.getAttribute('data-page')));
     });
 
+    // Links diretos para uma página (ex: hera://settings#containers)
+    if (location.hash) {
+        showPage(`page-${location.hash.slice(1)}`);
+    }
+
     // Verifica se heraAPI está disponível
     if (!window.heraAPI) {
         console.error('heraAPI não está disponível!');
         return;
     }
 
+    // Mecanismos de busca cadastrados (registro no banco)
+    let searchEngines = [];
+    let editingEngineId = null;
+
+    const renderSearchEngines = (defaultId) => {
+        const searchEngineSelect = document.getElementById('search-engine-select');
+        const list = document.getElementById('search-engine-list');
+        if (!searchEngineSelect || !list) return;
+
+        searchEngineSelect.innerHTML = '';
+        list.innerHTML = '';
+
+        searchEngines.forEach(engine => {
+            const option = document.createElement('option');
+            option.value = engine.id;
+            option.textContent = engine.name;
+            searchEngineSelect.appendChild(option);
+
+            // Nomes e URLs vêm do usuário: sempre como texto
+            const item = document.createElement('li');
+            item.className = 'search-engine-item';
+
+            const info = document.createElement('div');
+            info.className = 'search-engine-info';
+            const name = document.createElement('span');
+            name.className = 'search-engine-name';
+            name.textContent = engine.name;
+            const keyword = document.createElement('span');
+            keyword.className = 'search-engine-keyword';
+            keyword.textContent = engine.keyword;
+            const url = document.createElement('span');
+            url.className = 'search-engine-url';
+            url.textContent = engine.url_template;
+            info.append(name, keyword, url);
+
+            const editBtn = document.createElement('button');
+            editBtn.className = 'btn-secondary';
+            editBtn.textContent = 'Editar';
+            editBtn.addEventListener('click', () => startEditing(engine));
+
+            const removeBtn = document.createElement('button');
+            removeBtn.className = 'btn-danger';
+            removeBtn.textContent = 'Remover';
+            removeBtn.disabled = searchEngines.length <= 1;
+            removeBtn.addEventListener('click', () => removeEngine(engine));
+
+            item.append(info, editBtn, removeBtn);
+            list.appendChild(item);
+        });
+
+        const selected = searchEngines.find(engine => engine.id === defaultId) || searchEngines[0];
+        if (selected) {
+            searchEngineSelect.value = selected.id;
+        }
+    };
+
+    const loadSearchEngines = async (defaultId) => {
+        try {
+            searchEngines = await window.heraAPI.getSearchEngines();
+            const currentDefault = defaultId ?? await window.heraAPI.getSetting('searchEngine');
+            renderSearchEngines(currentDefault || 'google');
+        } catch (error) {
+            console.error('Erro ao carregar mecanismos de busca:', error);
+        }
+    };
+
+    const showFormError = (message) => {
+        const errorEl = document.getElementById('search-engine-form-error');
+        if (!errorEl) return;
+        errorEl.textContent = message;
+        errorEl.classList.toggle('hidden', !message);
+    };
+
+    const resetForm = () => {
+        editingEngineId = null;
+        document.getElementById('search-engine-form').reset();
+        document.getElementById('search-engine-form-title').textContent = 'Adicionar mecanismo de busca';
+        document.getElementById('search-engine-save-btn').textContent = 'Adicionar';
+        document.getElementById('search-engine-cancel-btn').classList.add('hidden');
+        showFormError('');
+    };
+
+    const startEditing = (engine) => {
+        editingEngineId = engine.id;
+        document.getElementById('search-engine-name').value = engine.name;
+        document.getElementById('search-engine-keyword').value = engine.keyword;
+        document.getElementById('search-engine-url').value = engine.url_template;
+        document.getElementById('search-engine-suggest-url').value = engine.suggest_url || '';
+        document.getElementById('search-engine-form-title').textContent = `Editar ${engine.name}`;
+        document.getElementById('search-engine-save-btn').textContent = 'Salvar';
+        document.getElementById('search-engine-cancel-btn').classList.remove('hidden');
+        showFormError('');
+        document.getElementById('search-engine-name').focus();
+    };
+
+    const removeEngine = async (engine) => {
+        if (!confirm(`Remover o mecanismo de busca "${engine.name}"?`)) return;
+
+        try {
+            await window.heraAPI.removeSearchEngine(engine.id);
+            if (editingEngineId === engine.id) {
+                resetForm();
+            }
+            await loadSearchEngines();
+        } catch (error) {
+            console.error('Erro ao remover mecanismo de busca:', error);
+            alert(`Erro ao remover mecanismo de busca: ${error.message}`);
+        }
+    };
+
+    const searchEngineForm = document.getElementById('search-engine-form');
+    if (searchEngineForm) {
+        searchEngineForm.addEventListener('submit', async (e) => {
+            e.preventDefault();
+
+            const engine = {
+                name: document.getElementById('search-engine-name').value.trim(),
+                keyword: document.getElementById('search-engine-keyword').value.trim(),
+                url_template: document.getElementById('search-engine-url').value.trim(),
+                suggest_url: document.getElementById('search-engine-suggest-url').value.trim()
+            };
+
+            if (/\s/.test(engine.keyword)) {
+                showFormError('A palavra-chave não pode conter espaços.');
+                return;
+            }
+            if (!engine.url_template.includes('%s') || (engine.suggest_url && !engine.suggest_url.includes('%s'))) {
+                showFormError('Use %s na URL no lugar dos termos buscados.');
+                return;
+            }
+
+            try {
+                if (editingEngineId) {
+                    await window.heraAPI.updateSearchEngine(editingEngineId, engine);
+                } else {
+                    await window.heraAPI.addSearchEngine({ ...engine, suggest_url: engine.suggest_url || undefined });
+                }
+                resetForm();
+                await loadSearchEngines();
+            } catch (error) {
+                console.error('Erro ao salvar mecanismo de busca:', error);
+                // Mensagem do main process: "Error invoking remote method '...': Error: <mensagem>"
+                showFormError(error.message.replace(/^.*Error: /, ''));
+            }
+        });
+    }
+
+    const searchEngineCancelBtn = document.getElementById('search-engine-cancel-btn');
+    if (searchEngineCancelBtn) {
+        searchEngineCancelBtn.addEventListener('click', resetForm);
+    }
+
+    // Contêineres (cookies e dados isolados por contêiner)
+    const CONTAINER_COLORS = {
+        grey: '#9aa0a6', blue: '#4d8dff', red: '#ff5c5c', yellow: '#f5c542', green: '#3ecf8e',
+        pink: '#ff6fb5', purple: '#7b4dff', cyan: '#2fd4e6', orange: '#ff9447'
+    };
+    let containers = [];
+    let editingContainerId = null;
+    const customPermissionsCheckbox = document.getElementById('container-custom-permissions');
+    const permissionsList = document.getElementById('container-permissions');
+    const permissionCheckboxes = () => permissionsList.querySelectorAll('input[type="checkbox"]');
+
+    const renderContainers = () => {
+        const list = document.getElementById('container-list');
+        if (!list) return;
+
+        list.innerHTML = '';
+        document.getElementById('container-empty').classList.toggle('hidden', containers.length > 0);
+
+        containers.forEach(container => {
+            // Nomes vêm do usuário: sempre como texto
+            const item = document.createElement('li');
+            item.className = 'container-item';
+
+            const dot = document.createElement('span');
+            dot.className = 'container-color-dot';
+            dot.style.setProperty('--container-color', CONTAINER_COLORS[container.color]);
+
+            const info = document.createElement('div');
+            info.className = 'container-info';
+            const name = document.createElement('span');
+            name.className = 'container-name';
+            name.textContent = container.name;
+            const details = document.createElement('span');
+            details.className = 'container-details';
+            details.textContent = [
+                container.user_agent ? 'User agent próprio' : '',
+                container.permissions ? `${container.permissions.length} permissões` : ''
+            ].filter(Boolean).join(' · ');
+            info.append(name, details);
+
+            const openBtn = document.createElement('button');
+            openBtn.className = 'btn-secondary';
+            openBtn.textContent = 'Abrir aba';
+            openBtn.addEventListener('click', () => window.heraAPI.openTabInContainer(container.id));
+
+            const editBtn = document.createElement('button');
+            editBtn.className = 'btn-secondary';
+            editBtn.textContent = 'Editar';
+            editBtn.addEventListener('click', () => startEditingContainer(container));
+
+            const removeBtn = document.createElement('button');
+            removeBtn.className = 'btn-danger';
+            removeBtn.textContent = 'Remover';
+            removeBtn.addEventListener('click', () => removeContainer(container));
+
+            item.append(dot, info, openBtn, editBtn, removeBtn);
+            list.appendChild(item);
+        });
+    };
+
+    const loadContainers = async () => {
+        try {
+            containers = await window.heraAPI.getContainers();
+            renderContainers();
+        } catch (error) {
+            console.error('Erro ao carregar contêineres:', error);
+        }
+    };
+
+    const showContainerFormError = (message) => {
+        const errorEl = document.getElementById('container-form-error');
+        if (!errorEl) return;
+        errorEl.textContent = message;
+        errorEl.classList.toggle('hidden', !message);
+    };
+
+    const setPermissions = (permissions) => {
+        customPermissionsCheckbox.checked = Array.isArray(permissions);
+        permissionsList.classList.toggle('hidden', !customPermissionsCheckbox.checked);
+        permissionCheckboxes().forEach(checkbox => {
+            // Sem permissões próprias, a lista começa com todas marcadas (o padrão)
+            checkbox.checked = !permissions || permissions.includes(checkbox.value);
+        });
+    };
+
+    const resetContainerForm = () => {
+        editingContainerId = null;
+        document.getElementById('container-form').reset();
+        setPermissions(undefined);
+        document.getElementById('container-form-title').textContent = 'Adicionar contêiner';
+        document.getElementById('container-save-btn').textContent = 'Adicionar';
+        document.getElementById('container-cancel-btn').classList.add('hidden');
+        showContainerFormError('');
+    };
+
+    const startEditingContainer = (container) => {
+        editingContainerId = container.id;
+        document.getElementById('container-name').value = container.name;
+        document.getElementById('container-color').value = container.color;
+        document.getElementById('container-user-agent').value = container.user_agent || '';
+        setPermissions(container.permissions);
+        document.getElementById('container-form-title').textContent = `Editar ${container.name}`;
+        document.getElementById('container-save-btn').textContent = 'Salvar';
+        document.getElementById('container-cancel-btn').classList.remove('hidden');
+        showContainerFormError('');
+        document.getElementById('container-name').focus();
+    };
+
+    const removeContainer = async (container) => {
+        if (!confirm(`Remover o contêiner "${container.name}"? Os cookies e dados dos sites nele serão apagados.`)) return;
+
+        try {
+            await window.heraAPI.removeContainer(container.id);
+            if (editingContainerId === container.id) {
+                resetContainerForm();
+            }
+            await loadContainers();
+        } catch (error) {
+            console.error('Erro ao remover contêiner:', error);
+            alert(`Erro ao remover contêiner: ${error.message.replace(/^.*Error: /, '')}`);
+        }
+    };
+
+    if (customPermissionsCheckbox) {
+        customPermissionsCheckbox.addEventListener('change', () => {
+            permissionsList.classList.toggle('hidden', !customPermissionsCheckbox.checked);
+        });
+    }
+
+    const containerForm = document.getElementById('container-form');
+    if (containerForm) {
+        containerForm.addEventListener('submit', async (e) => {
+            e.preventDefault();
+
+            const container = {
+                name: document.getElementById('container-name').value.trim(),
+                color: document.getElementById('container-color').value,
+                user_agent: document.getElementById('container-user-agent').value.trim(),
+                permissions: customPermissionsCheckbox.checked
+                    ? Array.from(permissionCheckboxes()).filter(checkbox => checkbox.checked).map(checkbox => checkbox.value)
+                    : null
+            };
+
+            try {
+                if (editingContainerId) {
+                    await window.heraAPI.updateContainer(editingContainerId, container);
+                } else {
+                    await window.heraAPI.addContainer(container);
+                }
+                resetContainerForm();
+                await loadContainers();
+            } catch (error) {
+                console.error('Erro ao salvar contêiner:', error);
+                // Mensagem do main process: "Error invoking remote method '...': Error: <mensagem>"
+                showContainerFormError(error.message.replace(/^.*Error: /, ''));
+            }
+        });
+    }
+
+    const containerCancelBtn = document.getElementById('container-cancel-btn');
+    if (containerCancelBtn) {
+        containerCancelBtn.addEventListener('click', resetContainerForm);
+    }
+
+    // Contêineres criados ou editados em outra aba de configurações
+    window.heraAPI.on('containers-changed', (list) => {
+        containers = list;
+        renderContainers();
+    });
+
+    // Economia de memória: chave da configuração -> select
+    const memorySaverSelects = {
+        memorySaverEnabled: 'memory-saver-select',
+        memorySaverIdleMinutes: 'memory-saver-idle-select',
+        memorySaverThresholdMb: 'memory-saver-threshold-select'
+    };
+
     // Carregar configurações salvas
     const loadSettings = async () => {
         try {
@@ -39,13 +374,25 @@ window.addEventListener('DOMContentLoaded', async () => {
                 }
             }
 
-            // Carregar mecanismo de busca
-            if (settings.searchEngine) {
-                const searchEngineSelect = document.getElementById('search-engine-select');
-                if (searchEngineSelect) {
-                    searchEngineSelect.value = settings.searchEngine;
-                }
+            // Carregar posição das abas
+            const tabLayoutSelect = document.getElementById('tab-layout-select');
+            if (tabLayoutSelect && settings.tabLayout) {
+                tabLayoutSelect.value = settings.tabLayout;
             }
+
+            // Carregar economia de memória
+            Object.entries(memorySaverSelects).forEach(([key, id]) => {
+                const select = document.getElementById(id);
+                if (select && settings[key] !== undefined) {
+                    select.value = settings[key];
+                }
+            });
+
+            // Carregar mecanismos de busca
+            await loadSearchEngines(settings.searchEngine);
+
+            // Carregar contêineres
+            await loadContainers();
         } catch (error) {
             console.error('Erro ao carregar configurações:', error);
         }
@@ -76,6 +423,14 @@ window.addEventListener('DOMContentLoaded', async () => {
         });
     }
 
+    // Posição das abas (o main process aplica em todas as janelas)
+    const tabLayoutSelect = document.getElementById('tab-layout-select');
+    if (tabLayoutSelect) {
+        tabLayoutSelect.addEventListener('change', (e) => {
+            saveSetting('tabLayout', e.target.value);
+        });
+    }
+
     // Mecanismo de busca
     const searchEngineSelect = document.getElementById('search-engine-select');
     if (searchEngineSelect) {
@@ -86,6 +441,229 @@ window.addEventListener('DOMContentLoaded', async () => {
         });
     }
 
+    // Economia de memória
+    Object.entries(memorySaverSelects).forEach(([key, id]) => {
+        const select = document.getElementById(id);
+        if (select) {
+            select.addEventListener('change', (e) => {
+                saveSetting(key, e.target.value);
+            });
+        }
+    });
+
+    // Favoritos: importação e exportação em HTML
+    const bookmarksImportBtn = document.getElementById('bookmarks-import-btn');
+    const bookmarksExportBtn = document.getElementById('bookmarks-export-btn');
+    const bookmarksManagerBtn = document.getElementById('bookmarks-manager-btn');
+
+    const formatCount = (count, singular, plural) => `${count} ${count === 1 ? singular : plural}`;
+
+    const showBookmarksTransfer = (message, isError = false) => {
+        const statusEl = document.getElementById('bookmarks-transfer-status');
+        const errorEl = document.getElementById('bookmarks-transfer-error');
+        if (!statusEl || !errorEl) return;
+        statusEl.textContent = isError ? '' : message;
+        statusEl.classList.toggle('hidden', isError || !message);
+        errorEl.textContent = isError ? message : '';
+        errorEl.classList.toggle('hidden', !isError || !message);
+    };
+
+    if (bookmarksImportBtn) {
+        bookmarksImportBtn.addEventListener('click', async () => {
+            bookmarksImportBtn.disabled = true;
+            try {
+                const result = await window.heraAPI.importBookmarksHtml();
+                if (result) {
+                    const parts = [formatCount(result.bookmarks, 'favorito importado', 'favoritos importados')];
+                    if (result.folders > 0) parts.push(formatCount(result.folders, 'pasta criada', 'pastas criadas'));
+                    if (result.duplicates > 0) parts.push(formatCount(result.duplicates, 'repetido ignorado', 'repetidos ignorados'));
+                    if (result.skipped > 0) parts.push(formatCount(result.skipped, 'endereço não suportado', 'endereços não suportados'));
+                    showBookmarksTransfer(parts.join(' · '));
+                }
+            } catch (error) {
+                console.error('Erro ao importar favoritos:', error);
+                // Mensagem do main process: "Error invoking remote method '...': Error: <mensagem>"
+                showBookmarksTransfer(error.message.replace(/^.*Error: /, ''), true);
+            } finally {
+                bookmarksImportBtn.disabled = false;
+            }
+        });
+    }
+
+    if (bookmarksExportBtn) {
+        bookmarksExportBtn.addEventListener('click', async () => {
+            try {
+                if (await window.heraAPI.exportBookmarksHtml()) {
+                    showBookmarksTransfer('Favoritos exportados.');
+                }
+            } catch (error) {
+                console.error('Erro ao exportar favoritos:', error);
+                showBookmarksTransfer(error.message.replace(/^.*Error: /, ''), true);
+            }
+        });
+    }
+
+    if (bookmarksManagerBtn) {
+        bookmarksManagerBtn.addEventListener('click', () => window.heraAPI.createNewTab('hera://bookmarks'));
+    }
+
+    // Importação de outros navegadores (assistente)
+    const browserImportProfileSelect = document.getElementById('browser-import-profile');
+    const browserImportHistoryCheckbox = document.getElementById('browser-import-history');
+    const browserImportBookmarksCheckbox = document.getElementById('browser-import-bookmarks');
+    const browserImportBtn = document.getElementById('browser-import-btn');
+    const browserImportProgressBox = document.getElementById('browser-import-progress-box');
+    const browserImportProgress = document.getElementById('browser-import-progress');
+    const browserImportProgressText = document.getElementById('browser-import-progress-text');
+    const browserImportSummary = document.getElementById('browser-import-summary');
+    const browserImportError = document.getElementById('browser-import-error');
+    let browserProfiles = [];
+    let browserImportRunning = false;
+
+    const showBrowserImportError = (message) => {
+        browserImportError.textContent = message;
+        browserImportError.classList.toggle('hidden', !message);
+    };
+
+    const getSelectedBrowserProfile = () =>
+        browserProfiles.find((profile) => profile.id === browserImportProfileSelect.value);
+
+    // Marca só o que o perfil escolhido tem
+    const updateBrowserImportOptions = () => {
+        const profile = getSelectedBrowserProfile();
+        browserImportHistoryCheckbox.disabled = !profile?.hasHistory;
+        browserImportBookmarksCheckbox.disabled = !profile?.hasBookmarks;
+        if (!profile?.hasHistory) browserImportHistoryCheckbox.checked = false;
+        if (!profile?.hasBookmarks) browserImportBookmarksCheckbox.checked = false;
+        browserImportBtn.disabled = browserImportRunning || !profile ||
+            (!browserImportHistoryCheckbox.checked && !browserImportBookmarksCheckbox.checked);
+    };
+
+    const renderBrowserProfiles = (selectedId) => {
+        browserImportProfileSelect.innerHTML = '';
+        browserProfiles.forEach((profile) => {
+            // Nomes vêm dos arquivos do outro navegador: sempre como texto
+            const option = document.createElement('option');
+            option.value = profile.id;
+            option.textContent = `${profile.browser} — ${profile.name}`;
+            option.title = profile.path;
+            browserImportProfileSelect.appendChild(option);
+        });
+        if (selectedId) browserImportProfileSelect.value = selectedId;
+        document.getElementById('browser-import-empty').classList.toggle('hidden', browserProfiles.length > 0);
+        browserImportProfileSelect.disabled = browserProfiles.length === 0;
+        // Perfil recém-encontrado começa com tudo marcado
+        browserImportHistoryCheckbox.checked = true;
+        browserImportBookmarksCheckbox.checked = true;
+        updateBrowserImportOptions();
+    };
+
+    const loadBrowserProfiles = async () => {
+        try {
+            browserProfiles = await window.heraAPI.getBrowserProfiles();
+        } catch (error) {
+            console.error('Erro ao procurar perfis:', error);
+            browserProfiles = [];
+        }
+        renderBrowserProfiles();
+    };
+
+    const BROWSER_IMPORT_STAGES = {
+        reading: 'Lendo o perfil...',
+        history: 'Importando histórico',
+        bookmarks: 'Importando favoritos...'
+    };
+
+    const formatBrowserImportSummary = (result) => {
+        const items = [];
+        if (browserImportHistoryCheckbox.checked) {
+            let text = `${formatCount(result.history, 'página importada', 'páginas importadas')} para o histórico ` +
+                `(${formatCount(result.visits, 'visita', 'visitas')})`;
+            if (result.historyDuplicates > 0) {
+                text += ` · ${formatCount(result.historyDuplicates, 'já estava', 'já estavam')} no histórico`;
+            }
+            items.push(text);
+        }
+        if (result.bookmarks) {
+            const parts = [formatCount(result.bookmarks.bookmarks, 'favorito importado', 'favoritos importados')];
+            if (result.bookmarks.folders > 0) parts.push(formatCount(result.bookmarks.folders, 'pasta criada', 'pastas criadas'));
+            if (result.bookmarks.duplicates > 0) parts.push(formatCount(result.bookmarks.duplicates, 'repetido ignorado', 'repetidos ignorados'));
+            if (result.bookmarks.skipped > 0) parts.push(formatCount(result.bookmarks.skipped, 'endereço não suportado', 'endereços não suportados'));
+            items.push(parts.join(' · '));
+        }
+        return items;
+    };
+
+    if (browserImportProfileSelect) {
+        browserImportProfileSelect.addEventListener('change', updateBrowserImportOptions);
+        browserImportHistoryCheckbox.addEventListener('change', updateBrowserImportOptions);
+        browserImportBookmarksCheckbox.addEventListener('change', updateBrowserImportOptions);
+
+        document.getElementById('browser-import-refresh-btn').addEventListener('click', loadBrowserProfiles);
+
+        document.getElementById('browser-import-choose-btn').addEventListener('click', async () => {
+            showBrowserImportError('');
+            try {
+                const profile = await window.heraAPI.chooseBrowserProfile();
+                if (!profile) return;
+                browserProfiles = [...browserProfiles.filter((item) => item.id !== profile.id), profile];
+                renderBrowserProfiles(profile.id);
+            } catch (error) {
+                showBrowserImportError(error.message.replace(/^.*Error: /, ''));
+            }
+        });
+
+        window.heraAPI.on('browser-import:progress', (progress) => {
+            const label = BROWSER_IMPORT_STAGES[progress.stage] || '';
+            if (progress.total > 0) {
+                browserImportProgress.max = progress.total;
+                browserImportProgress.value = progress.done;
+            } else {
+                // Sem total conhecido: barra indeterminada
+                browserImportProgress.removeAttribute('value');
+            }
+            browserImportProgressText.textContent = progress.stage === 'history' && progress.total > 0
+                ? `${label}: ${progress.done.toLocaleString('pt-BR')} de ${progress.total.toLocaleString('pt-BR')}`
+                : label;
+        });
+
+        browserImportBtn.addEventListener('click', async () => {
+            const profile = getSelectedBrowserProfile();
+            if (!profile) return;
+
+            browserImportRunning = true;
+            updateBrowserImportOptions();
+            showBrowserImportError('');
+            browserImportSummary.classList.add('hidden');
+            browserImportProgress.removeAttribute('value');
+            browserImportProgressText.textContent = BROWSER_IMPORT_STAGES.reading;
+            browserImportProgressBox.classList.remove('hidden');
+
+            try {
+                const result = await window.heraAPI.importBrowserProfile(profile.id, {
+                    history: browserImportHistoryCheckbox.checked,
+                    bookmarks: browserImportBookmarksCheckbox.checked
+                });
+                browserImportSummary.innerHTML = '';
+                formatBrowserImportSummary(result).forEach((text) => {
+                    const item = document.createElement('li');
+                    item.textContent = text;
+                    browserImportSummary.appendChild(item);
+                });
+                browserImportSummary.classList.remove('hidden');
+            } catch (error) {
+                console.error('Erro ao importar perfil:', error);
+                showBrowserImportError(error.message.replace(/^.*Error: /, ''));
+            } finally {
+                browserImportRunning = false;
+                browserImportProgressBox.classList.add('hidden');
+                updateBrowserImportOptions();
+            }
+        });
+
+        loadBrowserProfiles();
+    }
+
     // Botão de limpar histórico
     const clearHistoryBtn = document.getElementById('clear-history-btn');
     if (clearHistoryBtn) {
@@ -0,0 +1,258 @@
+// Busca de abas (Ctrl+Shift+A)
+// Os resultados chegam prontos (e ordenados) do main process; aqui só renderizamos
+const container = document.getElementById('tab-search-container');
+const searchInput = document.getElementById('tab-search-input');
+const resultsList = document.getElementById('tab-search-results');
+const emptyMessage = document.getElementById('tab-search-empty');
+const selectAllCheckbox = document.getElementById('tab-search-select-all');
+const closeSelectedButton = document.getElementById('tab-search-close-selected');
+
+let results = [];
+let selectedIndex = -1;
+// Abas marcadas para fechar em lote (continuam marcadas enquanto aparecem nos resultados)
+const checkedTabIds = new Set();
+
+const ICONS = {
+    tab: '<rect x="3" y="4" width="18" height="16" rx="2"></rect><path d="M3 9h18"></path>',
+    closed: '<polyline points="1 4 1 10 7 10"></polyline><path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"></path>'
+};
+
+function createIcon(result) {
+    const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    svg.setAttribute('class', 'tab-search-icon');
+    svg.setAttribute('width', '16');
+    svg.setAttribute('height', '16');
+    svg.setAttribute('viewBox', '0 0 24 24');
+    svg.setAttribute('fill', 'none');
+    svg.setAttribute('stroke', 'currentColor');
+    svg.setAttribute('stroke-width', '2');
+    svg.innerHTML = result.type === 'closed' ? ICONS.closed : ICONS.tab;
+
+    if (!result.favicon) {
+        return svg;
+    }
+
+    // Favicon com fallback para o ícone do tipo
+    const img = document.createElement('img');
+    img.className = 'tab-search-favicon';
+    img.alt = '';
+    img.src = result.favicon;
+    img.onerror = () => img.replaceWith(svg);
+    return img;
+}
+
+function getBadgeText(result) {
+    if (result.type === 'closed') return 'Fechada';
+    if (result.active) return 'Aba atual';
+    if (result.windowNumber) return `Janela ${result.windowNumber}`;
+    return '';
+}
+
+// Informa a altura real ao main process para ajustar o BrowserView
+function reportHeight() {
+    requestAnimationFrame(() => {
+        window.heraAPI.send('tab-search:resize', container.offsetHeight);
+    });
+}
+
+function updateBulkActions() {
+    const openTabIds = results.filter((result) => result.type === 'open').map((result) => result.tabId);
+    const checkedCount = openTabIds.filter((id) => checkedTabIds.has(id)).length;
+
+    selectAllCheckbox.disabled = openTabIds.length === 0;
+    selectAllCheckbox.checked = openTabIds.length > 0 && checkedCount === openTabIds.length;
+    selectAllCheckbox.indeterminate = checkedCount > 0 && checkedCount < openTabIds.length;
+
+    closeSelectedButton.disabled = checkedCount === 0;
+    closeSelectedButton.textContent = checkedCount > 0 ? `Fechar ${checkedCount} selecionada${checkedCount > 1 ? 's' : ''}` : 'Fechar selecionadas';
+}
+
+function setSelectedIndex(index) {
+    selectedIndex = index;
+    const items = resultsList.querySelectorAll('.tab-search-item');
+    items.forEach((item, idx) => {
+        item.classList.toggle('selected', idx === index);
+    });
+    if (index >= 0 && items[index]) {
+        items[index].scrollIntoView({ block: 'nearest' });
+    }
+}
+
+function closeTabs(tabIds) {
+    if (tabIds.length === 0) return;
+    tabIds.forEach((id) => checkedTabIds.delete(id));
+    window.heraAPI.send('tab-search:close-tabs', tabIds);
+}
+
+function renderResults() {
+    resultsList.innerHTML = '';
+
+    // Abas que não aparecem mais (fechadas ou fora da busca) deixam de estar marcadas
+    const visibleTabIds = new Set(results.map((result) => result.tabId).filter(Boolean));
+    Array.from(checkedTabIds).forEach((id) => {
+        if (!visibleTabIds.has(id)) checkedTabIds.delete(id);
+    });
+
+    results.forEach((result, index) => {
+        const item = document.createElement('div');
+        item.className = 'tab-search-item';
+        item.classList.toggle('closed', result.type === 'closed');
+        item.dataset.index = index;
+
+        if (result.type === 'open') {
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.className = 'tab-search-checkbox';
+            checkbox.title = 'Selecionar para fechar';
+            checkbox.checked = checkedTabIds.has(result.tabId);
+            checkbox.addEventListener('click', (e) => e.stopPropagation());
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    checkedTabIds.add(result.tabId);
+                } else {
+                    checkedTabIds.delete(result.tabId);
+                }
+                updateBulkActions();
+                searchInput.focus();
+            });
+            item.appendChild(checkbox);
+        } else {
+            const placeholder = document.createElement('span');
+            placeholder.className = 'tab-search-checkbox-placeholder';
+            item.appendChild(placeholder);
+        }
+
+        item.appendChild(createIcon(result));
+
+        // Títulos vêm das páginas visitadas: sempre como texto, nunca como HTML
+        const content = document.createElement('div');
+        content.className = 'tab-search-content';
+
+        const title = document.createElement('div');
+        title.className = 'tab-search-title';
+        title.textContent = result.title;
+        content.appendChild(title);
+
+        const url = document.createElement('div');
+        url.className = 'tab-search-url';
+        url.textContent = result.url;
+        content.appendChild(url);
+
+        item.appendChild(content);
+
+        const badgeText = getBadgeText(result);
+        if (badgeText) {
+            const badge = document.createElement('span');
+            badge.className = 'tab-search-badge';
+            badge.textContent = badgeText;
+            item.appendChild(badge);
+        }
+
+        if (result.type === 'open') {
+            const closeButton = document.createElement('button');
+            closeButton.className = 'tab-search-close';
+            closeButton.title = 'Fechar aba';
+            closeButton.textContent = '×';
+            closeButton.addEventListener('click', (e) => {
+                e.stopPropagation();
+                closeTabs([result.tabId]);
+            });
+            item.appendChild(closeButton);
+        }
+
+        item.addEventListener('click', () => {
+            window.heraAPI.send('tab-search:select', index);
+        });
+
+        resultsList.appendChild(item);
+    });
+
+    emptyMessage.classList.toggle('hidden', results.length > 0);
+    setSelectedIndex(results.length > 0 ? Math.min(Math.max(selectedIndex, 0), results.length - 1) : -1);
+    updateBulkActions();
+    reportHeight();
+}
+
+searchInput.addEventListener('input', () => {
+    selectedIndex = 0;
+    window.heraAPI.send('tab-search:query', searchInput.value);
+});
+
+searchInput.addEventListener('keydown', (e) => {
+    const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
+    const modifier = isMac ? e.metaKey : e.ctrlKey;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        if (results.length === 0) return;
+        const delta = e.key === 'ArrowDown' ? 1 : -1;
+        setSelectedIndex((selectedIndex + delta + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+        e.preventDefault();
+        if (selectedIndex >= 0) {
+            window.heraAPI.send('tab-search:select', selectedIndex);
+        }
+    } else if (e.key === 'Escape') {
+        e.preventDefault();
+        window.heraAPI.send('tab-search:hide');
+    } else if (e.key === 'Delete' && modifier) {
+        // Ctrl+Delete: fecha a aba destacada sem sair da busca
+        e.preventDefault();
+        const result = results[selectedIndex];
+        if (result?.type === 'open') {
+            closeTabs([result.tabId]);
+        }
+    }
+});
+
+// Ctrl+Shift+A com a busca aberta fecha a busca
+document.addEventListener('keydown', (e) => {
+    const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
+    const modifier = isMac ? e.metaKey : e.ctrlKey;
+    if (modifier && e.shiftKey && e.key.toLowerCase() === 'a') {
+        e.preventDefault();
+        window.heraAPI.send('tab-search:toggle');
+    }
+});
+
+selectAllCheckbox.addEventListener('change', () => {
+    results
+        .filter((result) => result.type === 'open')
+        .forEach((result) => {
+            if (selectAllCheckbox.checked) {
+                checkedTabIds.add(result.tabId);
+            } else {
+                checkedTabIds.delete(result.tabId);
+            }
+        });
+    renderResults();
+    searchInput.focus();
+});
+
+closeSelectedButton.addEventListener('click', () => {
+    const tabIds = results
+        .filter((result) => result.type === 'open' && checkedTabIds.has(result.tabId))
+        .map((result) => result.tabId);
+    closeTabs(tabIds);
+    searchInput.focus();
+});
+
+if (window.heraAPI) {
+    // Cada abertura começa com a busca vazia
+    window.heraAPI.on('tab-search:opened', () => {
+        searchInput.value = '';
+        selectedIndex = 0;
+        checkedTabIds.clear();
+        searchInput.focus();
+    });
+
+    window.heraAPI.on('tab-search:results', (newResults) => {
+        results = newResults || [];
+        renderResults();
+    });
+
+    // Clicou fora da busca
+    window.addEventListener('blur', () => {
+        window.heraAPI.send('tab-search:hide');
+    });
+}
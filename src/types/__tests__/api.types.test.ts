@@ -16,8 +16,8 @@
 
 // @ts-nocheck - Suprime warnings de variáveis não utilizadas em testes de tipo
 import { HeraAPI } from '../api.types';
-import { Bookmark, BookmarkFolder, HistoryEntry } from '../database.types';
-import { NavigationState } from '../ui.types';
+import { Bookmark, BookmarkFolder, BookmarkInput, BookmarkImportResult, HistoryEntry, HistorySearchOptions, HistorySearchResult, VisitEntry, SearchEngine, SearchEngineInput, ClosedTab, TabGroup, TabGroupInput, Container, ContainerInput, NamedSession } from '../database.types';
+import { NavigationState, InlineCompletion, SplitViewChanges, TabLayout, BrowserProfile, BrowserImportOptions, BrowserImportResult } from '../ui.types';
 
 // ============================================================================
 // Utility Types para Testes
@@ -72,6 +72,79 @@ type TestCloseTab = AssertTrue<
   >
 >;
 
+// Abas fechadas: id omitido reabre a mais recente
+type TestGetRecentlyClosedTabs = AssertTrue<
+  IsExact<HeraAPI['getRecentlyClosedTabs'], (limit?: number) => Promise<ClosedTab[]>>
+>;
+
+type TestReopenClosedTab = AssertTrue<
+  IsExact<HeraAPI['reopenClosedTab'], (id?: number) => Promise<boolean>>
+>;
+
+// A ordem das abas pertence ao main process
+type TestMoveTab = AssertTrue<
+  IsExact<HeraAPI['moveTab'], (id: string, index: number) => Promise<void>>
+>;
+
+// Abas fixadas
+type TestPinTab = AssertTrue<
+  IsExact<HeraAPI['pinTab'], (id: string) => Promise<void>>
+>;
+
+type TestUnpinTab = AssertTrue<
+  IsExact<HeraAPI['unpinTab'], (id: string) => Promise<void>>
+>;
+
+type TestCloseOtherTabs = AssertTrue<
+  IsExact<HeraAPI['closeOtherTabs'], (id: string) => Promise<void>>
+>;
+
+// Abas entre janelas
+type TestMoveTabToWindow = AssertTrue<
+  IsExact<HeraAPI['moveTabToWindow'], (id: string, index: number) => Promise<void>>
+>;
+
+type TestMoveTabToNewWindow = AssertTrue<
+  IsExact<HeraAPI['moveTabToNewWindow'], (id: string, position?: { x: number; y: number }) => Promise<void>>
+>;
+
+// Grupos de abas
+type TestGetTabGroups = AssertTrue<
+  IsExact<HeraAPI['getTabGroups'], () => Promise<TabGroup[]>>
+>;
+
+type TestCreateTabGroup = AssertTrue<
+  IsExact<HeraAPI['createTabGroup'], (tabIds: string[], input?: TabGroupInput) => Promise<string | null>>
+>;
+
+type TestUpdateTabGroup = AssertTrue<
+  IsExact<HeraAPI['updateTabGroup'], (groupId: string, changes: TabGroupInput) => Promise<boolean>>
+>;
+
+// null tira a aba do grupo atual
+type TestMoveTabToGroup = AssertTrue<
+  IsExact<Parameters<HeraAPI['moveTabToGroup']>[1], string | null>
+>;
+
+// A disposição das abas é a mesma em todas as janelas
+type TestGetTabLayout = AssertTrue<
+  IsExact<HeraAPI['getTabLayout'], () => Promise<TabLayout>>
+>;
+
+// Sem ID, a tela é dividida com uma nova aba
+type TestOpenSplitView = AssertTrue<
+  IsExact<HeraAPI['openSplitView'], (tabId?: string) => Promise<void>>
+>;
+
+type TestUpdateSplitView = AssertTrue<
+  IsExact<Parameters<HeraAPI['updateSplitView']>[0], SplitViewChanges>
+>;
+
+// O arraste da divisória não espera resposta do main process
+type TestStartSplitViewResize = AssertTrue<
+  IsExact<ReturnType<HeraAPI['startSplitViewResize']>, void>
+>;
+
 // ============================================================================
 // Testes de Métodos de Navigation
 // ============================================================================
@@ -144,6 +217,18 @@ type TestWindowClose = AssertTrue<
   >
 >;
 
+type TestNewWindow = AssertTrue<
+  IsExact<HeraAPI['newWindow'], () => Promise<void>>
+>;
+
+type TestNewPrivateWindow = AssertTrue<
+  IsExact<HeraAPI['newPrivateWindow'], () => Promise<void>>
+>;
+
+type TestIsPrivateWindow = AssertTrue<
+  IsExact<HeraAPI['isPrivateWindow'], () => Promise<boolean>>
+>;
+
 // ============================================================================
 // Testes de Métodos de Download
 // ============================================================================
@@ -176,6 +261,48 @@ type TestGetHistory = AssertTrue<
   >
 >;
 
+// searchHistory deve aceitar query e opções opcionais e retornar Promise<HistorySearchResult[]>
+type TestSearchHistory = AssertTrue<
+  IsExact<
+    HeraAPI['searchHistory'],
+    (query: string, options?: HistorySearchOptions) => Promise<HistorySearchResult[]>
+  >
+>;
+
+// getHistoryVisits deve aceitar uma URL e retornar Promise<VisitEntry[]>
+type TestGetHistoryVisits = AssertTrue<
+  IsExact<
+    HeraAPI['getHistoryVisits'],
+    (url: string) => Promise<VisitEntry[]>
+  >
+>;
+
+// getInlineCompletion deve retornar a sugestão ou null
+type TestGetInlineCompletion = AssertTrue<
+  IsExact<HeraAPI['getInlineCompletion'], (text: string) => Promise<InlineCompletion | null>>
+>;
+
+// Métodos de remoção do histórico
+type TestDeleteHistoryItem = AssertTrue<
+  IsExact<HeraAPI['deleteHistoryItem'], (id: number) => Promise<boolean>>
+>;
+
+type TestDeleteHistoryItems = AssertTrue<
+  IsExact<HeraAPI['deleteHistoryItems'], (ids: number[]) => Promise<number>>
+>;
+
+type TestDeleteHistoryByUrl = AssertTrue<
+  IsExact<HeraAPI['deleteHistoryByUrl'], (url: string) => Promise<number>>
+>;
+
+type TestDeleteHistoryByDomain = AssertTrue<
+  IsExact<HeraAPI['deleteHistoryByDomain'], (domain: string) => Promise<number>>
+>;
+
+type TestDeleteHistoryRange = AssertTrue<
+  IsExact<HeraAPI['deleteHistoryRange'], (from: number, to: number) => Promise<number>>
+>;
+
 // clearHistory não deve aceitar parâmetros e retornar Promise<void>
 type TestClearHistory = AssertTrue<
   IsExact<
@@ -264,6 +391,37 @@ type TestGetBookmarkFolders_Parameters = AssertTrue<
   >
 >;
 
+type TestUpdateBookmark = AssertTrue<
+  IsExact<HeraAPI['updateBookmark'], (id: string, changes: BookmarkInput) => Promise<boolean>>
+>;
+
+// Mover para a raiz usa null (e não undefined) como pasta
+type TestMoveBookmark = AssertTrue<
+  IsExact<HeraAPI['moveBookmark'], (id: string, folderId: string | null, position: number) => Promise<boolean>>
+>;
+
+type TestDeleteBookmarkFolder = AssertTrue<
+  IsExact<HeraAPI['deleteBookmarkFolder'], (id: string) => Promise<boolean>>
+>;
+
+// null = o usuário cancelou a escolha do arquivo
+type TestImportBookmarksHtml = AssertTrue<
+  IsExact<HeraAPI['importBookmarksHtml'], () => Promise<BookmarkImportResult | null>>
+>;
+
+type TestExportBookmarksHtml = AssertTrue<
+  IsExact<HeraAPI['exportBookmarksHtml'], () => Promise<boolean>>
+>;
+
+// A importação recebe o ID do perfil, nunca um caminho vindo da página
+type TestImportBrowserProfile = AssertTrue<
+  IsExact<HeraAPI['importBrowserProfile'], (id: string, options: BrowserImportOptions) => Promise<BrowserImportResult>>
+>;
+
+type TestChooseBrowserProfile = AssertTrue<
+  IsExact<HeraAPI['chooseBrowserProfile'], () => Promise<BrowserProfile | null>>
+>;
+
 // ============================================================================
 // Testes de Métodos de Settings
 // ============================================================================
@@ -292,6 +450,68 @@ type TestGetAllSettings = AssertTrue<
   >
 >;
 
+// ============================================================================
+// Testes de Métodos de Mecanismos de Busca
+// ============================================================================
+
+type TestGetSearchEngines = AssertTrue<
+  IsExact<HeraAPI['getSearchEngines'], () => Promise<SearchEngine[]>>
+>;
+
+type TestAddSearchEngine = AssertTrue<
+  IsExact<HeraAPI['addSearchEngine'], (engine: SearchEngineInput) => Promise<SearchEngine>>
+>;
+
+// Edição parcial: apenas os campos alterados
+type TestUpdateSearchEngine = AssertTrue<
+  IsExact<
+    HeraAPI['updateSearchEngine'],
+    (id: string, changes: Partial<SearchEngineInput>) => Promise<SearchEngine | null>
+  >
+>;
+
+type TestRemoveSearchEngine = AssertTrue<
+  IsExact<HeraAPI['removeSearchEngine'], (id: string) => Promise<boolean>>
+>;
+
+type TestGetContainers = AssertTrue<
+  IsExact<HeraAPI['getContainers'], () => Promise<Container[]>>
+>;
+
+type TestAddContainer = AssertTrue<
+  IsExact<HeraAPI['addContainer'], (container: ContainerInput) => Promise<Container>>
+>;
+
+type TestUpdateContainer = AssertTrue<
+  IsExact<
+    HeraAPI['updateContainer'],
+    (id: string, changes: Partial<ContainerInput>) => Promise<Container | null>
+  >
+>;
+
+// null abre a aba sem contêiner
+type TestOpenTabInContainer = AssertTrue<
+  IsExact<HeraAPI['openTabInContainer'], (containerId: string | null, url?: string) => Promise<void>>
+>;
+
+type TestSaveSession = AssertTrue<
+  IsExact<HeraAPI['saveSession'], (name: string) => Promise<NamedSession>>
+>;
+
+type TestOpenSession = AssertTrue<
+  IsExact<HeraAPI['openSession'], (id: string) => Promise<boolean>>
+>;
+
+// Importar pode ser cancelado no seletor de arquivo
+type TestImportSession = AssertTrue<
+  IsExact<HeraAPI['importSession'], () => Promise<NamedSession | null>>
+>;
+
+// resolveAddressInput sempre produz uma URL navegável
+type TestResolveAddressInput = AssertTrue<
+  IsExact<HeraAPI['resolveAddressInput'], (text: string) => Promise<string>>
+>;
+
 // ============================================================================
 // Testes de Métodos de View
 // ============================================================================
@@ -304,6 +524,14 @@ type TestToggleMenu = AssertTrue<
   >
 >;
 
+// toggleTabSearch também é fire-and-forget, como toggleMenu
+type TestToggleTabSearch = AssertTrue<
+  IsExact<
+    HeraAPI['toggleTabSearch'],
+    () => void
+  >
+>;
+
 // menuAction deve aceitar string e retornar void (não Promise)
 type TestMenuAction = AssertTrue<
   IsExact<
@@ -356,6 +584,21 @@ type TestOnTabLoading = AssertTrue<
   >
 >;
 
+// onTabMoved recebe o ID e a nova posição da aba
+type TestOnTabMoved = AssertTrue<
+  IsExact<
+    Parameters<Parameters<HeraAPI['onTabMoved']>[0]>,
+    [id: string, position: number]
+  >
+>;
+
+type TestOnTabGroupUpdated = AssertTrue<
+  IsExact<
+    Parameters<Parameters<HeraAPI['onTabGroupUpdated']>[0]>,
+    [group: TabGroup]
+  >
+>;
+
 // on deve aceitar string e callback genérico e retornar void
 type TestOn = AssertTrue<
   IsExact<
@@ -420,7 +663,7 @@ export type CriticalAPIMethods = Pick<
  * Valida que todos os métodos críticos estão presentes
  */
 type TestCriticalMethodsPresent = AssertTrue<
-  IsAssignable<CriticalAPIMethods, HeraAPI>
+  IsAssignable<HeraAPI, CriticalAPIMethods>
 >;
 
 // Se este arquivo compila sem erros, todos os testes de tipo passaram! ✓
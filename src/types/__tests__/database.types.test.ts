@@ -18,8 +18,32 @@
 // @ts-nocheck - Suprime warnings de variáveis não utilizadas em testes de tipo
 import { 
   HistoryEntry, 
+  HistorySearchOptions,
+  HistorySearchResult,
+  VisitEntry,
+  VisitTransition,
+  SearchEngine,
+  SearchEngineInput,
+  ClosedTab,
+  ClosedTabState,
+  TabNavigationEntry,
+  TabGroup,
+  TabGroupColor,
+  TabGroupInput,
+  Container,
+  ContainerInput,
+  WindowState,
+  SplitViewOrientation,
+  SessionSnapshot,
+  NamedSession,
+  NamedSessionState,
+  SessionExportFile,
   Bookmark, 
   BookmarkFolder, 
+  BookmarkInput,
+  BookmarkTreeNode,
+  BookmarkImportResult,
+  ImportedHistoryEntry,
   TabState 
 } from '../database.types';
 
@@ -49,13 +73,14 @@ type IsAssignable<T, U> = T extends U ? true : false;
 
 /**
  * Verifica se uma propriedade é opcional em um tipo
+ * (olha o modificador `?`: com strictNullChecks desligado, `undefined` cabe em qualquer tipo)
  */
-type IsOptional<T, K extends keyof T> = undefined extends T[K] ? true : false;
+type IsOptional<T, K extends keyof T> = Pick<T, K> extends Required<Pick<T, K>> ? false : true;
 
 /**
  * Verifica se uma propriedade é obrigatória em um tipo
  */
-type IsRequired<T, K extends keyof T> = undefined extends T[K] ? false : true;
+type IsRequired<T, K extends keyof T> = Pick<T, K> extends Required<Pick<T, K>> ? true : false;
 
 // ============================================================================
 // Testes de Interface HistoryEntry
@@ -128,6 +153,218 @@ type TestHistoryEntry_FullCreation = AssertTrue<
   >
 >;
 
+// ============================================================================
+// Testes de Interface HistorySearchOptions / HistorySearchResult
+// ============================================================================
+
+// Todas as opções de busca são opcionais
+type TestHistorySearchOptions_AllOptional = AssertTrue<
+  IsAssignable<Record<string, never>, HistorySearchOptions>
+>;
+
+type TestHistorySearchOptions_HasAllProperties = AssertTrue<
+  IsExact<
+    keyof HistorySearchOptions,
+    'from' | 'to' | 'limit' | 'offset'
+  >
+>;
+
+// HistorySearchResult estende HistoryEntry com os snippets obrigatórios
+type TestHistorySearchResult_ExtendsHistoryEntry = AssertTrue<
+  IsAssignable<HistorySearchResult, HistoryEntry>
+>;
+
+type TestHistorySearchResult_TitleSnippetIsRequired = AssertTrue<
+  IsRequired<HistorySearchResult, 'title_snippet'>
+>;
+
+type TestHistorySearchResult_UrlSnippetIsRequired = AssertTrue<
+  IsRequired<HistorySearchResult, 'url_snippet'>
+>;
+
+// ============================================================================
+// Testes de Interface VisitEntry
+// ============================================================================
+
+type TestVisitTransition_AllValues = AssertTrue<
+  IsExact<
+    VisitTransition,
+    'typed' | 'link' | 'reload' | 'redirect' | 'form_submit' | 'restored'
+  >
+>;
+
+type TestVisitEntry_HasAllProperties = AssertTrue<
+  IsExact<
+    keyof VisitEntry,
+    'id' | 'history_id' | 'visit_time' | 'transition' | 'referrer_visit_id' | 'duration_ms'
+  >
+>;
+
+type TestVisitEntry_TransitionType = AssertTrue<
+  IsExact<VisitEntry['transition'], VisitTransition>
+>;
+
+// Visitas sem origem conhecida usam null
+type TestVisitEntry_ReferrerType = AssertTrue<
+  IsExact<VisitEntry['referrer_visit_id'], number | null>
+>;
+
+// ============================================================================
+// Testes de Interface SearchEngine
+// ============================================================================
+
+type TestSearchEngine_HasAllProperties = AssertTrue<
+  IsExact<
+    keyof SearchEngine,
+    'id' | 'name' | 'url_template' | 'keyword' | 'suggest_url' | 'position'
+  >
+>;
+
+type TestSearchEngine_KeywordIsRequired = AssertTrue<
+  IsRequired<SearchEngine, 'keyword'>
+>;
+
+type TestSearchEngine_SuggestUrlIsOptional = AssertTrue<
+  IsOptional<SearchEngine, 'suggest_url'>
+>;
+
+// ID e posição são definidos pelo banco, não pelo usuário
+type TestSearchEngineInput_Fields = AssertTrue<
+  IsExact<
+    keyof SearchEngineInput,
+    'name' | 'url_template' | 'keyword' | 'suggest_url'
+  >
+>;
+
+// ============================================================================
+// Testes de Interface ClosedTab
+// ============================================================================
+
+type TestClosedTab_HasAllProperties = AssertTrue<
+  IsExact<
+    keyof ClosedTab,
+    'id' | 'url' | 'title' | 'favicon' | 'position' | 'closed_at'
+  >
+>;
+
+type TestClosedTab_IdType = AssertTrue<
+  IsExact<ClosedTab['id'], number>
+>;
+
+// O estado completo inclui o histórico de voltar/avançar
+type TestClosedTabState_ExtendsClosedTab = AssertTrue<
+  IsAssignable<ClosedTabState, ClosedTab>
+>;
+
+type TestClosedTabState_NavigationIndexIsRequired = AssertTrue<
+  IsRequired<ClosedTabState, 'navigation_index'>
+>;
+
+// ============================================================================
+// Testes de Interface TabGroup
+// ============================================================================
+
+type TestTabGroup_HasAllProperties = AssertTrue<
+  IsExact<
+    keyof TabGroup,
+    'id' | 'name' | 'color' | 'collapsed'
+  >
+>;
+
+type TestTabGroup_ColorType = AssertTrue<
+  IsExact<TabGroup['color'], TabGroupColor>
+>;
+
+// Na edição, todos os campos são opcionais e o ID não pode ser alterado
+type TestTabGroupInput_AllOptional = AssertTrue<
+  IsExact<TabGroupInput, { name?: string; color?: TabGroupColor; collapsed?: boolean }>
+>;
+
+// ============================================================================
+// Testes de Interface Container
+// ============================================================================
+
+type TestContainer_HasAllProperties = AssertTrue<
+  IsExact<
+    keyof Container,
+    'id' | 'name' | 'color' | 'user_agent' | 'permissions' | 'position'
+  >
+>;
+
+// Contêineres usam a mesma paleta dos grupos de abas
+type TestContainer_ColorType = AssertTrue<
+  IsExact<Container['color'], TabGroupColor>
+>;
+
+// Sem user agent ou permissões próprios, valem os padrões do navegador
+type TestContainer_UserAgentIsOptional = AssertTrue<
+  IsOptional<Container, 'user_agent'>
+>;
+
+// Na edição, null volta as permissões para o padrão
+type TestContainerInput_PermissionsNullable = AssertTrue<
+  IsExact<ContainerInput['permissions'], string[] | null | undefined>
+>;
+
+// ============================================================================
+// Testes de Interface WindowState
+// ============================================================================
+
+type TestWindowState_HasAllProperties = AssertTrue<
+  IsExact<
+    keyof WindowState,
+    'id' | 'x' | 'y' | 'width' | 'height' | 'maximized' | 'split_tabs' | 'split_orientation' | 'split_ratio'
+  >
+>;
+
+// Sem posição salva, o sistema escolhe onde abrir a janela
+type TestWindowState_PositionIsOptional = AssertTrue<
+  IsOptional<WindowState, 'x'>
+>;
+
+type TestWindowState_SizeIsRequired = AssertTrue<
+  IsRequired<WindowState, 'width'>
+>;
+
+// Sem tela dividida, os campos da tela dividida ficam de fora
+type TestWindowState_SplitIsOptional = AssertTrue<
+  IsOptional<WindowState, 'split_tabs'>
+>;
+
+// A tela dividida tem sempre exatamente duas abas
+type TestWindowState_SplitTabsIsPair = AssertTrue<
+  IsExact<NonNullable<WindowState['split_tabs']>, [number, number]>
+>;
+
+type TestSplitViewOrientation = AssertTrue<
+  IsExact<SplitViewOrientation, 'horizontal' | 'vertical'>
+>;
+
+// ============================================================================
+// Testes de Interface NamedSession
+// ============================================================================
+
+type TestNamedSession_HasAllProperties = AssertTrue<
+  IsExact<
+    keyof NamedSession,
+    'id' | 'name' | 'tab_count' | 'window_count' | 'created_at' | 'updated_at'
+  >
+>;
+
+// A sessão nomeada usa o mesmo formato da sessão salva ao fechar o navegador
+type TestSessionSnapshot_MatchesSavedSession = AssertTrue<
+  IsExact<SessionSnapshot, { tabs: TabState[]; groups: TabGroup[]; windows: WindowState[] }>
+>;
+
+type TestNamedSessionState_ExtendsNamedSession = AssertTrue<
+  IsAssignable<NamedSessionState, NamedSession>
+>;
+
+// O arquivo exportado é identificado pelo formato e pela versão
+type TestSessionExportFile_Format = AssertTrue<
+  IsExact<SessionExportFile['format'], 'hera-session'>
+>;
+
 // ============================================================================
 // Testes de Interface Bookmark
 // ============================================================================
@@ -252,6 +489,30 @@ type TestBookmark_SeparatorCreation = AssertTrue<
   >
 >;
 
+// A edição não muda a pasta nem a posição (isso é feito por moveBookmark)
+type TestBookmarkInput_EditableFields = AssertTrue<
+  IsExact<BookmarkInput, { title?: string; url?: string }>
+>;
+
+// Nós da árvore de importação/exportação são pastas ou favoritos
+type TestBookmarkTreeNode_Types = AssertTrue<
+  IsExact<BookmarkTreeNode['type'], 'folder' | 'bookmark'>
+>;
+
+// Favoritos da árvore sempre têm URL (separadores não são exportados)
+type TestBookmarkTreeNode_BookmarkHasUrl = AssertTrue<
+  IsExact<Extract<BookmarkTreeNode, { type: 'bookmark' }>['url'], string>
+>;
+
+type TestBookmarkImportResult_Counts = AssertTrue<
+  IsExact<keyof BookmarkImportResult, 'bookmarks' | 'folders' | 'duplicates' | 'skipped'>
+>;
+
+// Visitas importadas usam os mesmos tipos de transição das visitas do Hera
+type TestImportedHistoryEntry_VisitTransition = AssertTrue<
+  IsExact<ImportedHistoryEntry['visits'][number]['transition'], VisitTransition>
+>;
+
 // ============================================================================
 // Testes de Interface BookmarkFolder
 // ============================================================================
@@ -342,7 +603,9 @@ type TestBookmarkFolder_SubFolderCreation = AssertTrue<
 type TestTabState_HasAllProperties = AssertTrue<
   IsExact<
     keyof TabState,
-    'id' | 'url' | 'title' | 'favicon' | 'position' | 'active'
+    | 'id' | 'url' | 'title' | 'favicon' | 'position' | 'active'
+    | 'navigation_entries' | 'navigation_index' | 'scroll_x' | 'scroll_y' | 'zoom_level'
+    | 'pinned' | 'group_id' | 'window_id' | 'container_id' | 'opener_id'
   >
 >;
 
@@ -376,6 +639,47 @@ type TestTabState_FaviconIsOptional = AssertTrue<
   IsOptional<TabState, 'favicon'>
 >;
 
+// Estados salvos antes do histórico por aba continuam válidos
+type TestTabState_NavigationEntriesIsOptional = AssertTrue<
+  IsOptional<TabState, 'navigation_entries'>
+>;
+
+type TestTabState_NavigationEntriesType = AssertTrue<
+  IsExact<TabState['navigation_entries'], TabNavigationEntry[] | undefined>
+>;
+
+type TestTabState_ZoomLevelIsOptional = AssertTrue<
+  IsOptional<TabState, 'zoom_level'>
+>;
+
+// Abas salvas antes das abas fixadas são tratadas como não fixadas
+type TestTabState_PinnedIsOptional = AssertTrue<
+  IsOptional<TabState, 'pinned'>
+>;
+
+type TestTabState_PinnedType = AssertTrue<
+  IsExact<TabState['pinned'], boolean | undefined>
+>;
+
+type TestTabState_GroupIdIsOptional = AssertTrue<
+  IsOptional<TabState, 'group_id'>
+>;
+
+// Sessões salvas antes das várias janelas voltam na primeira janela
+type TestTabState_WindowIdIsOptional = AssertTrue<
+  IsOptional<TabState, 'window_id'>
+>;
+
+// Abas sem contêiner usam a sessão compartilhada dos sites
+type TestTabState_ContainerIdIsOptional = AssertTrue<
+  IsOptional<TabState, 'container_id'>
+>;
+
+// Abas abertas diretamente (sem aba de origem) ficam no primeiro nível da árvore
+type TestTabState_OpenerIdIsOptional = AssertTrue<
+  IsOptional<TabState, 'opener_id'>
+>;
+
 // Valida que propriedades obrigatórias estão corretas
 type TestTabState_IdIsRequired = AssertTrue<
   IsRequired<TabState, 'id'>
@@ -552,7 +856,9 @@ type TestBookmark_OmitTimestamps = AssertTrue<
 type TestTabState_OmitFavicon = AssertTrue<
   IsExact<
     keyof Omit<TabState, 'favicon'>,
-    'id' | 'url' | 'title' | 'position' | 'active'
+    | 'id' | 'url' | 'title' | 'position' | 'active'
+    | 'navigation_entries' | 'navigation_index' | 'scroll_x' | 'scroll_y' | 'zoom_level'
+    | 'pinned' | 'group_id' | 'window_id' | 'container_id' | 'opener_id'
   >
 >;
 
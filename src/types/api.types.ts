@@ -1,11 +1,14 @@
-import type { NavigationState } from './ui.types';
-import { Bookmark, BookmarkFolder, HistoryEntry } from './database.types';
+import type { NavigationState, InlineCompletion, SplitViewChanges, TabLayout, BrowserProfile, BrowserImportOptions, BrowserImportResult } from './ui.types';
+import { Bookmark, BookmarkFolder, BookmarkInput, BookmarkImportResult, HistoryEntry, HistorySearchOptions, HistorySearchResult, VisitEntry, SearchEngine, SearchEngineInput, ClosedTab, TabGroup, TabGroupInput, Container, ContainerInput, NamedSession } from './database.types';
 import {
   TabCreatedCallback,
   TabSwitchedCallback,
   TabUpdatedCallback,
   TabClosedCallback,
   TabLoadingCallback,
+  TabMovedCallback,
+  TabGroupUpdatedCallback,
+  TabGroupRemovedCallback,
   UIVisibilityCallback,
   WindowMaximizedCallback,
   GenericCallback,
@@ -71,6 +74,210 @@ export interface HeraAPI {
    * @returns Promise que resolve quando a aba é fechada
    */
   closeTab: (id: string) => Promise<void>;
+  
+  /**
+   * Obtém as abas fechadas recentemente, da mais recente para a mais antiga
+   * 
+   * @param limit - Quantidade máxima de abas (opcional, padrão: 25)
+   * @returns Promise com array de abas fechadas
+   */
+  getRecentlyClosedTabs: (limit?: number) => Promise<ClosedTab[]>;
+  
+  /**
+   * Reabre uma aba fechada com seu histórico de voltar/avançar
+   * 
+   * @param id - ID da aba fechada (opcional, omitir para reabrir a mais recente)
+   * @returns Promise com true se alguma aba foi reaberta
+   * 
+   * @example
+   * ```typescript
+   * // Mesmo efeito de Ctrl+Shift+T
+   * await window.heraAPI.reopenClosedTab();
+   * ```
+   */
+  reopenClosedTab: (id?: number) => Promise<boolean>;
+  
+  /**
+   * Move a aba para outra posição da barra de abas
+   * 
+   * @param id - ID único da aba
+   * @param index - Posição final desejada (0 = primeira aba)
+   * @returns Promise que resolve quando a aba é movida
+   * 
+   * @remarks
+   * O main process é o dono da ordem das abas: a posição é ajustada para não
+   * misturar abas fixadas e não fixadas, a aba entra no grupo onde foi solta e
+   * a UI é atualizada pelo evento `onTabMoved`
+   */
+  moveTab: (id: string, index: number) => Promise<void>;
+  
+  /**
+   * Fixa a aba à esquerda da barra de abas
+   * 
+   * @param id - ID único da aba
+   * @returns Promise que resolve quando a aba é fixada
+   * 
+   * @remarks
+   * Abas fixadas mostram apenas o ícone, não são fechadas por "Fechar outras abas"
+   * e são restauradas na inicialização
+   */
+  pinTab: (id: string) => Promise<void>;
+  
+  /**
+   * Desafixa a aba, movendo-a para logo depois das abas fixadas
+   * 
+   * @param id - ID único da aba
+   * @returns Promise que resolve quando a aba é desafixada
+   */
+  unpinTab: (id: string) => Promise<void>;
+  
+  /**
+   * Fecha todas as abas exceto a indicada e as abas fixadas
+   * 
+   * @param id - ID da aba que deve permanecer aberta
+   * @returns Promise que resolve quando as abas são fechadas
+   */
+  closeOtherTabs: (id: string) => Promise<void>;
+  
+  /**
+   * Traz uma aba de outra janela para a janela que chamou
+   * 
+   * @param id - ID da aba (de qualquer janela)
+   * @param index - Posição desejada na barra de abas desta janela
+   * @returns Promise que resolve quando a aba é movida
+   * 
+   * @remarks
+   * A aba mantém a página carregada e o histórico, mas sai do seu grupo.
+   * A janela de origem fecha se ficar sem abas.
+   */
+  moveTabToWindow: (id: string, index: number) => Promise<void>;
+  
+  /**
+   * Abre uma nova janela só com a aba indicada
+   * 
+   * @param id - ID da aba
+   * @param position - Ponto da tela onde a nova janela deve abrir (ex: onde a aba foi solta)
+   * @returns Promise que resolve quando a aba é movida
+   */
+  moveTabToNewWindow: (id: string, position?: { x: number; y: number }) => Promise<void>;
+  
+  // Tab Groups
+  
+  /**
+   * Obtém os grupos de abas abertos, na ordem da barra
+   * 
+   * @returns Promise com array de grupos
+   */
+  getTabGroups: () => Promise<TabGroup[]>;
+  
+  /**
+   * Cria um grupo com as abas indicadas
+   * 
+   * @param tabIds - IDs das abas (o grupo se forma na posição da primeira delas)
+   * @param input - Nome, cor e estado inicial (opcional; a cor padrão é a próxima livre)
+   * @returns Promise com o ID do grupo criado, ou null se nenhuma aba existir
+   * 
+   * @example
+   * ```typescript
+   * const groupId = await window.heraAPI.createTabGroup([tabId], { name: 'Projeto', color: 'blue' });
+   * ```
+   */
+  createTabGroup: (tabIds: string[], input?: TabGroupInput) => Promise<string | null>;
+  
+  /**
+   * Renomeia, muda a cor ou recolhe/expande um grupo
+   * 
+   * @param groupId - ID do grupo
+   * @param changes - Campos a alterar
+   * @returns Promise com true se o grupo existia
+   */
+  updateTabGroup: (groupId: string, changes: TabGroupInput) => Promise<boolean>;
+  
+  /**
+   * Desfaz o grupo, mantendo suas abas abertas
+   * 
+   * @param groupId - ID do grupo
+   * @returns Promise que resolve quando o grupo é desfeito
+   */
+  ungroupTabs: (groupId: string) => Promise<void>;
+  
+  /**
+   * Move a aba para outro grupo, ou a remove do grupo atual
+   * 
+   * @param tabId - ID da aba
+   * @param groupId - ID do grupo de destino (null = tirar do grupo)
+   * @returns Promise que resolve quando a aba é movida
+   * 
+   * @remarks
+   * A aba vai para o fim do grupo de destino. Abas fixadas são desafixadas.
+   */
+  moveTabToGroup: (tabId: string, groupId: string | null) => Promise<void>;
+
+  // Tab Layout
+  
+  /**
+   * Obtém a disposição das abas (topo ou barra lateral) e a largura da barra lateral
+   * 
+   * @returns Promise com a disposição atual
+   * 
+   * @remarks
+   * Muda com as configurações `tabLayout` e `verticalTabsWidth`; as janelas são
+   * avisadas pelo evento `tab-layout-changed`.
+   */
+  getTabLayout: () => Promise<TabLayout>;
+
+  // Split View
+  
+  /**
+   * Divide a tela da janela entre a aba ativa e outra aba
+   * 
+   * @param tabId - ID da outra aba (omitido = abre uma nova aba ao lado da ativa)
+   * @returns Promise que resolve quando a tela é dividida
+   * 
+   * @remarks
+   * Cada janela tem uma tela dividida; dividir com outra aba substitui a anterior.
+   * A aba que entra na tela dividida fica com o foco.
+   * 
+   * @example
+   * ```typescript
+   * await window.heraAPI.openSplitView(tabId);
+   * ```
+   */
+  openSplitView: (tabId?: string) => Promise<void>;
+  
+  /**
+   * Desfaz a tela dividida da janela (a aba ativa volta a ocupar a área toda)
+   * 
+   * @returns Promise que resolve quando a tela dividida é desfeita
+   */
+  closeSplitView: () => Promise<void>;
+  
+  /**
+   * Muda a organização ou a proporção da tela dividida, ou troca as abas de lado
+   * 
+   * @param changes - Campos a alterar
+   * @returns Promise que resolve quando a tela dividida é atualizada
+   * 
+   * @example
+   * ```typescript
+   * await window.heraAPI.updateSplitView({ ratio: 0.6 });
+   * ```
+   */
+  updateSplitView: (changes: SplitViewChanges) => Promise<void>;
+  
+  /**
+   * Começa o arraste da divisória: as abas saem da janela até `updateSplitView`
+   * 
+   * @remarks
+   * As páginas capturam o mouse; sem elas na janela, a UI acompanha o arraste
+   * e desenha a prévia da nova proporção.
+   */
+  startSplitViewResize: () => void;
+  
+  /**
+   * Mostra o menu de contexto da divisória (organização, trocar lados, sair)
+   */
+  showSplitViewMenu: () => void;
 
   // Navigation Actions
   
@@ -137,6 +344,31 @@ export interface HeraAPI {
    * @returns Promise que resolve quando a janela é fechada
    */
   windowClose: () => Promise<void>;
+  
+  /**
+   * Abre uma nova janela do navegador com uma nova aba
+   * 
+   * @returns Promise que resolve quando a janela é criada
+   */
+  newWindow: () => Promise<void>;
+
+  /**
+   * Abre uma nova janela privada com uma nova aba
+   * 
+   * @returns Promise que resolve quando a janela é criada
+   * 
+   * @remarks
+   * Abas privadas usam uma sessão em memória e não gravam histórico, sessão salva nem downloads no banco.
+   * Cookies, cache e armazenamento são apagados quando a última janela privada fecha.
+   */
+  newPrivateWindow: () => Promise<void>;
+
+  /**
+   * Verifica se a janela que chama é uma janela privada
+   * 
+   * @returns Promise com true para janelas privadas
+   */
+  isPrivateWindow: () => Promise<boolean>;
 
   // Download Actions
   
@@ -165,12 +397,106 @@ export interface HeraAPI {
    */
   getHistory: () => Promise<HistoryEntry[]>;
   
+  /**
+   * Busca no histórico de navegação usando o índice full-text
+   * 
+   * @param query - Texto de busca (título ou URL). Vazio retorna as entradas mais recentes
+   * @param options - Período (`from`/`to`) e paginação (`limit`/`offset`)
+   * @returns Promise com os resultados ordenados por relevância, com trechos destacados
+   * 
+   * @example
+   * ```typescript
+   * const page1 = await window.heraAPI.searchHistory('github', { limit: 50 });
+   * const page2 = await window.heraAPI.searchHistory('github', { limit: 50, offset: 50 });
+   * ```
+   */
+  searchHistory: (query: string, options?: HistorySearchOptions) => Promise<HistorySearchResult[]>;
+  
+  /**
+   * Obtém as visitas individuais de uma URL
+   * 
+   * @param url - URL da entrada de histórico
+   * @returns Promise com as visitas (mais recentes primeiro), incluindo tipo de transição e duração
+   * 
+   * @example
+   * ```typescript
+   * const visits = await window.heraAPI.getHistoryVisits('https://github.com');
+   * const typedCount = visits.filter(v => v.transition === 'typed').length;
+   * ```
+   */
+  getHistoryVisits: (url: string) => Promise<VisitEntry[]>;
+  
+  /**
+   * Obtém o autocompletar inline para o texto digitado na barra de endereços
+   * 
+   * @param text - Texto digitado até o momento
+   * @returns Promise com a sugestão (host ou URL) ou null se não houver correspondência
+   * 
+   * @example
+   * ```typescript
+   * const completion = await window.heraAPI.getInlineCompletion('git');
+   * // { text: 'github.com', url: 'https://github.com/' }
+   * ```
+   */
+  getInlineCompletion: (text: string) => Promise<InlineCompletion | null>;
+  
   /**
    * Limpa todo o histórico de navegação
    * 
    * @returns Promise que resolve quando o histórico é limpo
    */
   clearHistory: () => Promise<void>;
+  
+  /**
+   * Remove uma entrada do histórico (com todas as suas visitas)
+   * 
+   * @param id - ID da entrada de histórico
+   * @returns Promise com true se a entrada foi removida
+   */
+  deleteHistoryItem: (id: number) => Promise<boolean>;
+  
+  /**
+   * Remove várias entradas do histórico de uma vez
+   * 
+   * @param ids - IDs das entradas (máximo de 1000 por chamada)
+   * @returns Promise com a quantidade de entradas removidas
+   */
+  deleteHistoryItems: (ids: number[]) => Promise<number>;
+  
+  /**
+   * Remove a entrada do histórico de uma URL exata
+   * 
+   * @param url - URL completa (http ou https)
+   * @returns Promise com a quantidade de entradas removidas
+   */
+  deleteHistoryByUrl: (url: string) => Promise<number>;
+  
+  /**
+   * Remove todo o histórico de um domínio, incluindo subdomínios
+   * 
+   * @param domain - Hostname, sem protocolo (ex: 'github.com')
+   * @returns Promise com a quantidade de entradas removidas
+   */
+  deleteHistoryByDomain: (domain: string) => Promise<number>;
+  
+  /**
+   * Remove as visitas de um período
+   * 
+   * Entradas que ficam sem visitas são removidas; as demais têm o contador
+   * e a data da última visita recalculados.
+   * 
+   * @param from - Timestamp Unix (ms) inicial (inclusivo)
+   * @param to - Timestamp Unix (ms) final (inclusivo)
+   * @returns Promise com a quantidade de entradas removidas por completo
+   * 
+   * @example
+   * ```typescript
+   * // Última hora
+   * const now = Date.now();
+   * await window.heraAPI.deleteHistoryRange(now - 60 * 60 * 1000, now);
+   * ```
+   */
+  deleteHistoryRange: (from: number, to: number) => Promise<number>;
 
   // Bookmark Actions
   
@@ -254,6 +580,127 @@ export interface HeraAPI {
    */
   getBookmarkFolders: (parentId?: string) => Promise<BookmarkFolder[]>;
 
+  /**
+   * Edita o título e/ou a URL de um favorito
+   * 
+   * @param id - ID do favorito
+   * @param changes - Campos a alterar (apenas os informados mudam)
+   * @returns Promise com true se o favorito existia e foi alterado
+   * @throws Error se o título estiver vazio ou a URL não for http(s), hera:// ou file://
+   * 
+   * @remarks
+   * As janelas e as páginas internas recebem o evento `bookmarks-changed`
+   * sempre que um favorito ou uma pasta muda.
+   * 
+   * @example
+   * ```typescript
+   * await window.heraAPI.updateBookmark(bookmark.id, { title: 'GitHub (trabalho)' });
+   * ```
+   */
+  updateBookmark: (id: string, changes: BookmarkInput) => Promise<boolean>;
+
+  /**
+   * Move um favorito para uma posição de uma pasta
+   * 
+   * @param id - ID do favorito
+   * @param folderId - Pasta de destino (null = raiz, exibida na barra de favoritos)
+   * @param position - Posição na pasta de destino (índice baseado em zero)
+   * @returns Promise com true se o favorito foi movido
+   * 
+   * @remarks
+   * Serve tanto para reordenar dentro da mesma pasta quanto para mudar de pasta.
+   * 
+   * @example
+   * ```typescript
+   * // Arrastado para o topo da pasta "Trabalho"
+   * await window.heraAPI.moveBookmark(bookmark.id, workFolder.id, 0);
+   * ```
+   */
+  moveBookmark: (id: string, folderId: string | null, position: number) => Promise<boolean>;
+
+  /**
+   * Renomeia uma pasta de favoritos
+   * 
+   * @param id - ID da pasta
+   * @param name - Novo nome (até 100 caracteres)
+   * @returns Promise com true se a pasta existia e foi renomeada
+   */
+  renameBookmarkFolder: (id: string, name: string) => Promise<boolean>;
+
+  /**
+   * Remove uma pasta de favoritos
+   * 
+   * @param id - ID da pasta
+   * @returns Promise com true se a pasta existia e foi removida
+   * 
+   * @remarks
+   * Remove também as subpastas e todos os favoritos dentro delas.
+   */
+  deleteBookmarkFolder: (id: string) => Promise<boolean>;
+
+  /**
+   * Importa favoritos de um arquivo HTML (formato Netscape) escolhido pelo usuário
+   * 
+   * @returns Promise com o resumo da importação, ou null se o usuário cancelou
+   * @throws Error se o arquivo não puder ser lido ou não for um arquivo de favoritos
+   * 
+   * @remarks
+   * A importação é atômica. A barra de favoritos do arquivo vai para a raiz,
+   * pastas com o mesmo nome são mescladas e URLs repetidas na mesma pasta são ignoradas.
+   * 
+   * @example
+   * ```typescript
+   * const result = await window.heraAPI.importBookmarksHtml();
+   * if (result) console.log(`${result.bookmarks} favoritos importados`);
+   * ```
+   */
+  importBookmarksHtml: () => Promise<BookmarkImportResult | null>;
+
+  /**
+   * Exporta todos os favoritos (com as pastas) como arquivo HTML, no local escolhido pelo usuário
+   * 
+   * @returns Promise com true se o arquivo foi salvo, false se o usuário cancelou
+   */
+  exportBookmarksHtml: () => Promise<boolean>;
+
+  // Browser Import Actions
+
+  /**
+   * Procura perfis do Chrome, Chromium, Edge, Brave e Firefox nos locais padrão do sistema
+   * 
+   * @returns Promise com os perfis encontrados (lista vazia se não houver nenhum)
+   */
+  getBrowserProfiles: () => Promise<BrowserProfile[]>;
+
+  /**
+   * Deixa o usuário escolher a pasta de um perfil fora dos locais padrão
+   * 
+   * @returns Promise com o perfil, ou null se o usuário cancelou
+   * @throws Error se a pasta não for um perfil do Chrome nem do Firefox
+   */
+  chooseBrowserProfile: () => Promise<BrowserProfile | null>;
+
+  /**
+   * Importa o histórico e/ou os favoritos de um perfil de outro navegador
+   * 
+   * @param id - ID de um perfil de getBrowserProfiles ou chooseBrowserProfile
+   * @param options - O que importar (pelo menos um item)
+   * @returns Promise com o resumo da importação
+   * @throws Error se o perfil não puder ser lido ou já houver uma importação em andamento
+   * 
+   * @remarks
+   * Mantém as datas e as contagens de visitas. O progresso chega pelo evento
+   * `browser-import:progress` (BrowserImportProgress). Senhas não são importadas.
+   * 
+   * @example
+   * ```typescript
+   * window.heraAPI.on('browser-import:progress', (progress) => console.log(progress));
+   * const [profile] = await window.heraAPI.getBrowserProfiles();
+   * const result = await window.heraAPI.importBrowserProfile(profile.id, { history: true, bookmarks: true });
+   * ```
+   */
+  importBrowserProfile: (id: string, options: BrowserImportOptions) => Promise<BrowserImportResult>;
+
   // Settings Actions
   
   /**
@@ -280,6 +727,208 @@ export interface HeraAPI {
    */
   getAllSettings: () => Promise<Record<string, string>>;
 
+  // Search Engine Actions
+  
+  /**
+   * Obtém os mecanismos de busca cadastrados, na ordem de exibição
+   * 
+   * @returns Promise com array de mecanismos de busca
+   */
+  getSearchEngines: () => Promise<SearchEngine[]>;
+  
+  /**
+   * Adiciona um mecanismo de busca
+   * 
+   * @param engine - Nome, template da URL (com `%s`), palavra-chave e URL de sugestões opcional
+   * @returns Promise com o mecanismo criado, incluindo ID gerado
+   * @throws Error se a palavra-chave já estiver em uso
+   * 
+   * @example
+   * ```typescript
+   * await window.heraAPI.addSearchEngine({
+   *   name: 'MDN',
+   *   keyword: 'mdn',
+   *   url_template: 'https://developer.mozilla.org/search?q=%s'
+   * });
+   * ```
+   */
+  addSearchEngine: (engine: SearchEngineInput) => Promise<SearchEngine>;
+  
+  /**
+   * Atualiza os campos informados de um mecanismo de busca
+   * 
+   * @param id - ID do mecanismo
+   * @param changes - Campos alterados (suggest_url vazio remove as sugestões)
+   * @returns Promise com o mecanismo atualizado, ou null se não existir
+   */
+  updateSearchEngine: (id: string, changes: Partial<SearchEngineInput>) => Promise<SearchEngine | null>;
+  
+  /**
+   * Remove um mecanismo de busca
+   * 
+   * @param id - ID do mecanismo
+   * @returns Promise com true se removido
+   * @throws Error ao tentar remover o último mecanismo
+   */
+  removeSearchEngine: (id: string) => Promise<boolean>;
+  
+  /**
+   * Converte o texto digitado em uma URL de navegação
+   * 
+   * @param text - Texto da barra de endereço ou da nova aba
+   * @returns Promise com a URL final
+   * 
+   * @remarks
+   * - `palavra-chave termos` busca no mecanismo da palavra-chave
+   * - URLs são abertas diretamente (com https:// quando falta o protocolo)
+   * - Qualquer outro texto é buscado no mecanismo padrão
+   * 
+   * @example
+   * ```typescript
+   * await window.heraAPI.resolveAddressInput('w Electron');
+   * // 'https://pt.wikipedia.org/w/index.php?search=Electron'
+   * ```
+   */
+  resolveAddressInput: (text: string) => Promise<string>;
+
+  // Container Actions
+  
+  /**
+   * Obtém os contêineres cadastrados, na ordem de exibição
+   * 
+   * @returns Promise com array de contêineres
+   */
+  getContainers: () => Promise<Container[]>;
+  
+  /**
+   * Adiciona um contêiner (com cookies, cache e armazenamento próprios)
+   * 
+   * @param container - Nome, cor e, opcionalmente, user agent e permissões
+   * @returns Promise com o contêiner criado, incluindo ID gerado
+   * 
+   * @example
+   * ```typescript
+   * await window.heraAPI.addContainer({ name: 'Trabalho', color: 'blue' });
+   * ```
+   */
+  addContainer: (container: ContainerInput) => Promise<Container>;
+  
+  /**
+   * Atualiza os campos informados de um contêiner
+   * 
+   * @param id - ID do contêiner
+   * @param changes - Campos alterados (user_agent vazio e permissions null voltam ao padrão)
+   * @returns Promise com o contêiner atualizado, ou null se não existir
+   */
+  updateContainer: (id: string, changes: Partial<ContainerInput>) => Promise<Container | null>;
+  
+  /**
+   * Remove um contêiner e apaga seus cookies e dados
+   * 
+   * @param id - ID do contêiner
+   * @returns Promise com true se removido
+   * @throws Error se ainda houver abas abertas no contêiner
+   */
+  removeContainer: (id: string) => Promise<boolean>;
+  
+  /**
+   * Abre uma nova aba em um contêiner
+   * 
+   * @param containerId - ID do contêiner (null = sem contêiner)
+   * @param url - URL a abrir (omitida = nova aba)
+   * @returns Promise que resolve quando a aba é criada
+   * 
+   * @remarks
+   * Em janelas privadas a aba abre sem contêiner
+   */
+  openTabInContainer: (containerId: string | null, url?: string) => Promise<void>;
+
+  // Named Sessions
+  
+  /**
+   * Obtém as sessões nomeadas, da salva mais recentemente para a mais antiga
+   * 
+   * @returns Promise com array de sessões (sem as abas)
+   * 
+   * @remarks
+   * As páginas internas recebem o evento `sessions-changed` quando a lista muda.
+   */
+  getSessions: () => Promise<NamedSession[]>;
+  
+  /**
+   * Obtém o ID da sessão atual (a aberta ou salva por último)
+   * 
+   * @returns Promise com o ID, ou null se as abas abertas não pertencem a uma sessão
+   */
+  getActiveSessionId: () => Promise<string | null>;
+  
+  /**
+   * Salva as abas abertas (com grupos e janelas) como uma nova sessão
+   * 
+   * @param name - Nome da sessão (até 100 caracteres)
+   * @returns Promise com a sessão criada, que passa a ser a sessão atual
+   * @throws Error se não houver abas para salvar (abas privadas não entram)
+   * 
+   * @example
+   * ```typescript
+   * await window.heraAPI.saveSession('Revisão da sprint');
+   * ```
+   */
+  saveSession: (name: string) => Promise<NamedSession>;
+  
+  /**
+   * Alterna para uma sessão: as janelas normais são trocadas pelas da sessão
+   * 
+   * @param id - ID da sessão
+   * @returns Promise com true se a sessão foi aberta, false se não existe
+   * 
+   * @remarks
+   * Antes da troca, a sessão atual é atualizada com as abas abertas. Sem sessão
+   * atual, as abas vão para as fechadas recentemente. Janelas privadas continuam abertas.
+   */
+  openSession: (id: string) => Promise<boolean>;
+  
+  /**
+   * Junta as abas de uma sessão à janela atual, em segundo plano
+   * 
+   * @param id - ID da sessão
+   * @returns Promise com true se as abas foram abertas, false se a sessão não existe
+   */
+  mergeSession: (id: string) => Promise<boolean>;
+  
+  /**
+   * Renomeia uma sessão
+   * 
+   * @param id - ID da sessão
+   * @param name - Novo nome (até 100 caracteres)
+   * @returns Promise com a sessão atualizada, ou null se não existir
+   */
+  renameSession: (id: string, name: string) => Promise<NamedSession | null>;
+  
+  /**
+   * Remove uma sessão (as abas abertas não são fechadas)
+   * 
+   * @param id - ID da sessão
+   * @returns Promise com true se removida
+   */
+  deleteSession: (id: string) => Promise<boolean>;
+  
+  /**
+   * Exporta uma sessão como arquivo JSON, no local escolhido pelo usuário
+   * 
+   * @param id - ID da sessão
+   * @returns Promise com true se o arquivo foi salvo, false se o usuário cancelou
+   */
+  exportSession: (id: string) => Promise<boolean>;
+  
+  /**
+   * Importa uma sessão de um arquivo JSON escolhido pelo usuário
+   * 
+   * @returns Promise com a sessão importada, ou null se o usuário cancelou
+   * @throws Error se o arquivo não for uma sessão exportada pelo Hera
+   */
+  importSession: () => Promise<NamedSession | null>;
+
   // View Actions
   
   /**
@@ -287,6 +936,15 @@ export interface HeraAPI {
    */
   toggleMenu: () => void;
   
+  /**
+   * Abre ou fecha a busca de abas (Ctrl+Shift+A)
+   * 
+   * @remarks
+   * A busca cobre as abas abertas de todas as janelas e as fechadas recentemente.
+   * Na lista é possível alternar para uma aba ou fechar várias de uma vez.
+   */
+  toggleTabSearch: () => void;
+  
   /**
    * Esconde temporariamente o conteúdo da aba (BrowserView)
    * Útil para mostrar overlays como omnibox
@@ -305,6 +963,25 @@ export interface HeraAPI {
    */
   menuAction: (action: string) => void;
   
+  /**
+   * Mostra o menu de contexto de uma aba (fixar, fechar outras, etc)
+   * 
+   * @param id - ID da aba clicada com o botão direito
+   */
+  showTabContextMenu: (id: string) => void;
+  
+  /**
+   * Mostra o menu de contexto de um grupo de abas (cor, desagrupar, fechar)
+   * 
+   * @param groupId - ID do grupo clicado com o botão direito
+   */
+  showTabGroupContextMenu: (groupId: string) => void;
+  
+  /**
+   * Mostra o menu do botão de nova aba (nova aba em um contêiner)
+   */
+  showNewTabMenu: () => void;
+  
   // Event Listeners
   
   /**
@@ -349,6 +1026,27 @@ export interface HeraAPI {
    */
   onTabLoading: (callback: TabLoadingCallback) => void;
   
+  /**
+   * Registra callback para evento de aba movida
+   * 
+   * @param callback - Função a ser chamada quando uma aba muda de posição
+   */
+  onTabMoved: (callback: TabMovedCallback) => void;
+  
+  /**
+   * Registra callback para evento de grupo de abas criado ou alterado
+   * 
+   * @param callback - Função a ser chamada com o estado atual do grupo
+   */
+  onTabGroupUpdated: (callback: TabGroupUpdatedCallback) => void;
+  
+  /**
+   * Registra callback para evento de grupo de abas removido
+   * 
+   * @param callback - Função a ser chamada com o ID do grupo removido
+   */
+  onTabGroupRemoved: (callback: TabGroupRemovedCallback) => void;
+  
   /**
    * Registra callback para evento de visibilidade da UI
    * 
@@ -31,6 +31,28 @@ export interface HistoryRow {
   favicon: string | null;
 }
 
+/**
+ * Interface para rows retornadas pela busca FTS5 do histórico
+ * Inclui os trechos com marcadores de destaque gerados por snippet()
+ */
+export interface HistorySearchRow extends HistoryRow {
+  title_snippet: string | null;
+  url_snippet: string | null;
+}
+
+/**
+ * Interface para rows da tabela visits
+ * Representa uma visita individual a uma entrada do histórico
+ */
+export interface VisitRow {
+  id: number;
+  history_id: number;
+  visit_time: number;
+  transition: string;
+  referrer_visit_id: number | null;
+  duration_ms: number;
+}
+
 /**
  * Interface para rows da tabela bookmarks
  * Representa um bookmark salvo pelo usuário
@@ -81,6 +103,35 @@ export interface SettingRow {
   value: string;
 }
 
+/**
+ * Interface para rows da tabela search_engines
+ * Representa um mecanismo de busca cadastrado
+ */
+export interface SearchEngineRow {
+  id: string;
+  name: string;
+  url_template: string;
+  keyword: string;
+  suggest_url: string | null;
+  position: number;
+}
+
+/**
+ * Interface para rows da tabela closed_tabs
+ * navigation_entries é um array de TabNavigationEntry em JSON
+ */
+export interface ClosedTabRow {
+  id: number;
+  url: string;
+  title: string | null;
+  favicon: string | null;
+  position: number;
+  navigation_entries: string;
+  navigation_index: number;
+  closed_at: number;
+  container_id: string | null;
+}
+
 /**
  * Interface para rows da tabela open_tabs
  * Representa o estado de uma aba salva
@@ -92,4 +143,68 @@ export interface TabStateRow {
   favicon: string | null;
   active: number;
   position: number;
+  navigation_entries: string;
+  navigation_index: number;
+  scroll_x: number;
+  scroll_y: number;
+  zoom_level: number;
+  pinned: number;
+  group_id: string | null;
+  window_id: number | null;
+  container_id: string | null;
+  opener_id: string | null;
+}
+
+/**
+ * Interface para rows da tabela browser_windows
+ */
+export interface WindowStateRow {
+  id: number;
+  x: number | null;
+  y: number | null;
+  width: number;
+  height: number;
+  maximized: number;
+  split_first_tab: number | null;
+  split_second_tab: number | null;
+  split_orientation: string | null;
+  split_ratio: number | null;
+}
+
+/**
+ * Interface para rows da tabela tab_groups
+ */
+export interface TabGroupRow {
+  id: string;
+  name: string;
+  color: string;
+  collapsed: number;
+  position: number;
+}
+
+/**
+ * Interface para rows da tabela containers
+ * permissions é um array de permissões em JSON (null = padrão do navegador)
+ */
+export interface ContainerRow {
+  id: string;
+  name: string;
+  color: string;
+  user_agent: string | null;
+  permissions: string | null;
+  position: number;
+}
+
+/**
+ * Interface para rows da tabela sessions
+ * snapshot é a sessão (abas, grupos e janelas) em JSON
+ */
+export interface SessionRow {
+  id: string;
+  name: string;
+  snapshot: string;
+  tab_count: number;
+  window_count: number;
+  created_at: number;
+  updated_at: number;
 }
@@ -53,6 +53,124 @@ export interface HistoryEntry {
   visit_count?: number;
 }
 
+/**
+ * Opções de busca no histórico
+ * 
+ * Controla o período e a paginação de `searchHistory`.
+ * 
+ * @example
+ * ```typescript
+ * const options: HistorySearchOptions = {
+ *   from: Date.now() - 7 * 24 * 60 * 60 * 1000, // Últimos 7 dias
+ *   limit: 50,
+ *   offset: 100 // Terceira página
+ * };
+ * ```
+ */
+export interface HistorySearchOptions {
+  /** Timestamp Unix (ms) inicial do período (inclusivo) */
+  from?: number;
+  
+  /** Timestamp Unix (ms) final do período (inclusivo) */
+  to?: number;
+  
+  /**
+   * Quantidade máxima de resultados
+   * 
+   * @defaultValue 50 (limitado a 500)
+   */
+  limit?: number;
+  
+  /**
+   * Quantidade de resultados a pular (paginação)
+   * 
+   * @defaultValue 0
+   */
+  offset?: number;
+}
+
+/**
+ * Resultado de busca no histórico
+ * 
+ * Entrada de histórico acompanhada dos trechos destacados do título e da URL.
+ * 
+ * @remarks
+ * - Os snippets são HTML seguro: o texto original é escapado e os termos
+ *   encontrados são envolvidos em `<mark>`
+ * - Sem query de busca, os snippets contêm o título e a URL completos
+ */
+export interface HistorySearchResult extends HistoryEntry {
+  /** Título com os termos encontrados destacados (HTML escapado) */
+  title_snippet: string;
+  
+  /** URL com os termos encontrados destacados (HTML escapado) */
+  url_snippet: string;
+}
+
+/**
+ * Tipo de transição de uma visita
+ * 
+ * Indica como o usuário chegou à página:
+ * - `typed`: URL digitada na barra de endereços (ou escolhida no omnibox)
+ * - `link`: clique em link, incluindo navegação dentro da página (SPA)
+ * - `reload`: recarregamento da página atual
+ * - `redirect`: redirecionamento feito pelo servidor ou pela página
+ * - `form_submit`: envio de formulário (POST)
+ * - `restored`: aba restaurada da sessão anterior
+ */
+export type VisitTransition = 'typed' | 'link' | 'reload' | 'redirect' | 'form_submit' | 'restored';
+
+/**
+ * Visita individual a uma entrada do histórico
+ * 
+ * Cada navegação gera uma visita; a entrada de histórico correspondente
+ * agrega as visitas da mesma URL (visit_count e timestamp da última visita).
+ * 
+ * @remarks
+ * - A duração só é conhecida quando o usuário sai da página
+ * - Visitas são removidas junto com a entrada de histórico
+ * 
+ * @example
+ * ```typescript
+ * const visit: VisitEntry = {
+ *   id: 42,
+ *   history_id: 7,
+ *   visit_time: Date.now(),
+ *   transition: 'link',
+ *   referrer_visit_id: 41,
+ *   duration_ms: 15000
+ * };
+ * ```
+ */
+export interface VisitEntry {
+  /** ID único da visita (gerado automaticamente pelo banco de dados) */
+  id: number;
+  
+  /** ID da entrada de histórico visitada */
+  history_id: number;
+  
+  /** Timestamp Unix em milissegundos do início da visita */
+  visit_time: number;
+  
+  /** Como o usuário chegou à página */
+  transition: VisitTransition;
+  
+  /**
+   * Visita de origem (página anterior na mesma aba ou aba que abriu o link)
+   * 
+   * @remarks
+   * `null` para URLs digitadas, abas restauradas ou quando a origem é desconhecida
+   */
+  referrer_visit_id: number | null;
+  
+  /**
+   * Tempo em milissegundos que a página permaneceu aberta
+   * 
+   * @defaultValue 0 (enquanto a visita estiver em andamento)
+   */
+  duration_ms: number;
+}
+
 /**
  * Favorito (bookmark)
  * 
@@ -214,11 +332,70 @@ export interface BookmarkFolder {
    * 
    * @remarks
    * Definido automaticamente ao criar a pasta.
-   * Não há campo updated_at pois pastas não são editadas após criação.
+   * Não há campo updated_at: das pastas, só o nome muda (renameFolder).
    */
   created_at: number;
 }
 
+/**
+ * Dados para editar um favorito
+ * 
+ * @remarks
+ * Todos os campos são opcionais (apenas os informados mudam).
+ * Para mudar a pasta ou a posição, use moveBookmark.
+ */
+export type BookmarkInput = Partial<Pick<Bookmark, 'title' | 'url'>>;
+
+/**
+ * Nó da árvore de favoritos usada na importação e exportação (formato HTML do Netscape)
+ *
+ * @remarks
+ * - Pastas trazem os filhos já na ordem de exibição
+ * - created_at em segundos (Unix epoch), como o ADD_DATE do arquivo HTML
+ *
+ * @example
+ * ```typescript
+ * const tree: BookmarkTreeNode[] = [
+ *   { type: 'folder', name: 'Trabalho', children: [
+ *     { type: 'bookmark', title: 'GitHub', url: 'https://github.com' }
+ *   ] }
+ * ];
+ * ```
+ */
+export type BookmarkTreeNode =
+  | { type: 'folder'; name: string; created_at?: number; children: BookmarkTreeNode[] }
+  | { type: 'bookmark'; title: string; url: string; favicon?: string; created_at?: number };
+
+/**
+ * Entrada de histórico lida do perfil de outro navegador, pronta para importar
+ *
+ * @remarks
+ * - lastVisit e as visitas em milissegundos (Unix epoch), já convertidos do formato do navegador
+ * - visits traz só as visitas mais recentes (as usadas no cálculo de frecência)
+ */
+export interface ImportedHistoryEntry {
+  url: string;
+  title: string;
+  visitCount: number;
+  lastVisit: number;
+  visits: { time: number; transition: VisitTransition }[];
+}
+
+/**
+ * Resumo de uma importação de favoritos
+ *
+ * @remarks
+ * - folders conta só as pastas criadas (pastas com o mesmo nome no mesmo lugar são mescladas)
+ * - duplicates conta os favoritos ignorados porque a URL já existia na mesma pasta
+ * - skipped conta as entradas do arquivo que não puderam ser importadas (ex: URL javascript:)
+ */
+export interface BookmarkImportResult {
+  bookmarks: number;
+  folders: number;
+  duplicates: number;
+  skipped: number;
+}
+
 /**
  * Estado de uma aba para persistência
  * 
@@ -289,4 +466,468 @@ export interface TabState {
    * - A aba ativa é restaurada como visível ao reabrir o navegador
    */
   active: boolean;
+  
+  /**
+   * Histórico de voltar/avançar da aba, da entrada mais antiga para a mais recente
+   * 
+   * @remarks
+   * Opcional. Sem ele, a aba é restaurada apenas com a URL atual.
+   */
+  navigation_entries?: TabNavigationEntry[];
+  
+  /** Índice da entrada ativa em navigation_entries */
+  navigation_index?: number;
+  
+  /** Posição de rolagem horizontal da página, em pixels */
+  scroll_x?: number;
+  
+  /** Posição de rolagem vertical da página, em pixels */
+  scroll_y?: number;
+  
+  /**
+   * Nível de zoom da aba (0 = 100%)
+   * 
+   * @remarks
+   * Mesma escala de `webContents.getZoomLevel()`: cada ponto equivale a 20%
+   */
+  zoom_level?: number;
+  
+  /**
+   * Aba fixada à esquerda da barra de abas
+   * 
+   * @remarks
+   * Abas fixadas vêm sempre antes das demais e são restauradas na inicialização
+   */
+  pinned?: boolean;
+  
+  /** ID do grupo de abas ao qual a aba pertence (omitido = sem grupo) */
+  group_id?: string;
+  
+  /**
+   * Janela à qual a aba pertence (índice em {@link WindowState})
+   * 
+   * @remarks
+   * Sessões salvas antes do suporte a várias janelas usam 0
+   */
+  window_id?: number;
+  
+  /**
+   * Contêiner da aba (omitido = sessão compartilhada dos sites)
+   * 
+   * @remarks
+   * Restaurar a aba no mesmo contêiner mantém os cookies e logins dela
+   */
+  container_id?: string;
+
+  /**
+   * ID (nesta sessão salva) da aba a partir da qual esta foi aberta
+   * 
+   * @remarks
+   * Forma a árvore de abas da barra lateral; abas de origem fechadas não são salvas.
+   */
+  opener_id?: string;
+}
+
+/**
+ * Posição e tamanho de uma janela do navegador salva com a sessão
+ * 
+ * @remarks
+ * Cada janela tem suas próprias abas (ligadas por `TabState.window_id`).
+ * Sem `x`/`y`, o sistema escolhe onde abrir a janela.
+ * 
+ * @example
+ * ```typescript
+ * const window: WindowState = {
+ *   id: 0,
+ *   x: 120,
+ *   y: 80,
+ *   width: 1200,
+ *   height: 800,
+ *   maximized: false,
+ *   split_tabs: [0, 1],
+ *   split_orientation: 'horizontal',
+ *   split_ratio: 0.5
+ * };
+ * ```
+ */
+export interface WindowState {
+  /** Índice da janela na sessão (ordem em que as janelas são restauradas) */
+  id: number;
+  
+  /** Posição horizontal da janela na tela, em pixels */
+  x?: number;
+  
+  /** Posição vertical da janela na tela, em pixels */
+  y?: number;
+  
+  /** Largura da janela (fora do estado maximizado), em pixels */
+  width: number;
+  
+  /** Altura da janela (fora do estado maximizado), em pixels */
+  height: number;
+  
+  /** Janela maximizada */
+  maximized: boolean;
+
+  /**
+   * Abas da tela dividida (posições em `TabState.position` das abas desta janela)
+   * 
+   * @remarks
+   * A primeira fica à esquerda (ou em cima); sem este campo, a janela não tem tela dividida.
+   */
+  split_tabs?: [number, number];
+
+  /** Como a tela dividida está organizada */
+  split_orientation?: SplitViewOrientation;
+
+  /** Fração da área de conteúdo ocupada pela primeira aba da tela dividida (0.2 a 0.8) */
+  split_ratio?: number;
+}
+
+/**
+ * Organização da tela dividida
+ * 
+ * @remarks
+ * - `horizontal`: as duas abas lado a lado
+ * - `vertical`: uma aba em cima da outra
+ */
+export type SplitViewOrientation = 'horizontal' | 'vertical';
+
+/**
+ * Cores disponíveis para grupos de abas
+ */
+export type TabGroupColor = 'grey' | 'blue' | 'red' | 'yellow' | 'green' | 'pink' | 'purple' | 'cyan' | 'orange';
+
+/**
+ * Grupo de abas: conjunto nomeado e colorido de abas vizinhas na barra
+ * 
+ * @remarks
+ * As abas de um grupo ficam sempre juntas na barra. O grupo é salvo e
+ * restaurado com a sessão, e some quando sua última aba é fechada.
+ * 
+ * @example
+ * ```typescript
+ * const group: TabGroup = {
+ *   id: 'a1b2c3d4-...',
+ *   name: 'Projeto',
+ *   color: 'blue',
+ *   collapsed: false
+ * };
+ * ```
+ */
+export interface TabGroup {
+  /** ID único do grupo (UUID) */
+  id: string;
+  
+  /** Nome exibido na barra (pode ser vazio: mostra só a cor) */
+  name: string;
+  
+  /** Cor do rótulo e do contorno das abas do grupo */
+  color: TabGroupColor;
+  
+  /** Grupo recolhido: as abas ficam escondidas na barra */
+  collapsed: boolean;
+}
+
+/**
+ * Dados para criar ou editar um grupo de abas
+ * 
+ * @remarks
+ * Todos os campos são opcionais (apenas os informados mudam)
+ */
+export type TabGroupInput = Partial<Pick<TabGroup, 'name' | 'color' | 'collapsed'>>;
+
+/**
+ * Contêiner: conjunto isolado de cookies, cache e armazenamento
+ * 
+ * Cada contêiner usa sua própria partition persistente, então é possível
+ * ficar logado em duas contas do mesmo site em abas de contêineres diferentes.
+ * 
+ * @remarks
+ * - As abas de um contêiner mostram a cor dele na barra
+ * - Links abertos a partir de uma aba ficam no mesmo contêiner
+ * - Sem `user_agent`/`permissions`, valem os padrões do navegador
+ * 
+ * @example
+ * ```typescript
+ * const container: Container = {
+ *   id: 'a1b2c3d4-...',
+ *   name: 'Trabalho',
+ *   color: 'blue',
+ *   permissions: ['notifications', 'fullscreen'],
+ *   position: 0
+ * };
+ * ```
+ */
+export interface Container {
+  /** ID único do contêiner (UUID, também usado no nome da partition) */
+  id: string;
+  
+  /** Nome exibido nos menus e nas configurações */
+  name: string;
+  
+  /** Cor das abas do contêiner */
+  color: TabGroupColor;
+  
+  /** User agent próprio das abas do contêiner (omitido = padrão do navegador) */
+  user_agent?: string;
+  
+  /**
+   * Permissões concedidas aos sites do contêiner
+   * 
+   * @remarks
+   * Omitido = mesmas permissões das abas sem contêiner (WEB_PERMISSIONS)
+   */
+  permissions?: string[];
+  
+  /** Posição na lista de contêineres */
+  position: number;
+}
+
+/**
+ * Dados para criar ou editar um contêiner
+ * 
+ * @remarks
+ * Na edição, todos os campos são opcionais (apenas os informados mudam).
+ * `user_agent` vazio e `permissions` null voltam para os padrões do navegador.
+ */
+export type ContainerInput = {
+  name: string;
+  color: TabGroupColor;
+  user_agent?: string;
+  permissions?: string[] | null;
+};
+
+/**
+ * Mecanismo de busca cadastrado
+ * 
+ * Registro único usado pela barra de endereços, pela página de nova aba
+ * e pelo omnibox. A busca é feita substituindo `%s` no template pela
+ * query codificada.
+ * 
+ * @remarks
+ * - O mecanismo padrão é o ID salvo na configuração `searchEngine`
+ * - Palavras-chave são únicas (sem diferenciar maiúsculas)
+ * - Digitar `palavra-chave consulta` busca diretamente no mecanismo
+ * 
+ * @example
+ * ```typescript
+ * const engine: SearchEngine = {
+ *   id: 'wikipedia',
+ *   name: 'Wikipedia',
+ *   url_template: 'https://pt.wikipedia.org/w/index.php?search=%s',
+ *   keyword: 'w',
+ *   position: 3
+ * };
+ * ```
+ */
+export interface SearchEngine {
+  /** ID único (os mecanismos iniciais usam IDs fixos, os novos usam UUID) */
+  id: string;
+  
+  /** Nome exibido nas configurações e no omnibox */
+  name: string;
+  
+  /** URL de busca com `%s` no lugar da query */
+  url_template: string;
+  
+  /** Atalho digitado antes da query (ex: 'w' para Wikipedia) */
+  keyword: string;
+  
+  /**
+   * URL de sugestões de busca com `%s` no lugar da query
+   * 
+   * @remarks
+   * Opcional; segue o formato OpenSearch (JSON)
+   */
+  suggest_url?: string;
+  
+  /** Posição na lista de mecanismos */
+  position: number;
+}
+
+/**
+ * Dados para criar ou editar um mecanismo de busca
+ * 
+ * @remarks
+ * Na edição, todos os campos são opcionais (apenas os informados mudam)
+ */
+export type SearchEngineInput = Pick<SearchEngine, 'name' | 'url_template' | 'keyword' | 'suggest_url'>;
+
+/**
+ * Entrada do histórico de navegação (voltar/avançar) de uma aba
+ * 
+ * @remarks
+ * Mesmo formato do NavigationEntry do Electron, para ser restaurado com
+ * `webContents.navigationHistory.restore()`
+ */
+export interface TabNavigationEntry {
+  /** URL da entrada */
+  url: string;
+  
+  /** Título da página */
+  title: string;
+  
+  /** Estado da página do Chromium em base64 (rolagem, formulários) */
+  pageState?: string;
+}
+
+/**
+ * Aba fechada recentemente
+ * 
+ * Resumo usado nas listas do menu e da nova aba.
+ * 
+ * @example
+ * ```typescript
+ * const closed: ClosedTab = {
+ *   id: 12,
+ *   url: 'https://github.com',
+ *   title: 'GitHub',
+ *   position: 2,
+ *   closed_at: Date.now()
+ * };
+ * ```
+ */
+export interface ClosedTab {
+  /** ID auto-incrementado */
+  id: number;
+  
+  /** URL da aba quando foi fechada */
+  url: string;
+  
+  /** Título da aba quando foi fechada */
+  title: string;
+  
+  /** URL do favicon (opcional) */
+  favicon?: string;
+  
+  /** Posição da aba na barra quando foi fechada */
+  position: number;
+  
+  /** Timestamp Unix (ms) do fechamento */
+  closed_at: number;
+}
+
+/**
+ * Aba fechada com o histórico de navegação completo
+ * 
+ * Usado ao reabrir a aba (Ctrl+Shift+T).
+ */
+export interface ClosedTabState extends ClosedTab {
+  /** Entradas de voltar/avançar, da mais antiga para a mais recente */
+  navigation_entries: TabNavigationEntry[];
+  
+  /** Índice da entrada ativa em navigation_entries */
+  navigation_index: number;
+  
+  /** Contêiner em que a aba estava (omitido = sem contêiner) */
+  container_id?: string;
+}
+
+/**
+ * Abas, grupos e janelas de uma sessão
+ * 
+ * Mesmo formato da sessão salva ao fechar o navegador (`open_tabs`,
+ * `tab_groups` e `browser_windows`), usado também pelas sessões nomeadas.
+ * 
+ * @remarks
+ * `window_id` das abas corresponde ao `id` das janelas. As janelas
+ * privadas nunca entram na sessão.
+ */
+export interface SessionSnapshot {
+  /** Abas de todas as janelas, na ordem da barra de cada janela */
+  tabs: TabState[];
+  
+  /** Grupos com ao menos uma aba, na ordem em que aparecem */
+  groups: TabGroup[];
+  
+  /** Posição, tamanho e tela dividida de cada janela */
+  windows: WindowState[];
+}
+
+/**
+ * Sessão nomeada: conjunto de abas salvo para ser aberto depois
+ * 
+ * Permite alternar entre espaços de trabalho (ex: "Revisão da sprint",
+ * "Investigação de incidente") ou juntar um deles à janela atual.
+ * 
+ * @remarks
+ * A sessão aberta por último é a sessão atual: ao alternar para outra,
+ * ela é atualizada com as abas abertas no momento.
+ * 
+ * @example
+ * ```typescript
+ * const session: NamedSession = {
+ *   id: 'a1b2c3d4-...',
+ *   name: 'Revisão da sprint',
+ *   tab_count: 12,
+ *   window_count: 2,
+ *   created_at: 1700000000000,
+ *   updated_at: 1700003600000
+ * };
+ * ```
+ */
+export interface NamedSession {
+  /** ID único da sessão (UUID) */
+  id: string;
+  
+  /** Nome exibido na página de sessões */
+  name: string;
+  
+  /** Quantidade de abas salvas */
+  tab_count: number;
+  
+  /** Quantidade de janelas salvas */
+  window_count: number;
+  
+  /** Timestamp Unix (ms) da criação */
+  created_at: number;
+  
+  /** Timestamp Unix (ms) da última vez em que as abas foram salvas */
+  updated_at: number;
+}
+
+/**
+ * Sessão nomeada com as abas, grupos e janelas salvos
+ * 
+ * Usado ao abrir a sessão ou juntá-la à janela atual.
+ */
+export interface NamedSessionState extends NamedSession {
+  /** Abas, grupos e janelas da sessão */
+  snapshot: SessionSnapshot;
+}
+
+/**
+ * Arquivo JSON de uma sessão exportada
+ * 
+ * @remarks
+ * `format` e `version` identificam o arquivo na importação; versões
+ * futuras do formato podem ser recusadas por versões antigas do navegador.
+ * 
+ * @example
+ * ```json
+ * {
+ *   "format": "hera-session",
+ *   "version": 1,
+ *   "name": "Revisão da sprint",
+ *   "exported_at": 1700000000000,
+ *   "snapshot": { "tabs": [], "groups": [], "windows": [] }
+ * }
+ * ```
+ */
+export interface SessionExportFile {
+  /** Identificador do formato do arquivo */
+  format: 'hera-session';
+  
+  /** Versão do formato */
+  version: 1;
+  
+  /** Nome da sessão exportada */
+  name: string;
+  
+  /** Timestamp Unix (ms) da exportação */
+  exported_at: number;
+  
+  /** Abas, grupos e janelas da sessão */
+  snapshot: SessionSnapshot;
 }
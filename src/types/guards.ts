@@ -7,7 +7,9 @@
  * como IPC, banco de dados, ou APIs.
  */
 
-import { Bookmark, BookmarkFolder, HistoryEntry } from './database.types';
+import { Bookmark, BookmarkFolder, BookmarkInput, HistoryEntry, HistorySearchOptions, SearchEngineInput, TabGroupInput, ContainerInput, SessionSnapshot, SessionExportFile } from './database.types';
+import { SplitViewChanges, BrowserImportOptions } from './ui.types';
+import { TAB_GROUP_COLORS, TAB_GROUP_MAX_NAME_LENGTH, WEB_PERMISSIONS, SESSION_MAX_NAME_LENGTH, SESSION_MAX_TABS, SESSION_EXPORT_FORMAT, SESSION_EXPORT_VERSION, BOOKMARK_MAX_TITLE_LENGTH, BOOKMARK_MAX_URL_LENGTH, BOOKMARK_FOLDER_MAX_NAME_LENGTH } from '../constants';
 
 /**
  * Verifica se um objeto é um Bookmark válido
@@ -393,6 +395,37 @@ export function isValidTabId(id: unknown): id is string {
   return TAB_ID_PATTERN.test(id);
 }
 
+/**
+ * Valida uma lista de IDs de abas (ex: fechar várias abas de uma vez)
+ * 
+ * @param ids - Lista a ser validada (pode ser de qualquer tipo)
+ * @returns true se todos os IDs são válidos, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas:
+ * - Deve ser um array não vazio
+ * - No máximo 500 IDs por chamada
+ * - Todos os itens devem passar em isValidTabId
+ * 
+ * @example
+ * ```typescript
+ * if (isValidTabIdList(ids)) {
+ *   ids.forEach(closeTab);
+ * }
+ * ```
+ */
+export function isValidTabIdList(ids: unknown): ids is string[] {
+  if (!Array.isArray(ids)) {
+    return false;
+  }
+  
+  if (ids.length === 0 || ids.length > 500) {
+    return false;
+  }
+  
+  return ids.every(isValidTabId);
+}
+
 /**
  * Valida se uma URL é válida
  * 
@@ -507,3 +540,579 @@ export function isValidBookmarkId(id: unknown): id is string {
   const ID_PATTERN = /^[a-zA-Z0-9-]+$/;
   return ID_PATTERN.test(id);
 }
+
+/**
+ * Valida os campos de um favorito editado via IPC
+ * 
+ * @param input - Dados a serem validados (pode ser de qualquer tipo)
+ * @returns true se os dados são válidos, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas (todos os campos são opcionais, mas ao menos um deve estar presente):
+ * - title: string com algum texto além de espaços e até 500 caracteres
+ * - url: http(s), hera:// ou file:// com até 2048 caracteres
+ * 
+ * @example
+ * ```typescript
+ * isValidBookmarkInput({ title: 'GitHub' }); // true
+ * isValidBookmarkInput({ url: 'javascript:alert(1)' }); // false
+ * ```
+ */
+export function isValidBookmarkInput(input: unknown): input is BookmarkInput {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return false;
+  }
+  
+  const bookmark = input as Record<string, unknown>;
+  
+  if (bookmark.title === undefined && bookmark.url === undefined) {
+    return false;
+  }
+  
+  if (bookmark.title !== undefined && (typeof bookmark.title !== 'string' || bookmark.title.trim().length === 0 || bookmark.title.length > BOOKMARK_MAX_TITLE_LENGTH)) {
+    return false;
+  }
+  
+  if (bookmark.url !== undefined && (typeof bookmark.url !== 'string' || bookmark.url.length > BOOKMARK_MAX_URL_LENGTH || !/^(https?|hera|file):\/\/\S+$/i.test(bookmark.url))) {
+    return false;
+  }
+  
+  return true;
+}
+
+/**
+ * Valida o nome de uma pasta de favoritos
+ * 
+ * @param name - Nome a ser validado (pode ser de qualquer tipo)
+ * @returns true se o nome é válido, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas:
+ * - Deve ser uma string com algum texto além de espaços
+ * - No máximo 100 caracteres
+ */
+export function isValidBookmarkFolderName(name: unknown): name is string {
+  return typeof name === 'string' && name.trim().length > 0 && name.length <= BOOKMARK_FOLDER_MAX_NAME_LENGTH;
+}
+
+/**
+ * Valida as opções de busca no histórico
+ * 
+ * Type guard que valida o objeto de opções recebido via IPC antes de
+ * repassá-lo para a query SQL.
+ * 
+ * @param options - Opções a serem validadas (pode ser de qualquer tipo)
+ * @returns true se as opções são válidas, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas:
+ * - undefined é aceito (usa os valores padrão)
+ * - Deve ser um objeto
+ * - from/to, se presentes, devem ser timestamps finitos e não negativos
+ * - from não pode ser maior que to
+ * - limit/offset, se presentes, devem ser inteiros (limit >= 1, offset >= 0)
+ * 
+ * @example
+ * ```typescript
+ * if (!isValidHistorySearchOptions(options)) {
+ *   throw new Error('Opções de busca inválidas');
+ * }
+ * ```
+ */
+export function isValidHistorySearchOptions(options: unknown): options is HistorySearchOptions | undefined {
+  if (options === undefined) {
+    return true;
+  }
+  
+  if (typeof options !== 'object' || options === null) {
+    return false;
+  }
+  
+  const o = options as Partial<HistorySearchOptions>;
+  const isTimestamp = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  
+  if (o.from !== undefined && !isTimestamp(o.from)) {
+    return false;
+  }
+  if (o.to !== undefined && !isTimestamp(o.to)) {
+    return false;
+  }
+  if (o.from !== undefined && o.to !== undefined && o.from > o.to) {
+    return false;
+  }
+  if (o.limit !== undefined && (!Number.isInteger(o.limit) || o.limit < 1)) {
+    return false;
+  }
+  if (o.offset !== undefined && (!Number.isInteger(o.offset) || o.offset < 0)) {
+    return false;
+  }
+  
+  return true;
+}
+
+/**
+ * Valida se um ID de entrada do histórico é válido
+ * 
+ * @param id - ID a ser validado (pode ser de qualquer tipo)
+ * @returns true se o ID é válido, false caso contrário
+ * 
+ * @remarks
+ * IDs do histórico são gerados pelo SQLite (AUTOINCREMENT), portanto
+ * devem ser inteiros positivos.
+ * 
+ * @example
+ * ```typescript
+ * if (!isValidHistoryId(id)) {
+ *   throw new Error('ID de histórico inválido');
+ * }
+ * ```
+ */
+export function isValidHistoryId(id: unknown): id is number {
+  return typeof id === 'number' && Number.isSafeInteger(id) && id > 0;
+}
+
+/**
+ * Valida uma lista de IDs de entradas do histórico
+ * 
+ * @param ids - Lista a ser validada (pode ser de qualquer tipo)
+ * @returns true se a lista é válida, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas:
+ * - Deve ser um array não vazio
+ * - No máximo 1000 IDs por chamada (listas maiores devem ser enviadas em lotes)
+ * - Todos os itens devem passar em isValidHistoryId
+ * 
+ * @example
+ * ```typescript
+ * if (isValidHistoryIdList(ids)) {
+ *   deleteHistoryEntries(ids);
+ * }
+ * ```
+ */
+export function isValidHistoryIdList(ids: unknown): ids is number[] {
+  if (!Array.isArray(ids)) {
+    return false;
+  }
+  
+  if (ids.length === 0 || ids.length > 1000) {
+    return false;
+  }
+  
+  return ids.every(isValidHistoryId);
+}
+
+/**
+ * Valida se um domínio (hostname) é válido
+ * 
+ * @param domain - Domínio a ser validado (pode ser de qualquer tipo)
+ * @returns true se o domínio é válido, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas:
+ * - Deve ser uma string com até 253 caracteres
+ * - Apenas o hostname: sem protocolo, porta, caminho ou espaços
+ * - Rótulos separados por ponto, com letras, números e hífens
+ * 
+ * @example
+ * ```typescript
+ * isValidDomain('github.com');          // true
+ * isValidDomain('https://github.com');  // false
+ * ```
+ */
+export function isValidDomain(domain: unknown): domain is string {
+  if (typeof domain !== 'string') {
+    return false;
+  }
+  
+  if (domain.length === 0 || domain.length > 253) {
+    return false;
+  }
+  
+  const DOMAIN_PATTERN = /^(?!-)[a-zA-Z0-9-]{1,63}(?<!-)(\.(?!-)[a-zA-Z0-9-]{1,63}(?<!-))*$/;
+  return DOMAIN_PATTERN.test(domain);
+}
+
+/**
+ * Valida um período de tempo (timestamps Unix em milissegundos)
+ * 
+ * @param from - Início do período (pode ser de qualquer tipo)
+ * @param to - Fim do período (pode ser de qualquer tipo)
+ * @returns true se o período é válido, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas:
+ * - Ambos devem ser números finitos e não negativos
+ * - from não pode ser maior que to
+ * 
+ * @example
+ * ```typescript
+ * const to = Date.now();
+ * isValidTimeRange(to - 60 * 60 * 1000, to); // Última hora: true
+ * ```
+ */
+export function isValidTimeRange(from: unknown, to: unknown): boolean {
+  const isTimestamp = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  
+  return isTimestamp(from) && isTimestamp(to) && (from as number) <= (to as number);
+}
+
+/**
+ * Valida um template de URL de busca (http/https contendo %s)
+ */
+function isValidSearchTemplate(template: unknown): template is string {
+  if (typeof template !== 'string' || template.length > 2048 || !template.includes('%s')) {
+    return false;
+  }
+  
+  return isValidUrl(template.replace(/%s/g, 'hera'));
+}
+
+/**
+ * Valida os campos de um mecanismo de busca vindos do IPC
+ * 
+ * @param input - Dados a serem validados (pode ser de qualquer tipo)
+ * @param partial - Se true, aceita apenas parte dos campos (edição)
+ * @returns true se os dados são válidos, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas:
+ * - name: string entre 1 e 100 caracteres
+ * - url_template: URL http/https com `%s` no lugar dos termos buscados
+ * - keyword: string entre 1 e 32 caracteres, sem espaços
+ * - suggest_url (opcional): URL http/https com `%s`, ou string vazia para remover
+ * 
+ * @example
+ * ```typescript
+ * isValidSearchEngineInput({ name: 'MDN', keyword: 'mdn', url_template: 'https://developer.mozilla.org/search?q=%s' }); // true
+ * isValidSearchEngineInput({ keyword: 'm d n' }, true); // false
+ * ```
+ */
+export function isValidSearchEngineInput(input: unknown, partial = false): input is SearchEngineInput {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return false;
+  }
+  
+  const engine = input as Record<string, unknown>;
+  const has = (key: string) => engine[key] !== undefined;
+  
+  if (!partial && (!has('name') || !has('url_template') || !has('keyword'))) {
+    return false;
+  }
+  
+  if (has('name') && (typeof engine.name !== 'string' || engine.name.trim().length === 0 || engine.name.length > 100)) {
+    return false;
+  }
+  
+  if (has('url_template') && !isValidSearchTemplate(engine.url_template)) {
+    return false;
+  }
+  
+  if (has('keyword') && (typeof engine.keyword !== 'string' || !/^\S{1,32}$/.test(engine.keyword))) {
+    return false;
+  }
+  
+  if (has('suggest_url') && engine.suggest_url !== '' && !isValidSearchTemplate(engine.suggest_url)) {
+    return false;
+  }
+  
+  return true;
+}
+
+/**
+ * Valida os campos de um grupo de abas vindos do IPC
+ * 
+ * @param input - Dados a serem validados (pode ser de qualquer tipo)
+ * @returns true se os dados são válidos, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas (todos os campos são opcionais):
+ * - name: string com até 50 caracteres (vazia = grupo sem nome)
+ * - color: uma das cores de TAB_GROUP_COLORS
+ * - collapsed: boolean
+ * 
+ * @example
+ * ```typescript
+ * isValidTabGroupInput({ name: 'Projeto', color: 'blue' }); // true
+ * isValidTabGroupInput({ color: 'magenta' }); // false
+ * ```
+ */
+export function isValidTabGroupInput(input: unknown): input is TabGroupInput {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return false;
+  }
+  
+  const group = input as Record<string, unknown>;
+  
+  if (group.name !== undefined && (typeof group.name !== 'string' || group.name.length > TAB_GROUP_MAX_NAME_LENGTH)) {
+    return false;
+  }
+  
+  if (group.color !== undefined && (typeof group.color !== 'string' || !Object.keys(TAB_GROUP_COLORS).includes(group.color))) {
+    return false;
+  }
+  
+  if (group.collapsed !== undefined && typeof group.collapsed !== 'boolean') {
+    return false;
+  }
+  
+  return true;
+}
+
+/**
+ * Valida os campos de um contêiner vindos do IPC
+ * 
+ * @param input - Dados a serem validados (pode ser de qualquer tipo)
+ * @param partial - true na edição (todos os campos passam a ser opcionais)
+ * @returns true se os dados são válidos, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas:
+ * - name: string entre 1 e 50 caracteres
+ * - color: uma das cores de TAB_GROUP_COLORS
+ * - user_agent (opcional): string com até 512 caracteres (vazia = padrão do navegador)
+ * - permissions (opcional): lista de permissões de WEB_PERMISSIONS, ou null para o padrão
+ * 
+ * @example
+ * ```typescript
+ * isValidContainerInput({ name: 'Trabalho', color: 'blue' }); // true
+ * isValidContainerInput({ permissions: ['camera'] }, true); // false
+ * ```
+ */
+export function isValidContainerInput(input: unknown, partial = false): input is ContainerInput {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return false;
+  }
+  
+  const container = input as Record<string, unknown>;
+  const has = (key: string) => container[key] !== undefined;
+  
+  if (!partial && (!has('name') || !has('color'))) {
+    return false;
+  }
+  
+  if (has('name') && (typeof container.name !== 'string' || container.name.trim().length === 0 || container.name.length > TAB_GROUP_MAX_NAME_LENGTH)) {
+    return false;
+  }
+  
+  if (has('color') && (typeof container.color !== 'string' || !Object.keys(TAB_GROUP_COLORS).includes(container.color))) {
+    return false;
+  }
+  
+  if (has('user_agent') && (typeof container.user_agent !== 'string' || container.user_agent.length > 512)) {
+    return false;
+  }
+  
+  if (has('permissions') && container.permissions !== null && (
+    !Array.isArray(container.permissions) ||
+    !container.permissions.every((permission) => typeof permission === 'string' && WEB_PERMISSIONS.includes(permission))
+  )) {
+    return false;
+  }
+  
+  return true;
+}
+
+/**
+ * Valida as alterações da tela dividida vindas do IPC
+ * 
+ * @param input - Dados a serem validados (pode ser de qualquer tipo)
+ * @returns true se os dados são válidos, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas (todos os campos são opcionais):
+ * - orientation: 'horizontal' ou 'vertical'
+ * - ratio: número finito entre 0 e 1 (o main process limita à faixa permitida)
+ * - swap: boolean
+ * 
+ * @example
+ * ```typescript
+ * isValidSplitViewChanges({ ratio: 0.4 }); // true
+ * isValidSplitViewChanges({ orientation: 'diagonal' }); // false
+ * ```
+ */
+export function isValidSplitViewChanges(input: unknown): input is SplitViewChanges {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return false;
+  }
+  
+  const changes = input as Record<string, unknown>;
+  
+  if (changes.orientation !== undefined && changes.orientation !== 'horizontal' && changes.orientation !== 'vertical') {
+    return false;
+  }
+  
+  if (changes.ratio !== undefined && (typeof changes.ratio !== 'number' || !Number.isFinite(changes.ratio) || changes.ratio < 0 || changes.ratio > 1)) {
+    return false;
+  }
+  
+  if (changes.swap !== undefined && typeof changes.swap !== 'boolean') {
+    return false;
+  }
+  
+  return true;
+}
+
+/**
+ * Valida o nome de uma sessão nomeada
+ * 
+ * @param name - Nome a ser validado (pode ser de qualquer tipo)
+ * @returns true se o nome é válido, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas:
+ * - Deve ser uma string com algum texto além de espaços
+ * - No máximo 100 caracteres
+ */
+export function isValidSessionName(name: unknown): name is string {
+  return typeof name === 'string' && name.trim().length > 0 && name.length <= SESSION_MAX_NAME_LENGTH;
+}
+
+// Esquemas que uma aba de sessão pode abrir (arquivos importados não podem trazer javascript:, data: etc.)
+const SESSION_URL_PATTERN = /^(https?:\/\/|hera:\/\/|file:\/\/|about:blank$)/i;
+
+const isOptionalType = (value: unknown, type: 'string' | 'number' | 'boolean'): boolean =>
+  value === undefined || value === null || typeof value === type;
+
+const isSessionNavigationEntry = (item: unknown): boolean => {
+  if (typeof item !== 'object' || item === null) return false;
+  const entry = item as Record<string, unknown>;
+  return typeof entry.url === 'string' && SESSION_URL_PATTERN.test(entry.url) && typeof entry.title === 'string';
+};
+
+/**
+ * Verifica se um objeto é uma sessão (abas, grupos e janelas) válida
+ * 
+ * Usado ao ler sessões nomeadas do banco e ao importar arquivos JSON.
+ * 
+ * @param obj - Objeto a ser validado (pode ser de qualquer tipo)
+ * @returns true se o objeto é um SessionSnapshot válido, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas:
+ * - tabs: até 2000 abas, cada uma com id, url, title e position; a URL
+ *   (e as do histórico de voltar/avançar) deve ser http(s), hera://, file:// ou about:blank
+ * - groups: id, name e uma das cores de TAB_GROUP_COLORS
+ * - windows: id, width e height numéricos
+ * - Campos opcionais, quando presentes, precisam ter o tipo certo
+ * 
+ * @example
+ * ```typescript
+ * isSessionSnapshot({ tabs: [], groups: [], windows: [] }); // true
+ * isSessionSnapshot({ tabs: [{ url: 'javascript:alert(1)' }] }); // false
+ * ```
+ */
+export function isSessionSnapshot(obj: unknown): obj is SessionSnapshot {
+  if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+    return false;
+  }
+  
+  const snapshot = obj as Record<string, unknown>;
+  if (!Array.isArray(snapshot.tabs) || !Array.isArray(snapshot.groups) || !Array.isArray(snapshot.windows)) {
+    return false;
+  }
+  
+  if (snapshot.tabs.length > SESSION_MAX_TABS) {
+    return false;
+  }
+  
+  const tabsValid = snapshot.tabs.every((item: unknown) => {
+    if (typeof item !== 'object' || item === null) return false;
+    const tab = item as Record<string, unknown>;
+    return typeof tab.id === 'string' &&
+      typeof tab.url === 'string' && SESSION_URL_PATTERN.test(tab.url) &&
+      typeof tab.title === 'string' &&
+      typeof tab.position === 'number' &&
+      isOptionalType(tab.active, 'boolean') &&
+      isOptionalType(tab.favicon, 'string') &&
+      isOptionalType(tab.pinned, 'boolean') &&
+      isOptionalType(tab.group_id, 'string') &&
+      isOptionalType(tab.window_id, 'number') &&
+      isOptionalType(tab.container_id, 'string') &&
+      isOptionalType(tab.opener_id, 'string') &&
+      isOptionalType(tab.navigation_index, 'number') &&
+      isOptionalType(tab.scroll_x, 'number') &&
+      isOptionalType(tab.scroll_y, 'number') &&
+      isOptionalType(tab.zoom_level, 'number') &&
+      (tab.navigation_entries === undefined || (Array.isArray(tab.navigation_entries) && tab.navigation_entries.every(isSessionNavigationEntry)));
+  });
+  if (!tabsValid) {
+    return false;
+  }
+  
+  const groupsValid = snapshot.groups.every((item: unknown) => {
+    if (typeof item !== 'object' || item === null) return false;
+    const group = item as Record<string, unknown>;
+    return typeof group.id === 'string' &&
+      typeof group.name === 'string' && group.name.length <= TAB_GROUP_MAX_NAME_LENGTH &&
+      typeof group.color === 'string' && Object.keys(TAB_GROUP_COLORS).includes(group.color) &&
+      isOptionalType(group.collapsed, 'boolean');
+  });
+  if (!groupsValid) {
+    return false;
+  }
+  
+  return snapshot.windows.every((item: unknown) => {
+    if (typeof item !== 'object' || item === null) return false;
+    const savedWindow = item as Record<string, unknown>;
+    return typeof savedWindow.id === 'number' &&
+      typeof savedWindow.width === 'number' &&
+      typeof savedWindow.height === 'number' &&
+      isOptionalType(savedWindow.x, 'number') &&
+      isOptionalType(savedWindow.y, 'number') &&
+      isOptionalType(savedWindow.maximized, 'boolean') &&
+      (savedWindow.split_tabs === undefined || (Array.isArray(savedWindow.split_tabs) && savedWindow.split_tabs.length === 2 &&
+        savedWindow.split_tabs.every((position: unknown) => typeof position === 'number'))) &&
+      (savedWindow.split_orientation === undefined || savedWindow.split_orientation === 'horizontal' || savedWindow.split_orientation === 'vertical') &&
+      isOptionalType(savedWindow.split_ratio, 'number');
+  });
+}
+
+/**
+ * Verifica se um objeto é um arquivo de sessão exportada válido
+ * 
+ * @param obj - Conteúdo do arquivo JSON já interpretado (pode ser de qualquer tipo)
+ * @returns true se o objeto é um SessionExportFile válido, false caso contrário
+ * 
+ * @remarks
+ * Validações realizadas:
+ * - format deve ser 'hera-session' e version deve ser 1
+ * - name deve passar em isValidSessionName
+ * - snapshot deve passar em isSessionSnapshot
+ * 
+ * @example
+ * ```typescript
+ * const data: unknown = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+ * if (isSessionExportFile(data)) {
+ *   addSession(uuidv4(), data.name, data.snapshot);
+ * }
+ * ```
+ */
+export function isSessionExportFile(obj: unknown): obj is SessionExportFile {
+  if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+    return false;
+  }
+  
+  const file = obj as Record<string, unknown>;
+  return file.format === SESSION_EXPORT_FORMAT &&
+    file.version === SESSION_EXPORT_VERSION &&
+    isValidSessionName(file.name) &&
+    isSessionSnapshot(file.snapshot);
+}
+
+/**
+ * Valida o que importar de um perfil de outro navegador
+ * 
+ * @param obj - Opções vindas da página (podem ser de qualquer tipo)
+ * @returns true se history e bookmarks são booleanos e pelo menos um está marcado
+ */
+export function isValidBrowserImportOptions(obj: unknown): obj is BrowserImportOptions {
+  if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+    return false;
+  }
+
+  const options = obj as Record<string, unknown>;
+  return typeof options.history === 'boolean' &&
+    typeof options.bookmarks === 'boolean' &&
+    (options.history === true || options.bookmarks === true);
+}
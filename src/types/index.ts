@@ -11,8 +11,32 @@ export type { HeraAPI } from './api.types';
 // Database Types
 export type {
   HistoryEntry,
+  HistorySearchOptions,
+  HistorySearchResult,
+  VisitTransition,
+  VisitEntry,
+  SearchEngine,
+  SearchEngineInput,
+  TabNavigationEntry,
+  ClosedTab,
+  ClosedTabState,
+  TabGroup,
+  TabGroupColor,
+  TabGroupInput,
+  Container,
+  ContainerInput,
+  WindowState,
+  SplitViewOrientation,
+  SessionSnapshot,
+  NamedSession,
+  NamedSessionState,
+  SessionExportFile,
   Bookmark,
   BookmarkFolder,
+  BookmarkInput,
+  BookmarkTreeNode,
+  BookmarkImportResult,
+  ImportedHistoryEntry,
   TabState
 } from './database.types';
 
@@ -23,7 +47,20 @@ export type {
   NavigationState,
   OmniboxSuggestion,
   OmniboxSuggestionType,
-  DownloadInfo
+  OmniboxAnchor,
+  TabSearchResult,
+  TabSearchResultType,
+  SplitViewLayout,
+  TabLayout,
+  TabLayoutMode,
+  SplitViewChanges,
+  InlineCompletion,
+  DownloadInfo,
+  BrowserProfile,
+  BrowserProfileKind,
+  BrowserImportOptions,
+  BrowserImportProgress,
+  BrowserImportResult
 } from './ui.types';
 
 // IPC Callback Types
@@ -33,6 +70,9 @@ export type {
   TabUpdatedCallback,
   TabClosedCallback,
   TabLoadingCallback,
+  TabMovedCallback,
+  TabGroupUpdatedCallback,
+  TabGroupRemovedCallback,
   UIVisibilityCallback,
   WindowMaximizedCallback,
   GenericCallback,
@@ -1,4 +1,5 @@
 import { TabInfo, TabUpdateInfo, DownloadInfo } from './ui.types';
+import { TabGroup } from './database.types';
 
 /**
  * Callback para evento de aba criada
@@ -35,6 +36,27 @@ export type TabClosedCallback = (id: string) => void;
  */
 export type TabLoadingCallback = (id: string, isLoading: boolean) => void;
 
+/**
+ * Callback para evento de aba movida
+ * 
+ * Chamado quando uma aba muda de posição na barra (ex: ao ser fixada).
+ */
+export type TabMovedCallback = (id: string, position: number) => void;
+
+/**
+ * Callback para evento de grupo de abas criado ou alterado
+ * 
+ * Chamado com o estado completo do grupo (nome, cor, recolhido).
+ */
+export type TabGroupUpdatedCallback = (group: TabGroup) => void;
+
+/**
+ * Callback para evento de grupo de abas removido
+ * 
+ * Chamado quando o grupo é desfeito ou perde sua última aba.
+ */
+export type TabGroupRemovedCallback = (groupId: string) => void;
+
 /**
  * Callback para evento de visibilidade da UI
  * 
@@ -1,3 +1,5 @@
+import type { SplitViewOrientation, BookmarkImportResult } from './database.types';
+
 /**
  * Informações básicas de uma aba
  * 
@@ -13,6 +15,18 @@ export interface TabInfo {
   url: string;
   /** URL do favicon */
   favicon?: string;
+  /** Posição na barra de abas (omitido = no fim) */
+  position?: number;
+  /** Aba criada em segundo plano: não se torna a aba ativa */
+  background?: boolean;
+  /** Aba fixada: fica à esquerda da barra e mostra apenas o ícone */
+  pinned?: boolean;
+  /** ID do grupo de abas (omitido = sem grupo) */
+  groupId?: string;
+  /** ID do contêiner da aba (omitido = sem contêiner) */
+  containerId?: string;
+  /** ID da aba a partir da qual esta foi aberta (a árvore das abas na barra lateral) */
+  openerId?: string;
 }
 
 /**
@@ -30,6 +44,14 @@ export interface TabUpdateInfo {
   favicon?: string;
   /** Estado de carregamento */
   loading?: boolean;
+  /** Aba descarregada da memória (recarrega ao ser ativada) */
+  discarded?: boolean;
+  /** Aba fixada ou desafixada */
+  pinned?: boolean;
+  /** Novo grupo da aba (null = removida do grupo) */
+  groupId?: string | null;
+  /** Nova aba de origem na árvore (null = a aba passou para o primeiro nível) */
+  openerId?: string | null;
 }
 
 /**
@@ -46,8 +68,10 @@ export interface NavigationState {
 
 /**
  * Tipos de sugestões do omnibox
+ * 
+ * - `tab`: aba já aberta (selecionar alterna para ela)
  */
-export type OmniboxSuggestionType = 'history' | 'bookmark' | 'search';
+export type OmniboxSuggestionType = 'history' | 'bookmark' | 'tab' | 'search';
 
 /**
  * Sugestão do omnibox
@@ -64,6 +88,165 @@ export interface OmniboxSuggestion {
   url: string;
   /** Favicon da sugestão (se disponível) */
   favicon?: string;
+  /** ID da aba aberta (apenas para sugestões do tipo `tab`) */
+  tabId?: string;
+  /**
+   * Pontuação usada na ordenação (frecency)
+   * 
+   * @remarks
+   * Combina quantidade e recência das visitas; maior aparece primeiro
+   */
+  score?: number;
+}
+
+/**
+ * Autocompletar inline da barra de endereços
+ * 
+ * O texto é exibido após o que o usuário digitou, como seleção.
+ * 
+ * @example
+ * ```typescript
+ * // Usuário digitou "git"
+ * const completion: InlineCompletion = {
+ *   text: 'github.com',
+ *   url: 'https://github.com/'
+ * };
+ * ```
+ */
+export interface InlineCompletion {
+  /** Texto completo sugerido (começa com o texto digitado, ignorando maiúsculas) */
+  text: string;
+  /** URL a ser aberta se a sugestão for aceita (com o protocolo correto) */
+  url: string;
+}
+
+/**
+ * Posição da barra de endereços, usada para ancorar o omnibox
+ * 
+ * Coordenadas em pixels relativas à área de conteúdo da janela.
+ */
+export interface OmniboxAnchor {
+  /** Posição horizontal da borda esquerda */
+  x: number;
+  /** Posição vertical da borda inferior da barra de endereços */
+  y: number;
+  /** Largura da barra de endereços */
+  width: number;
+}
+
+/**
+ * Origem de um resultado da busca de abas
+ * 
+ * - `open`: aba aberta em qualquer janela (selecionar alterna para ela)
+ * - `closed`: aba fechada recentemente (selecionar reabre na janela atual)
+ */
+export type TabSearchResultType = 'open' | 'closed';
+
+/**
+ * Resultado da busca de abas (Ctrl+Shift+A)
+ * 
+ * @remarks
+ * Montado no main process a partir das abas abertas de todas as janelas
+ * e das abas fechadas recentemente. Janelas privadas só veem as próprias abas.
+ * 
+ * @example
+ * ```typescript
+ * const result: TabSearchResult = {
+ *   type: 'open',
+ *   title: 'GitHub',
+ *   url: 'https://github.com/',
+ *   tabId: 'tab-3',
+ *   windowNumber: 2,
+ *   active: false
+ * };
+ * ```
+ */
+export interface TabSearchResult {
+  /** Aba aberta ou fechada recentemente */
+  type: TabSearchResultType;
+  /** Título da aba (ou a URL, se a página não tem título) */
+  title: string;
+  /** URL da aba */
+  url: string;
+  /** Favicon da aba (se disponível) */
+  favicon?: string;
+  /** ID da aba aberta (apenas para resultados do tipo `open`) */
+  tabId?: string;
+  /** ID da aba fechada (apenas para resultados do tipo `closed`) */
+  closedTabId?: number;
+  /** Número da janela da aba, a partir de 1 (omitido quando a aba está na janela atual) */
+  windowNumber?: number;
+  /** Se é a aba ativa da janela atual */
+  active?: boolean;
+}
+
+/**
+ * Onde ficam as abas: na barra do topo ou na barra lateral
+ */
+export type TabLayoutMode = 'horizontal' | 'vertical';
+
+/**
+ * Disposição das abas, compartilhada por todas as janelas
+ * 
+ * @remarks
+ * Salva nas configurações `tabLayout` e `verticalTabsWidth`.
+ * 
+ * @example
+ * ```typescript
+ * const layout: TabLayout = { mode: 'vertical', sidebarWidth: 240 };
+ * ```
+ */
+export interface TabLayout {
+  /** Barra do topo (`horizontal`) ou barra lateral à esquerda (`vertical`) */
+  mode: TabLayoutMode;
+  /** Largura da barra lateral, em pixels (160 a 480) */
+  sidebarWidth: number;
+}
+
+/**
+ * Posição da tela dividida na janela, enviada à UI para desenhar a divisória
+ * 
+ * Coordenadas em pixels relativas à área de conteúdo da janela.
+ * 
+ * @example
+ * ```typescript
+ * const layout: SplitViewLayout = {
+ *   tabIds: ['tab-1', 'tab-2'],
+ *   orientation: 'horizontal',
+ *   ratio: 0.5,
+ *   area: { x: 0, y: 130, width: 1200, height: 670 },
+ *   divider: { x: 597, y: 130, width: 6, height: 670 }
+ * };
+ * ```
+ */
+export interface SplitViewLayout {
+  /** Abas da tela dividida (a primeira à esquerda ou em cima) */
+  tabIds: [string, string];
+  /** Lado a lado (`horizontal`) ou uma em cima da outra (`vertical`) */
+  orientation: SplitViewOrientation;
+  /** Fração da área ocupada pela primeira aba */
+  ratio: number;
+  /** Área ocupada pelas duas abas, incluindo a divisória */
+  area: { x: number; y: number; width: number; height: number };
+  /** Posição da divisória arrastável */
+  divider: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Alterações na tela dividida pedidas pela UI
+ * 
+ * @example
+ * ```typescript
+ * const changes: SplitViewChanges = { orientation: 'vertical', ratio: 0.6 };
+ * ```
+ */
+export interface SplitViewChanges {
+  /** Nova organização das abas */
+  orientation?: SplitViewOrientation;
+  /** Nova fração da primeira aba (limitada entre 0.2 e 0.8) */
+  ratio?: number;
+  /** Troca as duas abas de lado */
+  swap?: boolean;
 }
 
 /**
@@ -85,3 +268,79 @@ export interface DownloadInfo {
   /** Caminho completo do arquivo baixado (disponível quando completo) */
   path?: string;
 }
+
+/**
+ * Família do navegador de um perfil importável
+ * 
+ * - `chromium`: Chrome, Chromium, Edge e Brave (arquivos `History` e `Bookmarks`)
+ * - `firefox`: Firefox (arquivo `places.sqlite`)
+ */
+export type BrowserProfileKind = 'chromium' | 'firefox';
+
+/**
+ * Perfil de outro navegador encontrado no disco (assistente de importação em hera://settings)
+ * 
+ * @remarks
+ * O main process guarda os perfis encontrados; a importação recebe só o ID,
+ * nunca um caminho vindo da página.
+ * 
+ * @example
+ * ```typescript
+ * const profile: BrowserProfile = {
+ *   id: 'chrome:Default',
+ *   kind: 'chromium',
+ *   browser: 'Google Chrome',
+ *   name: 'Pessoa 1',
+ *   path: 'C:\\Users\\ana\\AppData\\Local\\Google\\Chrome\\User Data\\Default',
+ *   hasHistory: true,
+ *   hasBookmarks: true
+ * };
+ * ```
+ */
+export interface BrowserProfile {
+  /** ID do perfil nesta execução do navegador */
+  id: string;
+  kind: BrowserProfileKind;
+  /** Nome do navegador (ex: 'Google Chrome', 'Firefox') */
+  browser: string;
+  /** Nome do perfil dado pelo usuário no outro navegador */
+  name: string;
+  /** Pasta do perfil */
+  path: string;
+  hasHistory: boolean;
+  hasBookmarks: boolean;
+}
+
+/**
+ * O que importar de um perfil
+ */
+export interface BrowserImportOptions {
+  history: boolean;
+  bookmarks: boolean;
+}
+
+/**
+ * Progresso da importação, enviado à página pelo evento `browser-import:progress`
+ * 
+ * @remarks
+ * `done` e `total` contam entradas do histórico (ou favoritos) da etapa atual.
+ */
+export interface BrowserImportProgress {
+  stage: 'reading' | 'history' | 'bookmarks';
+  done: number;
+  total: number;
+}
+
+/**
+ * Resumo de uma importação de perfil
+ * 
+ * @remarks
+ * - historyDuplicates conta as URLs que já tinham sido importadas antes (mesma última visita)
+ * - bookmarks é null quando os favoritos não foram escolhidos ou o perfil não tem favoritos
+ */
+export interface BrowserImportResult {
+  history: number;
+  visits: number;
+  historyDuplicates: number;
+  bookmarks: BookmarkImportResult | null;
+}